@@ -11,6 +11,9 @@ import { getSessionCookieName } from "@/lib/auth";
 
 const PROTECTED_PREFIXES = [
   "/dashboard",
+  "/invoices",
+  "/quotes",
+  "/customers",
   "/billing",
   "/settings",
   "/downloads", // 🔥 THIS WAS THE BUG
@@ -30,6 +33,7 @@ const PUBLIC_PATHS = new Set<string>([
   "/privacy",
   "/verify-email", // ✅ allow email verification page
   "/otp",          // ✅ (optional) if you want OTP page always reachable
+  "/two-factor",   // authenticator code step after password / OTP
 ]);
 
 function isProtectedPath(pathname: string) {
@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "CompanySettings" ADD COLUMN "syncRevision" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "syncRevision" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "syncRevision" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "syncRevision" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CompanySyncCounter" (
+    "companyId" TEXT NOT NULL,
+    "lastRevision" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CompanySyncCounter_pkey" PRIMARY KEY ("companyId")
+);
+
+-- Backfill: number existing rows per company in the order clients have seen them so far
+CREATE TEMP TABLE "_SyncRevisionBackfill" AS
+SELECT
+  s."entity",
+  s."id",
+  s."companyId",
+  ROW_NUMBER() OVER (
+    PARTITION BY s."companyId"
+    ORDER BY s."updatedAt", s."id", s."entity"
+  )::INTEGER AS "revision"
+FROM (
+  SELECT 'company-settings' AS "entity", "id", "companyId", "updatedAt" FROM "CompanySettings"
+  UNION ALL
+  SELECT 'customer', "id", "companyId", "updatedAt" FROM "Customer"
+  UNION ALL
+  SELECT 'quote', "id", "companyId", "updatedAt" FROM "Quote"
+  UNION ALL
+  SELECT 'invoice', "id", "companyId", "updatedAt" FROM "Invoice"
+) s;
+
+UPDATE "CompanySettings" t SET "syncRevision" = b."revision"
+FROM "_SyncRevisionBackfill" b
+WHERE b."entity" = 'company-settings' AND b."id" = t."id";
+
+UPDATE "Customer" t SET "syncRevision" = b."revision"
+FROM "_SyncRevisionBackfill" b
+WHERE b."entity" = 'customer' AND b."id" = t."id";
+
+UPDATE "Quote" t SET "syncRevision" = b."revision"
+FROM "_SyncRevisionBackfill" b
+WHERE b."entity" = 'quote' AND b."id" = t."id";
+
+UPDATE "Invoice" t SET "syncRevision" = b."revision"
+FROM "_SyncRevisionBackfill" b
+WHERE b."entity" = 'invoice' AND b."id" = t."id";
+
+INSERT INTO "CompanySyncCounter" ("companyId", "lastRevision", "updatedAt")
+SELECT "companyId", MAX("revision"), NOW()
+FROM "_SyncRevisionBackfill"
+GROUP BY "companyId";
+
+DROP TABLE "_SyncRevisionBackfill";
+
+-- CreateIndex
+CREATE INDEX "CompanySettings_companyId_syncRevision_idx" ON "CompanySettings"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "Customer_companyId_syncRevision_idx" ON "Customer"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "Quote_companyId_syncRevision_idx" ON "Quote"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "Invoice_companyId_syncRevision_idx" ON "Invoice"("companyId", "syncRevision");
+
+-- AddForeignKey
+ALTER TABLE "CompanySyncCounter" ADD CONSTRAINT "CompanySyncCounter_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
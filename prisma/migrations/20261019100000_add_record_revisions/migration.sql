@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "RecordRevision" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "syncRevision" INTEGER NOT NULL,
+    "recordUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecordRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecordRevision_companyId_entityId_recordUpdatedAt_idx" ON "RecordRevision"("companyId", "entityId", "recordUpdatedAt");
+
+-- CreateIndex
+CREATE INDEX "RecordRevision_userId_idx" ON "RecordRevision"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordRevision_companyId_entityType_entityId_syncRevision_key" ON "RecordRevision"("companyId", "entityType", "entityId", "syncRevision");
+
+-- AddForeignKey
+ALTER TABLE "RecordRevision" ADD CONSTRAINT "RecordRevision_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordRevision" ADD CONSTRAINT "RecordRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "RecordRevision" ADD COLUMN     "action" TEXT NOT NULL DEFAULT 'update',
+ADD COLUMN     "sessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "RecordRevision_sessionId_idx" ON "RecordRevision"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "RecordRevision" ADD CONSTRAINT "RecordRevision_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "QuoteLineItem" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "productId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "unitPrice" DECIMAL(18,4) NOT NULL,
+    "discount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "vatRate" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "lineSubtotal" DECIMAL(18,2) NOT NULL,
+    "lineVat" DECIMAL(18,2) NOT NULL,
+    "lineTotal" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceLineItem" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "productId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "unitPrice" DECIMAL(18,4) NOT NULL,
+    "discount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "vatRate" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "lineSubtotal" DECIMAL(18,2) NOT NULL,
+    "lineVat" DECIMAL(18,2) NOT NULL,
+    "lineTotal" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuoteLineItem_quoteId_position_idx" ON "QuoteLineItem"("quoteId", "position");
+
+-- CreateIndex
+CREATE INDEX "QuoteLineItem_productId_idx" ON "QuoteLineItem"("productId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLineItem_invoiceId_position_idx" ON "InvoiceLineItem"("invoiceId", "position");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLineItem_productId_idx" ON "InvoiceLineItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "QuoteLineItem" ADD CONSTRAINT "QuoteLineItem_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLineItem" ADD CONSTRAINT "InvoiceLineItem_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
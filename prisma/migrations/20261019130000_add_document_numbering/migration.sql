@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE "DocumentNumberCounter" (
+    "companyId" TEXT NOT NULL,
+    "documentType" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentNumberCounter_pkey" PRIMARY KEY ("companyId","documentType","prefix")
+);
+
+-- AddForeignKey
+ALTER TABLE "DocumentNumberCounter" ADD CONSTRAINT "DocumentNumberCounter_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing duplicates: the oldest document keeps its number, later ones get a
+-- "-2", "-3", ... suffix and a fresh sync revision so devices pull the rename.
+CREATE TEMP TABLE "_DuplicateDocumentNumbers" AS
+SELECT
+  d."entity",
+  d."id",
+  d."companyId",
+  d."number" || '-' || d."occurrence" AS "newNumber",
+  ROW_NUMBER() OVER (PARTITION BY d."companyId" ORDER BY d."entity", d."id")::INTEGER AS "step"
+FROM (
+  SELECT 'invoice' AS "entity", "id", "companyId", "number",
+    ROW_NUMBER() OVER (PARTITION BY "companyId", "number" ORDER BY "createdAt", "id") AS "occurrence"
+  FROM "Invoice"
+  UNION ALL
+  SELECT 'quote', "id", "companyId", "number",
+    ROW_NUMBER() OVER (PARTITION BY "companyId", "number" ORDER BY "createdAt", "id")
+  FROM "Quote"
+) d
+WHERE d."occurrence" > 1;
+
+INSERT INTO "CompanySyncCounter" ("companyId", "lastRevision", "updatedAt")
+SELECT DISTINCT "companyId", 0, NOW()
+FROM "_DuplicateDocumentNumbers"
+ON CONFLICT ("companyId") DO NOTHING;
+
+UPDATE "Invoice" t SET
+  "number" = d."newNumber",
+  "data" = CASE
+    WHEN jsonb_typeof(t."data") = 'object' THEN jsonb_set(t."data", '{number}', to_jsonb(d."newNumber"))
+    ELSE t."data"
+  END,
+  "syncRevision" = c."lastRevision" + d."step",
+  "updatedAt" = NOW()
+FROM "_DuplicateDocumentNumbers" d
+JOIN "CompanySyncCounter" c ON c."companyId" = d."companyId"
+WHERE d."entity" = 'invoice' AND d."id" = t."id";
+
+UPDATE "Quote" t SET
+  "number" = d."newNumber",
+  "data" = CASE
+    WHEN jsonb_typeof(t."data") = 'object' THEN jsonb_set(t."data", '{number}', to_jsonb(d."newNumber"))
+    ELSE t."data"
+  END,
+  "syncRevision" = c."lastRevision" + d."step",
+  "updatedAt" = NOW()
+FROM "_DuplicateDocumentNumbers" d
+JOIN "CompanySyncCounter" c ON c."companyId" = d."companyId"
+WHERE d."entity" = 'quote' AND d."id" = t."id";
+
+UPDATE "CompanySyncCounter" c SET
+  "lastRevision" = c."lastRevision" + s."steps",
+  "updatedAt" = NOW()
+FROM (
+  SELECT "companyId", MAX("step") AS "steps"
+  FROM "_DuplicateDocumentNumbers"
+  GROUP BY "companyId"
+) s
+WHERE s."companyId" = c."companyId";
+
+DROP TABLE "_DuplicateDocumentNumbers";
+
+-- DropIndex
+DROP INDEX "Invoice_companyId_number_idx";
+
+-- DropIndex
+DROP INDEX "Quote_companyId_number_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_companyId_number_key" ON "Invoice"("companyId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quote_companyId_number_key" ON "Quote"("companyId", "number");
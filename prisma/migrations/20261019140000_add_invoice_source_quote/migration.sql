@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "sourceQuoteId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Invoice_sourceQuoteId_idx" ON "Invoice"("sourceQuoteId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_sourceQuoteId_fkey" FOREIGN KEY ("sourceQuoteId") REFERENCES "Quote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "CustomerPayment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "paidOn" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "syncRevision" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CustomerPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomerPayment_userId_idx" ON "CustomerPayment"("userId");
+
+-- CreateIndex
+CREATE INDEX "CustomerPayment_companyId_syncRevision_idx" ON "CustomerPayment"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "CustomerPayment_invoiceId_deletedAt_idx" ON "CustomerPayment"("invoiceId", "deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "CustomerPayment" ADD CONSTRAINT "CustomerPayment_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerPayment" ADD CONSTRAINT "CustomerPayment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerPayment" ADD CONSTRAINT "CustomerPayment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- AlterTable
+ALTER TABLE "CompanySettings" ADD COLUMN "creditNotePrefix" TEXT;
+
+-- CreateTable
+CREATE TABLE "CreditNote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "customerId" TEXT,
+    "customerName" TEXT NOT NULL,
+    "customerAddress" TEXT,
+    "issueDate" TEXT NOT NULL,
+    "reason" TEXT,
+    "publicComments" TEXT,
+    "internalNotes" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'ZAR',
+    "status" TEXT NOT NULL DEFAULT 'issued',
+    "vatRate" DECIMAL(8,2) NOT NULL,
+    "subtotal" DECIMAL(18,2) NOT NULL,
+    "vat" DECIMAL(18,2) NOT NULL,
+    "total" DECIMAL(18,2) NOT NULL,
+    "data" JSONB,
+    "syncRevision" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CreditNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditNoteLineItem" (
+    "id" TEXT NOT NULL,
+    "creditNoteId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "productId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "unitPrice" DECIMAL(18,4) NOT NULL,
+    "discount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "vatRate" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "lineSubtotal" DECIMAL(18,2) NOT NULL,
+    "lineVat" DECIMAL(18,2) NOT NULL,
+    "lineTotal" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditNoteLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_companyId_number_key" ON "CreditNote"("companyId", "number");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_userId_idx" ON "CreditNote"("userId");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_companyId_syncRevision_idx" ON "CreditNote"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_companyId_deletedAt_idx" ON "CreditNote"("companyId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_invoiceId_idx" ON "CreditNote"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_userId_companyId_idx" ON "CreditNote"("userId", "companyId");
+
+-- CreateIndex
+CREATE INDEX "CreditNoteLineItem_creditNoteId_position_idx" ON "CreditNoteLineItem"("creditNoteId", "position");
+
+-- CreateIndex
+CREATE INDEX "CreditNoteLineItem_productId_idx" ON "CreditNoteLineItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNoteLineItem" ADD CONSTRAINT "CreditNoteLineItem_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "CreditNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
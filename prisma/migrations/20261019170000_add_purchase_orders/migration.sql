@@ -0,0 +1,86 @@
+-- AlterTable
+ALTER TABLE "CompanySettings" ADD COLUMN "purchaseOrderPrefix" TEXT;
+
+-- CreateTable
+CREATE TABLE "PurchaseOrder" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "supplierId" TEXT,
+    "supplierName" TEXT NOT NULL,
+    "supplierAddress" TEXT,
+    "issueDate" TEXT NOT NULL,
+    "expectedDeliveryDate" TEXT,
+    "reference" TEXT,
+    "publicComments" TEXT,
+    "internalNotes" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'ZAR',
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "vatRate" DECIMAL(8,2) NOT NULL,
+    "subtotal" DECIMAL(18,2) NOT NULL,
+    "vat" DECIMAL(18,2) NOT NULL,
+    "total" DECIMAL(18,2) NOT NULL,
+    "data" JSONB,
+    "syncRevision" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PurchaseOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PurchaseOrderLineItem" (
+    "id" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "productId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(18,4) NOT NULL,
+    "unitPrice" DECIMAL(18,4) NOT NULL,
+    "discount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "vatRate" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "lineSubtotal" DECIMAL(18,2) NOT NULL,
+    "lineVat" DECIMAL(18,2) NOT NULL,
+    "lineTotal" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PurchaseOrderLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PurchaseOrder_companyId_number_key" ON "PurchaseOrder"("companyId", "number");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_userId_idx" ON "PurchaseOrder"("userId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_companyId_updatedAt_idx" ON "PurchaseOrder"("companyId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_companyId_syncRevision_idx" ON "PurchaseOrder"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_companyId_deletedAt_idx" ON "PurchaseOrder"("companyId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_companyId_supplierId_idx" ON "PurchaseOrder"("companyId", "supplierId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrder_userId_companyId_idx" ON "PurchaseOrder"("userId", "companyId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrderLineItem_purchaseOrderId_position_idx" ON "PurchaseOrderLineItem"("purchaseOrderId", "position");
+
+-- CreateIndex
+CREATE INDEX "PurchaseOrderLineItem_productId_idx" ON "PurchaseOrderLineItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "PurchaseOrder" ADD CONSTRAINT "PurchaseOrder_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PurchaseOrder" ADD CONSTRAINT "PurchaseOrder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PurchaseOrderLineItem" ADD CONSTRAINT "PurchaseOrderLineItem_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "city" TEXT,
+    "companyRegNo" TEXT,
+    "vatNumber" TEXT,
+    "bankName" TEXT,
+    "bankAccountName" TEXT,
+    "bankAccountNo" TEXT,
+    "bankBranchCode" TEXT,
+    "bankAccountType" TEXT,
+    "paymentTermsDays" INTEGER,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "syncRevision" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Supplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Supplier_companyId_deletedAt_idx" ON "Supplier"("companyId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Supplier_companyId_updatedAt_idx" ON "Supplier"("companyId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Supplier_companyId_syncRevision_idx" ON "Supplier"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "Supplier_userId_companyId_idx" ON "Supplier"("userId", "companyId");
+
+-- CreateIndex
+CREATE INDEX "Supplier_userId_idx" ON "Supplier"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Supplier" ADD CONSTRAINT "Supplier_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Supplier" ADD CONSTRAINT "Supplier_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Purchase orders were written before suppliers were tracked; their supplier
+-- ids point at nothing the server knows about.
+UPDATE "PurchaseOrder" SET "supplierId" = NULL WHERE "supplierId" IS NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "PurchaseOrder" ADD CONSTRAINT "PurchaseOrder_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
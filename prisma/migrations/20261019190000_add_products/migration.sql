@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Product" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'product',
+    "sku" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "unitPrice" DECIMAL(18,4) NOT NULL,
+    "vatRate" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "unit" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "syncRevision" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Product_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Product_companyId_deletedAt_idx" ON "Product"("companyId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Product_companyId_sku_idx" ON "Product"("companyId", "sku");
+
+-- CreateIndex
+CREATE INDEX "Product_companyId_syncRevision_idx" ON "Product"("companyId", "syncRevision");
+
+-- CreateIndex
+CREATE INDEX "Product_userId_companyId_idx" ON "Product"("userId", "companyId");
+
+-- CreateIndex
+CREATE INDEX "Product_userId_idx" ON "Product"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
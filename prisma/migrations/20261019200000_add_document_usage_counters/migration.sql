@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "DocumentUsageCounter" (
+    "companyId" TEXT NOT NULL,
+    "documentType" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentUsageCounter_pkey" PRIMARY KEY ("companyId","documentType","period")
+);
+
+-- AddForeignKey
+ALTER TABLE "DocumentUsageCounter" ADD CONSTRAINT "DocumentUsageCounter_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing documents count towards the month (UTC) they were created in,
+-- deleted ones included, so the current month's quota starts where it is.
+INSERT INTO "DocumentUsageCounter" ("companyId", "documentType", "period", "count", "updatedAt")
+SELECT "companyId", 'invoice', to_char("createdAt", 'YYYY-MM'), COUNT(*)::INTEGER, NOW()
+FROM "Invoice"
+GROUP BY "companyId", to_char("createdAt", 'YYYY-MM');
+
+INSERT INTO "DocumentUsageCounter" ("companyId", "documentType", "period", "count", "updatedAt")
+SELECT "companyId", 'quote', to_char("createdAt", 'YYYY-MM'), COUNT(*)::INTEGER, NOW()
+FROM "Quote"
+GROUP BY "companyId", to_char("createdAt", 'YYYY-MM');
+
+INSERT INTO "DocumentUsageCounter" ("companyId", "documentType", "period", "count", "updatedAt")
+SELECT "companyId", 'purchase-order', to_char("createdAt", 'YYYY-MM'), COUNT(*)::INTEGER, NOW()
+FROM "PurchaseOrder"
+GROUP BY "companyId", to_char("createdAt", 'YYYY-MM');
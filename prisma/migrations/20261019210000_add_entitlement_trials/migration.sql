@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "EntitlementTier" ADD VALUE 'trial';
+
+-- CreateEnum
+CREATE TYPE "TrialSource" AS ENUM ('signup', 'admin', 'promo');
+
+-- AlterTable
+ALTER TABLE "Entitlement" ADD COLUMN     "trialEndsAt" TIMESTAMP(3),
+ADD COLUMN     "trialSource" "TrialSource",
+ADD COLUMN     "trialStartedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Entitlement_trialEndsAt_idx" ON "Entitlement"("trialEndsAt");
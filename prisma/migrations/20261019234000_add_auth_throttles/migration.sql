@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AuthThrottle" (
+    "scope" TEXT NOT NULL,
+    "subjectType" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "windowStart" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "blockedUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuthThrottle_pkey" PRIMARY KEY ("scope","subjectType","subject")
+);
+
+-- CreateIndex
+CREATE INDEX "AuthThrottle_blockedUntil_idx" ON "AuthThrottle"("blockedUntil");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "PasskeyChallenge" (
+    "challenge" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PasskeyChallenge_pkey" PRIMARY KEY ("challenge")
+);
+
+-- CreateIndex
+CREATE INDEX "PasskeyChallenge_expiresAt_idx" ON "PasskeyChallenge"("expiresAt");
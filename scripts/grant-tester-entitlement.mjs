@@ -10,6 +10,8 @@ function parseArgs(argv) {
     reason: "Tester access",
     apply: false,
     revoke: false,
+    trial: false,
+    source: "admin",
   };
 
   for (let i = 0; i < argv.length; i += 1) {
@@ -21,75 +23,13 @@ function parseArgs(argv) {
     else if (arg === "--reason") args.reason = String(argv[++i] || "Tester access").trim();
     else if (arg === "--apply") args.apply = true;
     else if (arg === "--revoke") args.revoke = true;
+    else if (arg === "--trial") args.trial = true;
+    else if (arg === "--source") args.source = String(argv[++i] || "admin").trim().toLowerCase();
   }
 
   return args;
 }
 
-function featuresForTier(tier) {
-  if (tier === "pro") {
-    return {
-      readOnly: false,
-      cloudSync: true,
-      storesync: true,
-      maxActiveSessions: 4,
-      limits: {
-        companies: 5,
-        invoices: null,
-        quotes: null,
-        purchaseOrders: null,
-      },
-      manualOverride: true,
-    };
-  }
-
-  if (tier === "growth") {
-    return {
-      readOnly: false,
-      cloudSync: true,
-      storesync: true,
-      maxActiveSessions: 2,
-      limits: {
-        companies: 3,
-        invoices: null,
-        quotes: null,
-        purchaseOrders: null,
-      },
-      manualOverride: true,
-    };
-  }
-
-  if (tier === "starter") {
-    return {
-      readOnly: false,
-      cloudSync: false,
-      storesync: false,
-      maxActiveSessions: 1,
-      limits: {
-        companies: 1,
-        invoices: null,
-        quotes: null,
-        purchaseOrders: null,
-      },
-      manualOverride: true,
-    };
-  }
-
-  return {
-    readOnly: false,
-    cloudSync: false,
-    storesync: false,
-    maxActiveSessions: 1,
-    limits: {
-      companies: 1,
-      invoices: 5,
-      quotes: 5,
-      purchaseOrders: 5,
-    },
-    manualOverride: true,
-  };
-}
-
 async function main() {
   const args = parseArgs(process.argv.slice(2));
 
@@ -124,6 +64,51 @@ async function main() {
   const now = new Date();
   const overrideUntil = new Date(now.getTime() + args.days * 24 * 60 * 60 * 1000);
 
+  if (args.trial) {
+    // A first-class trial: the app downgrades it to free once trialEndsAt passes.
+    if (args.source !== "admin" && args.source !== "promo") {
+      throw new Error(`Invalid --source ${args.source}. Use admin or promo.`);
+    }
+
+    const existing = await prisma.entitlement.findUnique({
+      where: { userId: user.id },
+      select: { features: true },
+    });
+
+    // Drop earlier capability overrides so the trial tier's own apply.
+    const features = { ...(existing?.features ?? {}) };
+    for (const key of ["readOnly", "cloudSync", "storesync", "maxActiveSessions", "maxCompanies", "limits"]) {
+      delete features[key];
+    }
+
+    const trial = {
+      tier: "trial",
+      status: "active",
+      features,
+      trialSource: args.source,
+      trialStartedAt: now,
+      trialEndsAt: overrideUntil,
+    };
+
+    console.log("Grant trial:");
+    console.log({ user, ...trial, apply: args.apply });
+
+    if (!args.apply) {
+      console.log("\nDRY RUN ONLY. Add --apply to write changes.");
+      return;
+    }
+
+    const entitlement = await prisma.entitlement.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...trial },
+      update: trial,
+    });
+
+    console.log("Done. Updated entitlement:");
+    console.log(entitlement);
+    return;
+  }
+
   if (args.revoke) {
     console.log("Revoke tester entitlement:");
     console.log({
@@ -145,7 +130,6 @@ async function main() {
         tier: "free",
         status: "active",
         features: {
-          ...featuresForTier("free"),
           manualOverride: false,
           manualOverrideReason: args.reason,
           manualOverrideRevokedAt: now.toISOString(),
@@ -155,7 +139,6 @@ async function main() {
         tier: "free",
         status: "active",
         features: {
-          ...featuresForTier("free"),
           manualOverride: false,
           manualOverrideReason: args.reason,
           manualOverrideRevokedAt: now.toISOString(),
@@ -168,8 +151,8 @@ async function main() {
     return;
   }
 
+  // Capabilities and limits come from the tier itself; only the override is recorded.
   const features = {
-    ...featuresForTier(args.tier),
     manualOverride: true,
     manualOverrideReason: args.reason,
     manualOverrideUntil: overrideUntil.toISOString(),
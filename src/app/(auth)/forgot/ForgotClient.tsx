@@ -0,0 +1,176 @@
+"use client";
+
+import { useSearchParams, useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+
+type Msg = { type: "success" | "error" | "info"; text: string } | null;
+
+export default function ForgotClient() {
+  const router = useRouter();
+  const sp = useSearchParams();
+
+  const isProd = process.env.NODE_ENV === "production";
+
+  const [email, setEmail] = useState((sp.get("email") ?? "").trim().toLowerCase());
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [msg, setMsg] = useState<Msg>(null);
+
+  // Show dev reset link (if API returns dev_resetUrl in non-prod)
+  const [devResetUrl, setDevResetUrl] = useState<string | null>(null);
+
+  const emailOk = useMemo(() => {
+    const e = email.trim();
+    return e.length >= 5 && e.includes("@") && e.includes(".");
+  }, [email]);
+
+  function showError(text: string) {
+    setMsg({ type: "error", text });
+  }
+
+  function showSuccess(text: string) {
+    setMsg({ type: "success", text });
+  }
+
+  async function requestReset() {
+    if (loading) return;
+    if (!emailOk) return showError("Please enter a valid email address.");
+
+    setLoading(true);
+    setMsg(null);
+    setDevResetUrl(null);
+
+    try {
+      const res = await fetch("/api/auth/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim().toLowerCase() }),
+      });
+
+      const data: { error?: string; dev_resetUrl?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Could not send the reset link");
+      }
+
+      if (!isProd && data.dev_resetUrl) {
+        setDevResetUrl(data.dev_resetUrl);
+      }
+
+      setSent(true);
+      showSuccess(
+        "If an account exists for that email, a reset link is on its way. Check spam/promotions if you don’t see it."
+      );
+    } catch (e: unknown) {
+      showError(e instanceof Error ? e.message : "Could not send the reset link");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const msgClass = (m: Msg) =>
+    !m
+      ? ""
+      : m.type === "success"
+      ? "bg-emerald-50 border-emerald-200 text-emerald-800"
+      : m.type === "error"
+      ? "bg-red-50 border-red-200 text-red-800"
+      : "bg-sky-50 border-sky-200 text-sky-800";
+
+  return (
+    <main className="min-h-screen min-h-[100svh] overflow-hidden bg-[#eef6f7] text-slate-950">
+      <div className="pointer-events-none fixed inset-0 overflow-hidden">
+        <div className="absolute -left-24 -top-28 h-[34rem] w-[48rem] rotate-[-35deg] rounded-[5rem] bg-[#073340]" />
+        <div className="absolute left-[38%] top-0 h-44 w-[30rem] skew-x-[-35deg] bg-[#0f4a55] opacity-95" />
+        <div className="absolute bottom-[-12rem] right-[-10rem] h-[32rem] w-[32rem] rounded-full bg-[#215D63]/10 blur-3xl" />
+      </div>
+
+      <section className="relative flex min-h-screen min-h-[100svh] items-center justify-center px-4 py-2 sm:px-5 lg:px-6">
+        <div className="grid w-full max-w-[1040px] overflow-hidden rounded-[1.35rem] border border-white/45 bg-white/88 shadow-[0_24px_70px_rgba(15,23,42,0.14)] backdrop-blur-xl lg:max-h-[calc(100svh-1rem)] lg:grid-cols-[1.04fr_0.96fr]">
+          <div className="relative overflow-hidden bg-gradient-to-br from-[#073340] via-[#164e59] to-[#277077] px-5 py-5 text-white sm:px-7 lg:px-8 lg:py-6">
+            <div className="pointer-events-none absolute -bottom-32 right-[-9rem] h-[28rem] w-[28rem] rounded-full bg-white/10" />
+
+            <div className="relative flex h-full flex-col justify-center gap-5">
+              <div className="max-w-[520px]">
+                <p className="inline-flex rounded-full bg-white/12 px-3 py-1.5 text-[0.68rem] font-bold uppercase tracking-[0.16em] text-cyan-50 ring-1 ring-white/15">
+                  Account recovery
+                </p>
+                <h1 className="mt-3 max-w-[480px] text-[1.95rem] font-black leading-[1.05] tracking-[-0.03em] text-white sm:text-[2.15rem] lg:text-[2.35rem]">
+                  Forgot your password?
+                </h1>
+                <p className="mt-2.5 max-w-[440px] text-sm font-medium leading-5 text-white/76">
+                  We’ll email you a link to choose a new one. The link works once and expires after a short while.
+                </p>
+              </div>
+
+              <div className="rounded-2xl border border-white/15 bg-white/10 p-3 backdrop-blur">
+                <p className="font-bold text-white">Signed out everywhere</p>
+                <p className="mt-1 text-xs leading-4 text-white/70">
+                  Resetting your password signs out every browser and desktop app using your account.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="relative bg-white px-5 py-5 sm:px-7 lg:px-8 lg:py-6">
+            <div className="relative flex min-h-full flex-col justify-center">
+              <h2 className="text-[1.35rem] font-black tracking-[-0.04em] text-slate-950 sm:text-[1.5rem]">Reset password</h2>
+              <p className="mt-1 max-w-sm text-sm leading-5 text-slate-600">
+                Enter the email address you use to sign in.
+              </p>
+
+              <div className="mt-3.5 space-y-3">
+                {msg && (
+                  <div className={`rounded-2xl border px-4 py-3 text-sm ${msgClass(msg)}`}>{msg.text}</div>
+                )}
+
+                {!isProd && devResetUrl && (
+                  <div className="break-all rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-900">
+                    Dev reset link:{" "}
+                    <a href={devResetUrl} className="font-mono font-semibold underline">
+                      {devResetUrl}
+                    </a>
+                  </div>
+                )}
+
+                <label className="block">
+                  <span className="text-sm font-semibold text-slate-700">Email</span>
+                  <input
+                    className="mt-1.5 w-full rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm outline-none transition focus:border-[#215D63] focus:ring-4 focus:ring-[#215D63]/12 disabled:bg-slate-50 disabled:text-slate-500"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@company.com"
+                    autoComplete="email"
+                    inputMode="email"
+                    disabled={loading}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") requestReset();
+                    }}
+                  />
+                </label>
+
+                <div className="space-y-3 pt-1">
+                  <button
+                    onClick={requestReset}
+                    disabled={loading || !emailOk}
+                    className="w-full rounded-xl bg-[#215D63] py-2.5 font-bold text-white shadow-[0_14px_30px_rgba(33,93,99,0.22)] transition hover:-translate-y-0.5 hover:bg-[#1b5055] disabled:translate-y-0 disabled:opacity-60"
+                    type="button"
+                  >
+                    {loading ? "Sending..." : sent ? "Send another link" : "Email me a reset link"}
+                  </button>
+
+                  <button
+                    onClick={() => router.push("/login")}
+                    className="w-full rounded-xl border border-slate-300 bg-white py-2.5 font-bold text-slate-700 transition hover:-translate-y-0.5 hover:bg-slate-50 hover:shadow-sm"
+                    type="button"
+                  >
+                    Back to login
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,8 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import ForgotClient from "./ForgotClient";
+
+export default function ForgotPage() {
+  return <ForgotClient />;
+}
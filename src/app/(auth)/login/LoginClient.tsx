@@ -3,6 +3,11 @@
 import { useEffect, useMemo, useState } from "react";
 import Image from "next/image";
 import { useRouter, useSearchParams } from "next/navigation";
+import { browserSupportsWebAuthn, startAuthentication } from "@simplewebauthn/browser";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from "@simplewebauthn/browser";
 
 type Msg = { type: "success" | "error" | "info"; text: string } | null;
 
@@ -45,6 +50,8 @@ export default function LoginClient() {
 
   const [pwLoading, setPwLoading] = useState(false);
   const [otpLoading, setOtpLoading] = useState(false);
+  const [passkeyLoading, setPasskeyLoading] = useState(false);
+  const [passkeySupported, setPasskeySupported] = useState(false);
   const [resendLoading, setResendLoading] = useState(false);
   const [msg, setMsg] = useState<Msg>(null);
 
@@ -53,7 +60,7 @@ export default function LoginClient() {
   // Show dev OTP (if API returns devCode in non-prod)
   const [devOtp, setDevOtp] = useState<string | null>(null);
 
-  const isBusy = pwLoading || otpLoading;
+  const isBusy = pwLoading || otpLoading || passkeyLoading;
 
   const emailOk = useMemo(() => {
     const e = email.trim();
@@ -89,6 +96,10 @@ export default function LoginClient() {
     });
   }, [nextUrl, planParam]);
 
+  useEffect(() => {
+    setPasskeySupported(browserSupportsWebAuthn());
+  }, []);
+
   function showError(text: string) {
     setMsg({ type: "error", text });
   }
@@ -145,6 +156,15 @@ export default function LoginClient() {
 
       const data = await res.json().catch(() => ({}));
       if (!res.ok) {
+        if (res.status === 401 && data?.code === "TWO_FACTOR_REQUIRED") {
+          await trackAnalytics("login_password_two_factor_required", {
+            next_url: nextUrl,
+            plan: planParam || undefined,
+          });
+          router.push(`/two-factor?${new URLSearchParams({ next: nextUrl }).toString()}`);
+          return;
+        }
+
         if (res.status === 403 && (data as any)?.code === "EMAIL_NOT_VERIFIED") {
           setNeedsVerify(true);
           await trackAnalytics("login_password_failed", {
@@ -179,6 +199,77 @@ export default function LoginClient() {
     }
   }
 
+  async function loginWithPasskey() {
+    if (isBusy) return;
+
+    await trackAnalytics("login_passkey_attempt", {
+      next_url: nextUrl,
+      plan: planParam || undefined,
+    });
+
+    setPasskeyLoading(true);
+    setMsg(null);
+    setDevOtp(null);
+    setNeedsVerify(false);
+
+    try {
+      const optionsRes = await fetch("/api/auth/passkeys/login/options", {
+        method: "POST",
+        credentials: "include",
+      });
+      const optionsData: { options?: PublicKeyCredentialRequestOptionsJSON; error?: string } = await optionsRes
+        .json()
+        .catch(() => ({}));
+      if (!optionsRes.ok || !optionsData.options) {
+        throw new Error(optionsData.error || "Could not start passkey sign-in.");
+      }
+
+      let response: AuthenticationResponseJSON;
+      try {
+        response = await startAuthentication({ optionsJSON: optionsData.options });
+      } catch (e: unknown) {
+        // The user closed the browser prompt or picked nothing
+        if (e instanceof Error && e.name === "NotAllowedError") {
+          showInfo("Passkey sign-in was cancelled.");
+          return;
+        }
+        throw e;
+      }
+
+      const res = await fetch("/api/auth/passkeys/login/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ response }),
+      });
+
+      const data: { error?: string; code?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (data.code === "EMAIL_NOT_VERIFIED") setNeedsVerify(true);
+
+        await trackAnalytics("login_passkey_failed", {
+          reason: data.code || data.error || `http_${res.status}`,
+          next_url: nextUrl,
+          plan: planParam || undefined,
+        });
+
+        throw new Error(data.error || "Passkey sign-in failed");
+      }
+
+      await trackAnalytics("login_passkey_success", {
+        next_url: nextUrl,
+        plan: planParam || undefined,
+      });
+
+      showSuccess("Login successful. Redirecting...");
+      router.replace(nextUrl);
+    } catch (e: unknown) {
+      showError(e instanceof Error ? e.message : "Passkey sign-in failed");
+    } finally {
+      setPasskeyLoading(false);
+    }
+  }
+
   async function requestOtp() {
     if (isBusy) return;
     if (!emailOk) {
@@ -320,6 +411,15 @@ export default function LoginClient() {
     router.push(registerHref);
   }
 
+  async function handleForgotClick() {
+    await trackAnalytics("login_forgot_password_click", {
+      next_url: nextUrl,
+      plan: planParam || undefined,
+    });
+    const e = email.trim().toLowerCase();
+    router.push(emailOk ? `/forgot?${new URLSearchParams({ email: e }).toString()}` : "/forgot");
+  }
+
   const msgClass = (m: Msg) =>
     !m
       ? ""
@@ -393,7 +493,7 @@ export default function LoginClient() {
                 </div>
                 <div className="rounded-2xl border border-white/15 bg-white/10 p-3 backdrop-blur">
                   <p className="font-bold text-white">Security</p>
-                  <p className="mt-1 text-xs leading-4 text-white/70">Use password login or request an OTP when needed.</p>
+                  <p className="mt-1 text-xs leading-4 text-white/70">Use a passkey, your password, or an emailed OTP.</p>
                 </div>
               </div>
             </div>
@@ -469,16 +569,26 @@ export default function LoginClient() {
                   />
                 </label>
 
-                <label className="flex select-none items-center gap-2 text-sm font-medium text-slate-700">
-                  <input
-                    type="checkbox"
-                    checked={remember}
-                    onChange={(e) => setRemember(e.target.checked)}
-                    disabled={isBusy}
-                    className="h-4 w-4 accent-[#215D63]"
-                  />
-                  Remember me for 7 days
-                </label>
+                <div className="flex items-center justify-between gap-3">
+                  <label className="flex select-none items-center gap-2 text-sm font-medium text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={remember}
+                      onChange={(e) => setRemember(e.target.checked)}
+                      disabled={isBusy}
+                      className="h-4 w-4 accent-[#215D63]"
+                    />
+                    Remember me for 7 days
+                  </label>
+
+                  <button
+                    onClick={handleForgotClick}
+                    className="text-sm font-semibold text-[#215D63] underline underline-offset-2 hover:text-[#173f45]"
+                    type="button"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
 
                 <div className="space-y-3 pt-1">
                   <button
@@ -499,6 +609,17 @@ export default function LoginClient() {
                   >
                     {otpLoading ? "Requesting OTP..." : "Request OTP instead"}
                   </button>
+
+                  {passkeySupported && (
+                    <button
+                      onClick={loginWithPasskey}
+                      disabled={isBusy}
+                      className="w-full rounded-xl border border-[#215D63]/30 bg-[#e8f7f5] py-2.5 font-bold text-[#215D63] transition hover:-translate-y-0.5 hover:bg-[#dcf2ef] hover:shadow-sm disabled:translate-y-0 disabled:opacity-60"
+                      type="button"
+                    >
+                      {passkeyLoading ? "Waiting for passkey..." : "Sign in with a passkey"}
+                    </button>
+                  )}
                 </div>
 
                 <div className="rounded-xl border border-slate-200 bg-slate-50 px-3.5 py-2 text-xs leading-relaxed text-slate-600">
@@ -83,6 +83,10 @@ export default function OtpPage() {
       });
 
       const data = await res.json().catch(() => ({}));
+      if (res.status === 401 && data?.code === "TWO_FACTOR_REQUIRED") {
+        router.push(`/two-factor?${new URLSearchParams({ next: nextUrl }).toString()}`);
+        return;
+      }
       if (!res.ok) throw new Error(data?.error || "OTP verification failed");
 
       showSuccess("OTP verified. Redirecting...");
@@ -0,0 +1,8 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import ResetClient from "./ResetClient";
+
+export default function ResetPage() {
+  return <ResetClient />;
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useSearchParams, useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+
+type Msg = { type: "success" | "error" | "info"; text: string } | null;
+
+export default function TwoFactorClient() {
+  const router = useRouter();
+  const sp = useSearchParams();
+
+  const nextUrl = useMemo(() => {
+    const next = sp.get("next");
+    return next && next.startsWith("/") ? next : "/dashboard";
+  }, [sp]);
+
+  const loginHref = useMemo(() => `/login?${new URLSearchParams({ next: nextUrl }).toString()}`, [nextUrl]);
+
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [expired, setExpired] = useState(false);
+  const [msg, setMsg] = useState<Msg>(null);
+
+  const codeClean = useMemo(() => code.replace(/\D/g, "").slice(0, 6), [code]);
+  const ready = useRecovery ? recoveryCode.trim().length >= 10 : codeClean.length === 6;
+
+  function showError(text: string) {
+    setMsg({ type: "error", text });
+  }
+
+  function showSuccess(text: string) {
+    setMsg({ type: "success", text });
+  }
+
+  async function verify() {
+    if (loading || expired) return;
+    if (!ready) {
+      return showError(useRecovery ? "Please enter one of your recovery codes." : "Please enter the 6-digit code.");
+    }
+
+    setLoading(true);
+    setMsg(null);
+
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(useRecovery ? { recoveryCode: recoveryCode.trim() } : { code: codeClean }),
+      });
+
+      const data: { error?: string; code?: string; recoveryCodesRemaining?: number } = await res
+        .json()
+        .catch(() => ({}));
+
+      if (!res.ok) {
+        if (data.code === "TWO_FACTOR_CHALLENGE_EXPIRED") setExpired(true);
+        throw new Error(data.error || "Verification failed");
+      }
+
+      if (typeof data.recoveryCodesRemaining === "number") {
+        showSuccess(
+          `Signed in with a recovery code. ${data.recoveryCodesRemaining} left — create new ones in Settings if you are running low.`
+        );
+      } else {
+        showSuccess("Verified. Redirecting...");
+      }
+      router.replace(nextUrl);
+    } catch (e: unknown) {
+      showError(e instanceof Error ? e.message : "Verification failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const msgClass = (m: Msg) =>
+    !m
+      ? ""
+      : m.type === "success"
+      ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+      : m.type === "error"
+      ? "border-red-200 bg-red-50 text-red-800"
+      : "border-slate-200 bg-slate-50 text-slate-700";
+
+  return (
+    <main className="min-h-screen min-h-[100svh] overflow-hidden bg-[#eef6f7] text-slate-950">
+      <div className="pointer-events-none absolute -left-24 top-0 h-[520px] w-[620px] -rotate-[34deg] rounded-[5rem] bg-[#073743]" />
+      <div className="pointer-events-none absolute left-[36%] top-0 h-32 w-[620px] -translate-y-12 -rotate-[48deg] bg-[#0a3d47]" />
+
+      <div className="relative z-10 flex min-h-screen min-h-[100svh] items-center justify-center px-4 py-2 sm:px-5 lg:px-6">
+        <div className="grid w-full max-w-[1040px] overflow-hidden rounded-[1.35rem] border border-white/45 bg-white/88 shadow-[0_24px_70px_rgba(15,23,42,0.14)] backdrop-blur-xl lg:max-h-[calc(100svh-1rem)] lg:grid-cols-[1.04fr_0.96fr]">
+          <section className="relative overflow-hidden bg-[#0f5963] px-5 py-5 text-white sm:px-7 lg:px-8 lg:py-6">
+            <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_18%_12%,rgba(255,255,255,0.08),transparent_28%),radial-gradient(circle_at_86%_82%,rgba(91,221,206,0.25),transparent_34%)]" />
+            <div className="pointer-events-none absolute -bottom-28 -right-16 h-80 w-80 rounded-full border-[72px] border-white/10" />
+
+            <div className="relative z-10 flex h-full flex-col justify-center gap-5">
+              <div>
+                <div className="mb-3 inline-flex rounded-full bg-white/12 px-3 py-1.5 text-[0.68rem] font-black uppercase tracking-[0.16em] text-white/90">
+                  Two-factor authentication
+                </div>
+
+                <h1 className="max-w-[480px] text-[1.95rem] font-black leading-[1.05] tracking-[-0.03em] text-white sm:text-[2.15rem] lg:text-[2.35rem]">
+                  One more step to sign in.
+                </h1>
+                <p className="mt-2.5 max-w-[440px] text-sm font-medium leading-5 text-white/76">
+                  Your account is protected with an authenticator app. Open it and enter the current code for eKasiBooks.
+                </p>
+              </div>
+
+              <div className="rounded-2xl border border-white/14 bg-white/12 p-3 shadow-sm backdrop-blur">
+                <p className="font-extrabold text-white">Lost your phone?</p>
+                <p className="mt-1.5 text-xs leading-5 text-white/72">
+                  Use one of the recovery codes you saved when you turned on 2FA. Each code works once.
+                </p>
+              </div>
+            </div>
+          </section>
+
+          <section className="relative bg-white px-5 py-5 sm:px-7 lg:px-8 lg:py-6">
+            <div className="relative z-10 mx-auto flex min-h-full max-w-[430px] flex-col justify-center">
+              <div className="mb-3 flex flex-wrap items-center gap-3">
+                <h2 className="text-[1.35rem] font-black tracking-[-0.04em] text-slate-950 sm:text-[1.5rem]">
+                  {useRecovery ? "Enter a recovery code" : "Enter your code"}
+                </h2>
+                <span className="rounded-full bg-teal-50 px-3 py-1.5 text-[0.68rem] font-black uppercase tracking-[0.14em] text-teal-800">
+                  Verify access
+                </span>
+              </div>
+
+              <div className="mt-3.5 space-y-3">
+                {useRecovery ? (
+                  <label className="block">
+                    <span className="text-sm font-semibold text-slate-800">Recovery code</span>
+                    <input
+                      className="mt-1.5 h-10 w-full rounded-xl border border-slate-300 bg-white px-4 text-center font-mono text-base font-bold tracking-[0.12em] text-slate-950 outline-none transition focus:border-teal-700 focus:ring-4 focus:ring-teal-700/10 disabled:bg-slate-50 disabled:text-slate-500"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="off"
+                      disabled={loading || expired}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") verify();
+                      }}
+                    />
+                  </label>
+                ) : (
+                  <label className="block">
+                    <span className="text-sm font-semibold text-slate-800">Authenticator code</span>
+                    <input
+                      className="mt-1.5 h-10 w-full rounded-xl border border-slate-300 bg-white px-4 text-center text-base font-extrabold tracking-[0.30em] text-slate-950 outline-none transition focus:border-teal-700 focus:ring-4 focus:ring-teal-700/10 disabled:bg-slate-50 disabled:text-slate-500"
+                      value={codeClean}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="000000"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      disabled={loading || expired}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") verify();
+                      }}
+                    />
+                  </label>
+                )}
+
+                {msg && (
+                  <div className={`rounded-xl border px-4 py-2.5 text-sm font-medium ${msgClass(msg)}`}>
+                    {msg.text}
+                  </div>
+                )}
+
+                {expired ? (
+                  <button
+                    type="button"
+                    onClick={() => router.replace(loginHref)}
+                    className="h-10 w-full rounded-xl bg-[#1f6b6f] px-4 font-extrabold text-white shadow-lg shadow-teal-900/10 transition hover:bg-[#195d60]"
+                  >
+                    Sign in again
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={verify}
+                    disabled={loading || !ready}
+                    className="h-10 w-full rounded-xl bg-[#1f6b6f] px-4 font-extrabold text-white shadow-lg shadow-teal-900/10 transition hover:bg-[#195d60] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {loading ? "Working..." : "Verify"}
+                  </button>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecovery((v) => !v);
+                    setMsg(null);
+                  }}
+                  disabled={loading || expired}
+                  className="h-10 w-full rounded-xl border border-slate-300 bg-white px-4 font-extrabold text-slate-950 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {useRecovery ? "Use authenticator code instead" : "Use a recovery code instead"}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => router.push(loginHref)}
+                  className="h-10 w-full rounded-xl border border-slate-300 bg-white px-4 font-extrabold text-slate-950 transition hover:bg-slate-50"
+                >
+                  Back to login
+                </button>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
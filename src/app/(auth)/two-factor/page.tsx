@@ -0,0 +1,8 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import TwoFactorClient from "./TwoFactorClient";
+
+export default function TwoFactorPage() {
+  return <TwoFactorClient />;
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type Props = {
+  role: string;
+  required: boolean;
+};
+
+function cx(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function AdminTwoFactorPolicy({ role, required }: Props) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function toggle() {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/admin/role-policies", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role, requireTwoFactor: !required }),
+      });
+
+      const data = (await res.json().catch(() => null)) as { error?: string } | null;
+
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update the policy.");
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update the policy.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-3 rounded-xl border border-white/14 bg-[#073540]/68 px-3 py-2.5 shadow-[inset_0_1px_0_rgba(255,255,255,0.09)] ring-1 ring-white/10 sm:flex-row sm:items-center sm:justify-between">
+        <div className="min-w-0">
+          <p className="text-xs font-black uppercase tracking-[0.16em] text-white/76">Require 2FA for {role}</p>
+          <p className="mt-0.5 text-xs font-semibold text-white/55">
+            {required
+              ? "Members of this role cannot turn 2FA off and must set it up before using the console."
+              : "Two-factor authentication is optional for this role."}
+          </p>
+        </div>
+
+        <button
+          type="button"
+          disabled={busy}
+          onClick={toggle}
+          className={cx(
+            "shrink-0 rounded-2xl border px-3 py-2 text-xs font-black shadow-sm transition disabled:opacity-60",
+            required
+              ? "border-white/15 bg-white/10 text-white/80 hover:bg-white/15"
+              : "border-teal-200/25 bg-teal-300/15 text-teal-50 hover:-translate-y-[1px] hover:bg-teal-300/20",
+          )}
+        >
+          {busy ? "Saving…" : required ? "Make optional" : "Require 2FA"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-red-200/25 bg-red-300/10 px-4 py-3 text-sm font-bold text-red-50">
+          {error}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -48,6 +48,12 @@ export default async function AdminLayout({
             >
               Users
             </Link>
+            <Link
+              className="inline-flex items-center justify-center rounded-2xl border border-white/15 bg-white px-4 py-2 font-black text-slate-900 shadow-sm transition hover:-translate-y-[1px] hover:bg-white/92"
+              href="/admin/lockouts"
+            >
+              Lockouts
+            </Link>
             <Link
               className="inline-flex items-center justify-center rounded-2xl border border-white/15 bg-[#0b1220] px-4 py-2 font-black text-white shadow-[0_14px_30px_rgba(11,18,32,0.28)] transition hover:-translate-y-[1px] hover:bg-[#111827]"
               href="/dashboard"
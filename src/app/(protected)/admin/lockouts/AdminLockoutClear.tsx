@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type Props = {
+  scope: string;
+  subjectType: string;
+  subject: string;
+};
+
+export default function AdminLockoutClear({ scope, subjectType, subject }: Props) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function clear() {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/admin/lockouts", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope, subjectType, subject }),
+      });
+
+      const data = (await res.json().catch(() => null)) as { error?: string } | null;
+
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to clear the lockout.");
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear the lockout.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        disabled={busy}
+        onClick={clear}
+        className="shrink-0 rounded-2xl border border-teal-200/25 bg-teal-300/15 px-3 py-2 text-xs font-black text-teal-50 shadow-sm transition hover:-translate-y-[1px] hover:bg-teal-300/20 disabled:opacity-60"
+      >
+        {busy ? "Clearing…" : "Clear"}
+      </button>
+      {error ? <span className="text-xs font-bold text-red-100">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import Link from "next/link";
+
+import { prisma } from "@/lib/db";
+
+import AdminLockoutClear from "./AdminLockoutClear";
+
+export const dynamic = "force-dynamic";
+
+const SCOPE_LABELS: Record<string, string> = {
+  account: "Account lockout",
+  login: "Password sign-in",
+  "verify-otp": "OTP sign-in",
+  "two-factor": "Authenticator codes",
+  "request-otp": "OTP emails",
+  register: "Registration",
+  forgot: "Password reset emails",
+};
+
+function fmtDate(value?: Date | string | null) {
+  if (!value) return "—";
+  const d = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-ZA");
+}
+
+function cx(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function badge(text: string, tone: "warn" | "muted" = "muted") {
+  const classes =
+    tone === "warn"
+      ? "border-amber-200/35 bg-amber-300/15 text-amber-50"
+      : "border-white/15 bg-white/10 text-white/78";
+
+  return (
+    <span className={cx("inline-flex rounded-full border px-2.5 py-1 text-xs font-black", classes)}>
+      {text}
+    </span>
+  );
+}
+
+export default async function AdminLockoutsPage() {
+  const blocks = await prisma.authThrottle.findMany({
+    where: { blockedUntil: { gt: new Date() } },
+    orderBy: { blockedUntil: "desc" },
+    take: 200,
+    select: {
+      scope: true,
+      subjectType: true,
+      subject: true,
+      count: true,
+      windowStart: true,
+      blockedUntil: true,
+    },
+  });
+
+  const emails = blocks.filter((b) => b.subjectType === "email").map((b) => b.subject);
+  const users = emails.length
+    ? await prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { id: true, email: true, fullName: true },
+      })
+    : [];
+  const userByEmail = new Map(users.map((u) => [u.email, u]));
+
+  return (
+    <section className="relative overflow-hidden rounded-3xl border border-white/15 bg-[linear-gradient(135deg,rgba(7,53,64,0.94),rgba(16,116,115,0.78))] p-5 text-white shadow-[0_24px_70px_rgba(7,53,64,0.22)] ring-1 ring-white/10 sm:p-6">
+      <div className="pointer-events-none absolute -left-24 -top-32 h-80 w-80 rounded-[5rem] bg-[#062f3a]/70 blur-sm" />
+      <div className="pointer-events-none absolute -right-20 -top-20 h-64 w-64 rounded-[5rem] bg-white/10 blur-sm" />
+
+      <div className="relative">
+        <div className="inline-flex items-center gap-2 rounded-full border border-teal-200/35 bg-teal-300/15 px-3 py-1 text-xs font-black uppercase tracking-[0.12em] text-teal-50 shadow-sm backdrop-blur">
+          <span className="h-2 w-2 rounded-full bg-[#14b8a6] shadow-[0_0_0_4px_rgba(20,184,166,0.16)]" />
+          Admin
+        </div>
+
+        <h2 className="mt-3 text-2xl font-black tracking-tight text-white">Lockouts</h2>
+        <p className="mt-1 max-w-3xl text-sm font-semibold leading-6 text-white/72">
+          Accounts locked after repeated failed sign-ins, and IP addresses or emails slowed down by rate limits.
+          Blocks lift on their own; clear one early once you have confirmed who is asking.
+        </p>
+
+        <div className="mt-5 overflow-hidden rounded-2xl border border-white/15 bg-[#073540]/65 shadow-[inset_0_1px_0_rgba(255,255,255,0.10)] ring-1 ring-white/10">
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[900px] text-left text-sm">
+              <thead className="border-b border-white/10 bg-white/10 text-xs uppercase tracking-[0.16em] text-white/68">
+                <tr>
+                  <th className="px-4 py-3 font-black">Limit</th>
+                  <th className="px-4 py-3 font-black">Subject</th>
+                  <th className="px-4 py-3 font-black">Attempts</th>
+                  <th className="px-4 py-3 font-black">Since</th>
+                  <th className="px-4 py-3 font-black">Blocked until</th>
+                  <th className="px-4 py-3 font-black" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {blocks.length === 0 ? (
+                  <tr>
+                    <td className="px-4 py-8 text-center text-sm font-bold text-white/70" colSpan={6}>
+                      Nothing is locked or rate limited right now.
+                    </td>
+                  </tr>
+                ) : (
+                  blocks.map((block) => {
+                    const user = block.subjectType === "email" ? userByEmail.get(block.subject) : undefined;
+
+                    return (
+                      <tr
+                        key={`${block.scope}:${block.subjectType}:${block.subject}`}
+                        className="transition hover:bg-white/8"
+                      >
+                        <td className="px-4 py-3">
+                          {badge(SCOPE_LABELS[block.scope] ?? block.scope, block.scope === "account" ? "warn" : "muted")}
+                        </td>
+                        <td className="px-4 py-3">
+                          {user ? (
+                            <Link className="font-black text-white hover:text-teal-100" href={`/admin/users/${user.id}`}>
+                              {user.fullName || user.email}
+                            </Link>
+                          ) : (
+                            <div className="font-black text-white">{block.subject}</div>
+                          )}
+                          <div className="mt-0.5 text-xs font-semibold text-white/55">
+                            {block.subjectType === "ip" ? "IP address" : block.subject}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 font-bold text-white/78">{block.count}</td>
+                        <td className="px-4 py-3 font-bold text-white/78">{fmtDate(block.windowStart)}</td>
+                        <td className="px-4 py-3 font-bold text-white/78">{fmtDate(block.blockedUntil)}</td>
+                        <td className="px-4 py-3 text-right">
+                          <AdminLockoutClear
+                            scope={block.scope}
+                            subjectType={block.subjectType}
+                            subject={block.subject}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -2,6 +2,8 @@ import Link from "next/link";
 
 import { prisma } from "@/lib/db";
 
+import AdminTwoFactorPolicy from "./AdminTwoFactorPolicy";
+
 export const dynamic = "force-dynamic";
 
 function fmtNumber(n: number) {
@@ -120,7 +122,16 @@ function SectionCard({
 }
 
 export default async function AdminPage() {
-  const [totalUsers, verifiedUsers, activeSubscriptions, desktopSeen, usersByTier, latestUsers] = await Promise.all([
+  const [
+    totalUsers,
+    verifiedUsers,
+    activeSubscriptions,
+    desktopSeen,
+    usersByTier,
+    latestUsers,
+    adminPolicy,
+    adminsWithoutTwoFactor,
+  ] = await Promise.all([
     prisma.user.count(),
     prisma.user.count({ where: { emailVerifiedAt: { not: null } } }),
     prisma.subscription.count({ where: { status: "active" } }),
@@ -145,6 +156,8 @@ export default async function AdminPage() {
         subscription: { select: { status: true, currentPeriodEnd: true } },
       },
     }),
+    prisma.rolePolicy.findUnique({ where: { role: "admin" }, select: { requireTwoFactor: true } }),
+    prisma.user.count({ where: { role: "admin", totpEnabledAt: null } }),
   ]);
 
   const cards = [
@@ -248,6 +261,17 @@ export default async function AdminPage() {
           </div>
         </SectionCard>
       </section>
+
+      <SectionCard
+        title="Security policy"
+        description={
+          adminsWithoutTwoFactor > 0
+            ? `${fmtNumber(adminsWithoutTwoFactor)} admin account(s) have not set up two-factor authentication yet.`
+            : "Every admin account has two-factor authentication turned on."
+        }
+      >
+        <AdminTwoFactorPolicy role="admin" required={Boolean(adminPolicy?.requireTwoFactor)} />
+      </SectionCard>
     </div>
   );
 }
@@ -6,6 +6,7 @@ import { prisma } from "@/lib/db";
 import AdminUserAccountEditor from "./AdminUserAccountEditor";
 import AdminSessionActions from "./AdminSessionActions";
 import AdminSubscriptionTierEditor from "./AdminSubscriptionTierEditor";
+import AdminTwoFactorReset from "./AdminTwoFactorReset";
 
 export const dynamic = "force-dynamic";
 
@@ -110,6 +111,7 @@ export default async function AdminUserDetailPage({
       createdAt: true,
       updatedAt: true,
       lastLoginAt: true,
+      totpEnabledAt: true,
       emailVerifiedAt: true,
       verifySentAt: true,
       lastDesktopSeenAt: true,
@@ -257,6 +259,18 @@ export default async function AdminUserDetailPage({
             />
             <InfoRow label="Created" value={fmtDate(user.createdAt)} />
             <InfoRow label="Last login" value={fmtDate(user.lastLoginAt)} />
+            <InfoRow
+              label="Two-factor"
+              value={user.totpEnabledAt ? `On since ${fmtDate(user.totpEnabledAt)}` : "Off"}
+            />
+          </div>
+
+          <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm font-semibold text-white/65">
+              Resetting two-factor removes the user’s authenticator app and recovery codes so they can set it up again.
+            </p>
+
+            <AdminTwoFactorReset userId={user.id} enabled={Boolean(user.totpEnabledAt)} />
           </div>
         </Panel>
 
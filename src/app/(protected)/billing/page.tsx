@@ -229,12 +229,18 @@ function TierToggle({
 /* ---------------- Snapshot utils ---------------- */
 
 type Entitlement = {
-  plan?: "FREE" | "STARTER" | "GROWTH" | "PRO" | string;
+  plan?: "FREE" | "TRIAL" | "STARTER" | "GROWTH" | "PRO" | string;
   status?: string;
   amount?: number | null;
   interval?: string | null;
   currentPeriodEnd?: string | null;
   graceUntil?: string | null;
+  trial?: {
+    source?: string | null;
+    startedAt?: string | null;
+    endsAt: string;
+    daysRemaining: number;
+  } | null;
   features?: {
     readOnly?: boolean;
     limits?: {
@@ -805,6 +811,7 @@ export default function BillingPage() {
 
   const renewsAt = ent?.currentPeriodEnd ?? null;
   const graceUntil = ent?.graceUntil ?? null;
+  const trial = ent?.trial ?? null;
 
   const featureReadOnly = !!ent?.features?.readOnly;
 
@@ -996,6 +1003,7 @@ export default function BillingPage() {
       status: ent?.status ?? null,
       currentPeriodEnd: ent?.currentPeriodEnd ?? null,
       graceUntil: ent?.graceUntil ?? null,
+      trial: ent?.trial ?? null,
       features: ent?.features ?? null,
     };
   }, [ent]);
@@ -1040,6 +1048,24 @@ export default function BillingPage() {
             <PortalAlert tone="info">{verifyNote}</PortalAlert>
           ) : null}
 
+          {/* TRIAL STRIP */}
+          {trial ? (
+            <PortalAlert tone="info">
+              <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+                <span className="font-semibold">Free trial active</span>
+                <span className="text-xs">
+                  <span className="font-semibold">{trial.daysRemaining}</span> day
+                  {trial.daysRemaining === 1 ? "" : "s"} remaining • Ends{" "}
+                  <span className="font-semibold">{fmtDate(trial.endsAt)}</span>
+                </span>
+              </div>
+              <div className="mt-1">
+                You have Growth features during your trial. Choose a plan before it ends to keep
+                them, or the account moves to the Free plan.
+              </div>
+            </PortalAlert>
+          ) : null}
+
           <BillingOnboardingView
             userEmail={(user as any)?.email ?? null}
             requestedPlan={requestedPlan}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+
+import {
+  DetailTile,
+  PremiumCard,
+  PortalAlert,
+  PortalButton,
+  PortalSectionHeader,
+  PortalSkeleton,
+} from "@/components/portal/ui";
+import {
+  ReadOnlyNotice,
+  RecordsFetchError,
+  RecordsUnavailable,
+  StatusChip,
+  errorMessage,
+  fetchRecords,
+  formatDay,
+  formatMoney,
+  usePortalFeatures,
+} from "@/components/portal/records";
+import type { DocumentSummary } from "@/components/portal/DocumentBrowser";
+
+type Customer = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  companyRegNo: string | null;
+  vatNumber: string | null;
+  status: string;
+  updatedAt: string;
+  deletedAt: string | null;
+};
+
+const RECENT_LIMIT = 10;
+
+function RecentDocuments({
+  title,
+  path,
+  rows,
+  query,
+}: {
+  title: string;
+  path: string;
+  rows: DocumentSummary[];
+  query: string;
+}) {
+  const router = useRouter();
+
+  return (
+    <PremiumCard>
+      <PortalSectionHeader title={title} />
+      {rows.length === 0 ? (
+        <p className="mt-2 text-sm text-[color:var(--muted)]">Nothing yet.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-[color:var(--border-soft)] text-sm">
+          {rows.map((row) => (
+            <li key={row.id}>
+              <button
+                type="button"
+                onClick={() => router.push(`${path}/${encodeURIComponent(row.id)}?${query}`)}
+                className="flex w-full items-center justify-between gap-3 px-1 py-2 text-left hover:bg-slate-50"
+              >
+                <span className="min-w-0">
+                  <span className="font-semibold">{row.number}</span>
+                  <span className="ml-2 text-[color:var(--muted)]">{formatDay(row.issueDate)}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <StatusChip status={row.status} />
+                  <span className="font-semibold">{formatMoney(row.total, row.currency)}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </PremiumCard>
+  );
+}
+
+export default function CustomerDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const sp = useSearchParams();
+  const { readOnly, loading: featuresLoading } = usePortalFeatures();
+
+  const id = String(params?.id ?? "");
+  const companyId = sp.get("companyId");
+  const query = `companyId=${encodeURIComponent(companyId ?? "")}`;
+
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [invoices, setInvoices] = useState<DocumentSummary[]>([]);
+  const [quotes, setQuotes] = useState<DocumentSummary[]>([]);
+  const [documentsError, setDocumentsError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<{ message: string; status?: number } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!companyId) {
+      setError({ message: "companyId is required." });
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setDocumentsError(null);
+
+    try {
+      const data = await fetchRecords<{ customer?: Customer }>(
+        `/api/customers/${encodeURIComponent(id)}?${query}`
+      );
+      setCustomer(data.customer ?? null);
+    } catch (e) {
+      setError({
+        message: errorMessage(e, "Failed to load customer."),
+        status: e instanceof RecordsFetchError ? e.status : undefined,
+      });
+      setLoading(false);
+      return;
+    }
+
+    const recent = `${query}&customerId=${encodeURIComponent(id)}&sort=issueDate&order=desc&limit=${RECENT_LIMIT}`;
+    try {
+      const [inv, quo] = await Promise.all([
+        fetchRecords<{ invoices?: DocumentSummary[] }>(`/api/invoices?${recent}`),
+        fetchRecords<{ quotes?: DocumentSummary[] }>(`/api/quotes?${recent}`),
+      ]);
+      setInvoices(inv.invoices ?? []);
+      setQuotes(quo.quotes ?? []);
+    } catch (e) {
+      setDocumentsError(errorMessage(e, "Failed to load this customer's documents."));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, companyId, query]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <PortalSkeleton className="h-24 w-full" />
+        <PortalSkeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="space-y-3">
+        <RecordsUnavailable error={error?.message || "Customer not found."} status={error?.status} />
+        <PortalButton type="button" variant="secondary" size="sm" onClick={() => router.push(`/customers?${query}`)}>
+          Back to customers
+        </PortalButton>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!featuresLoading && readOnly ? <ReadOnlyNotice /> : null}
+      {customer.deletedAt ? (
+        <PortalAlert tone="warning" title="Deleted">
+          This customer was deleted on {formatDay(customer.deletedAt)}.
+        </PortalAlert>
+      ) : null}
+
+      <PremiumCard tone="brand">
+        <PortalSectionHeader
+          eyebrow="Customer"
+          title={customer.name}
+          action={
+            <PortalButton type="button" variant="secondary" size="sm" onClick={() => router.push(`/customers?${query}`)}>
+              Back
+            </PortalButton>
+          }
+        />
+        <div className="mt-3 grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+          <DetailTile label="Email" value={customer.email || "—"} />
+          <DetailTile label="Phone" value={customer.phone || "—"} />
+          <DetailTile label="VAT number" value={customer.vatNumber || "—"} />
+          <DetailTile label="Registration no." value={customer.companyRegNo || "—"} />
+        </div>
+        <div className="mt-2 flex items-center gap-2 text-xs text-[color:var(--muted)]">
+          <StatusChip status={customer.status} />
+          <span>Last changed {new Date(customer.updatedAt).toLocaleString()}</span>
+        </div>
+        {customer.address || customer.city ? (
+          <div className="mt-2 whitespace-pre-line text-sm text-[color:var(--muted)]">
+            {[customer.address, customer.city].filter(Boolean).join("\n")}
+          </div>
+        ) : null}
+      </PremiumCard>
+
+      {documentsError ? (
+        <RecordsUnavailable error={documentsError} />
+      ) : (
+        <div className="grid gap-3 lg:grid-cols-2">
+          <RecentDocuments title="Recent invoices" path="/invoices" rows={invoices} query={query} />
+          <RecentDocuments title="Recent quotes" path="/quotes" rows={quotes} query={query} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  PremiumCard,
+  PortalButton,
+  PortalEmptyState,
+  PortalInput,
+  PortalSkeleton,
+  cx,
+} from "@/components/portal/ui";
+import {
+  CompanySwitcher,
+  ReadOnlyNotice,
+  RecordsFetchError,
+  RecordsUnavailable,
+  SortHeader,
+  StatusChip,
+  errorMessage,
+  fetchRecords,
+  formatDay,
+  useActiveCompany,
+  useDebouncedValue,
+  usePortalFeatures,
+  type SortState,
+} from "@/components/portal/records";
+
+type CustomerSortField = "name" | "city" | "status" | "updatedAt";
+
+type CustomerRow = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  city: string | null;
+  vatNumber: string | null;
+  status: string;
+  updatedAt: string;
+};
+
+const PAGE_SIZE = 50;
+const STATUS_FILTERS = ["", "active", "inactive"];
+
+export default function CustomersPage() {
+  const router = useRouter();
+  const { companies, companyId, setCompanyId, loading: companiesLoading, error: companiesError } =
+    useActiveCompany();
+  const { readOnly, loading: featuresLoading } = usePortalFeatures();
+
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("");
+  const [sort, setSort] = useState<SortState<CustomerSortField>>({ field: "name", order: "asc" });
+
+  const [rows, setRows] = useState<CustomerRow[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<{ message: string; status?: number } | null>(null);
+
+  const q = useDebouncedValue(search.trim());
+
+  const load = useCallback(
+    async (offset: number) => {
+      if (!companyId) return;
+      const append = offset > 0;
+      if (append) setLoadingMore(true);
+      else setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        companyId,
+        sort: sort.field,
+        order: sort.order,
+        offset: String(offset),
+        limit: String(PAGE_SIZE),
+      });
+      if (q) params.set("q", q);
+      if (status) params.set("status", status);
+
+      try {
+        const data = await fetchRecords<{ customers?: CustomerRow[]; nextOffset?: number | null }>(
+          `/api/customers?${params.toString()}`
+        );
+        const page = data.customers ?? [];
+        setRows((prev) => (append ? [...prev, ...page] : page));
+        setNextOffset(data.nextOffset ?? null);
+      } catch (e) {
+        setError({
+          message: errorMessage(e, "Failed to load customers."),
+          status: e instanceof RecordsFetchError ? e.status : undefined,
+        });
+        if (!append) setRows([]);
+      } finally {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    },
+    [companyId, sort, q, status]
+  );
+
+  useEffect(() => {
+    void load(0);
+  }, [load]);
+
+  if (companiesLoading) {
+    return <PortalSkeleton className="h-64 w-full" />;
+  }
+
+  if (companiesError) {
+    return <RecordsUnavailable error={companiesError} />;
+  }
+
+  if (companies.length === 0) {
+    return (
+      <PortalEmptyState
+        title="No companies yet"
+        description="Create a company in the desktop app and sync it to browse its customers here."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!featuresLoading && readOnly ? <ReadOnlyNotice /> : null}
+
+      <PremiumCard>
+        <div className="grid gap-3 md:grid-cols-[220px_1fr]">
+          <CompanySwitcher companies={companies} value={companyId} onChange={setCompanyId} />
+          <PortalInput
+            label="Search"
+            placeholder="Name, email, phone, city or VAT number"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-1.5">
+          <span className="mr-1 text-xs font-semibold text-[color:var(--muted)]">Status</span>
+          {STATUS_FILTERS.map((value) => (
+            <button
+              key={value || "all"}
+              type="button"
+              onClick={() => setStatus(value)}
+              aria-pressed={status === value}
+              className={cx(
+                "rounded-full px-2.5 py-1 text-xs font-semibold ring-1 transition",
+                status === value
+                  ? "bg-[color:var(--primary)] text-white ring-transparent"
+                  : "bg-white text-[color:var(--muted)] ring-[color:var(--border-soft)] hover:text-[color:var(--foreground)]"
+              )}
+            >
+              {value ? value.charAt(0).toUpperCase() + value.slice(1) : "All"}
+            </button>
+          ))}
+        </div>
+      </PremiumCard>
+
+      {error ? (
+        <RecordsUnavailable error={error.message} status={error.status} />
+      ) : (
+        <PremiumCard>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <PortalSkeleton key={i} className="h-9 w-full" />
+              ))}
+            </div>
+          ) : rows.length === 0 ? (
+            <PortalEmptyState
+              title="No customers found"
+              description={
+                q || status
+                  ? "Try a different search or status."
+                  : "Customers synced from the desktop app will show up here."
+              }
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[680px] text-sm">
+                <thead className="border-b border-[color:var(--border-soft)]">
+                  <tr>
+                    <SortHeader label="Name" field="name" sort={sort} onSort={setSort} />
+                    <th className="px-3 py-2 text-left text-[11px] font-semibold uppercase tracking-wide text-[color:var(--muted)]">
+                      Contact
+                    </th>
+                    <SortHeader label="City" field="city" sort={sort} onSort={setSort} />
+                    <SortHeader label="Status" field="status" sort={sort} onSort={setSort} />
+                    <SortHeader label="Updated" field="updatedAt" sort={sort} onSort={setSort} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.id}
+                      onClick={() =>
+                        router.push(
+                          `/customers/${encodeURIComponent(row.id)}?companyId=${encodeURIComponent(companyId ?? "")}`
+                        )
+                      }
+                      className="cursor-pointer border-b border-[color:var(--border-soft)] last:border-0 hover:bg-slate-50"
+                    >
+                      <td className="px-3 py-2 font-semibold text-[color:var(--foreground)]">{row.name}</td>
+                      <td className="px-3 py-2 text-[color:var(--muted)]">
+                        {[row.email, row.phone].filter(Boolean).join(" · ") || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-[color:var(--muted)]">{row.city || "—"}</td>
+                      <td className="px-3 py-2">
+                        <StatusChip status={row.status} />
+                      </td>
+                      <td className="px-3 py-2 text-[color:var(--muted)]">{formatDay(row.updatedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {nextOffset != null && !loading ? (
+            <div className="mt-3 flex justify-center">
+              <PortalButton
+                type="button"
+                variant="secondary"
+                size="sm"
+                isLoading={loadingMore}
+                onClick={() => void load(nextOffset)}
+              >
+                Load more
+              </PortalButton>
+            </div>
+          ) : null}
+        </PremiumCard>
+      )}
+    </div>
+  );
+}
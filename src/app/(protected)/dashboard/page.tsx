@@ -16,10 +16,16 @@ import { useSession } from "@/components/portal/session";
    ========================= */
 
 type Entitlement = {
-  plan: "FREE" | "STARTER" | "GROWTH" | "PRO" | string;
+  plan: "FREE" | "TRIAL" | "STARTER" | "GROWTH" | "PRO" | string;
   status: string;
   currentPeriodEnd: string | null;
   graceUntil: string | null;
+  trial: {
+    source: string | null;
+    startedAt: string | null;
+    endsAt: string;
+    daysRemaining: number;
+  } | null;
   features: {
     readOnly: boolean;
     limits: {
@@ -108,6 +114,22 @@ function statusFromEntitlement(ent: any) {
 
   const withinGrace = Number.isFinite(graceUntilMs) && now <= graceUntilMs;
 
+  if (plan === "TRIAL") {
+    const daysLeft = Number(ent?.trial?.daysRemaining);
+    return {
+      label: "TRIAL",
+      tone: "brand" as const,
+      dot: "bg-teal-400",
+      hint: "Free trial with Growth features.",
+      summary: Number.isFinite(daysLeft)
+        ? `You are on a free trial with ${daysLeft} day${daysLeft === 1 ? "" : "s"} remaining. Choose a plan before it ends to keep cloud sync and higher limits.`
+        : "You are on a free trial. Choose a plan before it ends to keep cloud sync and higher limits.",
+      countdownTargetMs: parseDateMs(ent?.trial?.endsAt ?? null),
+      countdownLabel: "Trial ends in",
+      isBillingProblem: false,
+    };
+  }
+
   if (plan === "FREE") {
     return {
       label: "FREE",
@@ -234,6 +256,12 @@ function billingCta(
   planUpper: string,
   status: ReturnType<typeof statusFromEntitlement>,
 ) {
+  if (planUpper === "TRIAL")
+    return {
+      label: "Choose a plan",
+      subtitle: "Keep your trial features",
+      href: "/billing",
+    };
   const isFree = planUpper === "FREE";
   if (isFree)
     return {
@@ -379,6 +407,7 @@ export default function DashboardPage() {
       status: entitlement?.status ?? null,
       currentPeriodEnd: entitlement?.currentPeriodEnd ?? null,
       graceUntil: entitlement?.graceUntil ?? null,
+      trial: entitlement?.trial ?? null,
       features: entitlement?.features ?? null,
     };
   }, [entitlement]);
@@ -577,6 +606,12 @@ export default function DashboardPage() {
                     label="Grace until"
                     value={fmtDate(entitlement?.graceUntil)}
                   />
+                  {entitlement?.trial ? (
+                    <AccessItem
+                      label="Trial days left"
+                      value={String(entitlement.trial.daysRemaining)}
+                    />
+                  ) : null}
                 </div>
 
                 <div className="mt-5 rounded-3xl border border-white/18 bg-slate-950/24 p-4 shadow-[0_14px_40px_rgba(0,0,0,0.12)] ring-1 ring-white/10 backdrop-blur">
@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams, useSearchParams } from "next/navigation";
+
+import { DocumentDetail } from "@/components/portal/DocumentDetail";
+
+export default function InvoiceDetailPage() {
+  const params = useParams<{ id: string }>();
+  const sp = useSearchParams();
+
+  return <DocumentDetail kind="invoice" id={String(params?.id ?? "")} companyId={sp.get("companyId")} />;
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+
+import { DocumentEditor } from "@/components/portal/DocumentEditor";
+
+export default function NewInvoicePage() {
+  const sp = useSearchParams();
+
+  return <DocumentEditor kind="invoice" id={null} companyId={sp.get("companyId")} />;
+}
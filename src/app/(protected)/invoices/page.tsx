@@ -0,0 +1,7 @@
+"use client";
+
+import { DocumentBrowser } from "@/components/portal/DocumentBrowser";
+
+export default function InvoicesPage() {
+  return <DocumentBrowser kind="invoice" />;
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams, useSearchParams } from "next/navigation";
+
+import { DocumentEditor } from "@/components/portal/DocumentEditor";
+
+export default function EditQuotePage() {
+  const params = useParams<{ id: string }>();
+  const sp = useSearchParams();
+
+  return <DocumentEditor kind="quote" id={String(params?.id ?? "")} companyId={sp.get("companyId")} />;
+}
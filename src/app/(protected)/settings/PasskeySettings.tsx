@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { browserSupportsWebAuthn, startRegistration } from "@simplewebauthn/browser";
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/browser";
+
+import { PortalAlert, PortalButton, PortalInput } from "@/components/portal/ui";
+
+type Passkey = {
+  id: string;
+  name: string;
+  deviceType: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+type Modal = { mode: "rename" | "remove"; passkey: Passkey } | null;
+
+type Msg = { type: "success" | "error" | "info"; text: string } | null;
+
+function messageTone(type?: "success" | "error" | "info"): "success" | "danger" | "info" {
+  if (type === "success") return "success";
+  if (type === "error") return "danger";
+  return "info";
+}
+
+function fmtDate(d?: string | null) {
+  if (!d) return "—";
+  const dt = new Date(d);
+  if (Number.isNaN(dt.getTime())) return "—";
+  return dt.toLocaleString();
+}
+
+/**
+ * Passkeys on the signed-in account: add one from this device, rename or
+ * remove existing ones.
+ */
+export default function PasskeySettings({ disabled }: { disabled: boolean }) {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [supported, setSupported] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [msg, setMsg] = useState<Msg>(null);
+
+  const [modal, setModal] = useState<Modal>(null);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/auth/passkeys?ts=${Date.now()}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const data: { passkeys?: Passkey[]; error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to load passkeys.");
+      setPasskeys(data.passkeys ?? []);
+    } catch (e: unknown) {
+      setPasskeys([]);
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Failed to load passkeys." });
+    }
+  }, []);
+
+  useEffect(() => {
+    setSupported(browserSupportsWebAuthn());
+    void loadPasskeys();
+  }, [loadPasskeys]);
+
+  async function addPasskey() {
+    if (adding) return;
+    setAdding(true);
+    setMsg(null);
+
+    try {
+      const optionsRes = await fetch("/api/auth/passkeys/register/options", {
+        method: "POST",
+        credentials: "include",
+        cache: "no-store",
+      });
+      const optionsData: { options?: PublicKeyCredentialCreationOptionsJSON; error?: string } = await optionsRes
+        .json()
+        .catch(() => ({}));
+      if (!optionsRes.ok || !optionsData.options) {
+        throw new Error(optionsData.error || "Could not start passkey setup.");
+      }
+
+      let response: RegistrationResponseJSON;
+      try {
+        response = await startRegistration({ optionsJSON: optionsData.options });
+      } catch (e: unknown) {
+        if (e instanceof Error && e.name === "InvalidStateError") {
+          throw new Error("This device already has a passkey for your account.");
+        }
+        if (e instanceof Error && e.name === "NotAllowedError") {
+          setMsg({ type: "info", text: "Passkey setup was cancelled." });
+          return;
+        }
+        throw e;
+      }
+
+      const res = await fetch("/api/auth/passkeys/register/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        cache: "no-store",
+        body: JSON.stringify({ response }),
+      });
+      const data: { passkey?: Passkey; error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Could not save the passkey.");
+
+      setMsg({
+        type: "success",
+        text: `Passkey “${data.passkey?.name ?? "Passkey"}” added. You can now sign in without a password.`,
+      });
+      await loadPasskeys();
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not add the passkey." });
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  function openModal(mode: "rename" | "remove", passkey: Passkey) {
+    setModal({ mode, passkey });
+    setName(passkey.name);
+    setModalError(null);
+  }
+
+  function closeModal() {
+    if (busy) return;
+    setModal(null);
+    setModalError(null);
+  }
+
+  async function submitModal() {
+    if (!modal || busy) return;
+    setBusy(true);
+    setModalError(null);
+
+    try {
+      const res = await fetch(`/api/auth/passkeys/${encodeURIComponent(modal.passkey.id)}`, {
+        method: modal.mode === "rename" ? "PATCH" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        cache: "no-store",
+        body: modal.mode === "rename" ? JSON.stringify({ name: name.trim() }) : undefined,
+      });
+      const data: { error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          data.error || (modal.mode === "rename" ? "Could not rename the passkey." : "Could not remove the passkey.")
+        );
+      }
+
+      setModal(null);
+      await loadPasskeys();
+    } catch (e: unknown) {
+      setModalError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="rounded-2xl border border-white/12 bg-white/10 p-4 shadow-inner">
+        <p className="text-sm text-white/90">
+          <span className="font-black">Passkeys:</span>{" "}
+          {passkeys ? (passkeys.length ? `${passkeys.length} saved` : "None yet") : "…"}
+        </p>
+        <p className="mt-1 text-xs text-white/55">
+          Sign in with your fingerprint, face or device PIN instead of a password or OTP email. On a shared
+          PC, use a passkey on your phone rather than saving one on the PC.
+        </p>
+
+        {msg ? (
+          <PortalAlert tone={messageTone(msg.type)} className="mt-3">
+            {msg.text}
+          </PortalAlert>
+        ) : null}
+
+        {passkeys && passkeys.length > 0 ? (
+          <ul className="mt-3 space-y-2">
+            {passkeys.map((p) => (
+              <li
+                key={p.id}
+                className="flex flex-col gap-2 rounded-xl border border-white/12 bg-white/5 px-3 py-2 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-bold text-white">{p.name}</p>
+                  <p className="text-xs text-white/55">
+                    Added {fmtDate(p.createdAt)} · Last used {fmtDate(p.lastUsedAt)}
+                    {p.backedUp ? " · Synced" : ""}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <PortalButton
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    disabled={disabled}
+                    onClick={() => openModal("rename", p)}
+                  >
+                    Rename
+                  </PortalButton>
+                  <PortalButton
+                    type="button"
+                    size="sm"
+                    variant="danger"
+                    disabled={disabled}
+                    onClick={() => openModal("remove", p)}
+                  >
+                    Remove
+                  </PortalButton>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <div className="mt-3">
+          <PortalButton
+            type="button"
+            disabled={disabled || !supported || !passkeys}
+            isLoading={adding}
+            onClick={addPasskey}
+            title={!supported ? "This browser does not support passkeys" : undefined}
+            className="rounded-2xl bg-white text-slate-900 hover:bg-white/95"
+          >
+            Add a passkey
+          </PortalButton>
+        </div>
+      </div>
+
+      {modal ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-md rounded-3xl bg-white p-5 shadow-xl ring-1 ring-slate-200">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">
+                  {modal.mode === "rename" ? "Rename passkey" : "Remove passkey?"}
+                </h3>
+                <p className="mt-1 text-sm text-slate-600">
+                  {modal.mode === "rename"
+                    ? "Pick a name you will recognise, like the device it lives on."
+                    : `“${modal.passkey.name}” will no longer sign you in. Remove it from the device as well if you no longer use it.`}
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={closeModal}
+                className="rounded-xl px-2 py-1 text-slate-500 hover:bg-slate-100"
+                aria-label="Close"
+                disabled={busy}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="mt-4 space-y-3">
+              {modalError ? <PortalAlert tone="danger">{modalError}</PortalAlert> : null}
+
+              {modal.mode === "rename" ? (
+                <PortalInput
+                  label="Name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={60}
+                  disabled={busy}
+                />
+              ) : null}
+
+              <div className="mt-2 flex gap-3">
+                <PortalButton type="button" variant="secondary" className="flex-1" onClick={closeModal} disabled={busy}>
+                  Cancel
+                </PortalButton>
+                <PortalButton
+                  type="button"
+                  variant={modal.mode === "remove" ? "danger" : "primary"}
+                  className="flex-1"
+                  isLoading={busy}
+                  disabled={modal.mode === "rename" && !name.trim()}
+                  onClick={submitModal}
+                >
+                  {modal.mode === "rename" ? "Save name" : "Remove passkey"}
+                </PortalButton>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
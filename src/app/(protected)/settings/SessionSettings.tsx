@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { PortalAlert, PortalButton } from "@/components/portal/ui";
+
+type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string | null;
+  current: boolean;
+};
+
+type SessionsResponse = {
+  maxActiveSessions: number;
+  activeCount: number;
+  slotsLeft: number;
+  sessions: ActiveSession[];
+};
+
+type Msg = { type: "success" | "error" | "info"; text: string } | null;
+
+function messageTone(type?: "success" | "error" | "info"): "success" | "danger" | "info" {
+  if (type === "success") return "success";
+  if (type === "error") return "danger";
+  return "info";
+}
+
+function fmtDate(d?: string | null) {
+  if (!d) return "—";
+  const dt = new Date(d);
+  if (Number.isNaN(dt.getTime())) return "—";
+  return dt.toLocaleString();
+}
+
+function browserName(ua: string) {
+  if (ua.includes("electron/")) return "Desktop app";
+  if (ua.includes("edg/")) return "Edge";
+  if (ua.includes("opr/")) return "Opera";
+  if (ua.includes("firefox/")) return "Firefox";
+  if (ua.includes("chrome/")) return "Chrome";
+  if (ua.includes("safari/")) return "Safari";
+  return "Browser";
+}
+
+function osName(ua: string) {
+  if (ua.includes("iphone")) return "iPhone";
+  if (ua.includes("ipad")) return "iPad";
+  if (ua.includes("android")) return "Android";
+  if (ua.includes("windows")) return "Windows";
+  if (ua.includes("mac os")) return "macOS";
+  if (ua.includes("cros")) return "ChromeOS";
+  if (ua.includes("linux")) return "Linux";
+  return "";
+}
+
+/** "Chrome on Windows" from a user agent, for the device list. */
+function describeDevice(userAgent?: string | null) {
+  const ua = String(userAgent || "").toLowerCase();
+  if (!ua) return "Unknown device";
+
+  const os = osName(ua);
+  return os ? `${browserName(ua)} on ${os}` : browserName(ua);
+}
+
+/**
+ * The signed-in user's devices: when each signed in and was last active,
+ * which one is this device, and sign-out for the others.
+ */
+export default function SessionSettings({ disabled }: { disabled: boolean }) {
+  const [data, setData] = useState<SessionsResponse | null>(null);
+  const [msg, setMsg] = useState<Msg>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [confirmOthers, setConfirmOthers] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sessions?ts=${Date.now()}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const json: Partial<SessionsResponse> & { error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || "Failed to load sessions.");
+
+      setData({
+        maxActiveSessions: json.maxActiveSessions ?? 1,
+        activeCount: json.activeCount ?? 0,
+        slotsLeft: json.slotsLeft ?? 0,
+        sessions: json.sessions ?? [],
+      });
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Failed to load sessions." });
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  async function revoke(id: string) {
+    if (revoking) return;
+    setRevoking(id);
+    setMsg(null);
+
+    try {
+      const res = await fetch(`/api/sessions/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        credentials: "include",
+        cache: "no-store",
+      });
+      const json: { error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || "Could not sign out that device.");
+
+      setMsg({ type: "success", text: "Device signed out." });
+      await loadSessions();
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not sign out that device." });
+    } finally {
+      setRevoking(null);
+    }
+  }
+
+  async function revokeOthers() {
+    if (busy) return;
+    setBusy(true);
+    setMsg(null);
+
+    try {
+      const res = await fetch("/api/sessions", {
+        method: "DELETE",
+        credentials: "include",
+        cache: "no-store",
+      });
+      const json: { error?: string; revokedCount?: number } = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || "Could not sign out other devices.");
+
+      const count = json.revokedCount ?? 0;
+      setMsg({
+        type: "success",
+        text: count === 1 ? "Signed out 1 other device." : `Signed out ${count} other devices.`,
+      });
+      setConfirmOthers(false);
+      await loadSessions();
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not sign out other devices." });
+      setConfirmOthers(false);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const others = data ? data.sessions.filter((s) => !s.current).length : 0;
+
+  return (
+    <>
+      <div className="rounded-2xl border border-white/12 bg-white/10 p-4 shadow-inner">
+        <p className="text-sm text-white/90">
+          <span className="font-black">Active sessions:</span>{" "}
+          {data ? `${data.activeCount} of ${data.maxActiveSessions}` : "…"}
+        </p>
+        <p className="mt-1 text-xs text-white/55">
+          {data
+            ? data.slotsLeft > 0
+              ? `${data.slotsLeft} more device${data.slotsLeft === 1 ? "" : "s"} can sign in before the oldest session is signed out.`
+              : "Your plan’s session limit is reached: the next sign-in will sign out the oldest device."
+            : "Loading your devices…"}
+        </p>
+
+        {msg ? (
+          <PortalAlert tone={messageTone(msg.type)} className="mt-3">
+            {msg.text}
+          </PortalAlert>
+        ) : null}
+
+        {data && data.sessions.length > 0 ? (
+          <ul className="mt-3 space-y-2">
+            {data.sessions.map((s) => (
+              <li
+                key={s.id}
+                className="flex flex-col gap-2 rounded-xl border border-white/12 bg-white/5 px-3 py-2 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <p className="flex flex-wrap items-center gap-2 text-sm font-bold text-white">
+                    {describeDevice(s.userAgent)}
+                    {s.current ? (
+                      <span className="rounded-full border border-teal-200/35 bg-teal-300/15 px-2 py-0.5 text-[10px] font-black uppercase tracking-[0.12em] text-teal-50">
+                        This device
+                      </span>
+                    ) : null}
+                  </p>
+                  <p className="text-xs text-white/55">
+                    IP {s.ip || "—"} · Signed in {fmtDate(s.createdAt)} · Last seen {fmtDate(s.lastSeenAt)}
+                  </p>
+                  {s.userAgent ? (
+                    <p className="mt-0.5 truncate text-[11px] text-white/40" title={s.userAgent}>
+                      {s.userAgent}
+                    </p>
+                  ) : null}
+                </div>
+
+                {!s.current ? (
+                  <PortalButton
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    className="shrink-0"
+                    disabled={disabled || Boolean(revoking && revoking !== s.id)}
+                    isLoading={revoking === s.id}
+                    onClick={() => revoke(s.id)}
+                  >
+                    Sign out
+                  </PortalButton>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <div className="mt-3">
+          <PortalButton
+            type="button"
+            variant="danger"
+            disabled={disabled || others === 0}
+            onClick={() => setConfirmOthers(true)}
+            className="rounded-2xl"
+          >
+            Sign out everywhere else
+          </PortalButton>
+        </div>
+      </div>
+
+      {confirmOthers ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-md rounded-3xl bg-white p-5 shadow-xl ring-1 ring-slate-200">
+            <h3 className="text-base font-semibold text-slate-900">Sign out everywhere else?</h3>
+            <p className="mt-1 text-sm text-slate-600">
+              {others === 1 ? "1 other device" : `${others} other devices`} will have to sign in again. This device stays
+              signed in.
+            </p>
+
+            <div className="mt-4 flex gap-3">
+              <PortalButton
+                type="button"
+                variant="secondary"
+                className="flex-1"
+                onClick={() => setConfirmOthers(false)}
+                disabled={busy}
+              >
+                Cancel
+              </PortalButton>
+              <PortalButton type="button" variant="danger" className="flex-1" isLoading={busy} onClick={revokeOthers}>
+                Sign out others
+              </PortalButton>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
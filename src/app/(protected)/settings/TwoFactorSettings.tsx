@@ -0,0 +1,394 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { PortalAlert, PortalButton, PortalInput } from "@/components/portal/ui";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  required: boolean;
+};
+
+type Setup = { secret: string; otpauthUrl: string; qrCode: string };
+
+type Modal = "setup" | "disable" | "regenerate" | null;
+
+type Msg = { type: "success" | "error" | "info"; text: string } | null;
+
+function messageTone(type?: "success" | "error" | "info"): "success" | "danger" | "info" {
+  if (type === "success") return "success";
+  if (type === "error") return "danger";
+  return "info";
+}
+
+function fmtDate(d?: string | null) {
+  if (!d) return "—";
+  const dt = new Date(d);
+  if (Number.isNaN(dt.getTime())) return "—";
+  return dt.toLocaleString();
+}
+
+async function postJson(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    cache: "no-store",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status}).`);
+  return data;
+}
+
+/**
+ * Authenticator-app 2FA for the signed-in user: set up with a QR code and a
+ * confirmation code, save the recovery codes, replace them, or turn 2FA off.
+ */
+export default function TwoFactorSettings({
+  disabled,
+  requiredNotice,
+}: {
+  disabled: boolean;
+  requiredNotice: boolean;
+}) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+
+  const [modal, setModal] = useState<Modal>(null);
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<Msg>(null);
+
+  const loadStatus = useCallback(async () => {
+    setStatusError(null);
+    try {
+      const res = await fetch(`/api/auth/two-factor?ts=${Date.now()}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Failed to load two-factor status.");
+      setStatus(data as TwoFactorStatus);
+    } catch (e: unknown) {
+      setStatusError(e instanceof Error ? e.message : "Failed to load two-factor status.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  function openModal(next: Exclude<Modal, null>) {
+    setModal(next);
+    setCode("");
+    setUseRecovery(false);
+    setRecoveryCodes(null);
+    setSetup(null);
+    setMsg(null);
+  }
+
+  function closeModal() {
+    if (busy) return;
+    setModal(null);
+    setSetup(null);
+    setRecoveryCodes(null);
+    setCode("");
+    void loadStatus();
+  }
+
+  async function startSetup() {
+    openModal("setup");
+    setBusy(true);
+    try {
+      const data = await postJson("/api/auth/two-factor/setup", "POST");
+      setSetup({ secret: data.secret, otpauthUrl: data.otpauthUrl, qrCode: data.qrCode });
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not start setup." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function confirmSetup() {
+    if (busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const data = await postJson("/api/auth/two-factor/enable", "POST", { code: code.trim() });
+      setRecoveryCodes(Array.isArray(data.recoveryCodes) ? data.recoveryCodes : []);
+      setMsg({
+        type: "success",
+        text: "Two-factor authentication is on. Your other devices have been signed out.",
+      });
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not turn on 2FA." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function regenerateCodes() {
+    if (busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const data = await postJson("/api/auth/two-factor/recovery-codes", "POST", { code: code.trim() });
+      setRecoveryCodes(Array.isArray(data.recoveryCodes) ? data.recoveryCodes : []);
+      setMsg({ type: "success", text: "New recovery codes created. The old ones no longer work." });
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not create recovery codes." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function disableTwoFactor() {
+    if (busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await postJson(
+        "/api/auth/two-factor",
+        "DELETE",
+        useRecovery ? { recoveryCode: code.trim() } : { code: code.trim() }
+      );
+      setModal(null);
+      setCode("");
+      await loadStatus();
+    } catch (e: unknown) {
+      setMsg({ type: "error", text: e instanceof Error ? e.message : "Could not turn off 2FA." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const enabled = Boolean(status?.enabled);
+
+  return (
+    <>
+      <div className="rounded-2xl border border-white/12 bg-white/10 p-4 shadow-inner">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm text-white/90">
+              <span className="font-black">Two-factor authentication:</span>{" "}
+              {status ? (enabled ? "On" : "Off") : "…"}
+            </p>
+            <p className="mt-1 text-xs text-white/55">
+              {enabled
+                ? `Authenticator app since ${fmtDate(status?.enabledAt)} · ${status?.recoveryCodesRemaining ?? 0} recovery codes left`
+                : "Ask for a code from an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password…) every time you sign in."}
+            </p>
+          </div>
+        </div>
+
+        {requiredNotice || (status?.required && !enabled) ? (
+          <PortalAlert tone="warning" className="mt-3">
+            Your account role requires two-factor authentication. Turn it on to use the admin console.
+          </PortalAlert>
+        ) : null}
+
+        {statusError ? (
+          <PortalAlert tone="warning" className="mt-3">
+            {statusError}
+          </PortalAlert>
+        ) : null}
+
+        <div className="mt-3 flex flex-wrap gap-2">
+          {enabled ? (
+            <>
+              <PortalButton
+                type="button"
+                variant="secondary"
+                disabled={disabled}
+                onClick={() => openModal("regenerate")}
+                className="rounded-2xl bg-white text-slate-900 hover:bg-white/95"
+              >
+                New recovery codes
+              </PortalButton>
+              {!status?.required ? (
+                <PortalButton
+                  type="button"
+                  variant="danger"
+                  disabled={disabled}
+                  onClick={() => openModal("disable")}
+                  className="rounded-2xl"
+                >
+                  Turn off 2FA
+                </PortalButton>
+              ) : null}
+            </>
+          ) : (
+            <PortalButton
+              type="button"
+              disabled={disabled || !status}
+              onClick={startSetup}
+              className="rounded-2xl bg-[#12bfae] shadow-[0_12px_28px_rgba(18,191,174,0.22)] hover:bg-[#10ad9d]"
+            >
+              Set up authenticator app
+            </PortalButton>
+          )}
+        </div>
+      </div>
+
+      {modal ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-lg rounded-3xl bg-white p-5 shadow-xl ring-1 ring-slate-200">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">
+                  {modal === "setup"
+                    ? "Set up two-factor authentication"
+                    : modal === "regenerate"
+                      ? "New recovery codes"
+                      : "Turn off two-factor authentication"}
+                </h3>
+                <p className="mt-1 text-sm text-slate-600">
+                  {modal === "setup"
+                    ? "Scan the QR code with your authenticator app, then enter the 6-digit code it shows."
+                    : modal === "regenerate"
+                      ? "Enter a code from your authenticator app. Your current recovery codes will stop working."
+                      : "Enter a code from your authenticator app, or one of your recovery codes."}
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={closeModal}
+                className="rounded-xl px-2 py-1 text-slate-500 hover:bg-slate-100"
+                aria-label="Close"
+                disabled={busy}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="mt-4 space-y-3">
+              {msg ? <PortalAlert tone={messageTone(msg.type)}>{msg.text}</PortalAlert> : null}
+
+              {recoveryCodes ? (
+                <>
+                  <div className="rounded-2xl bg-slate-50/80 p-4 ring-1 ring-slate-200">
+                    <p className="text-sm font-semibold text-slate-800">Save these recovery codes</p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      Each code signs you in once if you lose your phone. They will not be shown again.
+                    </p>
+                    <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-slate-900">
+                      {recoveryCodes.map((c) => (
+                        <li key={c} className="rounded-lg bg-white px-3 py-1.5 text-center ring-1 ring-slate-200">
+                          {c}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <PortalButton
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      onClick={() => void navigator.clipboard?.writeText(recoveryCodes.join("\n"))}
+                    >
+                      Copy codes
+                    </PortalButton>
+                    <PortalButton type="button" className="flex-1" onClick={closeModal}>
+                      I’ve saved them
+                    </PortalButton>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {modal === "setup" ? (
+                    setup ? (
+                      <div className="flex flex-col items-center gap-3 rounded-2xl bg-slate-50/80 p-4 ring-1 ring-slate-200 sm:flex-row sm:items-start">
+                        {/* eslint-disable-next-line @next/next/no-img-element -- data: URL generated by the API */}
+                        <img
+                          src={setup.qrCode}
+                          alt="QR code for your authenticator app"
+                          width={176}
+                          height={176}
+                          className="h-44 w-44 shrink-0 rounded-xl bg-white p-1 ring-1 ring-slate-200"
+                        />
+                        <div className="min-w-0 text-xs text-slate-600">
+                          <p className="font-semibold text-slate-800">Can’t scan it?</p>
+                          <p className="mt-1">Enter this key in your app instead:</p>
+                          <p className="mt-2 break-all rounded-lg bg-white px-2 py-1.5 font-mono text-sm text-slate-900 ring-1 ring-slate-200">
+                            {setup.secret}
+                          </p>
+                        </div>
+                      </div>
+                    ) : busy ? (
+                      <p className="text-sm text-slate-500">Preparing your QR code…</p>
+                    ) : null
+                  ) : null}
+
+                  {modal !== "setup" || setup ? (
+                    <PortalInput
+                      label={useRecovery ? "Recovery code" : "Authenticator code"}
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder={useRecovery ? "xxxxx-xxxxx" : "000000"}
+                      inputMode={useRecovery ? "text" : "numeric"}
+                      autoComplete="one-time-code"
+                      disabled={busy}
+                    />
+                  ) : null}
+
+                  {modal === "disable" ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setUseRecovery((v) => !v);
+                        setCode("");
+                      }}
+                      className="text-xs font-semibold text-[color:var(--primary)] hover:underline disabled:opacity-60"
+                      disabled={busy}
+                    >
+                      {useRecovery ? "Use an authenticator code instead" : "Use a recovery code instead"}
+                    </button>
+                  ) : null}
+
+                  <div className="mt-2 flex gap-3">
+                    <PortalButton
+                      type="button"
+                      variant="secondary"
+                      className="flex-1"
+                      onClick={closeModal}
+                      disabled={busy}
+                    >
+                      Cancel
+                    </PortalButton>
+
+                    <PortalButton
+                      type="button"
+                      variant={modal === "disable" ? "danger" : "primary"}
+                      className="flex-1"
+                      isLoading={busy}
+                      disabled={!code.trim() || (modal === "setup" && !setup)}
+                      onClick={
+                        modal === "setup"
+                          ? confirmSetup
+                          : modal === "regenerate"
+                            ? regenerateCodes
+                            : disableTwoFactor
+                      }
+                    >
+                      {modal === "setup" ? "Turn on 2FA" : modal === "regenerate" ? "Create new codes" : "Turn off 2FA"}
+                    </PortalButton>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
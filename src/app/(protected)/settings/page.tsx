@@ -14,6 +14,10 @@ import {
 } from "@/components/portal/ui";
 import { useSession } from "@/components/portal/session";
 
+import PasskeySettings from "./PasskeySettings";
+import SessionSettings from "./SessionSettings";
+import TwoFactorSettings from "./TwoFactorSettings";
+
 type UserProfile = {
   id?: string | null;
   email?: string | null;
@@ -575,7 +579,7 @@ export default function SettingsPage() {
               <SettingsSectionCard
                 eyebrow="Security"
                 title="Password & access"
-                description="Password, sessions, and access controls."
+                description="Password, passkeys, two-factor, sessions, and access controls."
                 badge="Secure"
               >
                 <div className="space-y-3">
@@ -586,6 +590,8 @@ export default function SettingsPage() {
                     <ul className="mt-2 space-y-1 text-xs font-medium text-white/70">
                       <li>• OTP sign-in (enabled)</li>
                       <li>• Email + password (optional — once you set a password)</li>
+                      <li>• Passkeys (optional — fingerprint, face or device PIN)</li>
+                      <li>• Authenticator app (optional — asked for after password or OTP)</li>
                     </ul>
                     <p className="mt-2 text-xs text-white/55">
                       Changing your password requires OTP verification to protect your account.
@@ -601,23 +607,14 @@ export default function SettingsPage() {
                     onClick={openPassword}
                   />
 
-                  <ActionRow
-                    title="Active sessions"
-                    subtitle="View and manage logged-in devices (coming soon)"
-                    icon="💻"
-                    tone="neutral"
-                    disabled
-                    onClick={() => {}}
+                  <TwoFactorSettings
+                    disabled={!canManageSecurity}
+                    requiredNotice={sp.get("twoFactor") === "required"}
                   />
 
-                  <div className="rounded-2xl border border-white/12 bg-white/10 p-4 shadow-inner">
-                    <p className="text-sm text-white/90">
-                      <span className="font-black">Sessions policy:</span> Max 2 active sessions allowed per account.
-                    </p>
-                    <p className="mt-1 text-xs text-white/55">
-                      When session management is enabled, you’ll be able to sign out other devices here.
-                    </p>
-                  </div>
+                  <PasskeySettings disabled={!canManageSecurity} />
+
+                  <SessionSettings disabled={state !== "ready"} />
                 </div>
 
                 <PortalButton
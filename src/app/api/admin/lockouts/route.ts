@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAdminUser } from "@/lib/admin";
+import { prisma } from "@/lib/db";
+import { THROTTLE_SCOPES, type ThrottleScope } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+const SUBJECT_TYPES = new Set(["ip", "email"]);
+
+function isScope(value: string): value is ThrottleScope {
+  return (THROTTLE_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * GET: sign-in lockouts and rate-limit blocks that are still in force.
+ */
+export async function GET() {
+  const admin = await getAdminUser();
+
+  if (!admin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const blocks = await prisma.authThrottle.findMany({
+    where: { blockedUntil: { gt: new Date() } },
+    orderBy: { blockedUntil: "desc" },
+    take: 200,
+    select: {
+      scope: true,
+      subjectType: true,
+      subject: true,
+      count: true,
+      windowStart: true,
+      blockedUntil: true,
+    },
+  });
+
+  return NextResponse.json({ blocks });
+}
+
+/**
+ * DELETE { scope, subjectType, subject }
+ * Clears one block and its counter, e.g. to let a locked-out user try again
+ * after confirming who they are.
+ */
+export async function DELETE(req: NextRequest) {
+  const admin = await getAdminUser();
+
+  if (!admin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 },
+    );
+  }
+
+  const input = body as Record<string, unknown>;
+  const scope = String(input.scope ?? "").trim();
+  const subjectType = String(input.subjectType ?? "").trim();
+  const subject = String(input.subject ?? "").trim();
+
+  if (!isScope(scope) || !SUBJECT_TYPES.has(subjectType) || !subject) {
+    return NextResponse.json({ error: "Invalid lockout" }, { status: 400 });
+  }
+
+  const { count } = await prisma.authThrottle.deleteMany({
+    where: { scope, subjectType, subject },
+  });
+
+  if (count === 0) {
+    return NextResponse.json({ error: "Lockout not found" }, { status: 404 });
+  }
+
+  console.info("[admin/lockouts] cleared", { scope, subjectType, subject, by: admin.id });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAdminUser } from "@/lib/admin";
+import { prisma } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+const ROLE_VALUES = new Set(["user", "admin"]);
+
+function cleanRole(value: unknown) {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase();
+}
+
+export async function GET() {
+  const admin = await getAdminUser();
+
+  if (!admin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const policies = await prisma.rolePolicy.findMany({
+    orderBy: { role: "asc" },
+    select: { role: true, requireTwoFactor: true, updatedById: true, updatedAt: true },
+  });
+
+  return NextResponse.json({ policies });
+}
+
+/**
+ * PATCH { role, requireTwoFactor }
+ * Once a role requires 2FA, its members cannot turn 2FA off, and admins
+ * without it are sent to settings to set it up before the console opens.
+ */
+export async function PATCH(req: NextRequest) {
+  const admin = await getAdminUser();
+
+  if (!admin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 },
+    );
+  }
+
+  const input = body as Record<string, unknown>;
+  const role = cleanRole(input.role);
+
+  if (!ROLE_VALUES.has(role)) {
+    return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+  }
+
+  if (typeof input.requireTwoFactor !== "boolean") {
+    return NextResponse.json(
+      { error: "requireTwoFactor must be true or false." },
+      { status: 400 },
+    );
+  }
+
+  const requireTwoFactor = input.requireTwoFactor;
+
+  if (requireTwoFactor && role === admin.role) {
+    const self = await prisma.user.findUnique({
+      where: { id: admin.id },
+      select: { totpEnabledAt: true },
+    });
+
+    if (!self?.totpEnabledAt) {
+      return NextResponse.json(
+        {
+          error:
+            "Turn on two-factor authentication for your own account first, or you will be locked out of the console.",
+        },
+        { status: 400 },
+      );
+    }
+  }
+
+  const policy = await prisma.rolePolicy.upsert({
+    where: { role },
+    create: { role, requireTwoFactor, updatedById: admin.id },
+    update: { requireTwoFactor, updatedById: admin.id },
+    select: { role: true, requireTwoFactor: true, updatedById: true, updatedAt: true },
+  });
+
+  return NextResponse.json({ policy });
+}
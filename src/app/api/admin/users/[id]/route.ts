@@ -3,6 +3,7 @@ import bcrypt from "bcryptjs";
 
 import { getAdminUser } from "@/lib/admin";
 import { prisma } from "@/lib/db";
+import { TWO_FACTOR_CLEARED } from "@/lib/twoFactor";
 
 export const dynamic = "force-dynamic";
 
@@ -12,6 +13,7 @@ const ACCOUNT_ACTIONS = new Set([
   "deactivate",
   "reactivate",
   "resetPassword",
+  "resetTwoFactor",
   "setSubscriptionTier",
 ]);
 
@@ -67,12 +69,6 @@ function parsePeriodEnd(value: unknown) {
   return d;
 }
 
-function paidCompanies(tier: SubscriptionTier) {
-  if (tier === "pro") return 5;
-  if (tier === "growth") return 3;
-  return 1;
-}
-
 function buildTierFeatures(opts: {
   tier: SubscriptionTier;
   status: AdminSubscriptionStatus;
@@ -83,26 +79,11 @@ function buildTierFeatures(opts: {
   const now = new Date().toISOString();
   const { tier, status, periodEnd, reason, adminId } = opts;
   const paid = tier === "starter" || tier === "growth" || tier === "pro";
-  const companies = paidCompanies(tier);
 
+  // Capabilities and limits come from the tier in `resolveEntitlementSnapshot`;
+  // only a past-due account's read-only flag is stored as an override.
   const features: Record<string, unknown> = {
-    readOnly: status === "past_due",
-    cloudSync: tier === "growth" || tier === "pro",
-    storesync: tier === "growth" || tier === "pro",
-    maxActiveSessions: tier === "pro" ? 4 : tier === "growth" ? 2 : 1,
-    limits: paid
-      ? {
-          companies,
-          invoice: 999999,
-          quote: 999999,
-          purchase_order: 999999,
-        }
-      : {
-          companies: 1,
-          invoice: 5,
-          quote: 5,
-          purchase_order: 5,
-        },
+    ...(status === "past_due" ? { readOnly: true } : {}),
     manualOverride: paid && status === "active",
     manualOverrideGrantedAt: now,
     manualOverrideGrantedBy: adminId,
@@ -446,6 +427,34 @@ export async function PATCH(
     return NextResponse.json({ user: updated });
   }
 
+  if (action === "resetTwoFactor") {
+    if (id === admin.id) {
+      return NextResponse.json(
+        { error: "Use Profile & security to manage your own two-factor authentication." },
+        { status: 400 },
+      );
+    }
+
+    // For a user who lost their authenticator and recovery codes. They sign in
+    // with their password (or email OTP) alone until they set 2FA up again.
+    const [updated] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id },
+        data: TWO_FACTOR_CLEARED,
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          totpEnabledAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: id } }),
+    ]);
+
+    return NextResponse.json({ user: updated });
+  }
+
   const role = cleanRole(input.role);
 
   if (!ROLE_VALUES.has(role)) {
@@ -0,0 +1,132 @@
+// src/app/api/auth/forgot/route.ts
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { consumeThrottle, throttleKeys } from "@/lib/rateLimit";
+import { generateToken, sha256 } from "@/lib/token";
+
+export const dynamic = "force-dynamic";
+
+const APP_URL = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || "";
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || "60");
+
+// Accept either EMAIL_FROM or MAIL_FROM to match your other routes
+const EMAIL_FROM = process.env.EMAIL_FROM || process.env.MAIL_FROM || "";
+const SMTP_HOST = process.env.SMTP_HOST || "";
+const SMTP_PORT = Number(process.env.SMTP_PORT || "587");
+const SMTP_USER = process.env.SMTP_USER || "";
+const SMTP_PASS = process.env.SMTP_PASS || "";
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status });
+}
+
+function cleanBaseUrl(url: string) {
+  return url.replace(/\/$/, "");
+}
+
+function getBaseUrl(req: NextRequest) {
+  const base = APP_URL && APP_URL.trim() ? cleanBaseUrl(APP_URL.trim()) : req.nextUrl.origin;
+  return base;
+}
+
+function addMinutes(d: Date, minutes: number) {
+  return new Date(d.getTime() + minutes * 60 * 1000);
+}
+
+async function sendResetEmail(toEmail: string, resetUrl: string, ttlMinutes: number) {
+  const configured = EMAIL_FROM && SMTP_HOST && SMTP_USER && SMTP_PASS && Number.isFinite(SMTP_PORT);
+  if (!configured) return { sent: false as const, reason: "smtp_not_configured" as const };
+
+  const nodemailer = await import("nodemailer").catch(() => null);
+  if (!nodemailer?.createTransport) return { sent: false as const, reason: "nodemailer_missing" as const };
+
+  const transporter = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_PORT === 465,
+    auth: { user: SMTP_USER, pass: SMTP_PASS },
+  });
+
+  const subject = "Reset your eKasiBooks password";
+  const text = `Someone asked to reset the password for your eKasiBooks account.\n\nReset it here:\n${resetUrl}\n\nThis link works once and expires in ${ttlMinutes} minutes. If you did not ask for this, you can ignore this email.`;
+  const html = `
+    <div style="font-family:system-ui,-apple-system,Segoe UI,Roboto,Arial,sans-serif;line-height:1.5">
+      <h2 style="margin:0 0 12px">Reset your password</h2>
+      <p style="margin:0 0 18px">Someone asked to reset the password for your eKasiBooks account. Click the button below to choose a new one:</p>
+      <p style="margin:0 0 18px">
+        <a href="${resetUrl}" style="display:inline-block;background:#215D63;color:#fff;text-decoration:none;padding:10px 14px;border-radius:10px;font-weight:700">
+          Reset password
+        </a>
+      </p>
+      <p style="margin:0;color:#475569;font-size:12px">This link works once and expires in ${ttlMinutes} minutes. If you did not ask for this, you can ignore this email.</p>
+    </div>
+  `;
+
+  await transporter.sendMail({ from: EMAIL_FROM, to: toEmail, subject, text, html });
+  return { sent: true as const };
+}
+
+/**
+ * POST { email }
+ *
+ * Always answers the same way whether or not the email belongs to an account,
+ * so the form cannot be used to find out who is registered. A new request
+ * replaces any earlier link.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body: { email?: unknown } = await req.json().catch(() => ({}));
+    const email = String(body?.email || "").trim().toLowerCase();
+
+    if (!email || !email.includes("@")) return jsonError("Invalid email", 400);
+
+    // Counted for unknown emails too, so the limit says nothing about who has an account
+    const gate = await consumeThrottle(throttleKeys("forgot", { req, email }));
+    if (!gate.ok) return gate.response;
+
+    const resBody: { success: true; dev_resetUrl?: string } = { success: true };
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      return NextResponse.json(resBody, { status: 200 });
+    }
+
+    const ttlMinutes = Math.max(5, PASSWORD_RESET_TTL_MINUTES || 60);
+    const token = generateToken(32);
+    const tokenHash = sha256(token);
+    const expiresAt = addMinutes(new Date(), ttlMinutes);
+
+    await prisma.passwordResetToken.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, tokenHash, expiresAt },
+      update: { tokenHash, expiresAt },
+    });
+
+    const baseUrl = getBaseUrl(req);
+    const resetUrl = `${baseUrl}/reset?token=${encodeURIComponent(token)}`;
+
+    const emailSend = await sendResetEmail(user.email, resetUrl, ttlMinutes).catch((err) => {
+      console.warn("[auth/forgot] sendResetEmail failed:", err?.message || err);
+      return { sent: false as const, reason: "send_failed" as const };
+    });
+
+    // Helpful for dev/testing (don’t leak in production)
+    if (process.env.NODE_ENV !== "production" && emailSend.sent !== true) {
+      resBody.dev_resetUrl = resetUrl;
+    }
+
+    return NextResponse.json(resBody, { status: 200 });
+  } catch (e: unknown) {
+    console.error("[auth/forgot] error", e instanceof Error ? e.message : e);
+
+    return NextResponse.json(
+      { success: false, error: "Could not start the password reset." },
+      { status: 500 }
+    );
+  }
+}
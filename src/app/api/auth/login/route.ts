@@ -3,7 +3,24 @@ import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 
 import { prisma } from "@/lib/db";
-import { buildSessionCookie, signSession } from "@/lib/auth";
+import {
+  buildSessionCookie,
+  buildTwoFactorChallengeCookie,
+  getTwoFactorChallengeCookieName,
+  signSession,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} from "@/lib/auth";
+import { loadEntitlement } from "@/lib/entitlements";
+import {
+  accountKey,
+  checkThrottle,
+  clearThrottle,
+  recordThrottleHit,
+  throttleKeys,
+} from "@/lib/rateLimit";
+import { createLimitedActiveSession, getClientMeta } from "@/lib/sessions";
+import { consumeSecondFactor } from "@/lib/twoFactor";
 
 export const dynamic = "force-dynamic";
 
@@ -11,125 +28,120 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ success: false, error: message }, { status });
 }
 
-function getClientMeta(req: NextRequest) {
-  const userAgent = req.headers.get("user-agent") || "";
-
-  // If x-forwarded-for contains a list, take the first IP
-  const xff = req.headers.get("x-forwarded-for") || "";
-  const ip =
-    (xff.split(",")[0] || "").trim() ||
-    (req.headers.get("x-real-ip") || "").trim() ||
-    "";
-
-  return { userAgent, ip };
-}
-
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
+/**
+ * Create the session, set the cookie and record the login. Only reached once
+ * every factor the account needs has been checked.
+ */
+async function issueSession(
+  req: NextRequest,
+  userId: string,
+  extra: Record<string, unknown> = {},
+  cookieMaxAge?: number | null
+) {
+  const meta = getClientMeta(req);
+  const { features } = await loadEntitlement(userId);
+  const maxActiveSessions = features.maxActiveSessions;
+  const session = await createLimitedActiveSession(userId, meta, maxActiveSessions);
+
+  const token = await signSession(userId, session.id);
+
+  // update last login (best-effort)
+  prisma.user
+    .update({
+      where: { id: userId },
+      data: { lastLoginAt: new Date() },
+    })
+    .catch(() => {});
+
+  const res = NextResponse.json(
+    {
+      success: true,
+      maxActiveSessions,
+      ...extra,
+    },
+    { status: 200 }
+  );
+  const cookie = buildSessionCookie(token);
+  res.cookies.set(cookieMaxAge ? { ...cookie, maxAge: cookieMaxAge } : cookie);
+  res.cookies.delete(getTwoFactorChallengeCookieName());
+  return res;
 }
 
-function toNumberOverride(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return Math.floor(value);
-  }
-
-  if (typeof value === "string") {
-    const n = Number(value.trim());
-    if (Number.isFinite(n)) {
-      return Math.floor(n);
-    }
+/**
+ * Second step of a 2FA login: the challenge from the first step (body or
+ * cookie) plus a code from the authenticator app or a recovery code.
+ */
+async function completeTwoFactorLogin(
+  req: NextRequest,
+  challengeToken: string,
+  body: { code?: unknown; recoveryCode?: unknown }
+) {
+  let challenge: Awaited<ReturnType<typeof verifyTwoFactorChallenge>>;
+  try {
+    challenge = await verifyTwoFactorChallenge(challengeToken);
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Your sign-in took too long. Please sign in again.",
+        code: "TWO_FACTOR_CHALLENGE_EXPIRED",
+      },
+      { status: 401 }
+    );
   }
 
-  return null;
-}
-
-async function getMaxActiveSessions(userId: string): Promise<number> {
-  const ent = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
+  const user = await prisma.user.findUnique({
+    where: { id: challenge.userId },
+    select: { email: true },
   });
+  const keys = [...throttleKeys("two-factor", { req }), ...accountKey(user?.email)];
 
-  const tier = String(ent?.tier ?? "free").toLowerCase().trim();
-  const status = String(ent?.status ?? "active").toLowerCase().trim();
-
-  const features = isPlainObject(ent?.features) ? ent.features : {};
-  const override = toNumberOverride(features["maxActiveSessions"]);
+  const gate = await checkThrottle(keys);
+  if (!gate.ok) return gate.response;
 
-  const tierDefault =
-    tier === "pro" ? 4 :
-    tier === "growth" ? 2 :
-    1;
+  const method = await consumeSecondFactor(challenge.userId, {
+    code: body?.code,
+    recoveryCode: body?.recoveryCode,
+  });
 
-  const computed = override ?? tierDefault;
+  if (!method) {
+    const blocked = await recordThrottleHit(keys);
+    if (!blocked.ok) return blocked.response;
 
-  // Safety: blocked/none should never get extra sessions.
-  if (status === "blocked" || status === "none") {
-    return 1;
+    return NextResponse.json(
+      {
+        success: false,
+        error: "That code is not valid. Please try again.",
+        code: "TWO_FACTOR_INVALID",
+      },
+      { status: 401 }
+    );
   }
 
-  return Math.max(1, computed);
-}
-
-/**
- * Enforce per-account active session limit:
- * create a new session, keep the newest N active sessions, revoke the rest.
- */
-async function createLimitedActiveSession(
-  userId: string,
-  meta: { userAgent: string; ip: string },
-  maxActiveSessions: number
-) {
-  const now = new Date();
-  const keepCount = Math.max(1, maxActiveSessions);
-
-  return await prisma.$transaction(async (tx) => {
-    // Create the new session first
-    const session = await tx.session.create({
-      data: {
-        userId,
-        userAgent: meta.userAgent,
-        ip: String(meta.ip || "").slice(0, 190),
-        createdAt: now,
-        lastSeenAt: now,
-        revokedAt: null,
-      },
-      select: { id: true },
-    });
+  await clearThrottle(accountKey(user?.email));
 
-    // Fetch all active sessions for this user, newest first
-    const activeSessions = await tx.session.findMany({
-      where: {
-        userId,
-        revokedAt: null,
-      },
-      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
-      select: { id: true },
+  const extra: Record<string, unknown> = { twoFactorMethod: method };
+  if (method === "recovery_code") {
+    extra.recoveryCodesRemaining = await prisma.twoFactorRecoveryCode.count({
+      where: { userId: challenge.userId, usedAt: null },
     });
+  }
 
-    // Keep the newest N sessions, revoke anything older
-    const sessionsToRevoke = activeSessions.slice(keepCount).map((s) => s.id);
-
-    if (sessionsToRevoke.length > 0) {
-      await tx.session.updateMany({
-        where: {
-          id: { in: sessionsToRevoke },
-          revokedAt: null,
-        },
-        data: { revokedAt: now },
-      });
-    }
-
-    return session;
-  });
+  return await issueSession(req, challenge.userId, extra, challenge.cookieMaxAge);
 }
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
+
+    const challengeToken =
+      String(body?.challenge || "").trim() ||
+      req.cookies.get(getTwoFactorChallengeCookieName())?.value ||
+      "";
+    if (challengeToken && (body?.code || body?.recoveryCode)) {
+      return await completeTwoFactorLogin(req, challengeToken, body);
+    }
+
     const email = String(body?.email || "").trim().toLowerCase();
     const password = String(body?.password || "");
 
@@ -137,17 +149,26 @@ export async function POST(req: NextRequest) {
       return jsonError("Email and password are required.", 400);
     }
 
+    // Failed passwords count per IP and towards the account's lockout
+    const keys = [...throttleKeys("login", { req }), ...accountKey(email)];
+    const gate = await checkThrottle(keys);
+    if (!gate.ok) return gate.response;
+
     const user = await prisma.user.findUnique({
       where: { email },
-      select: { id: true, email: true, passwordHash: true, emailVerifiedAt: true },
+      select: {
+        id: true,
+        email: true,
+        passwordHash: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
+      },
     });
 
-    if (!user || !user.passwordHash) {
-      return jsonError("Invalid email or password.", 401);
-    }
-
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) {
+    const ok = user?.passwordHash ? await bcrypt.compare(password, user.passwordHash) : false;
+    if (!user || !ok) {
+      const blocked = await recordThrottleHit(keys);
+      if (!blocked.ok) return blocked.response;
       return jsonError("Invalid email or password.", 401);
     }
 
@@ -163,29 +184,24 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const meta = getClientMeta(req);
-    const maxActiveSessions = await getMaxActiveSessions(user.id);
-    const session = await createLimitedActiveSession(user.id, meta, maxActiveSessions);
-
-    const token = await signSession(user.id, session.id);
-
-    // update last login (best-effort)
-    prisma.user
-      .update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
-      })
-      .catch(() => {});
+    // 🔐 Authenticator app: no session until the second step succeeds
+    if (user.totpEnabledAt) {
+      const challenge = await signTwoFactorChallenge(user.id);
+      const res = NextResponse.json(
+        {
+          success: false,
+          error: "Enter the code from your authenticator app.",
+          code: "TWO_FACTOR_REQUIRED",
+          challenge,
+        },
+        { status: 401 }
+      );
+      res.cookies.set(buildTwoFactorChallengeCookie(challenge));
+      return res;
+    }
 
-    const res = NextResponse.json(
-      {
-        success: true,
-        maxActiveSessions,
-      },
-      { status: 200 }
-    );
-    res.cookies.set(buildSessionCookie(token));
-    return res;
+    await clearThrottle(accountKey(email));
+    return await issueSession(req, user.id);
   } catch (err) {
     console.error("Login failed:", err);
     return jsonError("Login failed. Please try again.", 500);
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { cleanPasskeyName } from "@/lib/passkeys";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+async function getUserId(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) return null;
+
+  try {
+    const { userId } = await verifySession(token);
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PATCH { name }
+ * Renames one of the signed-in user's passkeys.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401, headers: noStoreHeaders() }
+    );
+  }
+
+  const { id } = await params;
+  const body: { name?: unknown } = await req.json().catch(() => ({}));
+  const name = cleanPasskeyName(body?.name);
+
+  if (!name) {
+    return NextResponse.json(
+      { error: "Give the passkey a name." },
+      { status: 400, headers: noStoreHeaders() }
+    );
+  }
+
+  const { count } = await prisma.passkey.updateMany({
+    where: { id, userId },
+    data: { name },
+  });
+
+  if (count === 0) {
+    return NextResponse.json(
+      { error: "Passkey not found" },
+      { status: 404, headers: noStoreHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    { success: true, id, name },
+    { status: 200, headers: noStoreHeaders() }
+  );
+}
+
+/**
+ * DELETE: removes one of the signed-in user's passkeys. The device keeps its
+ * copy, but the server no longer accepts it.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401, headers: noStoreHeaders() }
+    );
+  }
+
+  const { id } = await params;
+
+  const { count } = await prisma.passkey.deleteMany({
+    where: { id, userId },
+  });
+
+  if (count === 0) {
+    return NextResponse.json(
+      { error: "Passkey not found" },
+      { status: 404, headers: noStoreHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    { success: true },
+    { status: 200, headers: noStoreHeaders() }
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateAuthenticationOptions } from "@simplewebauthn/server";
+
+import { buildPasskeyChallengeCookie, signPasskeyChallenge } from "@/lib/auth";
+import { getRelyingParty, storeLoginChallenge } from "@/lib/passkeys";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * POST: starts a passkey sign-in.
+ * No email is needed: passkeys are discoverable, so the browser lists the
+ * accounts it holds for this site and the response says which one was used.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { rpID } = getRelyingParty(req);
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      userVerification: "required",
+    });
+
+    await storeLoginChallenge(options.challenge);
+    const challenge = await signPasskeyChallenge(options.challenge, "login");
+
+    const res = NextResponse.json(
+      { success: true, options },
+      { status: 200, headers: noStoreHeaders() }
+    );
+    res.cookies.set(buildPasskeyChallengeCookie(challenge));
+    return res;
+  } catch (e: unknown) {
+    console.error("Passkey login options failed:", e);
+    return NextResponse.json(
+      { success: false, error: "Could not start passkey sign-in. Please try again." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuthenticationResponse } from "@simplewebauthn/server";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+
+import { prisma } from "@/lib/db";
+import {
+  buildSessionCookie,
+  getPasskeyChallengeCookieName,
+  signSession,
+  verifyPasskeyChallenge,
+} from "@/lib/auth";
+import { loadEntitlement } from "@/lib/entitlements";
+import { consumeLoginChallenge, getRelyingParty, toWebAuthnCredential } from "@/lib/passkeys";
+import { createLimitedActiveSession, getClientMeta } from "@/lib/sessions";
+
+export const dynamic = "force-dynamic";
+
+function jsonError(message: string, status = 400, code?: string) {
+  const res = NextResponse.json(
+    { success: false, error: message, ...(code ? { code } : {}) },
+    { status }
+  );
+  res.cookies.delete(getPasskeyChallengeCookieName());
+  return res;
+}
+
+/**
+ * POST { response }
+ * Finishes a passkey sign-in and issues the normal `ekasi_session` cookie.
+ * User verification is required, so this does not ask for an authenticator
+ * code afterwards.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const challengeToken = req.cookies.get(getPasskeyChallengeCookieName())?.value || "";
+    let expectedChallenge: string;
+    try {
+      ({ challenge: expectedChallenge } = await verifyPasskeyChallenge(challengeToken, "login"));
+    } catch {
+      return jsonError("Passkey sign-in took too long. Please try again.", 400, "PASSKEY_CHALLENGE_EXPIRED");
+    }
+
+    // Used up before anything else is checked, so each challenge gets one try.
+    if (!(await consumeLoginChallenge(expectedChallenge))) {
+      return jsonError("Passkey sign-in took too long. Please try again.", 400, "PASSKEY_CHALLENGE_EXPIRED");
+    }
+
+    const body: { response?: unknown } = await req.json().catch(() => ({}));
+    const response = body?.response as AuthenticationResponseJSON | undefined;
+    if (!response || typeof response !== "object" || typeof response.id !== "string") {
+      return jsonError("Missing passkey response.", 400);
+    }
+
+    const passkey = await prisma.passkey.findUnique({
+      where: { credentialId: response.id },
+      select: {
+        id: true,
+        credentialId: true,
+        publicKey: true,
+        counter: true,
+        transports: true,
+        user: { select: { id: true, isActive: true, emailVerifiedAt: true } },
+      },
+    });
+
+    if (!passkey) {
+      return jsonError(
+        "This passkey is not linked to an account. Sign in another way and add it in Settings.",
+        401,
+        "PASSKEY_UNKNOWN"
+      );
+    }
+
+    const { rpID, origin } = getRelyingParty(req);
+
+    let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: toWebAuthnCredential(passkey),
+        requireUserVerification: true,
+      });
+    } catch (e: unknown) {
+      console.warn("Passkey sign-in rejected:", e instanceof Error ? e.message : e);
+      return jsonError("This passkey could not be verified.", 401);
+    }
+
+    if (!verification.verified) {
+      return jsonError("This passkey could not be verified.", 401);
+    }
+
+    if (!passkey.user.isActive) {
+      return jsonError("This account has been deactivated.", 403, "ACCOUNT_DEACTIVATED");
+    }
+
+    if (!passkey.user.emailVerifiedAt) {
+      return jsonError("Please verify your email before logging in.", 403, "EMAIL_NOT_VERIFIED");
+    }
+
+    const { newCounter, credentialDeviceType, credentialBackedUp } = verification.authenticationInfo;
+
+    // Authenticators that count signatures must move forward; synced passkeys
+    // always report 0 and rely on the single-use challenge instead.
+    if (passkey.counter > 0 && newCounter <= passkey.counter) {
+      return jsonError("This passkey could not be verified.", 401);
+    }
+
+    // Two sign-ins racing on the same stored counter: only the first one writes.
+    const { count } = await prisma.passkey.updateMany({
+      where: { id: passkey.id, counter: passkey.counter },
+      data: {
+        counter: newCounter,
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return jsonError("This passkey could not be verified.", 401);
+    }
+
+    const userId = passkey.user.id;
+    const { features } = await loadEntitlement(userId);
+    const maxActiveSessions = features.maxActiveSessions;
+    const session = await createLimitedActiveSession(userId, getClientMeta(req), maxActiveSessions);
+
+    const token = await signSession(userId, session.id);
+
+    // update last login (best-effort)
+    prisma.user
+      .update({
+        where: { id: userId },
+        data: { lastLoginAt: new Date() },
+      })
+      .catch(() => {});
+
+    const res = NextResponse.json(
+      { success: true, maxActiveSessions, method: "passkey" },
+      { status: 200 }
+    );
+    res.cookies.set(buildSessionCookie(token));
+    res.cookies.delete(getPasskeyChallengeCookieName());
+    return res;
+  } catch (err) {
+    console.error("Passkey login failed:", err);
+    return jsonError("Login failed. Please try again.", 500);
+  }
+}
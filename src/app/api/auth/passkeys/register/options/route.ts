@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateRegistrationOptions } from "@simplewebauthn/server";
+
+import { prisma } from "@/lib/db";
+import {
+  buildPasskeyChallengeCookie,
+  getSessionCookieName,
+  signPasskeyChallenge,
+  verifySession,
+} from "@/lib/auth";
+import { MAX_PASSKEYS_PER_USER, getRelyingParty, toTransports } from "@/lib/passkeys";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * POST: starts adding a passkey to the signed-in account.
+ * Returns the options for `navigator.credentials.create()`; the challenge is
+ * kept in a signed cookie for `/register/verify`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get(getSessionCookieName())?.value;
+    if (!token) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+
+    const { userId } = await verifySession(token);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        fullName: true,
+        passkeys: { select: { credentialId: true, transports: true } },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404, headers: noStoreHeaders() }
+      );
+    }
+
+    if (user.passkeys.length >= MAX_PASSKEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have up to ${MAX_PASSKEYS_PER_USER} passkeys. Remove one first.` },
+        { status: 409, headers: noStoreHeaders() }
+      );
+    }
+
+    const { rpID, rpName } = getRelyingParty(req);
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userID: new TextEncoder().encode(user.id),
+      userName: user.email,
+      userDisplayName: user.fullName || user.email,
+      attestationType: "none",
+      // The same device cannot be registered twice for this account
+      excludeCredentials: user.passkeys.map((p) => ({
+        id: p.credentialId,
+        transports: toTransports(p.transports),
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "required",
+      },
+    });
+
+    const challenge = await signPasskeyChallenge(options.challenge, "register", user.id);
+
+    const res = NextResponse.json(
+      { success: true, options },
+      { status: 200, headers: noStoreHeaders() }
+    );
+    res.cookies.set(buildPasskeyChallengeCookie(challenge));
+    return res;
+  } catch (e: unknown) {
+    console.error("Passkey registration options failed:", e);
+    return NextResponse.json(
+      { error: "Could not start passkey setup. Please try again." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
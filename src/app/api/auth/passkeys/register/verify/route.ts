@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyRegistrationResponse } from "@simplewebauthn/server";
+import type { RegistrationResponseJSON } from "@simplewebauthn/server";
+
+import { prisma } from "@/lib/db";
+import {
+  getPasskeyChallengeCookieName,
+  getSessionCookieName,
+  verifyPasskeyChallenge,
+  verifySession,
+} from "@/lib/auth";
+import {
+  MAX_PASSKEYS_PER_USER,
+  cleanPasskeyName,
+  defaultPasskeyName,
+  getRelyingParty,
+} from "@/lib/passkeys";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  const res = NextResponse.json({ error: message }, { status, headers: noStoreHeaders() });
+  res.cookies.delete(getPasskeyChallengeCookieName());
+  return res;
+}
+
+/**
+ * POST { response, name? }
+ * Checks the browser's attestation against the challenge from `/register/options`
+ * and stores the new passkey's public key.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get(getSessionCookieName())?.value;
+    if (!token) return jsonError("Not authenticated", 401);
+
+    const { userId } = await verifySession(token);
+
+    const challengeToken = req.cookies.get(getPasskeyChallengeCookieName())?.value || "";
+    let expectedChallenge: string;
+    try {
+      const challenge = await verifyPasskeyChallenge(challengeToken, "register");
+      if (challenge.userId !== userId) throw new Error("Challenge issued to another user");
+      expectedChallenge = challenge.challenge;
+    } catch {
+      return jsonError("Passkey setup took too long. Please try again.", 400);
+    }
+
+    const body: { response?: unknown; name?: unknown } = await req.json().catch(() => ({}));
+    if (!body?.response || typeof body.response !== "object") {
+      return jsonError("Missing passkey response.", 400);
+    }
+
+    const { rpID, origin } = getRelyingParty(req);
+
+    let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: body.response as RegistrationResponseJSON,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+      });
+    } catch (e: unknown) {
+      console.warn("Passkey registration rejected:", e instanceof Error ? e.message : e);
+      return jsonError("This passkey could not be verified. Please try again.", 400);
+    }
+
+    if (!verification.verified) {
+      return jsonError("This passkey could not be verified. Please try again.", 400);
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const count = await prisma.passkey.count({ where: { userId } });
+    if (count >= MAX_PASSKEYS_PER_USER) {
+      return jsonError(`You can have up to ${MAX_PASSKEYS_PER_USER} passkeys. Remove one first.`, 409);
+    }
+
+    const existing = await prisma.passkey.findUnique({
+      where: { credentialId: credential.id },
+      select: { id: true },
+    });
+    if (existing) {
+      return jsonError("This passkey is already registered.", 409);
+    }
+
+    const passkey = await prisma.passkey.create({
+      data: {
+        userId,
+        credentialId: credential.id,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name:
+          cleanPasskeyName(body.name) ||
+          defaultPasskeyName(req.headers.get("user-agent") || ""),
+      },
+      select: {
+        id: true,
+        name: true,
+        deviceType: true,
+        backedUp: true,
+        createdAt: true,
+        lastUsedAt: true,
+      },
+    });
+
+    const res = NextResponse.json(
+      { success: true, passkey },
+      { status: 200, headers: noStoreHeaders() }
+    );
+    res.cookies.delete(getPasskeyChallengeCookieName());
+    return res;
+  } catch (e: unknown) {
+    console.error("Passkey registration failed:", e);
+    return jsonError("Could not save the passkey. Please try again.", 500);
+  }
+}
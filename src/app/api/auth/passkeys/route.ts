@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * GET: the signed-in user's passkeys for the settings page.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401, headers: noStoreHeaders() }
+    );
+  }
+
+  let userId: string;
+  try {
+    ({ userId } = await verifySession(token));
+  } catch {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401, headers: noStoreHeaders() }
+    );
+  }
+
+  const passkeys = await prisma.passkey.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      name: true,
+      deviceType: true,
+      backedUp: true,
+      createdAt: true,
+      lastUsedAt: true,
+    },
+  });
+
+  return NextResponse.json(
+    { success: true, passkeys },
+    { status: 200, headers: noStoreHeaders() }
+  );
+}
@@ -4,6 +4,8 @@ import bcrypt from "bcryptjs";
 
 import { prisma } from "@/lib/db";
 import { generateToken, sha256 } from "@/lib/token";
+import { startTrial } from "@/lib/trials";
+import { consumeThrottle, throttleKeys } from "@/lib/rateLimit";
 // NOTE: Registration does NOT create a login session.
 // Users must verify email before they can log in.
 
@@ -93,6 +95,10 @@ async function sendVerificationEmail(toEmail: string, verifyUrl: string) {
 
 export async function POST(req: NextRequest) {
   try {
+    // Every signup counts per IP, successful or not
+    const gate = await consumeThrottle(throttleKeys("register", { req }));
+    if (!gate.ok) return gate.response;
+
     const { email, password } = await req.json().catch(() => ({}));
 
     const e = String(email || "").trim().toLowerCase();
@@ -123,7 +129,14 @@ export async function POST(req: NextRequest) {
       select: { id: true, email: true },
     });
 
-    // 2) Create/replace email verification token
+    // 2) Offer the signup trial. Best-effort: a failure leaves the account on
+    // no plan, which billing can fix later, and must not block registration.
+    const trialEndsAt = await startTrial(user.id, "signup").catch((err) => {
+      console.warn("[auth/register] startTrial failed:", err?.message || err);
+      return null;
+    });
+
+    // 3) Create/replace email verification token
     const token = generateToken(32);
     const tokenHash = sha256(token);
     const expiresAt = addHours(new Date(), Math.max(1, EMAIL_VERIFY_TTL_HOURS));
@@ -146,13 +159,13 @@ export async function POST(req: NextRequest) {
     const baseUrl = getBaseUrl(req);
     const verifyUrl = `${baseUrl}/verify-email?token=${encodeURIComponent(token)}`;
 
-    // 3) Try send email (optional)
+    // 4) Try send email (optional)
     const emailSend = await sendVerificationEmail(user.email, verifyUrl).catch((err) => {
       console.warn("[auth/register] sendVerificationEmail failed:", err?.message || err);
       return { sent: false as const, reason: "send_failed" as const };
     });
 
-    // 4) Mark verification email as sent only after SMTP accepts it.
+    // 5) Mark verification email as sent only after SMTP accepts it.
     // This is best-effort and must not block registration if the timestamp update fails.
     if (emailSend.sent === true) {
       await prisma.user
@@ -165,12 +178,13 @@ export async function POST(req: NextRequest) {
         });
     }
 
-    // 5) Response (no session cookie)
+    // 6) Response (no session cookie)
     const resBody: any = {
       success: true,
       user: { id: user.id, email: user.email },
       emailVerificationRequired: true,
       emailSent: emailSend.sent === true,
+      trialEndsAt: trialEndsAt ? trialEndsAt.toISOString() : null,
     };
 
     // Helpful for dev/testing (don’t leak in production)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import nodemailer, { Transporter } from "nodemailer";
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { consumeThrottle, rateLimitedResponse, throttleKeys } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -192,6 +193,10 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Invalid email" }, { status: 400, headers: noStoreHeaders() });
     }
 
+    // Per-IP and per-email limits on top of the resend cooldown below
+    const gate = await consumeThrottle(throttleKeys("request-otp", { req, email: e }));
+    if (!gate.ok) return gate.response;
+
     const now = new Date();
 
     // 🚫 Public OTP login is only for existing, email-verified accounts.
@@ -227,10 +232,10 @@ export async function POST(req: NextRequest) {
     if (latest?.createdAt) {
       const secondsSince = Math.floor((now.getTime() - latest.createdAt.getTime()) / 1000);
       if (secondsSince < RESEND_COOLDOWN_SECONDS) {
-        return NextResponse.json(
-          { error: `Please wait ${RESEND_COOLDOWN_SECONDS - secondsSince}s before requesting another code.` },
-          { status: 429, headers: noStoreHeaders() }
-        );
+        const wait = RESEND_COOLDOWN_SECONDS - secondsSince;
+        return rateLimitedResponse(wait, {
+          message: `Please wait ${wait}s before requesting another code.`,
+        });
       }
     }
 
@@ -0,0 +1,95 @@
+// src/app/api/auth/reset/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+
+import { prisma } from "@/lib/db";
+import { sha256 } from "@/lib/token";
+
+export const dynamic = "force-dynamic";
+
+function jsonError(message: string, status = 400, extra?: Record<string, unknown>) {
+  return NextResponse.json({ success: false, error: message, ...(extra || {}) }, { status });
+}
+
+/**
+ * POST { token, password }
+ *
+ * Sets a new password from an emailed reset link. The link works once, and
+ * every session the account had is revoked, so whoever knew the old password
+ * is signed out everywhere; the user signs in again with the new one.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body: { token?: unknown; password?: unknown } = await req.json().catch(() => ({}));
+    const token = String(body?.token || "").trim();
+    const password = String(body?.password || "");
+
+    if (!token) {
+      return jsonError("Missing token.", 400, { code: "TOKEN_MISSING" });
+    }
+
+    if (password.length < 8) {
+      return jsonError("Password must be at least 8 characters", 400);
+    }
+
+    const record = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: sha256(token) },
+      select: { id: true, userId: true, expiresAt: true },
+    });
+
+    if (!record) {
+      return jsonError("Invalid or expired reset link.", 400, { code: "TOKEN_INVALID" });
+    }
+
+    if (record.expiresAt <= new Date()) {
+      await prisma.passwordResetToken.delete({ where: { id: record.id } }).catch(() => {});
+      return jsonError("This reset link has expired. Please request a new one.", 400, {
+        code: "TOKEN_EXPIRED",
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: record.userId },
+      select: { id: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      await prisma.passwordResetToken.delete({ where: { id: record.id } }).catch(() => {});
+      return jsonError("Invalid or expired reset link.", 400, { code: "TOKEN_INVALID" });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+    const now = new Date();
+
+    // Claiming the token with deleteMany inside the transaction makes a second
+    // use of the same link find nothing to delete, even when two requests race.
+    const claimed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.passwordResetToken.deleteMany({
+        where: { id: record.id, expiresAt: { gt: now } },
+      });
+      if (count !== 1) return false;
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { passwordHash },
+      });
+      await tx.session.updateMany({
+        where: { userId: user.id, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      return true;
+    });
+
+    if (!claimed) {
+      return jsonError("Invalid or expired reset link.", 400, { code: "TOKEN_INVALID" });
+    }
+
+    return NextResponse.json({ success: true, redirectTo: "/login" }, { status: 200 });
+  } catch (e: unknown) {
+    console.error("[auth/reset] error", e instanceof Error ? e.message : e);
+    return NextResponse.json(
+      { success: false, error: "Password reset failed." },
+      { status: 500 }
+    );
+  }
+}
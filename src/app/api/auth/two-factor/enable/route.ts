@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { matchTotpStep, replaceRecoveryCodes } from "@/lib/twoFactor";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * POST { code }
+ * Confirms the secret from `/setup` with a code from the app and turns 2FA on.
+ * Returns the recovery codes (shown once) and signs out every other session,
+ * so nothing stays signed in on the strength of the password alone.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get(getSessionCookieName())?.value;
+    if (!token) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+
+    const session = await verifySession(token).catch(() => null);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session expired. Please log in again." },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+    const { userId, sessionId } = session;
+
+    const body: { code?: unknown } = await req.json().catch(() => ({}));
+    const code = String(body?.code ?? "").trim();
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404, headers: noStoreHeaders() }
+      );
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already turned on." },
+        { status: 409, headers: noStoreHeaders() }
+      );
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: "Start the setup again to get a new QR code." },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const step = matchTotpStep(user.totpSecret, code, null);
+    if (step == null) {
+      return NextResponse.json(
+        { error: "That code is not valid. Check your phone’s clock and try the newest code." },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const now = new Date();
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: now, totpLastUsedStep: step },
+      });
+
+      await tx.session.updateMany({
+        where: { userId, revokedAt: null, NOT: { id: sessionId } },
+        data: { revokedAt: now },
+      });
+
+      return await replaceRecoveryCodes(tx, userId);
+    });
+
+    return NextResponse.json(
+      { success: true, enabledAt: now.toISOString(), recoveryCodes },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (e: unknown) {
+    console.error("[auth/two-factor/enable] error", e instanceof Error ? e.message : e);
+    return NextResponse.json(
+      { error: "Could not turn on two-factor authentication." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
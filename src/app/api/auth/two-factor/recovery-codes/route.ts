@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  accountKey,
+  checkThrottle,
+  recordThrottleHit,
+  throttleKeys,
+} from "@/lib/rateLimit";
+import { consumeSecondFactor, replaceRecoveryCodes } from "@/lib/twoFactor";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * POST { code }
+ * Replaces the recovery codes with a new set, for when they were lost or used
+ * up. Needs a code from the authenticator app; the old codes stop working.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get(getSessionCookieName())?.value;
+    if (!token) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+
+    const session = await verifySession(token).catch(() => null);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session expired. Please log in again." },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+    const { userId } = session;
+
+    const body: { code?: unknown } = await req.json().catch(() => ({}));
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    const keys = [...throttleKeys("two-factor", { req }), ...accountKey(user?.email)];
+    const gate = await checkThrottle(keys);
+    if (!gate.ok) return gate.response;
+
+    const method = await consumeSecondFactor(userId, { code: body?.code });
+    if (!method) {
+      const blocked = await recordThrottleHit(keys);
+      if (!blocked.ok) return blocked.response;
+
+      return NextResponse.json(
+        { error: "Enter a valid code from your authenticator app." },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const recoveryCodes = await prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+
+    return NextResponse.json(
+      { success: true, recoveryCodes },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (e: unknown) {
+    console.error("[auth/two-factor/recovery-codes] error", e instanceof Error ? e.message : e);
+    return NextResponse.json(
+      { error: "Could not create new recovery codes." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
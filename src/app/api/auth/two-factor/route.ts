@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  accountKey,
+  checkThrottle,
+  recordThrottleHit,
+  throttleKeys,
+} from "@/lib/rateLimit";
+import { TWO_FACTOR_CLEARED, consumeSecondFactor, roleRequiresTwoFactor } from "@/lib/twoFactor";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+async function getUserId(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) return null;
+
+  try {
+    const { userId } = await verifySession(token);
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET: 2FA status for the settings page.
+ * `pending` means setup was started but never confirmed with a code.
+ */
+export async function GET(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401, headers: noStoreHeaders() }
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      totpSecret: true,
+      totpEnabledAt: true,
+      _count: { select: { recoveryCodes: { where: { usedAt: null } } } },
+    },
+  });
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not found" },
+      { status: 404, headers: noStoreHeaders() }
+    );
+  }
+
+  const enabled = Boolean(user.totpEnabledAt);
+
+  return NextResponse.json(
+    {
+      success: true,
+      enabled,
+      enabledAt: user.totpEnabledAt ? user.totpEnabledAt.toISOString() : null,
+      pending: !enabled && Boolean(user.totpSecret),
+      recoveryCodesRemaining: enabled ? user._count.recoveryCodes : 0,
+      required: await roleRequiresTwoFactor(user.role),
+    },
+    { status: 200, headers: noStoreHeaders() }
+  );
+}
+
+/**
+ * DELETE { code } or { recoveryCode }
+ * Turns 2FA off. Needs a current code, so a hijacked session alone cannot do it,
+ * and is refused while the user's role requires 2FA.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await getUserId(req);
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+
+    const body: { code?: unknown; recoveryCode?: unknown } = await req.json().catch(() => ({}));
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, role: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not turned on." },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    if (await roleRequiresTwoFactor(user.role)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for your account role." },
+        { status: 403, headers: noStoreHeaders() }
+      );
+    }
+
+    const keys = [...throttleKeys("two-factor", { req }), ...accountKey(user.email)];
+    const gate = await checkThrottle(keys);
+    if (!gate.ok) return gate.response;
+
+    const method = await consumeSecondFactor(userId, body);
+    if (!method) {
+      const blocked = await recordThrottleHit(keys);
+      if (!blocked.ok) return blocked.response;
+
+      return NextResponse.json(
+        { error: "That code is not valid. Please try again." },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: TWO_FACTOR_CLEARED }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    return NextResponse.json({ success: true }, { status: 200, headers: noStoreHeaders() });
+  } catch (e: unknown) {
+    console.error("[auth/two-factor] disable failed", e instanceof Error ? e.message : e);
+    return NextResponse.json(
+      { error: "Could not turn off two-factor authentication." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
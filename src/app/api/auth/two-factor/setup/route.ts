@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import QRCode from "qrcode";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { generateTotpSecret, totpUri } from "@/lib/twoFactor";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+/**
+ * POST: start (or restart) authenticator setup.
+ * Stores a new secret without turning 2FA on and returns it as a QR code, plus
+ * the plain secret for apps that cannot scan. `/enable` confirms it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get(getSessionCookieName())?.value;
+    if (!token) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+
+    const session = await verifySession(token).catch(() => null);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session expired. Please log in again." },
+        { status: 401, headers: noStoreHeaders() }
+      );
+    }
+    const { userId } = session;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404, headers: noStoreHeaders() }
+      );
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already turned on." },
+        { status: 409, headers: noStoreHeaders() }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = totpUri(secret, user.email);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null },
+    });
+
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+    return NextResponse.json(
+      { success: true, secret, otpauthUrl, qrCode },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (e: unknown) {
+    console.error("[auth/two-factor/setup] error", e instanceof Error ? e.message : e);
+    return NextResponse.json(
+      { error: "Could not start two-factor setup." },
+      { status: 500, headers: noStoreHeaders() }
+    );
+  }
+}
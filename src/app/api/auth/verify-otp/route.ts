@@ -2,7 +2,20 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
-import { buildSessionCookie, signSession } from "@/lib/auth";
+import {
+  buildSessionCookie,
+  buildTwoFactorChallengeCookie,
+  signSession,
+  signTwoFactorChallenge,
+} from "@/lib/auth";
+import { loadEntitlement } from "@/lib/entitlements";
+import {
+  accountKey,
+  checkThrottle,
+  clearThrottle,
+  recordThrottleHit,
+  throttleKeys,
+} from "@/lib/rateLimit";
 
 const SESSION_DAYS = 7;
 
@@ -47,59 +60,6 @@ async function enforceMaxSessions(userId: string, max = 1) {
   }
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
-
-function toPositiveInteger(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
-    return Math.floor(value);
-  }
-
-  if (typeof value === "string") {
-    const parsed = Number(value.trim());
-
-    if (Number.isFinite(parsed) && parsed > 0) {
-      return Math.floor(parsed);
-    }
-  }
-
-  return null;
-}
-
-async function getMaxActiveSessions(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  const tier = String(entitlement?.tier || "starter").toLowerCase().trim();
-  const status = String(entitlement?.status || "active").toLowerCase().trim();
-
-  if (status === "blocked" || status === "none") {
-    return 1;
-  }
-
-  const features = isPlainObject(entitlement?.features)
-    ? entitlement.features
-    : {};
-
-  const featureLimit = toPositiveInteger(features.maxActiveSessions);
-
-  if (featureLimit) {
-    return featureLimit;
-  }
-
-  if (tier === "pro") return 4;
-  if (tier === "growth") return 2;
-
-  return 1;
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
@@ -124,6 +84,12 @@ export async function POST(req: NextRequest) {
       return jsonError("OTP must be a 6-digit code.", 400);
     }
 
+    // Wrong codes count per IP and towards the account's lockout, so the
+    // 6 digits cannot be guessed within the code's lifetime.
+    const keys = [...throttleKeys("verify-otp", { req }), ...accountKey(email)];
+    const gate = await checkThrottle(keys);
+    if (!gate.ok) return gate.response;
+
     // Find OTP (unused + not expired)
     const otp = await prisma.otpCode.findFirst({
       where: {
@@ -136,6 +102,8 @@ export async function POST(req: NextRequest) {
     });
 
     if (!otp) {
+      const blocked = await recordThrottleHit(keys);
+      if (!blocked.ok) return blocked.response;
       return jsonError("Invalid or expired OTP code.", 401);
     }
 
@@ -147,7 +115,7 @@ export async function POST(req: NextRequest) {
     // Load user (OTP login is ONLY for existing users)
     const user = await prisma.user.findUnique({
       where: { id: otp.userId },
-      select: { id: true, email: true, emailVerifiedAt: true },
+      select: { id: true, email: true, emailVerifiedAt: true, totpEnabledAt: true },
     });
 
     if (!user) {
@@ -172,9 +140,32 @@ export async function POST(req: NextRequest) {
       data: { usedAt: new Date() },
     });
 
+    // Cookie maxAge: 1 day vs 7 days (remember)
+    const maxAgeSeconds = (remember ? SESSION_DAYS : 1) * 24 * 60 * 60;
+
+    // 🔐 The emailed code is only the first factor when an authenticator app is
+    // enrolled; /api/auth/login finishes the sign-in with the app's code.
+    if (user.totpEnabledAt) {
+      const challenge = await signTwoFactorChallenge(user.id, maxAgeSeconds);
+      const res = NextResponse.json(
+        {
+          success: false,
+          error: "Enter the code from your authenticator app.",
+          code: "TWO_FACTOR_REQUIRED",
+          challenge,
+        },
+        { status: 401 }
+      );
+      res.cookies.set(buildTwoFactorChallengeCookie(challenge));
+      return res;
+    }
+
+    await clearThrottle(accountKey(email));
+
     // ✅ OTP login must respect the same plan-based session limit as normal login.
     // Previously this was hardcoded to 1, which could revoke valid Growth/Pro sessions.
-    const maxActiveSessions = await getMaxActiveSessions(user.id);
+    const { features } = await loadEntitlement(user.id);
+    const maxActiveSessions = features.maxActiveSessions;
     await enforceMaxSessions(user.id, maxActiveSessions);
 
     const meta = getClientMeta(req);
@@ -194,9 +185,6 @@ export async function POST(req: NextRequest) {
 
     const token = await signSession(user.id, session.id);
 
-    // Cookie maxAge: 1 day vs 7 days (remember)
-    const maxAgeSeconds = (remember ? SESSION_DAYS : 1) * 24 * 60 * 60;
-
     // Update last login (best-effort)
     prisma.user
       .update({
@@ -29,7 +29,6 @@ type Cycle = "monthly" | "annual";
 type PlanMeta = {
   tier: Exclude<Tier, "none" | "free">;
   cycle: Cycle;
-  companies: number;
   amountKobo?: number; // optional strict validation
 };
 
@@ -42,7 +41,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "starter",
     cycle: "monthly",
-    companies: 1,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_STARTER_MONTHLY ||
         process.env.PAYSTACK_STARTER_MONTHLY_AMOUNT_KOBO ||
@@ -57,7 +55,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "starter",
     cycle: "annual",
-    companies: 1,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_STARTER_ANNUAL ||
         process.env.PAYSTACK_STARTER_ANNUAL_AMOUNT_KOBO ||
@@ -73,7 +70,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "growth",
     cycle: "monthly",
-    companies: 3,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_GROWTH_MONTHLY ||
         process.env.PAYSTACK_GROWTH_MONTHLY_AMOUNT_KOBO ||
@@ -88,7 +84,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "growth",
     cycle: "annual",
-    companies: 3,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_GROWTH_ANNUAL ||
         process.env.PAYSTACK_GROWTH_ANNUAL_AMOUNT_KOBO ||
@@ -104,7 +99,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "pro",
     cycle: "monthly",
-    companies: 5,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_PRO_MONTHLY ||
         process.env.PAYSTACK_PRO_MONTHLY_AMOUNT_KOBO ||
@@ -119,7 +113,6 @@ const PLAN_MAP: Record<string, PlanMeta> = {
   ).trim()]: {
     tier: "pro",
     cycle: "annual",
-    companies: 5,
     amountKobo: Number(
       process.env.PAYSTACK_AMOUNT_KOBO_PRO_ANNUAL ||
         process.env.PAYSTACK_PRO_ANNUAL_AMOUNT_KOBO ||
@@ -133,21 +126,6 @@ for (const k of Object.keys(PLAN_MAP)) {
   if (!k) delete PLAN_MAP[k];
 }
 
-// FREE limits (trial)
-const FREE_LIMITS = {
-  companies: 1,
-  invoice: 5,
-  quote: 5,
-  purchase_order: 5,
-};
-
-// Paid limits
-const PAID_LIMITS_UNLIMITED = {
-  invoice: 999999,
-  quote: 999999,
-  purchase_order: 999999,
-};
-
 function timingSafeEqualHex(a: string, b: string) {
   const aBuf = Buffer.from(a, "hex");
   const bBuf = Buffer.from(b, "hex");
@@ -318,23 +296,10 @@ async function putPaidOnGrace(userId: string, reason: string) {
   await setEntitlement(userId, tier, "grace", nextFeatures);
 }
 
-function buildPaidFeatures(tier: "starter" | "growth" | "pro", companies: number) {
-  return {
-    readOnly: false,
-    limits: {
-      ...PAID_LIMITS_UNLIMITED,
-      companies,
-    },
-    tier,
-  };
-}
-
-function buildFreeFeatures() {
-  return {
-    readOnly: false,
-    limits: { ...FREE_LIMITS },
-    tier: "free",
-  };
+// Capabilities and limits come from the tier in `resolveEntitlementSnapshot`,
+// so only the tier is stored and no earlier plan's overrides survive.
+function buildPaidFeatures(tier: "starter" | "growth" | "pro") {
+  return { tier };
 }
 
 export async function POST(req: NextRequest) {
@@ -494,7 +459,7 @@ export async function POST(req: NextRequest) {
             userId,
             meta.tier,
             "active",
-            buildPaidFeatures(meta.tier, meta.companies)
+            buildPaidFeatures(meta.tier)
           );
         }
 
@@ -546,7 +511,7 @@ export async function POST(req: NextRequest) {
             userId,
             meta.tier,
             "active",
-            buildPaidFeatures(meta.tier, meta.companies)
+            buildPaidFeatures(meta.tier)
           );
         }
       } else {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
 
 export const dynamic = "force-dynamic";
 
@@ -115,6 +116,9 @@ export async function PUT(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
+    const writeGate = await requireEntitlement(auth.userId, { writable: true });
+    if (!writeGate.ok) return writeGate.response;
+
     const { id } = await ctx.params;
     const body = await req.json().catch(() => ({}));
 
@@ -238,6 +242,9 @@ export async function DELETE(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
+    const writeGate = await requireEntitlement(auth.userId, { writable: true });
+    if (!writeGate.ok) return writeGate.response;
+
     const { id } = await ctx.params;
 
     const existing = await requireOwnedCompany(auth.userId, id);
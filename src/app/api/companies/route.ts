@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement, requireWithinLimit } from "@/lib/entitlementGuard";
+import { loadEntitlement } from "@/lib/entitlements";
 
 export const dynamic = "force-dynamic";
 
@@ -34,42 +36,6 @@ function toRequiredString(value: unknown, field: string, max = 1000): string {
   return s.slice(0, max);
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
-
-function toBooleanOverride(value: unknown): boolean | null {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "string") {
-    const s = value.toLowerCase().trim();
-    if (s === "true") return true;
-    if (s === "false") return false;
-  }
-  return null;
-}
-
-function extractMaxCompanies(
-  tier: string,
-  features: Record<string, unknown>
-): number {
-  const raw = features["maxCompanies"];
-
-  if (typeof raw === "number" && Number.isFinite(raw) && raw > 0) {
-    return Math.floor(raw);
-  }
-
-  if (typeof raw === "string") {
-    const parsed = Number(raw.trim());
-    if (Number.isFinite(parsed) && parsed > 0) {
-      return Math.floor(parsed);
-    }
-  }
-
-  if (tier === "pro") return 5;
-  if (tier === "growth") return 3;
-  return 1;
-}
-
 async function requireAuthedUser(req: NextRequest) {
   const token = req.cookies.get(getSessionCookieName())?.value;
   if (!token) {
@@ -84,39 +50,6 @@ async function requireAuthedUser(req: NextRequest) {
   }
 }
 
-async function getEntitlementContext(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  const tier = String(entitlement?.tier ?? "free").toLowerCase().trim();
-  const status = String(entitlement?.status ?? "active").toLowerCase().trim();
-  const features = isPlainObject(entitlement?.features) ? entitlement!.features as Record<string, unknown> : {};
-
-  const cloudSyncOverride = toBooleanOverride(features["cloudSync"]);
-  const cloudSyncComputed = tier === "growth" || tier === "pro";
-
-  const cloudSync =
-    status === "blocked" || status === "none"
-      ? false
-      : cloudSyncOverride ?? cloudSyncComputed;
-
-  const maxCompanies = extractMaxCompanies(tier, features);
-
-  return {
-    tier,
-    status,
-    features,
-    cloudSync,
-    maxCompanies,
-  };
-}
-
 function mapCompanyForResponse(row: {
   id: string;
   name: string;
@@ -142,7 +75,7 @@ export async function GET(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const entitlement = await getEntitlementContext(auth.userId);
+    const entitlement = await loadEntitlement(auth.userId);
 
     const includeDeleted = req.nextUrl.searchParams.get("includeDeleted") === "1";
     const onlyActive = req.nextUrl.searchParams.get("onlyActive") !== "0";
@@ -180,8 +113,8 @@ export async function GET(req: NextRequest) {
       {
         success: true,
         companies: rows.map(mapCompanyForResponse),
-        maxCompanies: entitlement.maxCompanies,
-        cloudSync: entitlement.cloudSync,
+        maxCompanies: entitlement.features.limits.companies,
+        cloudSync: entitlement.features.cloudSync,
         tier: entitlement.tier,
         status: entitlement.status,
       },
@@ -198,7 +131,9 @@ export async function POST(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const entitlement = await getEntitlementContext(auth.userId);
+    const writeGate = await requireEntitlement(auth.userId, { writable: true });
+    if (!writeGate.ok) return writeGate.response;
+    const { entitlement } = writeGate;
 
     const body = await req.json().catch(() => ({}));
 
@@ -255,7 +190,7 @@ export async function POST(req: NextRequest) {
         {
           success: true,
           company: mapCompanyForResponse(company),
-          maxCompanies: entitlement.maxCompanies,
+          maxCompanies: entitlement.features.limits.companies,
         },
         { status: 200, headers: noStoreHeaders() }
       );
@@ -269,12 +204,8 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    if (activeCount >= entitlement.maxCompanies) {
-      return jsonError(
-        `Company limit reached for your plan. Maximum allowed: ${entitlement.maxCompanies}.`,
-        403
-      );
-    }
+    const companyLimit = requireWithinLimit(entitlement, "companies", activeCount);
+    if (!companyLimit.ok) return companyLimit.response;
 
     const hasDefault = await prisma.company.findFirst({
       where: {
@@ -322,7 +253,7 @@ export async function POST(req: NextRequest) {
       {
         success: true,
         company: mapCompanyForResponse(company),
-        maxCompanies: entitlement.maxCompanies,
+        maxCompanies: entitlement.features.limits.companies,
       },
       { status: 201, headers: noStoreHeaders() }
     );
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+} from "@/lib/sync/revision";
 
 export const dynamic = "force-dynamic";
 
@@ -36,30 +42,6 @@ function toDecimalOrNull(value: unknown): number | null {
   return null;
 }
 
-function parseDateValue(value: unknown): Date | null {
-  if (value == null) return null;
-
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? null : value;
-  }
-
-  if (typeof value === "number" && Number.isFinite(value)) {
-    const d = new Date(value);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  if (typeof value === "string") {
-    const raw = value.trim();
-    if (!raw) return null;
-
-    const numeric = Number(raw);
-    const d = Number.isFinite(numeric) && /^\d+$/.test(raw) ? new Date(numeric) : new Date(raw);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  return null;
-}
-
 function toBooleanFlag(value: unknown): boolean {
   if (value === true) return true;
   if (typeof value === "string") return value.trim().toLowerCase() === "true";
@@ -114,6 +96,8 @@ function mapSettingsForResponse(row: {
   vatRateDefault: any;
   quotePrefix: string | null;
   invoicePrefix: string | null;
+  creditNotePrefix: string | null;
+  purchaseOrderPrefix: string | null;
   quoteTerms: string | null;
   invoiceTerms: string | null;
   bankName: string | null;
@@ -124,6 +108,7 @@ function mapSettingsForResponse(row: {
   logoUrl: string | null;
   accentColor: string | null;
   raw: any;
+  syncRevision: number;
   createdAt: Date;
   updatedAt: Date;
 }) {
@@ -150,6 +135,8 @@ function mapSettingsForResponse(row: {
       row.vatRateDefault == null ? null : Number(row.vatRateDefault),
     quotePrefix: row.quotePrefix,
     invoicePrefix: row.invoicePrefix,
+    creditNotePrefix: row.creditNotePrefix,
+    purchaseOrderPrefix: row.purchaseOrderPrefix,
     quoteTerms: row.quoteTerms,
     invoiceTerms: row.invoiceTerms,
     bankName: row.bankName,
@@ -160,6 +147,7 @@ function mapSettingsForResponse(row: {
     logoUrl: row.logoUrl,
     accentColor: row.accentColor,
     raw: row.raw,
+    syncRevision: row.syncRevision,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
@@ -187,6 +175,8 @@ const companySettingsSelect = {
   vatRateDefault: true,
   quotePrefix: true,
   invoicePrefix: true,
+  creditNotePrefix: true,
+  purchaseOrderPrefix: true,
   quoteTerms: true,
   invoiceTerms: true,
   bankName: true,
@@ -197,6 +187,7 @@ const companySettingsSelect = {
   logoUrl: true,
   accentColor: true,
   raw: true,
+  syncRevision: true,
   createdAt: true,
   updatedAt: true,
 } as const;
@@ -250,6 +241,8 @@ export async function GET(req: NextRequest) {
         vatRateDefault: true,
         quotePrefix: true,
         invoicePrefix: true,
+        creditNotePrefix: true,
+        purchaseOrderPrefix: true,
         quoteTerms: true,
         invoiceTerms: true,
         bankName: true,
@@ -260,6 +253,7 @@ export async function GET(req: NextRequest) {
         logoUrl: true,
         accentColor: true,
         raw: true,
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -283,6 +277,9 @@ export async function POST(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
+    const writeGate = await requireEntitlement(auth.userId, { writable: true });
+    if (!writeGate.ok) return writeGate.response;
+
     const body = await req.json().catch(() => ({}));
 
     const companyId = String(body?.companyId ?? "").trim();
@@ -317,6 +314,8 @@ export async function POST(req: NextRequest) {
 
       quotePrefix: toNullableString(body?.quotePrefix, 50),
       invoicePrefix: toNullableString(body?.invoicePrefix, 50),
+      creditNotePrefix: toNullableString(body?.creditNotePrefix, 50),
+      purchaseOrderPrefix: toNullableString(body?.purchaseOrderPrefix, 50),
       quoteTerms: toNullableString(body?.quoteTerms, 8000),
       invoiceTerms: toNullableString(body?.invoiceTerms, 8000),
 
@@ -332,20 +331,19 @@ export async function POST(req: NextRequest) {
       raw: body?.raw ?? null,
     };
 
-    const incomingUpdatedAt = parseDateValue(body?.updatedAt);
-    const baseRemoteUpdatedAt = parseDateValue(body?.baseRemoteUpdatedAt ?? body?.lastKnownRemoteUpdatedAt);
     const forceConflictResolution = toBooleanFlag(body?.forceConflictResolution);
 
     const existing = await prisma.companySettings.findUnique({
       where: { companyId },
       select: {
         id: true,
+        syncRevision: true,
         updatedAt: true,
       },
     });
 
     if (existing) {
-      if (!forceConflictResolution && baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt) {
+      if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
         const current = await loadCurrentSettingsForConflict(companyId);
 
         return NextResponse.json(
@@ -356,13 +354,14 @@ export async function POST(req: NextRequest) {
             entityId: companyId,
             serverRecord: current,
             serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
             message: "These company settings were changed in the cloud after this device last synced.",
           },
           { status: 409, headers: noStoreHeaders() }
         );
       }
 
-      if (!forceConflictResolution && incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt) {
+      if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
         const current = await loadCurrentSettingsForConflict(companyId);
 
         return NextResponse.json(
@@ -377,10 +376,13 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    const settings = existing
-      ? await prisma.companySettings.update({
+    const settings = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      return existing
+        ? tx.companySettings.update({
           where: { companyId },
-          data,
+          data: { ...data, syncRevision },
           select: {
             id: true,
             userId: true,
@@ -403,6 +405,8 @@ export async function POST(req: NextRequest) {
             vatRateDefault: true,
             quotePrefix: true,
             invoicePrefix: true,
+            creditNotePrefix: true,
+            purchaseOrderPrefix: true,
             quoteTerms: true,
             invoiceTerms: true,
             bankName: true,
@@ -413,15 +417,17 @@ export async function POST(req: NextRequest) {
             logoUrl: true,
             accentColor: true,
             raw: true,
+            syncRevision: true,
             createdAt: true,
             updatedAt: true,
           },
         })
-      : await prisma.companySettings.create({
+        : tx.companySettings.create({
           data: {
             userId: auth.userId,
             companyId,
             ...data,
+            syncRevision,
           },
           select: {
             id: true,
@@ -445,6 +451,8 @@ export async function POST(req: NextRequest) {
             vatRateDefault: true,
             quotePrefix: true,
             invoicePrefix: true,
+            creditNotePrefix: true,
+            purchaseOrderPrefix: true,
             quoteTerms: true,
             invoiceTerms: true,
             bankName: true,
@@ -455,10 +463,12 @@ export async function POST(req: NextRequest) {
             logoUrl: true,
             accentColor: true,
             raw: true,
+            syncRevision: true,
             createdAt: true,
             updatedAt: true,
           },
         });
+    });
 
     return NextResponse.json(
       {
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { creditNoteSelect, mapCreditNoteForResponse, mapInvoiceForResponse } from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { writeInvoiceSettlement } from "@/lib/sync/settlement";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const row = await prisma.creditNote.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: {
+        ...creditNoteSelect,
+        invoice: {
+          select: { id: true, number: true, status: true, total: true, balance: true, deletedAt: true },
+        },
+      },
+    });
+
+    if (!row) {
+      return jsonError("Credit note not found.", 404);
+    }
+
+    const { invoice, ...creditNote } = row;
+
+    return NextResponse.json(
+      {
+        success: true,
+        creditNote: {
+          ...mapCreditNoteForResponse(creditNote),
+          invoice: {
+            ...invoice,
+            total: Number(invoice.total),
+            balance: invoice.balance == null ? null : Number(invoice.balance),
+          },
+        },
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/credit-notes/:id][GET] failed:", err);
+    return jsonError("Failed to load credit note.", 500);
+  }
+}
+
+/**
+ * Deletes a credit note. The row is kept with `deletedAt` set so devices pull
+ * the removal, and its invoice is settled again without the credit.
+ */
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      const existing = await tx.creditNote.findFirst({
+        where: { id, userId: auth.userId, companyId, deletedAt: null },
+        select: { id: true, invoiceId: true },
+      });
+      if (!existing) return null;
+
+      const removed = await tx.creditNote.update({
+        where: { id },
+        data: { deletedAt: new Date(), syncRevision },
+        select: creditNoteSelect,
+      });
+      await saveRecordSnapshot(tx, "credit-note", author, "delete", mapCreditNoteForResponse(removed));
+
+      const settled = await writeInvoiceSettlement(tx, existing.invoiceId, author);
+      return { creditNote: removed, invoice: settled };
+    });
+
+    if (!outcome) {
+      return jsonError("Credit note not found.", 404);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        creditNote: mapCreditNoteForResponse(outcome.creditNote),
+        invoice: mapInvoiceForResponse(outcome.invoice),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/credit-notes/:id][DELETE] failed:", err);
+    return jsonError("Failed to delete credit note.", 500);
+  }
+}
@@ -0,0 +1,404 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  checkCreditNoteAgainstInvoice,
+  creditedInvoiceSelect,
+  parseCreditNoteInput,
+} from "@/lib/creditNotes";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  takeDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { resolveDocumentTotals } from "@/lib/lineItems";
+import {
+  creditNoteSelect,
+  mapCreditNoteForResponse,
+  mapInvoiceForResponse,
+} from "@/lib/sync/records";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { writeInvoiceSettlement } from "@/lib/sync/settlement";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("credit-note", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function toBooleanFlag(value: unknown): boolean {
+  if (value === true) return true;
+  if (typeof value === "string") return value.trim().toLowerCase() === "true";
+  return false;
+}
+
+function encodeCursor(syncRevision: number): string {
+  return Buffer.from(JSON.stringify({ rev: syncRevision }), "utf8").toString("base64url");
+}
+
+function decodeCursor(value: string | null): { syncRevision: number } | null {
+  if (!value) return null;
+  try {
+    const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as { rev?: unknown };
+    const syncRevision = parseSyncRevision(raw?.rev);
+    return syncRevision == null ? null : { syncRevision };
+  } catch {
+    return null;
+  }
+}
+
+const BROWSE_SORT_FIELDS = ["issueDate", "number", "customerName", "status", "total", "updatedAt"] as const;
+
+type BrowseSort = { field: (typeof BROWSE_SORT_FIELDS)[number]; direction: "asc" | "desc" };
+
+/** The portal browses with `sort`/`order`/`offset`; sync clients page by revision cursor. */
+function parseBrowseSort(sort: string | null, order: string | null): BrowseSort | null {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return { field, direction: String(order ?? "").toLowerCase() === "asc" ? "asc" : "desc" };
+}
+
+function parseStatusFilter(value: string | null): string[] {
+  return String(value ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const since = parseDateParam(url.searchParams.get("since"));
+    const sinceRevision = parseSyncRevision(url.searchParams.get("sinceRevision"));
+    const cursor = decodeCursor(url.searchParams.get("cursor"));
+    const includeDeleted = url.searchParams.get("includeDeleted") === "1";
+    const limitRaw = Number(url.searchParams.get("limit") || "500");
+    const limit = Math.max(1, Math.min(limitRaw, 1000));
+    const browseSort = parseBrowseSort(url.searchParams.get("sort"), url.searchParams.get("order"));
+    const offset = Math.max(0, Math.floor(Number(url.searchParams.get("offset") || "0")) || 0);
+    const search = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+    const statuses = parseStatusFilter(url.searchParams.get("status"));
+    const invoiceId = String(url.searchParams.get("invoiceId") ?? "").trim();
+    const customerId = String(url.searchParams.get("customerId") ?? "").trim();
+
+    const andFilters: Prisma.CreditNoteWhereInput[] = [{ userId: auth.userId }, { companyId }];
+
+    if (search) {
+      andFilters.push({
+        OR: [
+          { number: { contains: search, mode: "insensitive" } },
+          { customerName: { contains: search, mode: "insensitive" } },
+          { reason: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    if (statuses.length > 0) {
+      andFilters.push({ status: { in: statuses } });
+    }
+
+    if (invoiceId) {
+      andFilters.push({ invoiceId });
+    }
+
+    if (customerId) {
+      andFilters.push({ customerId });
+    }
+
+    if (cursor) {
+      andFilters.push({ syncRevision: { gt: cursor.syncRevision } });
+    } else if (sinceRevision != null) {
+      andFilters.push({ syncRevision: { gt: sinceRevision } });
+    } else if (since) {
+      andFilters.push({ updatedAt: { gt: since } });
+    }
+
+    if (!includeDeleted) {
+      andFilters.push({ deletedAt: null });
+    }
+
+    const rows = await prisma.creditNote.findMany({
+      where: { AND: andFilters },
+      orderBy: browseSort
+        ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+        : [{ syncRevision: "asc" }, { id: "asc" }],
+      ...(browseSort ? { skip: offset } : {}),
+      take: limit,
+      select: creditNoteSelect,
+    });
+
+    const hasMore = rows.length === limit;
+    const nextCursor =
+      hasMore && !browseSort ? encodeCursor(rows[rows.length - 1]!.syncRevision) : null;
+    const nextOffset = hasMore && browseSort ? offset + rows.length : null;
+
+    return NextResponse.json(
+      {
+        success: true,
+        creditNotes: rows.map(mapCreditNoteForResponse),
+        nextCursor,
+        nextOffset,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/credit-notes][GET] failed:", err);
+    return jsonError("Failed to load credit notes.", 500);
+  }
+}
+
+/**
+ * Creates or updates a credit note and settles its invoice in the same
+ * transaction. A new note may leave its number to the server. Credit notes are
+ * not merged field by field: a note the cloud changed since the device's base
+ * revision is reported as a conflict.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const raw = await req.json().catch(() => ({}));
+    const body: Record<string, unknown> = isPlainObject(raw) ? raw : {};
+
+    const companyId = String(body.companyId ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const id = toNullableString(body.id, 191);
+    if (!id) {
+      return jsonError("Credit note id is required.", 400);
+    }
+
+    const forceConflictResolution = toBooleanFlag(body.forceConflictResolution);
+
+    const existing = await prisma.creditNote.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: creditNoteSelect,
+    });
+
+    if (existing && !forceConflictResolution) {
+      if (hasCloudChangedSinceBase(existing, body)) {
+        return NextResponse.json(
+          {
+            success: false,
+            conflict: true,
+            entityType: "credit-note",
+            entityId: id,
+            serverRecord: mapCreditNoteForResponse(existing),
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            message: "This credit note was changed in the cloud after this device last synced.",
+          },
+          { status: 409, headers: noStoreHeaders() }
+        );
+      }
+
+      if (isIncomingOlderThanCloud(existing, body)) {
+        return NextResponse.json(
+          {
+            success: true,
+            creditNote: mapCreditNoteForResponse(existing),
+            ignored: true,
+            reason: "Incoming credit note is older than cloud copy.",
+          },
+          { status: 200, headers: noStoreHeaders() }
+        );
+      }
+    }
+
+    const invoiceId = toNullableString(body.invoiceId, 191) ?? existing?.invoiceId ?? null;
+    if (!invoiceId) {
+      return jsonError("invoiceId is required.", 400);
+    }
+    if (existing && existing.invoiceId !== invoiceId) {
+      return jsonError("A credit note cannot be moved to another invoice.", 400);
+    }
+
+    const requestedNumber = toNullableString(body.number, 100) ?? existing?.number ?? null;
+    if (requestedNumber) {
+      const taken = await prisma.creditNote.findFirst({
+        where: { companyId, number: requestedNumber, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(requestedNumber);
+    }
+
+    const resolved = resolveDocumentTotals(body, existing?.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    const payload = resolved.totals ? { ...body, ...resolved.totals } : body;
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Taking the revision first locks the company's counter, so notes written
+      // at the same time are checked against each other's totals.
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      const invoice = await tx.invoice.findFirst({
+        where: { id: invoiceId, userId: auth.userId, companyId },
+        select: creditedInvoiceSelect,
+      });
+      if (!invoice) return { kind: "invalid" as const, status: 404, error: "Invoice not found." };
+
+      const parsed = parseCreditNoteInput(payload, invoice);
+      if ("error" in parsed) return { kind: "invalid" as const, status: 400, error: parsed.error };
+
+      const rejection = await checkCreditNoteAgainstInvoice(tx, invoice, id, parsed.creditNote);
+      if (rejection) return { kind: "invalid" as const, status: 400, error: rejection };
+
+      const number = await takeDocumentNumber(tx, companyId, "credit-note", requestedNumber);
+      const fields = {
+        ...parsed.creditNote,
+        number,
+        syncRevision,
+        data: { ...payload, number } as Prisma.InputJsonObject,
+      };
+
+      const row = existing
+        ? await tx.creditNote.update({
+            where: { id },
+            data: {
+              ...fields,
+              lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+            },
+            select: creditNoteSelect,
+          })
+        : await tx.creditNote.create({
+            data: {
+              id,
+              userId: auth.userId,
+              companyId,
+              invoiceId,
+              ...fields,
+              lineItems: lineItems ? { create: lineItems } : undefined,
+            },
+            select: creditNoteSelect,
+          });
+
+      await saveRecordSnapshot(tx, "credit-note", author, existing ? "update" : "create", mapCreditNoteForResponse(row));
+      const settled = await writeInvoiceSettlement(tx, invoiceId, author);
+
+      return { kind: existing ? ("updated" as const) : ("created" as const), creditNote: row, invoice: settled };
+    });
+
+    if (outcome.kind === "invalid") {
+      return jsonError(outcome.error, outcome.status);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        creditNote: mapCreditNoteForResponse(outcome.creditNote),
+        invoice: mapInvoiceForResponse(outcome.invoice),
+      },
+      { status: outcome.kind === "created" ? 201 : 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    console.error("[api/credit-notes][POST] failed:", err);
+    return jsonError("Failed to save credit note.", 500);
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { findRecordRevision, saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+async function requireUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value?.trim();
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return await verifySession(token);
+  } catch {
+    return null;
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+function parseOptionalDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
+  const body = await req.json().catch(() => ({}));
+  const companyId = String(body?.companyId ?? "").trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const { id, revisionId } = await params;
+
+  const revision = await findRecordRevision(
+    "customer",
+    session.userId,
+    companyId,
+    id,
+    revisionId
+  );
+  const snapshot = revision?.snapshot;
+
+  if (!revision || !snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) {
+    return NextResponse.json(
+      { success: false, error: "Revision not found." },
+      { status: 404 }
+    );
+  }
+
+  const data = {
+    name: optionalString(snapshot.name) ?? "Unknown customer",
+    email: optionalString(snapshot.email),
+    phone: optionalString(snapshot.phone),
+    address: optionalString(snapshot.address),
+    city: optionalString(snapshot.city),
+    companyRegNo: optionalString(snapshot.companyRegNo),
+    vatNumber: optionalString(snapshot.vatNumber),
+    status: optionalString(snapshot.status) ?? "active",
+    updatedAt: new Date(),
+    deletedAt: parseOptionalDate(snapshot.deletedAt),
+  };
+
+  const customer = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const existing = await tx.customer.findFirst({
+      where: { id, userId: session.userId, companyId },
+      select: { id: true },
+    });
+
+    const row = existing
+      ? await tx.customer.update({
+          where: { id },
+          data: { ...data, syncRevision },
+        })
+      : await tx.customer.create({
+          data: { ...data, id, userId: session.userId, companyId, syncRevision },
+        });
+
+    await saveRecordSnapshot(
+      tx,
+      "customer",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "restore",
+      row
+    );
+    return row;
+  });
+
+  return NextResponse.json({
+    success: true,
+    customer,
+    restoredFrom: {
+      revisionId: revision.id,
+      syncRevision: revision.syncRevision,
+    },
+  });
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { listRecordRevisions, mapRevisionForResponse } from "@/lib/sync/snapshots";
+
+async function requireUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value?.trim();
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return await verifySession(token);
+  } catch {
+    return null;
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const companyId = String(
+    req.nextUrl.searchParams.get("companyId") ?? ""
+  ).trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const { id } = await params;
+  const limitRaw = Number(req.nextUrl.searchParams.get("limit") || 50);
+  const limit = Math.max(1, Math.min(limitRaw || 50, 200));
+
+  const rows = await listRecordRevisions(
+    "customer",
+    session.userId,
+    companyId,
+    id,
+    limit
+  );
+
+  return NextResponse.json({
+    success: true,
+    customerId: id,
+    revisions: rows.map(mapRevisionForResponse),
+  });
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { allocateSyncRevision, hasCloudChangedSinceBase } from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 async function requireUser(req: NextRequest) {
   const token = req.cookies.get(getSessionCookieName())?.value?.trim();
@@ -37,17 +40,6 @@ function parseOptionalDate(value: unknown): Date | null {
   return Number.isNaN(date.getTime()) ? null : date;
 }
 
-function isCloudNewerThanBase(
-  cloudUpdatedAt: Date,
-  baseRemoteUpdatedAt: Date | null
-) {
-  if (!baseRemoteUpdatedAt) {
-    return false;
-  }
-
-  return cloudUpdatedAt.getTime() > baseRemoteUpdatedAt.getTime();
-}
-
 function customerConflictResponse(customer: any) {
   return NextResponse.json(
     {
@@ -57,6 +49,7 @@ function customerConflictResponse(customer: any) {
       entityId: customer.id,
       serverRecord: customer,
       serverUpdatedAt: customer.updatedAt,
+      serverRevision: customer.syncRevision,
       message:
         "This customer was changed in the cloud after this device last synced.",
     },
@@ -64,6 +57,60 @@ function customerConflictResponse(customer: any) {
   );
 }
 
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const resolvedParams = await Promise.resolve(params);
+
+  const id = String(resolvedParams?.id ?? "").trim();
+  const companyId = String(
+    req.nextUrl.searchParams.get("companyId") ?? ""
+  ).trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const customer = await prisma.customer.findFirst({
+    where: {
+      id,
+      userId: session.userId,
+      companyId,
+    },
+  });
+
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: "Customer not found." },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, customer });
+}
+
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> | { id: string } }
@@ -78,6 +125,9 @@ export async function PUT(
     );
   }
 
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
   const body = await req.json();
   const resolvedParams = await Promise.resolve(params);
 
@@ -130,32 +180,42 @@ export async function PUT(
     );
   }
 
-  const updatedAt = parseOptionalDate(body?.updatedAt) ?? new Date();
   const deletedAt = parseOptionalDate(body?.deletedAt);
-  const baseRemoteUpdatedAt = parseOptionalDate(body?.baseRemoteUpdatedAt);
   const forceConflictResolution = body?.forceConflictResolution === true;
 
   if (
     !forceConflictResolution &&
-    isCloudNewerThanBase(existing.updatedAt, baseRemoteUpdatedAt)
+    hasCloudChangedSinceBase(existing, body)
   ) {
     return customerConflictResponse(existing);
   }
 
-  const customer = await prisma.customer.update({
-    where: { id },
-    data: {
-      name,
-      email: body?.email ?? null,
-      phone: body?.phone ?? null,
-      address: body?.address ?? null,
-      city: body?.city ?? null,
-      companyRegNo: body?.companyRegNo ?? null,
-      vatNumber: body?.vatNumber ?? null,
-      status: body?.status ?? "active",
-      updatedAt,
-      deletedAt,
-    },
+  const customer = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = await tx.customer.update({
+      where: { id },
+      data: {
+        syncRevision,
+        name,
+        email: body?.email ?? null,
+        phone: body?.phone ?? null,
+        address: body?.address ?? null,
+        city: body?.city ?? null,
+        companyRegNo: body?.companyRegNo ?? null,
+        vatNumber: body?.vatNumber ?? null,
+        status: body?.status ?? "active",
+        updatedAt: new Date(),
+        deletedAt,
+      },
+    });
+    await saveRecordSnapshot(
+      tx,
+      "customer",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "update",
+      row
+    );
+    return row;
   });
 
   return NextResponse.json({ success: true, customer });
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 async function requireUser(req: NextRequest) {
   const token = req.cookies.get(getSessionCookieName())?.value?.trim();
@@ -41,12 +48,19 @@ function parseOptionalDate(value: unknown): Date | null {
   return Number.isNaN(date.getTime()) ? null : date;
 }
 
-function isCloudNewerThanBase(cloudUpdatedAt: Date, baseRemoteUpdatedAt: Date | null) {
-  if (!baseRemoteUpdatedAt) {
-    return false;
-  }
-
-  return cloudUpdatedAt.getTime() > baseRemoteUpdatedAt.getTime();
+const BROWSE_SORT_FIELDS = ["name", "city", "status", "createdAt", "updatedAt"] as const;
+
+/**
+ * The portal browses with `sort`/`order`/`offset`; sync clients never send
+ * `sort`, so they keep getting every row, tombstones included, in sync order.
+ */
+function parseBrowseSort(sort: string | null, order: string | null) {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return {
+    field,
+    direction: String(order ?? "").toLowerCase() === "asc" ? ("asc" as const) : ("desc" as const),
+  };
 }
 
 function customerConflictResponse(customer: any) {
@@ -58,6 +72,7 @@ function customerConflictResponse(customer: any) {
       entityId: customer.id,
       serverRecord: customer,
       serverUpdatedAt: customer.updatedAt,
+      serverRevision: customer.syncRevision,
       message: "This customer was changed in the cloud after this device last synced.",
     },
     { status: 409 }
@@ -95,15 +110,47 @@ export async function GET(req: NextRequest) {
   }
 
   const since = req.nextUrl.searchParams.get("since");
+  const sinceRevision = parseSyncRevision(
+    req.nextUrl.searchParams.get("sinceRevision")
+  );
   const limitRaw = Number(req.nextUrl.searchParams.get("limit") || 50);
   const limit = Math.max(1, Math.min(limitRaw || 50, 250));
+  const browseSort = parseBrowseSort(
+    req.nextUrl.searchParams.get("sort"),
+    req.nextUrl.searchParams.get("order")
+  );
+  const offset = Math.max(0, Math.floor(Number(req.nextUrl.searchParams.get("offset") || 0)) || 0);
+  const search = String(req.nextUrl.searchParams.get("q") ?? "").trim().slice(0, 100);
+  const status = String(req.nextUrl.searchParams.get("status") ?? "").trim().toLowerCase();
 
   const where: any = {
     userId: session.userId,
     companyId,
   };
 
-  if (since) {
+  if (browseSort) {
+    where.deletedAt = null;
+  }
+
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: "insensitive" } },
+      { email: { contains: search, mode: "insensitive" } },
+      { phone: { contains: search } },
+      { city: { contains: search, mode: "insensitive" } },
+      { vatNumber: { contains: search } },
+    ];
+  }
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (sinceRevision != null) {
+    where.syncRevision = {
+      gt: sinceRevision,
+    };
+  } else if (since) {
     const sinceDate = new Date(since);
     if (!Number.isNaN(sinceDate.getTime())) {
       where.updatedAt = {
@@ -114,11 +161,19 @@ export async function GET(req: NextRequest) {
 
   const customers = await prisma.customer.findMany({
     where,
-    orderBy: { updatedAt: "asc" },
+    orderBy: browseSort
+      ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+      : sinceRevision != null
+        ? [{ syncRevision: "asc" }, { id: "asc" }]
+        : { updatedAt: "asc" },
+    ...(browseSort ? { skip: offset } : {}),
     take: limit,
   });
 
-  return NextResponse.json({ success: true, customers });
+  const nextOffset =
+    browseSort && customers.length === limit ? offset + customers.length : null;
+
+  return NextResponse.json({ success: true, customers, nextOffset });
 }
 
 export async function POST(req: NextRequest) {
@@ -132,6 +187,9 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
   const body = await req.json();
 
   const companyId = String(body?.companyId ?? "").trim();
@@ -168,9 +226,7 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const updatedAt = parseOptionalDate(body?.updatedAt) ?? new Date();
   const deletedAt = parseOptionalDate(body?.deletedAt);
-  const baseRemoteUpdatedAt = parseOptionalDate(body?.baseRemoteUpdatedAt);
   const forceConflictResolution = body?.forceConflictResolution === true;
 
   const existing = await prisma.customer.findFirst({
@@ -184,14 +240,51 @@ export async function POST(req: NextRequest) {
   if (existing) {
     if (
       !forceConflictResolution &&
-      isCloudNewerThanBase(existing.updatedAt, baseRemoteUpdatedAt)
+      hasCloudChangedSinceBase(existing, body)
     ) {
       return customerConflictResponse(existing);
     }
 
-    const customer = await prisma.customer.update({
-      where: { id },
+    const customer = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.customer.update({
+        where: { id },
+        data: {
+          syncRevision,
+          name,
+          email: body?.email ?? null,
+          phone: body?.phone ?? null,
+          address: body?.address ?? null,
+          city: body?.city ?? null,
+          companyRegNo: body?.companyRegNo ?? null,
+          vatNumber: body?.vatNumber ?? null,
+          status: body?.status ?? "active",
+          // Server clock only: a skewed device clock must not decide sync order.
+          updatedAt: new Date(),
+          deletedAt,
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "customer",
+        { userId: session.userId, companyId, sessionId: session.sessionId },
+        "update",
+        row
+      );
+      return row;
+    });
+
+    return NextResponse.json({ success: true, customer });
+  }
+
+  const customer = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = await tx.customer.create({
       data: {
+        syncRevision,
+        id,
+        userId: session.userId,
+        companyId,
         name,
         email: body?.email ?? null,
         phone: body?.phone ?? null,
@@ -200,30 +293,18 @@ export async function POST(req: NextRequest) {
         companyRegNo: body?.companyRegNo ?? null,
         vatNumber: body?.vatNumber ?? null,
         status: body?.status ?? "active",
-        updatedAt,
+        updatedAt: new Date(),
         deletedAt,
       },
     });
-
-    return NextResponse.json({ success: true, customer });
-  }
-
-  const customer = await prisma.customer.create({
-    data: {
-      id,
-      userId: session.userId,
-      companyId,
-      name,
-      email: body?.email ?? null,
-      phone: body?.phone ?? null,
-      address: body?.address ?? null,
-      city: body?.city ?? null,
-      companyRegNo: body?.companyRegNo ?? null,
-      vatNumber: body?.vatNumber ?? null,
-      status: body?.status ?? "active",
-      updatedAt,
-      deletedAt,
-    },
+    await saveRecordSnapshot(
+      tx,
+      "customer",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "create",
+      row
+    );
+    return row;
   });
 
   return NextResponse.json({ success: true, customer });
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  MAX_NUMBER_RESERVATION,
+  allocateDocumentNumbers,
+  formatDocumentNumber,
+  isNumberedDocumentType,
+  resolveDocumentPrefix,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Shows the number the next saved document would get, without taking it.
+ * Another device may still save first, so this is only a hint for forms.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+    const documentType = String(url.searchParams.get("documentType") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+    if (!isNumberedDocumentType(documentType)) {
+      return jsonError("documentType must be invoice, quote, credit-note or purchase-order.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const prefix = await resolveDocumentPrefix(prisma, companyId, documentType);
+    const counter = await prisma.documentNumberCounter.findUnique({
+      where: { companyId_documentType_prefix: { companyId, documentType, prefix } },
+      select: { lastNumber: true },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        documentType,
+        prefix,
+        // Without a counter yet, the first allocation seeds it from existing numbers.
+        nextNumber: counter ? formatDocumentNumber(prefix, counter.lastNumber + 1) : null,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/document-numbers][GET] failed:", err);
+    return jsonError("Failed to load document numbering.", 500);
+  }
+}
+
+/**
+ * Reserves `count` consecutive numbers for a device to use offline. Reserved
+ * numbers are never handed out again, even if the device never uses them.
+ * Documents saved online should omit `number` instead and let the server
+ * assign it, which keeps the sequence gap-free.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const body = await req.json().catch(() => ({}));
+    const companyId = String(body?.companyId ?? "").trim();
+    const documentType = String(body?.documentType ?? "").trim();
+    const count = body?.count === undefined ? 1 : Number(body.count);
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+    if (!isNumberedDocumentType(documentType)) {
+      return jsonError("documentType must be invoice, quote, credit-note or purchase-order.", 400);
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_NUMBER_RESERVATION) {
+      return jsonError(`count must be a whole number from 1 to ${MAX_NUMBER_RESERVATION}.`, 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const reserved = await prisma.$transaction((tx) =>
+      allocateDocumentNumbers(tx, companyId, documentType, count)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        documentType,
+        prefix: reserved.prefix,
+        first: reserved.first,
+        last: reserved.last,
+        numbers: reserved.numbers,
+      },
+      { status: 201, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/document-numbers][POST] failed:", err);
+    return jsonError("Failed to reserve document numbers.", 500);
+  }
+}
@@ -2,16 +2,24 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  isTrialLive,
+  resolveEntitlementSnapshot,
+  type ResolvedEntitlementFeatures,
+  withoutCapabilityOverrides,
+} from "@/lib/entitlements";
 import { syncSubscriptionFromPaystack } from "@/lib/paystackSync";
+import { loadDocumentUsage } from "@/lib/quotas";
+import { describeTrial } from "@/lib/trials";
 
 export const dynamic = "force-dynamic";
 
 const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || "";
 const PAYSTACK_BASE = "https://api.paystack.co";
 
-type Plan = "FREE" | "STARTER" | "GROWTH" | "PRO";
+type Plan = "FREE" | "TRIAL" | "STARTER" | "GROWTH" | "PRO";
 
-type Tier = "none" | "free" | "starter" | "growth" | "pro";
+type Tier = "none" | "free" | "trial" | "starter" | "growth" | "pro";
 type EntStatus = "none" | "active" | "grace" | "blocked";
 type BillingCycle = "monthly" | "annual";
 
@@ -26,18 +34,13 @@ type BillingEntitlementResponse = {
   amount: number | null;
   planCode: string | null;
 
-  features: {
-    readOnly: boolean;
-    cloudSync: boolean;
-    storesync: boolean;
-    maxActiveSessions: number;
-    limits: {
-      invoice: number;
-      quote: number;
-      purchase_order: number;
-      companies: number;
-    };
-  };
+  features: ResolvedEntitlementFeatures;
+
+  /** Set while the account is on a trial; the plan reads "TRIAL" then. */
+  trial: ReturnType<typeof describeTrial>;
+
+  /** This month's document counts per company, against the limits enforced on create. */
+  usage: Awaited<ReturnType<typeof loadDocumentUsage>> | null;
 };
 
 type PaystackResponse<T> = {
@@ -79,13 +82,13 @@ function parseIsoDate(v: unknown): Date | null {
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function stripGraceFields(prev: unknown) {
+function stripGraceFields(prev: unknown, downgradeReason = "grace_expired") {
   const base = isPlainObject(prev) ? { ...(prev as Record<string, any>) } : {};
   delete base.graceUntil;
   delete base.graceReason;
   delete base.graceSetAt;
   base.downgradedAt = new Date().toISOString();
-  base.downgradeReason = "grace_expired";
+  base.downgradeReason = downgradeReason;
   return base;
 }
 
@@ -106,6 +109,7 @@ function tierToPlan(tier: Tier): Plan {
   if (tier === "pro") return "PRO";
   if (tier === "growth") return "GROWTH";
   if (tier === "starter") return "STARTER";
+  if (tier === "trial") return "TRIAL";
   return "FREE";
 }
 
@@ -118,6 +122,7 @@ function normalizeTier(raw: unknown): Tier {
   if (t === "pro") return "pro";
   if (t === "growth") return "growth";
   if (t === "starter") return "starter";
+  if (t === "trial") return "trial";
   if (t === "free") return "free";
   if (t === "none") return "none";
   return "none";
@@ -132,27 +137,6 @@ function normalizeEntStatus(raw: unknown): EntStatus {
   return "none";
 }
 
-function toBooleanOverride(value: unknown): boolean | null {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "string") {
-    const s = value.toLowerCase().trim();
-    if (s === "true") return true;
-    if (s === "false") return false;
-  }
-  return null;
-}
-
-function toNumberOverride(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return Math.floor(value);
-  }
-  if (typeof value === "string") {
-    const n = Number(value.trim());
-    if (Number.isFinite(n)) return Math.floor(n);
-  }
-  return null;
-}
-
 const PLAN_CODES = {
   starter: {
     monthly: process.env.PAYSTACK_PLAN_CODE_STARTER_MONTHLY || "",
@@ -460,7 +444,15 @@ export async function GET(req: NextRequest) {
     const [ent, sub] = await Promise.all([
       prisma.entitlement.findUnique({
         where: { userId },
-        select: { tier: true, status: true, features: true, updatedAt: true },
+        select: {
+          tier: true,
+          status: true,
+          features: true,
+          trialSource: true,
+          trialStartedAt: true,
+          trialEndsAt: true,
+          updatedAt: true,
+        },
       }),
       prisma.subscription.findUnique({
         where: { userId },
@@ -635,7 +627,8 @@ export async function GET(req: NextRequest) {
           graceUntil = null;
           featuresObj = nextFeatures;
         } else {
-          const nextFeatures = stripGraceFields(featuresObj);
+          // Back on free: drop the paid plan's stored capability overrides too.
+          const nextFeatures = stripGraceFields(withoutCapabilityOverrides(featuresObj));
           nextFeatures.paystackCancelledAt = new Date().toISOString();
           nextFeatures.paystackCancelReason = cancelResult.reason;
           if (!isPlainObject(nextFeatures.limits)) nextFeatures.limits = {};
@@ -667,6 +660,25 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    /**
+     * Trial expired:
+     * drop to free the same way an expired grace period does. There is no
+     * recurring billing to cancel first, since a trial never had one.
+     */
+    if (ent && tier === "trial" && !isTrialLive(ent.trialEndsAt)) {
+      const nextFeatures = stripGraceFields(withoutCapabilityOverrides(featuresObj), "trial_expired");
+      if (!isPlainObject(nextFeatures.limits)) nextFeatures.limits = {};
+
+      await prisma.entitlement.update({
+        where: { userId },
+        data: { tier: "free", status: "active", features: nextFeatures },
+      });
+
+      tier = "free";
+      entStatus = "active";
+      featuresObj = nextFeatures;
+    }
+
     if (!graceUntil && entStatus === "grace") {
       const d = parseIsoDate(featuresObj.graceUntil);
       graceUntil = d ? d.toISOString() : null;
@@ -681,68 +693,18 @@ export async function GET(req: NextRequest) {
     if (entStatus === "blocked") effectiveStatus = "blocked";
     if (entStatus === "none" && tier === "none") effectiveStatus = "none";
 
-    const defaultFreeLimits = {
-      invoice: 5,
-      quote: 5,
-      purchase_order: 5,
-      companies: 1,
-    };
-
-    const defaultPaidLimitsByTier = {
-      starter: { invoice: 999999, quote: 999999, purchase_order: 999999, companies: 1 },
-      growth: { invoice: 999999, quote: 999999, purchase_order: 999999, companies: 3 },
-      pro: { invoice: 999999, quote: 999999, purchase_order: 999999, companies: 5 },
-    } as const;
-
-    const computedLimits =
-      tier === "starter" || tier === "growth" || tier === "pro"
-        ? defaultPaidLimitsByTier[tier]
-        : defaultFreeLimits;
-
-    const limits = {
-      invoice:
-        typeof featuresObj?.limits?.invoice === "number"
-          ? (featuresObj.limits.invoice as number)
-          : computedLimits.invoice,
-      quote:
-        typeof featuresObj?.limits?.quote === "number"
-          ? (featuresObj.limits.quote as number)
-          : computedLimits.quote,
-      purchase_order:
-        typeof featuresObj?.limits?.purchase_order === "number"
-          ? (featuresObj.limits.purchase_order as number)
-          : computedLimits.purchase_order,
-      companies:
-        typeof featuresObj?.limits?.companies === "number"
-          ? (featuresObj.limits.companies as number)
-          : computedLimits.companies,
-    };
-
-    const isBlocked = entStatus === "blocked";
-
-    const readOnlyOverride = toBooleanOverride(featuresObj?.readOnly);
-    const readOnly =
-      isBlocked ||
-      readOnlyOverride === true ||
-      (!isPaidTier(tier) && featuresObj?.readOnly === "true");
-
-    const computedCloudSync = tier === "growth" || tier === "pro";
-    const cloudSyncOverride = toBooleanOverride(featuresObj?.cloudSync);
-    const cloudSync = isBlocked ? false : cloudSyncOverride ?? computedCloudSync;
-
-    const computedStoreSync = tier === "growth" || tier === "pro";
-    const storeSyncOverride = toBooleanOverride(featuresObj?.storesync);
-    const storesync = isBlocked ? false : storeSyncOverride ?? computedStoreSync;
-
-    const computedMaxActiveSessions =
-      tier === "pro" ? 4 : tier === "growth" ? 2 : 1;
-    const maxActiveSessionsOverride = toNumberOverride(featuresObj?.maxActiveSessions);
-    const maxActiveSessions = Math.max(
-      0,
-      maxActiveSessionsOverride ?? computedMaxActiveSessions
-    );
+    // Same resolver every other route enforces, fed the tier and status as
+    // settled above (an expired grace period may have just dropped to free).
+    const { features } = resolveEntitlementSnapshot({
+      tier,
+      status: entStatus,
+      features: featuresObj,
+      trialEndsAt: ent?.trialEndsAt,
+    });
 
     const plan: BillingEntitlementResponse["plan"] = tierToPlan(tier);
+    const trial = tier === "trial" ? describeTrial(ent) : null;
+    const usage = await loadDocumentUsage(userId).catch(() => null);
 
     const planCode = safeTrim(sub?.planCode) || null;
     const interval = isPaidTier(tier) ? inferIntervalFromPlanCode(tier, planCode) : null;
@@ -757,13 +719,9 @@ export async function GET(req: NextRequest) {
       interval,
       amount,
       planCode,
-      features: {
-        readOnly,
-        cloudSync,
-        storesync,
-        maxActiveSessions,
-        limits,
-      },
+      features,
+      trial,
+      usage,
     };
 
     return NextResponse.json(payload, {
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  customerPaymentSelect,
+  mapCustomerPaymentForResponse,
+  mapInvoiceForResponse,
+} from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { writeInvoiceSettlement } from "@/lib/sync/settlement";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Reverses a payment. The row is kept with `deletedAt` set so devices pull the
+ * removal, and the invoice is settled again without it.
+ */
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id, paymentId } = await ctx.params;
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      const payment = await tx.customerPayment.findFirst({
+        where: { id: paymentId, invoiceId: id, userId: auth.userId, companyId, deletedAt: null },
+        select: { id: true },
+      });
+      if (!payment) return null;
+
+      const removed = await tx.customerPayment.update({
+        where: { id: paymentId },
+        data: { deletedAt: new Date(), syncRevision },
+        select: customerPaymentSelect,
+      });
+
+      const settled = await writeInvoiceSettlement(tx, id, author);
+      return { payment: removed, invoice: settled };
+    });
+
+    if (!outcome) {
+      return jsonError("Payment not found.", 404);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        payment: mapCustomerPaymentForResponse(outcome.payment),
+        invoice: mapInvoiceForResponse(outcome.invoice),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/invoices/:id/payments/:paymentId][DELETE] failed:", err);
+    return jsonError("Failed to remove payment.", 500);
+  }
+}
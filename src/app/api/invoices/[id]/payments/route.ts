@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { loadInvoiceLedger, parsePaymentInput, settleInvoice } from "@/lib/payments";
+import {
+  customerPaymentSelect,
+  invoiceSelect,
+  mapCustomerPaymentForResponse,
+  mapInvoiceForResponse,
+} from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { writeInvoiceSettlement } from "@/lib/sync/settlement";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+    const includeDeleted = req.nextUrl.searchParams.get("includeDeleted") === "1";
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: { id: true },
+    });
+    if (!invoice) {
+      return jsonError("Invoice not found.", 404);
+    }
+
+    const rows = await prisma.customerPayment.findMany({
+      where: { invoiceId: id, companyId, ...(includeDeleted ? {} : { deletedAt: null }) },
+      orderBy: [{ paidOn: "asc" }, { createdAt: "asc" }],
+      select: customerPaymentSelect,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        payments: rows.map(mapCustomerPaymentForResponse),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/invoices/:id/payments][GET] failed:", err);
+    return jsonError("Failed to load payments.", 500);
+  }
+}
+
+/**
+ * Records a payment received against the invoice and settles its balance and
+ * status in the same transaction. Devices may send their own payment `id`;
+ * sending the same one again returns the payment already recorded.
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const body = await req.json().catch(() => ({}));
+    const companyId = String(body?.companyId ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const parsed = parsePaymentInput(isPlainObject(body) ? body : {});
+    if ("error" in parsed) {
+      return jsonError(parsed.error, 400);
+    }
+
+    const paymentId = toNullableString(body?.id, 191) ?? crypto.randomUUID();
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Taking the revision first locks the company's counter, so concurrent
+      // payments on the same invoice are checked against each other's totals.
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      const invoice = await tx.invoice.findFirst({
+        where: { id, userId: auth.userId, companyId, deletedAt: null },
+        select: invoiceSelect,
+      });
+      if (!invoice) return { kind: "invalid" as const, status: 404, error: "Invoice not found." };
+
+      const previous = await tx.customerPayment.findUnique({
+        where: { id: paymentId },
+        select: customerPaymentSelect,
+      });
+      if (previous) {
+        return previous.invoiceId === id
+          ? { kind: "recorded" as const, payment: previous, invoice }
+          : { kind: "invalid" as const, status: 409, error: "That payment id is already used by another invoice." };
+      }
+
+      if (invoice.status.toLowerCase() === "cancelled") {
+        return { kind: "invalid" as const, status: 400, error: "Payments cannot be recorded on a cancelled invoice." };
+      }
+
+      const ledger = await loadInvoiceLedger(tx, id);
+      const outstanding = settleInvoice(
+        { total: Number(invoice.total), status: invoice.status, dueDate: invoice.dueDate },
+        ledger
+      ).balance;
+      if (parsed.payment.amount > outstanding) {
+        return {
+          kind: "invalid" as const,
+          status: 400,
+          error: `Payment is more than the outstanding balance of ${outstanding.toFixed(2)}.`,
+        };
+      }
+
+      const payment = await tx.customerPayment.create({
+        data: {
+          id: paymentId,
+          userId: auth.userId,
+          companyId,
+          invoiceId: id,
+          ...parsed.payment,
+          syncRevision,
+        },
+        select: customerPaymentSelect,
+      });
+
+      const settled = await writeInvoiceSettlement(tx, invoice.id, author);
+      return { kind: "created" as const, payment, invoice: settled };
+    });
+
+    if (outcome.kind === "invalid") {
+      return jsonError(outcome.error, outcome.status);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        payment: mapCustomerPaymentForResponse(outcome.payment),
+        invoice: mapInvoiceForResponse(outcome.invoice),
+      },
+      { status: outcome.kind === "created" ? 201 : 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/invoices/:id/payments][POST] failed:", err);
+    return jsonError("Failed to record payment.", 500);
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { lineItemSelect, mapLineItemForResponse } from "@/lib/lineItems";
+import { renderDocumentPdf, type PdfBranding } from "@/lib/pdf/documentPdf";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+const brandingSelect = {
+  companyName: true,
+  tradingName: true,
+  registrationNo: true,
+  vatNumber: true,
+  email: true,
+  phone: true,
+  website: true,
+  addressLine1: true,
+  addressLine2: true,
+  suburb: true,
+  city: true,
+  province: true,
+  postalCode: true,
+  country: true,
+  quoteTerms: true,
+  invoiceTerms: true,
+  bankName: true,
+  bankAccountName: true,
+  bankAccountNo: true,
+  bankBranchCode: true,
+  bankAccountType: true,
+  logoUrl: true,
+  accentColor: true,
+} as const;
+
+function contentDisposition(download: boolean, filename: string) {
+  const safe = filename.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return `${download ? "attachment" : "inline"}; filename="${safe}"`;
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true, name: true },
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const [doc, settings] = await Promise.all([
+      prisma.invoice.findFirst({
+        where: { id, userId: auth.userId, companyId, deletedAt: null },
+        select: {
+          number: true,
+          issueDate: true,
+          dueDate: true,
+          balance: true,
+          reference: true,
+          publicComments: true,
+          currency: true,
+          customerName: true,
+          customerAddress: true,
+          vatRate: true,
+          subtotal: true,
+          vat: true,
+          total: true,
+          customer: { select: { vatNumber: true } },
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        },
+      }),
+      prisma.companySettings.findFirst({
+        where: { companyId, userId: auth.userId },
+        select: brandingSelect,
+      }),
+    ]);
+
+    if (!doc) {
+      return jsonError("Invoice not found.", 404);
+    }
+
+    const branding: PdfBranding = {
+      ...settings,
+      companyName: settings?.companyName || company.name,
+    };
+
+    const bytes = await renderDocumentPdf(
+      {
+        kind: "invoice",
+        number: doc.number,
+        issueDate: doc.issueDate,
+        dueDate: doc.dueDate,
+        expiryDate: null,
+        reference: doc.reference,
+        publicComments: doc.publicComments,
+        currency: doc.currency,
+        customerName: doc.customerName,
+        customerAddress: doc.customerAddress,
+        customerVatNumber: doc.customer?.vatNumber ?? null,
+        vatRate: Number(doc.vatRate),
+        subtotal: Number(doc.subtotal),
+        vat: Number(doc.vat),
+        total: Number(doc.total),
+        balance: doc.balance == null ? null : Number(doc.balance),
+        lineItems: doc.lineItems.map(mapLineItemForResponse),
+      },
+      branding
+    );
+
+    const download = req.nextUrl.searchParams.get("download") === "1";
+
+    return new NextResponse(Buffer.from(bytes), {
+      status: 200,
+      headers: {
+        ...noStoreHeaders(),
+        "Content-Type": "application/pdf",
+        "Content-Length": String(bytes.byteLength),
+        "Content-Disposition": contentDisposition(download, `Invoice-${doc.number}.pdf`),
+      },
+    });
+  } catch (err) {
+    console.error("[api/invoices/:id/pdf][GET] failed:", err);
+    return jsonError("Failed to render invoice PDF.", 500);
+  }
+}
@@ -2,6 +2,26 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  recordDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  lineItemSelect,
+  mapLineItemForResponse,
+  resolveDocumentTotals,
+  type LineItemRow,
+} from "@/lib/lineItems";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+} from "@/lib/sync/revision";
+import { invoiceStatusAsOf, settleFromLedger } from "@/lib/payments";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 export const dynamic = "force-dynamic";
 
@@ -16,36 +36,19 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
 }
 
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("invoice", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
 function parseDateParam(value: string | null): Date | null {
   if (!value) return null;
   const d = new Date(value);
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function parseDateValue(value: unknown): Date | null {
-  if (value == null) return null;
-
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? null : value;
-  }
-
-  if (typeof value === "number" && Number.isFinite(value)) {
-    const d = new Date(value);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  if (typeof value === "string") {
-    const raw = value.trim();
-    if (!raw) return null;
-
-    const numeric = Number(raw);
-    const d = Number.isFinite(numeric) && /^\d+$/.test(raw) ? new Date(numeric) : new Date(raw);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  return null;
-}
-
 function toBooleanFlag(value: unknown): boolean {
   if (value === true) return true;
   if (typeof value === "string") return value.trim().toLowerCase() === "true";
@@ -68,20 +71,6 @@ function toDecimalNumber(value: unknown, fallback = 0): number {
   return fallback;
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
-
-function toBooleanOverride(value: unknown): boolean | null {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "string") {
-    const s = value.toLowerCase().trim();
-    if (s === "true") return true;
-    if (s === "false") return false;
-  }
-  return null;
-}
-
 async function requireAuthedUser(req: NextRequest) {
   const token = req.cookies.get(getSessionCookieName())?.value;
   if (!token) {
@@ -90,53 +79,12 @@ async function requireAuthedUser(req: NextRequest) {
 
   try {
     const session = await verifySession(token);
-    return { userId: session.userId };
+    return { userId: session.userId, sessionId: session.sessionId };
   } catch {
     return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
   }
 }
 
-async function requireCloudSyncEnabled(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  if (!entitlement) {
-    return {
-      ok: false as const,
-      response: jsonError("No entitlement found.", 403),
-    };
-  }
-
-  const tier = String(entitlement.tier ?? "free").toLowerCase().trim();
-  const status = String(entitlement.status ?? "active").toLowerCase().trim();
-
-  const features = isPlainObject(entitlement.features) ? entitlement.features : {};
-  const override = toBooleanOverride(features["cloudSync"]);
-  const computed = tier === "growth" || tier === "pro";
-
-  const cloudSync =
-    status === "blocked" || status === "none"
-      ? false
-      : override ?? computed;
-
-  if (!cloudSync) {
-    return {
-      ok: false as const,
-      response: jsonError("Cloud sync is not available on your plan.", 403),
-    };
-  }
-
-  return {
-    ok: true as const,
-  };
-}
-
 async function requireOwnedCompany(userId: string, companyId: string) {
   return prisma.company.findFirst({
     where: {
@@ -168,7 +116,10 @@ function mapInvoiceForResponse(row: {
   vat: any;
   total: any;
   balance: any;
+  sourceQuoteId: string | null;
   data: any;
+  lineItems: LineItemRow[];
+  syncRevision: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -186,13 +137,16 @@ function mapInvoiceForResponse(row: {
     publicComments: row.publicComments,
     internalNotes: row.internalNotes,
     currency: row.currency,
-    status: row.status,
+    status: invoiceStatusAsOf(row),
     vatRate: Number(row.vatRate),
     subtotal: Number(row.subtotal),
     vat: Number(row.vat),
     total: Number(row.total),
     balance: row.balance == null ? null : Number(row.balance),
+    sourceQuoteId: row.sourceQuoteId,
     data: row.data,
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+    syncRevision: row.syncRevision,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     deletedAt: row.deletedAt,
@@ -221,7 +175,10 @@ async function loadCurrentInvoiceForConflict(id: string) {
       vat: true,
       total: true,
       balance: true,
+      sourceQuoteId: true,
       data: true,
+      lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+      syncRevision: true,
       createdAt: true,
       updatedAt: true,
       deletedAt: true,
@@ -239,7 +196,7 @@ export async function GET(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
     if (!syncGate.ok) return syncGate.response;
 
     const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
@@ -279,7 +236,16 @@ export async function GET(
         vat: true,
         total: true,
         balance: true,
+        sourceQuoteId: true,
+        sourceQuote: { select: { id: true, number: true } },
+        creditNotes: {
+          where: { deletedAt: null },
+          orderBy: [{ issueDate: "asc" }, { createdAt: "asc" }],
+          select: { id: true, number: true, issueDate: true, status: true, total: true, reason: true },
+        },
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
@@ -293,7 +259,11 @@ export async function GET(
     return NextResponse.json(
       {
         success: true,
-        invoice: mapInvoiceForResponse(row),
+        invoice: {
+          ...mapInvoiceForResponse(row),
+          sourceQuote: row.sourceQuote,
+          creditNotes: row.creditNotes.map((note) => ({ ...note, total: Number(note.total) })),
+        },
       },
       { status: 200, headers: noStoreHeaders() }
     );
@@ -311,7 +281,7 @@ export async function PUT(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const body = await req.json().catch(() => ({}));
@@ -336,7 +306,12 @@ export async function PUT(
       },
       select: {
         id: true,
+        status: true,
+        dueDate: true,
+        total: true,
+        syncRevision: true,
         updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
       },
     });
 
@@ -344,28 +319,36 @@ export async function PUT(
       return jsonError("Invoice not found.", 404);
     }
 
-    const incomingUpdatedAt = parseDateValue(body?.updatedAt);
-    const baseRemoteUpdatedAt = parseDateValue(body?.baseRemoteUpdatedAt ?? body?.lastKnownRemoteUpdatedAt);
     const forceConflictResolution = toBooleanFlag(body?.forceConflictResolution);
 
-    if (!forceConflictResolution && baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt) {
-      const serverRecord = await loadCurrentInvoiceForConflict(id);
-
-      return NextResponse.json(
-        {
-          success: false,
-          conflict: true,
-          entityType: "invoice",
-          entityId: id,
-          serverRecord,
-          serverUpdatedAt: serverRecord.updatedAt,
-          message: "This invoice was changed in the cloud after this device last synced.",
-        },
-        { status: 409, headers: noStoreHeaders() }
-      );
-    }
+    let payload = body;
+    let mergedFields: string[] = [];
 
-    if (!forceConflictResolution && incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt) {
+    if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
+      const serverRecord = await loadCurrentInvoiceForConflict(id);
+      const merge = await mergeWithCloud("invoice", companyId, serverRecord, body, { partial: true });
+
+      if (merge.kind === "conflict") {
+        return NextResponse.json(
+          {
+            success: false,
+            conflict: true,
+            entityType: "invoice",
+            entityId: id,
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: serverRecord.updatedAt,
+            serverRevision: serverRecord.syncRevision,
+            baseRecord: merge.baseRecord,
+            message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          },
+          { status: 409, headers: noStoreHeaders() }
+        );
+      }
+
+      payload = merge.payload;
+      mergedFields = merge.mergedFields;
+    } else if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
       const current = await loadCurrentInvoiceForConflict(id);
 
       return NextResponse.json(
@@ -379,80 +362,132 @@ export async function PUT(
       );
     }
 
-    const updated = await prisma.invoice.update({
-      where: { id },
-      data: {
-        number: toNullableString(body?.number, 100) ?? undefined,
-        customerId: body?.customerId === undefined ? undefined : toNullableString(body?.customerId, 191),
-        customerName:
-          body?.customerName === undefined
-            ? undefined
-            : toNullableString(body?.customerName, 200) ?? "Unknown customer",
-        customerAddress:
-          body?.customerAddress === undefined ? undefined : toNullableString(body?.customerAddress, 500),
-        issueDate:
-          body?.issueDate === undefined ? undefined : toNullableString(body?.issueDate, 30) ?? undefined,
-        dueDate: body?.dueDate === undefined ? undefined : toNullableString(body?.dueDate, 30),
-        paidDate: body?.paidDate === undefined ? undefined : toNullableString(body?.paidDate, 30),
-        reference: body?.reference === undefined ? undefined : toNullableString(body?.reference, 200),
-        publicComments:
-          body?.publicComments === undefined ? undefined : toNullableString(body?.publicComments, 4000),
-        internalNotes:
-          body?.internalNotes === undefined ? undefined : toNullableString(body?.internalNotes, 4000),
-        currency: body?.currency === undefined ? undefined : toNullableString(body?.currency, 10) ?? "ZAR",
-        status: body?.status === undefined ? undefined : toNullableString(body?.status, 50) ?? "draft",
-        vatRate: body?.vatRate === undefined ? undefined : toDecimalNumber(body?.vatRate, 0),
-        subtotal: body?.subtotal === undefined ? undefined : toDecimalNumber(body?.subtotal, 0),
-        vat: body?.vat === undefined ? undefined : toDecimalNumber(body?.vat, 0),
-        total: body?.total === undefined ? undefined : toDecimalNumber(body?.total, 0),
-        balance:
-          body?.balance === undefined
-            ? undefined
-            : body?.balance === null || body?.balance === ""
-            ? null
-            : toDecimalNumber(body?.balance, 0),
-        data: body ?? undefined,
-        deletedAt:
-          body?.deletedAt === undefined
-            ? undefined
-            : body?.deletedAt
-            ? new Date(body.deletedAt)
-            : null,
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        dueDate: true,
-        paidDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        balance: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+    const resolved = resolveDocumentTotals(payload, existing.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
+
+    const number = toNullableString(payload?.number, 100);
+    if (number) {
+      const taken = await prisma.invoice.findFirst({
+        where: { companyId, number, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(number);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      if (number) {
+        await recordDocumentNumber(tx, companyId, "invoice", number);
+      }
+      // Once payments are on record, the ledger decides balance, status and paidDate.
+      const settlement = await settleFromLedger(tx, id, {
+        total: payload?.total === undefined ? Number(existing.total) : toDecimalNumber(payload?.total, 0),
+        status: payload?.status === undefined ? existing.status : toNullableString(payload?.status, 50) ?? "draft",
+        dueDate: payload?.dueDate === undefined ? existing.dueDate : toNullableString(payload?.dueDate, 30),
+      });
+      const row = await tx.invoice.update({
+        where: { id },
+        data: {
+          syncRevision,
+          number: number ?? undefined,
+          customerId: payload?.customerId === undefined ? undefined : toNullableString(payload?.customerId, 191),
+          customerName:
+            payload?.customerName === undefined
+              ? undefined
+              : toNullableString(payload?.customerName, 200) ?? "Unknown customer",
+          customerAddress:
+            payload?.customerAddress === undefined ? undefined : toNullableString(payload?.customerAddress, 500),
+          issueDate:
+            payload?.issueDate === undefined ? undefined : toNullableString(payload?.issueDate, 30) ?? undefined,
+          dueDate: payload?.dueDate === undefined ? undefined : toNullableString(payload?.dueDate, 30),
+          paidDate: payload?.paidDate === undefined ? undefined : toNullableString(payload?.paidDate, 30),
+          reference: payload?.reference === undefined ? undefined : toNullableString(payload?.reference, 200),
+          publicComments:
+            payload?.publicComments === undefined ? undefined : toNullableString(payload?.publicComments, 4000),
+          internalNotes:
+            payload?.internalNotes === undefined ? undefined : toNullableString(payload?.internalNotes, 4000),
+          currency: payload?.currency === undefined ? undefined : toNullableString(payload?.currency, 10) ?? "ZAR",
+          status: payload?.status === undefined ? undefined : toNullableString(payload?.status, 50) ?? "draft",
+          vatRate: payload?.vatRate === undefined ? undefined : toDecimalNumber(payload?.vatRate, 0),
+          subtotal: payload?.subtotal === undefined ? undefined : toDecimalNumber(payload?.subtotal, 0),
+          vat: payload?.vat === undefined ? undefined : toDecimalNumber(payload?.vat, 0),
+          total: payload?.total === undefined ? undefined : toDecimalNumber(payload?.total, 0),
+          balance:
+            payload?.balance === undefined
+              ? undefined
+              : payload?.balance === null || payload?.balance === ""
+              ? null
+              : toDecimalNumber(payload?.balance, 0),
+          ...settlement,
+          data: settlement ? { ...payload, ...settlement } : payload ?? undefined,
+          deletedAt:
+            payload?.deletedAt === undefined
+              ? undefined
+              : payload?.deletedAt
+              ? new Date(payload.deletedAt)
+              : null,
+          lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+        },
+        select: {
+          id: true,
+          number: true,
+          customerId: true,
+          customerName: true,
+          customerAddress: true,
+          issueDate: true,
+          dueDate: true,
+          paidDate: true,
+          reference: true,
+          publicComments: true,
+          internalNotes: true,
+          currency: true,
+          status: true,
+          vatRate: true,
+          subtotal: true,
+          vat: true,
+          total: true,
+          balance: true,
+          sourceQuoteId: true,
+          data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
+          createdAt: true,
+          updatedAt: true,
+          deletedAt: true,
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "invoice",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "update",
+        mapInvoiceForResponse(row)
+      );
+      return row;
     });
 
     return NextResponse.json(
       {
         success: true,
         invoice: mapInvoiceForResponse(updated),
+        ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
       },
       { status: 200, headers: noStoreHeaders() }
     );
   } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
     console.error("[api/invoices/:id][PUT] failed:", err);
     return jsonError("Failed to update invoice.", 500);
   }
@@ -466,7 +501,7 @@ export async function DELETE(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
@@ -507,7 +542,10 @@ export async function DELETE(
         vat: true,
         total: true,
         balance: true,
+        sourceQuoteId: true,
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
@@ -533,35 +571,50 @@ export async function DELETE(
       );
     }
 
-    const deleted = await prisma.invoice.update({
-      where: { id },
-      data: {
-        deletedAt: new Date(),
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        dueDate: true,
-        paidDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        balance: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+    const deleted = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.invoice.update({
+        where: { id },
+        data: {
+          syncRevision,
+          deletedAt: new Date(),
+        },
+        select: {
+          id: true,
+          number: true,
+          customerId: true,
+          customerName: true,
+          customerAddress: true,
+          issueDate: true,
+          dueDate: true,
+          paidDate: true,
+          reference: true,
+          publicComments: true,
+          internalNotes: true,
+          currency: true,
+          status: true,
+          vatRate: true,
+          subtotal: true,
+          vat: true,
+          total: true,
+          balance: true,
+          sourceQuoteId: true,
+          data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
+          createdAt: true,
+          updatedAt: true,
+          deletedAt: true,
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "invoice",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "delete",
+        mapInvoiceForResponse(row)
+      );
+      return row;
     });
 
     return NextResponse.json(
@@ -2,6 +2,32 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  takeDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  lineItemSelect,
+  mapLineItemForResponse,
+  resolveDocumentTotals,
+  type LineItemRow,
+} from "@/lib/lineItems";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { invoiceStatusAsOf, invoiceStatusWhere, settleFromLedger } from "@/lib/payments";
+import {
+  isDocumentQuotaExceededError,
+  requireDocumentQuota,
+  type DocumentQuotaExceededError,
+} from "@/lib/quotas";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 export const dynamic = "force-dynamic";
 
@@ -16,53 +42,55 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
 }
 
+function quotaExceededResponse(err: DocumentQuotaExceededError) {
+  return NextResponse.json(
+    { success: false, code: "DOCUMENT_QUOTA_EXCEEDED", error: err.message, quota: err.quota },
+    { status: 403, headers: noStoreHeaders() }
+  );
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("invoice", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
 function parseDateParam(value: string | null): Date | null {
   if (!value) return null;
   const d = new Date(value);
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function parseDateValue(value: unknown): Date | null {
-  if (value == null) return null;
-
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? null : value;
-  }
-
-  if (typeof value === "number" && Number.isFinite(value)) {
-    const d = new Date(value);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  if (typeof value === "string") {
-    const raw = value.trim();
-    if (!raw) return null;
-
-    const numeric = Number(raw);
-    const d = Number.isFinite(numeric) && /^\d+$/.test(raw) ? new Date(numeric) : new Date(raw);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  return null;
-}
-
 function toBooleanFlag(value: unknown): boolean {
   if (value === true) return true;
   if (typeof value === "string") return value.trim().toLowerCase() === "true";
   return false;
 }
 
-function encodeCursor(updatedAt: Date, id: string): string {
-  return Buffer.from(JSON.stringify({ updatedAt: updatedAt.toISOString(), id }), "utf8").toString("base64url");
+function encodeCursor(syncRevision: number): string {
+  return Buffer.from(JSON.stringify({ rev: syncRevision }), "utf8").toString("base64url");
 }
 
-function decodeCursor(value: string | null): { updatedAt: Date; id: string } | null {
+/**
+ * Cursors carry the server sync revision. Cursors issued before revisions
+ * existed ({ updatedAt, id }) are still accepted so older desktop builds can
+ * finish their current pull.
+ */
+function decodeCursor(
+  value: string | null
+): { syncRevision: number } | { updatedAt: Date; id: string } | null {
   if (!value) return null;
   try {
     const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as {
+      rev?: unknown;
       updatedAt?: string;
       id?: string;
     };
+
+    const syncRevision = parseSyncRevision(raw?.rev);
+    if (syncRevision != null) return { syncRevision };
+
     const updatedAt = parseDateParam(raw?.updatedAt ?? null);
     const id = String(raw?.id ?? "").trim();
     if (!updatedAt || !id) return null;
@@ -72,6 +100,28 @@ function decodeCursor(value: string | null): { updatedAt: Date; id: string } | n
   }
 }
 
+const BROWSE_SORT_FIELDS = ["issueDate", "dueDate", "number", "customerName", "status", "total", "updatedAt"] as const;
+
+type BrowseSort = { field: (typeof BROWSE_SORT_FIELDS)[number]; direction: "asc" | "desc" };
+
+/**
+ * The portal browses with `sort`/`order`/`offset` instead of the sync cursor.
+ * Sync clients never send `sort`, so their revision ordering is unchanged.
+ */
+function parseBrowseSort(sort: string | null, order: string | null): BrowseSort | null {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return { field, direction: String(order ?? "").toLowerCase() === "asc" ? "asc" : "desc" };
+}
+
+function parseStatusFilter(value: string | null): string[] {
+  return String(value ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
 function toNullableString(value: unknown, max = 1000): string | null {
   if (value == null) return null;
   const s = String(value).trim();
@@ -96,20 +146,6 @@ function toDecimalNumber(value: unknown, fallback = 0): number {
   return fallback;
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
-
-function toBooleanOverride(value: unknown): boolean | null {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "string") {
-    const s = value.toLowerCase().trim();
-    if (s === "true") return true;
-    if (s === "false") return false;
-  }
-  return null;
-}
-
 async function requireAuthedUser(req: NextRequest) {
   const token = req.cookies.get(getSessionCookieName())?.value;
   if (!token) {
@@ -118,51 +154,12 @@ async function requireAuthedUser(req: NextRequest) {
 
   try {
     const session = await verifySession(token);
-    return { userId: session.userId };
+    return { userId: session.userId, sessionId: session.sessionId };
   } catch {
     return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
   }
 }
 
-async function requireCloudSyncEnabled(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  if (!entitlement) {
-    return {
-      ok: false as const,
-      response: jsonError("No entitlement found.", 403),
-    };
-  }
-
-  const tier = String(entitlement.tier ?? "free").toLowerCase().trim();
-  const status = String(entitlement.status ?? "active").toLowerCase().trim();
-
-  const features = isPlainObject(entitlement.features) ? entitlement.features : {};
-  const override = toBooleanOverride(features["cloudSync"]);
-  const computed = tier === "growth" || tier === "pro";
-
-  const cloudSync =
-    status === "blocked" || status === "none"
-      ? false
-      : override ?? computed;
-
-  if (!cloudSync) {
-    return {
-      ok: false as const,
-      response: jsonError("Cloud sync is not available on your plan.", 403),
-    };
-  }
-
-  return { ok: true as const };
-}
-
 async function requireOwnedCompany(userId: string, companyId: string) {
   return prisma.company.findFirst({
     where: {
@@ -194,7 +191,10 @@ function mapInvoiceForResponse(row: {
   vat: any;
   total: any;
   balance: any;
+  sourceQuoteId: string | null;
   data: any;
+  lineItems: LineItemRow[];
+  syncRevision: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -212,13 +212,16 @@ function mapInvoiceForResponse(row: {
     publicComments: row.publicComments,
     internalNotes: row.internalNotes,
     currency: row.currency,
-    status: row.status,
+    status: invoiceStatusAsOf(row),
     vatRate: Number(row.vatRate),
     subtotal: Number(row.subtotal),
     vat: Number(row.vat),
     total: Number(row.total),
     balance: row.balance == null ? null : Number(row.balance),
+    sourceQuoteId: row.sourceQuoteId,
     data: row.data,
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+    syncRevision: row.syncRevision,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     deletedAt: row.deletedAt,
@@ -247,7 +250,10 @@ async function loadCurrentInvoiceForConflict(id: string) {
       vat: true,
       total: true,
       balance: true,
+      sourceQuoteId: true,
       data: true,
+      lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+      syncRevision: true,
       createdAt: true,
       updatedAt: true,
       deletedAt: true,
@@ -262,7 +268,7 @@ export async function GET(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
     if (!syncGate.ok) return syncGate.response;
 
     const url = new URL(req.url);
@@ -278,22 +284,39 @@ export async function GET(req: NextRequest) {
     }
 
     const since = parseDateParam(url.searchParams.get("since"));
+    const sinceRevision = parseSyncRevision(url.searchParams.get("sinceRevision"));
     const cursor = decodeCursor(url.searchParams.get("cursor"));
     const includeDeleted = url.searchParams.get("includeDeleted") === "1";
     const limitRaw = Number(url.searchParams.get("limit") || "500");
     const limit = Math.max(1, Math.min(limitRaw, 1000));
+    const browseSort = parseBrowseSort(url.searchParams.get("sort"), url.searchParams.get("order"));
+    const offset = Math.max(0, Math.floor(Number(url.searchParams.get("offset") || "0")) || 0);
+    const search = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+    const statuses = parseStatusFilter(url.searchParams.get("status"));
+    const customerId = String(url.searchParams.get("customerId") ?? "").trim();
 
     const andFilters: any[] = [{ userId: auth.userId }, { companyId }];
 
-    if (since && cursor) {
+    if (search) {
       andFilters.push({
         OR: [
-          { updatedAt: { gt: cursor.updatedAt } },
-          { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
+          { number: { contains: search, mode: "insensitive" } },
+          { customerName: { contains: search, mode: "insensitive" } },
+          { reference: { contains: search, mode: "insensitive" } },
         ],
       });
-    } else if (since) {
-      andFilters.push({ updatedAt: { gt: since } });
+    }
+
+    if (statuses.length > 0) {
+      andFilters.push(invoiceStatusWhere(statuses));
+    }
+
+    if (customerId) {
+      andFilters.push({ customerId });
+    }
+
+    if (cursor && "syncRevision" in cursor) {
+      andFilters.push({ syncRevision: { gt: cursor.syncRevision } });
     } else if (cursor) {
       andFilters.push({
         OR: [
@@ -301,6 +324,10 @@ export async function GET(req: NextRequest) {
           { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
         ],
       });
+    } else if (sinceRevision != null) {
+      andFilters.push({ syncRevision: { gt: sinceRevision } });
+    } else if (since) {
+      andFilters.push({ updatedAt: { gt: since } });
     }
 
     if (!includeDeleted) {
@@ -309,7 +336,10 @@ export async function GET(req: NextRequest) {
 
     const rows = await prisma.invoice.findMany({
       where: { AND: andFilters },
-      orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+      orderBy: browseSort
+        ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+        : [{ syncRevision: "asc" }, { id: "asc" }],
+      ...(browseSort ? { skip: offset } : {}),
       take: limit,
       select: {
         id: true,
@@ -330,23 +360,27 @@ export async function GET(req: NextRequest) {
         vat: true,
         total: true,
         balance: true,
+        sourceQuoteId: true,
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
       },
     });
 
+    const hasMore = rows.length === limit;
     const nextCursor =
-      rows.length === limit
-        ? encodeCursor(rows[rows.length - 1]!.updatedAt, rows[rows.length - 1]!.id)
-        : null;
+      hasMore && !browseSort ? encodeCursor(rows[rows.length - 1]!.syncRevision) : null;
+    const nextOffset = hasMore && browseSort ? offset + rows.length : null;
 
     return NextResponse.json(
       {
         success: true,
         invoices: rows.map(mapInvoiceForResponse),
         nextCursor,
+        nextOffset,
       },
       { status: 200, headers: noStoreHeaders() }
     );
@@ -361,7 +395,7 @@ export async function POST(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const body = await req.json().catch(() => ({}));
@@ -374,12 +408,6 @@ export async function POST(req: NextRequest) {
     }
 
     const id = toRequiredString(body?.id, "Invoice id", 191);
-    const number = toRequiredString(body?.number, "Invoice number", 100);
-    const customerName = toRequiredString(body?.customerName, "Customer name", 200);
-    const issueDate = toRequiredString(body?.issueDate, "Issue date", 30);
-
-    const incomingUpdatedAt = parseDateValue(body?.updatedAt);
-    const baseRemoteUpdatedAt = parseDateValue(body?.baseRemoteUpdatedAt ?? body?.lastKnownRemoteUpdatedAt);
     const forceConflictResolution = toBooleanFlag(body?.forceConflictResolution);
 
     const existing = await prisma.invoice.findFirst({
@@ -390,29 +418,42 @@ export async function POST(req: NextRequest) {
       },
       select: {
         id: true,
+        syncRevision: true,
         updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
       },
     });
 
+    let payload = body;
+    let mergedFields: string[] = [];
+
     if (existing) {
-      if (!forceConflictResolution && baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt) {
+      if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
         const current = await loadCurrentInvoiceForConflict(id);
 
-        return NextResponse.json(
-          {
-            success: false,
-            conflict: true,
-            entityType: "invoice",
-            entityId: id,
-            serverRecord: current,
-            serverUpdatedAt: current.updatedAt,
-            message: "This invoice was changed in the cloud after this device last synced.",
-          },
-          { status: 409, headers: noStoreHeaders() }
-        );
-      }
-
-      if (!forceConflictResolution && incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt) {
+        const merge = await mergeWithCloud("invoice", companyId, current, body);
+
+        if (merge.kind === "conflict") {
+          return NextResponse.json(
+            {
+              success: false,
+              conflict: true,
+              entityType: "invoice",
+              entityId: id,
+              conflictFields: merge.conflictFields,
+              serverRecord: current,
+              serverUpdatedAt: current.updatedAt,
+              serverRevision: current.syncRevision,
+              baseRecord: merge.baseRecord,
+              message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+            },
+            { status: 409, headers: noStoreHeaders() }
+          );
+        }
+
+        payload = merge.payload;
+        mergedFields = merge.mergedFields;
+      } else if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
         const current = await loadCurrentInvoiceForConflict(id);
 
         return NextResponse.json(
@@ -425,32 +466,157 @@ export async function POST(req: NextRequest) {
           { status: 200, headers: noStoreHeaders() }
         );
       }
+    }
+
+    // A new invoice may leave its number to the server, which takes the next one
+    // from the company's counter inside the write transaction.
+    const requestedNumber = existing
+      ? toRequiredString(payload?.number, "Invoice number", 100)
+      : toNullableString(payload?.number, 100);
+
+    if (requestedNumber) {
+      const taken = await prisma.invoice.findFirst({
+        where: { companyId, number: requestedNumber, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(requestedNumber);
+    }
+    const customerName = toRequiredString(payload?.customerName, "Customer name", 200);
+    const issueDate = toRequiredString(payload?.issueDate, "Issue date", 30);
+
+    const resolved = resolveDocumentTotals(payload, existing?.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
+
+    if (existing) {
+      const updated = await prisma.$transaction(async (tx) => {
+        const syncRevision = await allocateSyncRevision(tx, companyId);
+        const number = await takeDocumentNumber(tx, companyId, "invoice", requestedNumber);
+        // Once payments are on record, the ledger decides balance, status and paidDate.
+        const settlement = await settleFromLedger(tx, id, {
+          total: toDecimalNumber(payload?.total, 0),
+          status: toNullableString(payload?.status, 50) ?? "draft",
+          dueDate: toNullableString(payload?.dueDate, 30),
+        });
+        const row = await tx.invoice.update({
+          where: { id },
+          data: {
+            syncRevision,
+            number,
+            customerId: toNullableString(payload?.customerId, 191),
+            customerName,
+            customerAddress: toNullableString(payload?.customerAddress, 500),
+            issueDate,
+            dueDate: toNullableString(payload?.dueDate, 30),
+            paidDate: toNullableString(payload?.paidDate, 30),
+            reference: toNullableString(payload?.reference, 200),
+            publicComments: toNullableString(payload?.publicComments, 4000),
+            internalNotes: toNullableString(payload?.internalNotes, 4000),
+            currency: toNullableString(payload?.currency, 10) ?? "ZAR",
+            status: toNullableString(payload?.status, 50) ?? "draft",
+            vatRate: toDecimalNumber(payload?.vatRate, 0),
+            subtotal: toDecimalNumber(payload?.subtotal, 0),
+            vat: toDecimalNumber(payload?.vat, 0),
+            total: toDecimalNumber(payload?.total, 0),
+            balance:
+              payload?.balance === undefined || payload?.balance === null || payload?.balance === ""
+                ? null
+                : toDecimalNumber(payload?.balance, 0),
+            ...settlement,
+            data: { ...payload, number, ...settlement },
+            deletedAt: payload?.deletedAt ? new Date(payload.deletedAt) : null,
+            lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+          },
+          select: {
+            id: true,
+            number: true,
+            customerId: true,
+            customerName: true,
+            customerAddress: true,
+            issueDate: true,
+            dueDate: true,
+            paidDate: true,
+            reference: true,
+            publicComments: true,
+            internalNotes: true,
+            currency: true,
+            status: true,
+            vatRate: true,
+            subtotal: true,
+            vat: true,
+            total: true,
+            balance: true,
+            sourceQuoteId: true,
+            data: true,
+            lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+            syncRevision: true,
+            createdAt: true,
+            updatedAt: true,
+            deletedAt: true,
+          },
+        });
+        await saveRecordSnapshot(
+          tx,
+          "invoice",
+          { userId: auth.userId, companyId, sessionId: auth.sessionId },
+          "update",
+          mapInvoiceForResponse(row)
+        );
+        return row;
+      });
 
-      const updated = await prisma.invoice.update({
-        where: { id },
+      return NextResponse.json(
+        {
+          success: true,
+          invoice: mapInvoiceForResponse(updated),
+          ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
+        },
+        { status: 200, headers: noStoreHeaders() }
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      await requireDocumentQuota(tx, auth.userId, companyId, "invoice");
+      const number = await takeDocumentNumber(tx, companyId, "invoice", requestedNumber);
+      const row = await tx.invoice.create({
         data: {
+          syncRevision,
+          id,
+          userId: auth.userId,
+          companyId,
           number,
-          customerId: toNullableString(body?.customerId, 191),
+          customerId: toNullableString(payload?.customerId, 191),
           customerName,
-          customerAddress: toNullableString(body?.customerAddress, 500),
+          customerAddress: toNullableString(payload?.customerAddress, 500),
           issueDate,
-          dueDate: toNullableString(body?.dueDate, 30),
-          paidDate: toNullableString(body?.paidDate, 30),
-          reference: toNullableString(body?.reference, 200),
-          publicComments: toNullableString(body?.publicComments, 4000),
-          internalNotes: toNullableString(body?.internalNotes, 4000),
-          currency: toNullableString(body?.currency, 10) ?? "ZAR",
-          status: toNullableString(body?.status, 50) ?? "draft",
-          vatRate: toDecimalNumber(body?.vatRate, 0),
-          subtotal: toDecimalNumber(body?.subtotal, 0),
-          vat: toDecimalNumber(body?.vat, 0),
-          total: toDecimalNumber(body?.total, 0),
+          dueDate: toNullableString(payload?.dueDate, 30),
+          paidDate: toNullableString(payload?.paidDate, 30),
+          reference: toNullableString(payload?.reference, 200),
+          publicComments: toNullableString(payload?.publicComments, 4000),
+          internalNotes: toNullableString(payload?.internalNotes, 4000),
+          currency: toNullableString(payload?.currency, 10) ?? "ZAR",
+          status: toNullableString(payload?.status, 50) ?? "draft",
+          vatRate: toDecimalNumber(payload?.vatRate, 0),
+          subtotal: toDecimalNumber(payload?.subtotal, 0),
+          vat: toDecimalNumber(payload?.vat, 0),
+          total: toDecimalNumber(payload?.total, 0),
           balance:
-            body?.balance === undefined || body?.balance === null || body?.balance === ""
+            payload?.balance === undefined || payload?.balance === null || payload?.balance === ""
               ? null
-              : toDecimalNumber(body?.balance, 0),
-          data: body ?? null,
-          deletedAt: body?.deletedAt ? new Date(body.deletedAt) : null,
+              : toDecimalNumber(payload?.balance, 0),
+          data: { ...payload, number },
+          deletedAt: payload?.deletedAt ? new Date(payload.deletedAt) : null,
+          lineItems: lineItems ? { create: lineItems } : undefined,
         },
         select: {
           id: true,
@@ -471,74 +637,23 @@ export async function POST(req: NextRequest) {
           vat: true,
           total: true,
           balance: true,
+          sourceQuoteId: true,
           data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
           createdAt: true,
           updatedAt: true,
           deletedAt: true,
         },
       });
-
-      return NextResponse.json(
-        {
-          success: true,
-          invoice: mapInvoiceForResponse(updated),
-        },
-        { status: 200, headers: noStoreHeaders() }
+      await saveRecordSnapshot(
+        tx,
+        "invoice",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "create",
+        mapInvoiceForResponse(row)
       );
-    }
-
-    const created = await prisma.invoice.create({
-      data: {
-        id,
-        userId: auth.userId,
-        companyId,
-        number,
-        customerId: toNullableString(body?.customerId, 191),
-        customerName,
-        customerAddress: toNullableString(body?.customerAddress, 500),
-        issueDate,
-        dueDate: toNullableString(body?.dueDate, 30),
-        paidDate: toNullableString(body?.paidDate, 30),
-        reference: toNullableString(body?.reference, 200),
-        publicComments: toNullableString(body?.publicComments, 4000),
-        internalNotes: toNullableString(body?.internalNotes, 4000),
-        currency: toNullableString(body?.currency, 10) ?? "ZAR",
-        status: toNullableString(body?.status, 50) ?? "draft",
-        vatRate: toDecimalNumber(body?.vatRate, 0),
-        subtotal: toDecimalNumber(body?.subtotal, 0),
-        vat: toDecimalNumber(body?.vat, 0),
-        total: toDecimalNumber(body?.total, 0),
-        balance:
-          body?.balance === undefined || body?.balance === null || body?.balance === ""
-            ? null
-            : toDecimalNumber(body?.balance, 0),
-        data: body ?? null,
-        deletedAt: body?.deletedAt ? new Date(body.deletedAt) : null,
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        dueDate: true,
-        paidDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        balance: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+      return row;
     });
 
     return NextResponse.json(
@@ -549,6 +664,12 @@ export async function POST(req: NextRequest) {
       { status: 201, headers: noStoreHeaders() }
     );
   } catch (err: any) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    if (isDocumentQuotaExceededError(err)) {
+      return quotaExceededResponse(err);
+    }
     console.error("[api/invoices][POST] failed:", err);
     return jsonError(err?.message || "Failed to save invoice.", 500);
   }
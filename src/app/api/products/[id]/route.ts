@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { mapProductForResponse, productSelect } from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const row = await prisma.product.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: productSelect,
+    });
+
+    if (!row) {
+      return jsonError("Product not found.", 404);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        product: mapProductForResponse(row),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/products/:id][GET] failed:", err);
+    return jsonError("Failed to load product.", 500);
+  }
+}
+
+/**
+ * Soft delete by default, so devices pull the tombstone; `purge=true` removes
+ * the row. Line items that referenced the product keep their own copy of it.
+ */
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+    const purge = req.nextUrl.searchParams.get("purge") === "true";
+
+    const existing = await prisma.product.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return jsonError("Product not found.", 404);
+    }
+
+    if (purge) {
+      await prisma.product.delete({
+        where: { id },
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          purged: true,
+          productId: id,
+        },
+        { status: 200, headers: noStoreHeaders() }
+      );
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.product.update({
+        where: { id },
+        data: {
+          syncRevision,
+          deletedAt: new Date(),
+        },
+        select: productSelect,
+      });
+      await saveRecordSnapshot(
+        tx,
+        "product",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "delete",
+        mapProductForResponse(row)
+      );
+      return row;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        product: mapProductForResponse(deleted),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/products/:id][DELETE] failed:", err);
+    return jsonError("Failed to delete product.", 500);
+  }
+}
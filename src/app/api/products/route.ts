@@ -0,0 +1,310 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { checkProductSku, parseProductInput } from "@/lib/products";
+import { mapProductForResponse, productSelect } from "@/lib/sync/records";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function toBooleanFlag(value: unknown): boolean {
+  if (value === true) return true;
+  if (typeof value === "string") return value.trim().toLowerCase() === "true";
+  return false;
+}
+
+function encodeCursor(syncRevision: number): string {
+  return Buffer.from(JSON.stringify({ rev: syncRevision }), "utf8").toString("base64url");
+}
+
+function decodeCursor(value: string | null): { syncRevision: number } | null {
+  if (!value) return null;
+  try {
+    const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as { rev?: unknown };
+    const syncRevision = parseSyncRevision(raw?.rev);
+    return syncRevision == null ? null : { syncRevision };
+  } catch {
+    return null;
+  }
+}
+
+const BROWSE_SORT_FIELDS = ["name", "sku", "kind", "unitPrice", "updatedAt"] as const;
+
+type BrowseSort = { field: (typeof BROWSE_SORT_FIELDS)[number]; direction: "asc" | "desc" };
+
+/**
+ * The portal browses with `sort`/`order`/`offset` instead of the sync cursor.
+ * Sync clients never send `sort`, so their revision ordering is unchanged.
+ */
+function parseBrowseSort(sort: string | null, order: string | null): BrowseSort | null {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return { field, direction: String(order ?? "").toLowerCase() === "asc" ? "asc" : "desc" };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const since = parseDateParam(url.searchParams.get("since"));
+    const sinceRevision = parseSyncRevision(url.searchParams.get("sinceRevision"));
+    const cursor = decodeCursor(url.searchParams.get("cursor"));
+    const includeDeleted = url.searchParams.get("includeDeleted") === "1";
+    const limitRaw = Number(url.searchParams.get("limit") || "500");
+    const limit = Math.max(1, Math.min(limitRaw, 1000));
+    const browseSort = parseBrowseSort(url.searchParams.get("sort"), url.searchParams.get("order"));
+    const offset = Math.max(0, Math.floor(Number(url.searchParams.get("offset") || "0")) || 0);
+    const search = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+    const kind = String(url.searchParams.get("kind") ?? "").trim().toLowerCase();
+    const activeOnly = url.searchParams.get("active") === "1";
+
+    const andFilters: Prisma.ProductWhereInput[] = [{ userId: auth.userId }, { companyId }];
+
+    if (search) {
+      andFilters.push({
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { sku: { contains: search, mode: "insensitive" } },
+          { description: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    if (kind) {
+      andFilters.push({ kind });
+    }
+
+    if (activeOnly) {
+      andFilters.push({ isActive: true });
+    }
+
+    if (cursor) {
+      andFilters.push({ syncRevision: { gt: cursor.syncRevision } });
+    } else if (sinceRevision != null) {
+      andFilters.push({ syncRevision: { gt: sinceRevision } });
+    } else if (since) {
+      andFilters.push({ updatedAt: { gt: since } });
+    }
+
+    if (!includeDeleted) {
+      andFilters.push({ deletedAt: null });
+    }
+
+    const rows = await prisma.product.findMany({
+      where: { AND: andFilters },
+      orderBy: browseSort
+        ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+        : [{ syncRevision: "asc" }, { id: "asc" }],
+      ...(browseSort ? { skip: offset } : {}),
+      take: limit,
+      select: productSelect,
+    });
+
+    const hasMore = rows.length === limit;
+    const nextCursor =
+      hasMore && !browseSort ? encodeCursor(rows[rows.length - 1]!.syncRevision) : null;
+    const nextOffset = hasMore && browseSort ? offset + rows.length : null;
+
+    return NextResponse.json(
+      {
+        success: true,
+        products: rows.map(mapProductForResponse),
+        nextCursor,
+        nextOffset,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/products][GET] failed:", err);
+    return jsonError("Failed to load products.", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const raw = await req.json().catch(() => ({}));
+    const body: Record<string, unknown> = isPlainObject(raw) ? raw : {};
+
+    const companyId = String(body.companyId ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const id = toNullableString(body.id, 191);
+    if (!id) {
+      return jsonError("Product id is required.", 400);
+    }
+
+    const parsed = parseProductInput(body);
+    if ("error" in parsed) {
+      return jsonError(parsed.error, 400);
+    }
+
+    const forceConflictResolution = toBooleanFlag(body.forceConflictResolution);
+
+    const existing = await prisma.product.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: productSelect,
+    });
+
+    if (existing && !forceConflictResolution) {
+      if (hasCloudChangedSinceBase(existing, body)) {
+        return NextResponse.json(
+          {
+            success: false,
+            conflict: true,
+            entityType: "product",
+            entityId: id,
+            serverRecord: mapProductForResponse(existing),
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            message: "This product was changed in the cloud after this device last synced.",
+          },
+          { status: 409, headers: noStoreHeaders() }
+        );
+      }
+
+      if (isIncomingOlderThanCloud(existing, body)) {
+        return NextResponse.json(
+          {
+            success: true,
+            product: mapProductForResponse(existing),
+            ignored: true,
+            reason: "Incoming product is older than cloud copy.",
+          },
+          { status: 200, headers: noStoreHeaders() }
+        );
+      }
+    }
+
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Taking the revision first locks the company's counter, so products
+      // written at the same time are checked against each other's SKUs.
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+
+      const clash = await checkProductSku(tx, companyId, id, parsed.product);
+      if (clash) return { kind: "duplicate-sku" as const, error: clash };
+
+      const row = existing
+        ? await tx.product.update({
+            where: { id },
+            data: { ...parsed.product, syncRevision },
+            select: productSelect,
+          })
+        : await tx.product.create({
+            data: { id, userId: auth.userId, companyId, ...parsed.product, syncRevision },
+            select: productSelect,
+          });
+
+      await saveRecordSnapshot(tx, "product", author, existing ? "update" : "create", mapProductForResponse(row));
+      return { kind: existing ? ("updated" as const) : ("created" as const), product: row };
+    });
+
+    if (outcome.kind === "duplicate-sku") {
+      return NextResponse.json(
+        { success: false, code: "DUPLICATE_SKU", error: outcome.error },
+        { status: 409, headers: noStoreHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, product: mapProductForResponse(outcome.product) },
+      { status: outcome.kind === "created" ? 201 : 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/products][POST] failed:", err);
+    return jsonError("Failed to save product.", 500);
+  }
+}
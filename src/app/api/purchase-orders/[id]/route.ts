@@ -0,0 +1,403 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  recordDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { resolveDocumentTotals } from "@/lib/lineItems";
+import { mapPurchaseOrderForResponse, purchaseOrderSelect } from "@/lib/sync/records";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+} from "@/lib/sync/revision";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("purchase-order", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
+function toBooleanFlag(value: unknown): boolean {
+  if (value === true) return true;
+  if (typeof value === "string") return value.trim().toLowerCase() === "true";
+  return false;
+}
+
+function toDecimalNumber(value: unknown, fallback = 0): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const n = Number(value.trim());
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+async function loadCurrentPurchaseOrderForConflict(id: string) {
+  const current = await prisma.purchaseOrder.findUniqueOrThrow({
+    where: { id },
+    select: purchaseOrderSelect,
+  });
+  return mapPurchaseOrderForResponse(current);
+}
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const row = await prisma.purchaseOrder.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: purchaseOrderSelect,
+    });
+
+    if (!row) {
+      return jsonError("Purchase order not found.", 404);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        purchaseOrder: mapPurchaseOrderForResponse(row),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/purchase-orders/:id][GET] failed:", err);
+    return jsonError("Failed to load purchase order.", 500);
+  }
+}
+
+/** Partial update: a field the body leaves out keeps its cloud value. */
+export async function PUT(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const raw = await req.json().catch(() => ({}));
+    const body: Record<string, unknown> = isPlainObject(raw) ? raw : {};
+    const companyId = String(body.companyId ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: {
+        id: true,
+        syncRevision: true,
+        updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
+      },
+    });
+
+    if (!existing) {
+      return jsonError("Purchase order not found.", 404);
+    }
+
+    const forceConflictResolution = toBooleanFlag(body.forceConflictResolution);
+
+    let payload = body;
+    let mergedFields: string[] = [];
+
+    if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
+      const serverRecord = await loadCurrentPurchaseOrderForConflict(id);
+      const merge = await mergeWithCloud("purchase-order", companyId, serverRecord, body, { partial: true });
+
+      if (merge.kind === "conflict") {
+        return NextResponse.json(
+          {
+            success: false,
+            conflict: true,
+            entityType: "purchase-order",
+            entityId: id,
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: serverRecord.updatedAt,
+            serverRevision: serverRecord.syncRevision,
+            baseRecord: merge.baseRecord,
+            message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          },
+          { status: 409, headers: noStoreHeaders() }
+        );
+      }
+
+      payload = merge.payload;
+      mergedFields = merge.mergedFields;
+    } else if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
+      const current = await loadCurrentPurchaseOrderForConflict(id);
+
+      return NextResponse.json(
+        {
+          success: true,
+          purchaseOrder: current,
+          ignored: true,
+          reason: "Incoming purchase order is older than cloud copy.",
+        },
+        { status: 200, headers: noStoreHeaders() }
+      );
+    }
+
+    const resolved = resolveDocumentTotals(payload, existing.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
+
+    const number = toNullableString(payload.number, 100);
+    if (number) {
+      const taken = await prisma.purchaseOrder.findFirst({
+        where: { companyId, number, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(number);
+    }
+
+    const text = (key: string, max: number) =>
+      payload[key] === undefined ? undefined : toNullableString(payload[key], max);
+    const amount = (key: string) =>
+      payload[key] === undefined ? undefined : toDecimalNumber(payload[key], 0);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      if (number) {
+        await recordDocumentNumber(tx, companyId, "purchase-order", number);
+      }
+      const row = await tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          syncRevision,
+          number: number ?? undefined,
+          supplierId: text("supplierId", 191),
+          supplierName:
+            payload.supplierName === undefined
+              ? undefined
+              : toNullableString(payload.supplierName, 200) ?? "Unknown supplier",
+          supplierAddress: text("supplierAddress", 500),
+          issueDate: text("issueDate", 30) ?? undefined,
+          expectedDeliveryDate: text("expectedDeliveryDate", 30),
+          reference: text("reference", 200),
+          publicComments: text("publicComments", 4000),
+          internalNotes: text("internalNotes", 4000),
+          currency: payload.currency === undefined ? undefined : toNullableString(payload.currency, 10) ?? "ZAR",
+          status: payload.status === undefined ? undefined : toNullableString(payload.status, 50) ?? "draft",
+          vatRate: amount("vatRate"),
+          subtotal: amount("subtotal"),
+          vat: amount("vat"),
+          total: amount("total"),
+          data: payload as Prisma.InputJsonObject,
+          deletedAt:
+            payload.deletedAt === undefined
+              ? undefined
+              : payload.deletedAt
+              ? new Date(String(payload.deletedAt))
+              : null,
+          lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+        },
+        select: purchaseOrderSelect,
+      });
+      await saveRecordSnapshot(
+        tx,
+        "purchase-order",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "update",
+        mapPurchaseOrderForResponse(row)
+      );
+      return row;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        purchaseOrder: mapPurchaseOrderForResponse(updated),
+        ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    console.error("[api/purchase-orders/:id][PUT] failed:", err);
+    return jsonError("Failed to update purchase order.", 500);
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+    const purge = req.nextUrl.searchParams.get("purge") === "true";
+
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return jsonError("Purchase order not found.", 404);
+    }
+
+    if (purge) {
+      await prisma.purchaseOrder.delete({
+        where: { id },
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          purged: true,
+          purchaseOrderId: id,
+        },
+        { status: 200, headers: noStoreHeaders() }
+      );
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          syncRevision,
+          deletedAt: new Date(),
+        },
+        select: purchaseOrderSelect,
+      });
+      await saveRecordSnapshot(
+        tx,
+        "purchase-order",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "delete",
+        mapPurchaseOrderForResponse(row)
+      );
+      return row;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        purchaseOrder: mapPurchaseOrderForResponse(deleted),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/purchase-orders/:id][DELETE] failed:", err);
+    return jsonError("Failed to delete purchase order.", 500);
+  }
+}
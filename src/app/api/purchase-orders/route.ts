@@ -0,0 +1,456 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  takeDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { resolveDocumentTotals } from "@/lib/lineItems";
+import {
+  isDocumentQuotaExceededError,
+  requireDocumentQuota,
+  type DocumentQuotaExceededError,
+} from "@/lib/quotas";
+import { mapPurchaseOrderForResponse, purchaseOrderSelect } from "@/lib/sync/records";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function quotaExceededResponse(err: DocumentQuotaExceededError) {
+  return NextResponse.json(
+    { success: false, code: "DOCUMENT_QUOTA_EXCEEDED", error: err.message, quota: err.quota },
+    { status: 403, headers: noStoreHeaders() }
+  );
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("purchase-order", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function toBooleanFlag(value: unknown): boolean {
+  if (value === true) return true;
+  if (typeof value === "string") return value.trim().toLowerCase() === "true";
+  return false;
+}
+
+function encodeCursor(syncRevision: number): string {
+  return Buffer.from(JSON.stringify({ rev: syncRevision }), "utf8").toString("base64url");
+}
+
+function decodeCursor(value: string | null): { syncRevision: number } | null {
+  if (!value) return null;
+  try {
+    const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as { rev?: unknown };
+    const syncRevision = parseSyncRevision(raw?.rev);
+    return syncRevision == null ? null : { syncRevision };
+  } catch {
+    return null;
+  }
+}
+
+const BROWSE_SORT_FIELDS = [
+  "issueDate",
+  "expectedDeliveryDate",
+  "number",
+  "supplierName",
+  "status",
+  "total",
+  "updatedAt",
+] as const;
+
+type BrowseSort = { field: (typeof BROWSE_SORT_FIELDS)[number]; direction: "asc" | "desc" };
+
+/**
+ * The portal browses with `sort`/`order`/`offset` instead of the sync cursor.
+ * Sync clients never send `sort`, so their revision ordering is unchanged.
+ */
+function parseBrowseSort(sort: string | null, order: string | null): BrowseSort | null {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return { field, direction: String(order ?? "").toLowerCase() === "asc" ? "asc" : "desc" };
+}
+
+function parseStatusFilter(value: string | null): string[] {
+  return String(value ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
+function toRequiredString(value: unknown, field: string, max = 1000): string {
+  const s = String(value ?? "").trim();
+  if (!s) {
+    throw new Error(`${field} is required.`);
+  }
+  return s.slice(0, max);
+}
+
+function toDecimalNumber(value: unknown, fallback = 0): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const n = Number(value.trim());
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+function buildPurchaseOrderFields(payload: Record<string, unknown>) {
+  return {
+    supplierId: toNullableString(payload.supplierId, 191),
+    supplierName: toRequiredString(payload.supplierName, "Supplier name", 200),
+    supplierAddress: toNullableString(payload.supplierAddress, 500),
+    issueDate: toRequiredString(payload.issueDate, "Issue date", 30),
+    expectedDeliveryDate: toNullableString(payload.expectedDeliveryDate, 30),
+    reference: toNullableString(payload.reference, 200),
+    publicComments: toNullableString(payload.publicComments, 4000),
+    internalNotes: toNullableString(payload.internalNotes, 4000),
+    currency: toNullableString(payload.currency, 10) ?? "ZAR",
+    status: toNullableString(payload.status, 50) ?? "draft",
+    vatRate: toDecimalNumber(payload.vatRate, 0),
+    subtotal: toDecimalNumber(payload.subtotal, 0),
+    vat: toDecimalNumber(payload.vat, 0),
+    total: toDecimalNumber(payload.total, 0),
+    deletedAt: payload.deletedAt ? new Date(String(payload.deletedAt)) : null,
+  };
+}
+
+async function loadCurrentPurchaseOrderForConflict(id: string) {
+  const current = await prisma.purchaseOrder.findUniqueOrThrow({
+    where: { id },
+    select: purchaseOrderSelect,
+  });
+  return mapPurchaseOrderForResponse(current);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const since = parseDateParam(url.searchParams.get("since"));
+    const sinceRevision = parseSyncRevision(url.searchParams.get("sinceRevision"));
+    const cursor = decodeCursor(url.searchParams.get("cursor"));
+    const includeDeleted = url.searchParams.get("includeDeleted") === "1";
+    const limitRaw = Number(url.searchParams.get("limit") || "500");
+    const limit = Math.max(1, Math.min(limitRaw, 1000));
+    const browseSort = parseBrowseSort(url.searchParams.get("sort"), url.searchParams.get("order"));
+    const offset = Math.max(0, Math.floor(Number(url.searchParams.get("offset") || "0")) || 0);
+    const search = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+    const statuses = parseStatusFilter(url.searchParams.get("status"));
+    const supplierId = String(url.searchParams.get("supplierId") ?? "").trim();
+
+    const andFilters: Prisma.PurchaseOrderWhereInput[] = [{ userId: auth.userId }, { companyId }];
+
+    if (search) {
+      andFilters.push({
+        OR: [
+          { number: { contains: search, mode: "insensitive" } },
+          { supplierName: { contains: search, mode: "insensitive" } },
+          { reference: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    if (statuses.length > 0) {
+      andFilters.push({ status: { in: statuses } });
+    }
+
+    if (supplierId) {
+      andFilters.push({ supplierId });
+    }
+
+    if (cursor) {
+      andFilters.push({ syncRevision: { gt: cursor.syncRevision } });
+    } else if (sinceRevision != null) {
+      andFilters.push({ syncRevision: { gt: sinceRevision } });
+    } else if (since) {
+      andFilters.push({ updatedAt: { gt: since } });
+    }
+
+    if (!includeDeleted) {
+      andFilters.push({ deletedAt: null });
+    }
+
+    const rows = await prisma.purchaseOrder.findMany({
+      where: { AND: andFilters },
+      orderBy: browseSort
+        ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+        : [{ syncRevision: "asc" }, { id: "asc" }],
+      ...(browseSort ? { skip: offset } : {}),
+      take: limit,
+      select: purchaseOrderSelect,
+    });
+
+    const hasMore = rows.length === limit;
+    const nextCursor =
+      hasMore && !browseSort ? encodeCursor(rows[rows.length - 1]!.syncRevision) : null;
+    const nextOffset = hasMore && browseSort ? offset + rows.length : null;
+
+    return NextResponse.json(
+      {
+        success: true,
+        purchaseOrders: rows.map(mapPurchaseOrderForResponse),
+        nextCursor,
+        nextOffset,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/purchase-orders][GET] failed:", err);
+    return jsonError("Failed to load purchase orders.", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const raw = await req.json().catch(() => ({}));
+    const body: Record<string, unknown> = isPlainObject(raw) ? raw : {};
+
+    const companyId = toRequiredString(body.companyId, "companyId", 191);
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const id = toRequiredString(body.id, "Purchase order id", 191);
+    const forceConflictResolution = toBooleanFlag(body.forceConflictResolution);
+
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, userId: auth.userId, companyId },
+      select: {
+        id: true,
+        syncRevision: true,
+        updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
+      },
+    });
+
+    let payload = body;
+    let mergedFields: string[] = [];
+
+    if (existing) {
+      if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
+        const current = await loadCurrentPurchaseOrderForConflict(id);
+
+        const merge = await mergeWithCloud("purchase-order", companyId, current, body);
+
+        if (merge.kind === "conflict") {
+          return NextResponse.json(
+            {
+              success: false,
+              conflict: true,
+              entityType: "purchase-order",
+              entityId: id,
+              conflictFields: merge.conflictFields,
+              serverRecord: current,
+              serverUpdatedAt: current.updatedAt,
+              serverRevision: current.syncRevision,
+              baseRecord: merge.baseRecord,
+              message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+            },
+            { status: 409, headers: noStoreHeaders() }
+          );
+        }
+
+        payload = merge.payload;
+        mergedFields = merge.mergedFields;
+      } else if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
+        const current = await loadCurrentPurchaseOrderForConflict(id);
+
+        return NextResponse.json(
+          {
+            success: true,
+            purchaseOrder: current,
+            ignored: true,
+            reason: "Incoming purchase order is older than cloud copy.",
+          },
+          { status: 200, headers: noStoreHeaders() }
+        );
+      }
+    }
+
+    // A new purchase order may leave its number to the server, which takes the
+    // next one from the company's counter inside the write transaction.
+    const requestedNumber = existing
+      ? toRequiredString(payload.number, "Purchase order number", 100)
+      : toNullableString(payload.number, 100);
+
+    if (requestedNumber) {
+      const taken = await prisma.purchaseOrder.findFirst({
+        where: { companyId, number: requestedNumber, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(requestedNumber);
+    }
+
+    const resolved = resolveDocumentTotals(payload, existing?.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
+
+    const fields = buildPurchaseOrderFields(payload);
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      if (!existing) {
+        await requireDocumentQuota(tx, auth.userId, companyId, "purchase-order");
+      }
+      const number = await takeDocumentNumber(tx, companyId, "purchase-order", requestedNumber);
+      const data = { ...payload, number } as Prisma.InputJsonObject;
+
+      const row = existing
+        ? await tx.purchaseOrder.update({
+            where: { id },
+            data: {
+              ...fields,
+              syncRevision,
+              number,
+              data,
+              lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+            },
+            select: purchaseOrderSelect,
+          })
+        : await tx.purchaseOrder.create({
+            data: {
+              ...fields,
+              id,
+              userId: auth.userId,
+              companyId,
+              syncRevision,
+              number,
+              data,
+              lineItems: lineItems ? { create: lineItems } : undefined,
+            },
+            select: purchaseOrderSelect,
+          });
+
+      await saveRecordSnapshot(
+        tx,
+        "purchase-order",
+        author,
+        existing ? "update" : "create",
+        mapPurchaseOrderForResponse(row)
+      );
+      return row;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        purchaseOrder: mapPurchaseOrderForResponse(saved),
+        ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
+      },
+      { status: existing ? 200 : 201, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    if (isDocumentQuotaExceededError(err)) {
+      return quotaExceededResponse(err);
+    }
+    console.error("[api/purchase-orders][POST] failed:", err);
+    return jsonError(err instanceof Error && err.message ? err.message : "Failed to save purchase order.", 500);
+  }
+}
@@ -0,0 +1,265 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { takeDocumentNumber } from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  isDocumentQuotaExceededError,
+  requireDocumentQuota,
+  type DocumentQuotaExceededError,
+} from "@/lib/quotas";
+import {
+  invoiceSelect,
+  mapInvoiceForResponse,
+  mapQuoteForResponse,
+  quoteSelect,
+} from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+const CONVERTED_STATUS = "converted";
+
+// Quote-only and sync keys that must not be copied into the invoice's data blob.
+const NOT_COPIED_KEYS = new Set([
+  "id",
+  "number",
+  "status",
+  "expiryDate",
+  "lineItems",
+  "syncRevision",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+  "forceConflictResolution",
+  "baseRemoteRevision",
+  "baseRevision",
+  "baseRemoteUpdatedAt",
+  "lastKnownRemoteUpdatedAt",
+]);
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function quotaExceededResponse(err: DocumentQuotaExceededError) {
+  return NextResponse.json(
+    { success: false, code: "DOCUMENT_QUOTA_EXCEEDED", error: err.message, quota: err.quota },
+    { status: 403, headers: noStoreHeaders() }
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Turns a quote into a draft invoice: same customer, lines, totals and extra
+ * `data`, with the next invoice number. The invoice keeps `sourceQuoteId` and
+ * the quote is marked converted, both in one transaction so a quote can only
+ * be converted once.
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const body = await req.json().catch(() => ({}));
+    const companyId = String(body?.companyId ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id } = await ctx.params;
+    const issueDate = toNullableString(body?.issueDate, 30) ?? today();
+    const dueDate = toNullableString(body?.dueDate, 30);
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Taking a revision first locks the company's counter, so the quote read
+      // below cannot be converted by a concurrent request in the meantime.
+      const invoiceRevision = await allocateSyncRevision(tx, companyId);
+
+      const quote = await tx.quote.findFirst({
+        where: { id, userId: auth.userId, companyId, deletedAt: null },
+        select: quoteSelect,
+      });
+      if (!quote) return { kind: "not-found" as const };
+
+      const previous = await tx.invoice.findFirst({
+        where: { sourceQuoteId: id, companyId, deletedAt: null },
+        select: { id: true, number: true },
+      });
+      if (previous || quote.status.toLowerCase() === CONVERTED_STATUS) {
+        return { kind: "converted" as const, invoice: previous };
+      }
+
+      await requireDocumentQuota(tx, auth.userId, companyId, "invoice");
+      const number = await takeDocumentNumber(tx, companyId, "invoice", null);
+      const invoiceId = crypto.randomUUID();
+
+      const data: Record<string, unknown> = {};
+      if (isPlainObject(quote.data)) {
+        for (const [key, value] of Object.entries(quote.data)) {
+          if (!NOT_COPIED_KEYS.has(key)) data[key] = value;
+        }
+      }
+
+      const fields = {
+        number,
+        customerId: quote.customerId,
+        customerName: quote.customerName,
+        customerAddress: quote.customerAddress,
+        issueDate,
+        dueDate,
+        reference: quote.reference,
+        publicComments: quote.publicComments,
+        internalNotes: quote.internalNotes,
+        currency: quote.currency,
+        status: "draft",
+      };
+      const amounts = {
+        vatRate: Number(quote.vatRate),
+        subtotal: Number(quote.subtotal),
+        vat: Number(quote.vat),
+        total: Number(quote.total),
+        balance: Number(quote.total),
+      };
+
+      const invoice = await tx.invoice.create({
+        data: {
+          id: invoiceId,
+          userId: auth.userId,
+          companyId,
+          ...fields,
+          ...amounts,
+          sourceQuoteId: quote.id,
+          data: { ...data, ...fields, ...amounts, id: invoiceId } as Prisma.InputJsonObject,
+          syncRevision: invoiceRevision,
+          lineItems: {
+            create: quote.lineItems.map((line) => ({
+              position: line.position,
+              productId: line.productId,
+              description: line.description,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              discount: line.discount,
+              vatRate: line.vatRate,
+              lineSubtotal: line.lineSubtotal,
+              lineVat: line.lineVat,
+              lineTotal: line.lineTotal,
+            })),
+          },
+        },
+        select: invoiceSelect,
+      });
+      await saveRecordSnapshot(tx, "invoice", author, "create", mapInvoiceForResponse(invoice));
+
+      const updatedQuote = await tx.quote.update({
+        where: { id: quote.id },
+        data: {
+          status: CONVERTED_STATUS,
+          data: isPlainObject(quote.data)
+            ? ({ ...quote.data, status: CONVERTED_STATUS } as Prisma.InputJsonObject)
+            : undefined,
+          syncRevision: await allocateSyncRevision(tx, companyId),
+        },
+        select: quoteSelect,
+      });
+      await saveRecordSnapshot(tx, "quote", author, "update", mapQuoteForResponse(updatedQuote));
+
+      return { kind: "converted-now" as const, invoice, quote: updatedQuote };
+    });
+
+    if (outcome.kind === "not-found") {
+      return jsonError("Quote not found.", 404);
+    }
+
+    if (outcome.kind === "converted") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: outcome.invoice
+            ? `This quote was already converted to invoice ${outcome.invoice.number}.`
+            : "This quote is already marked as converted.",
+          invoiceId: outcome.invoice?.id ?? null,
+        },
+        { status: 409, headers: noStoreHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        invoice: mapInvoiceForResponse(outcome.invoice),
+        quote: mapQuoteForResponse(outcome.quote),
+      },
+      { status: 201, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    if (isDocumentQuotaExceededError(err)) {
+      return quotaExceededResponse(err);
+    }
+    console.error("[api/quotes/:id/convert][POST] failed:", err);
+    return jsonError("Failed to convert quote.", 500);
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { duplicateDocumentNumberMessage, isDuplicateDocumentNumberError } from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { quoteSelect, mapQuoteForResponse } from "@/lib/sync/records";
+import { parseLineItems } from "@/lib/lineItems";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { findRecordRevision, saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("quote", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+function toDecimalNumber(value: unknown, fallback = 0): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const n = Number(value.trim());
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function parseDateValue(value: unknown): Date | null {
+  if (value == null || value === "") return null;
+  const d = new Date(value as string);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Column values from a stored snapshot. Snapshots are the mapped response
+ * shape, so Decimals are numbers and dates are ISO strings.
+ */
+function restoredQuoteData(snapshot: Record<string, unknown>) {
+  return {
+    number: toNullableString(snapshot.number, 100) ?? "",
+    customerId: toNullableString(snapshot.customerId, 191),
+    customerName: toNullableString(snapshot.customerName, 200) ?? "Unknown customer",
+    customerAddress: toNullableString(snapshot.customerAddress, 500),
+    issueDate: toNullableString(snapshot.issueDate, 30) ?? "",
+    expiryDate: toNullableString(snapshot.expiryDate, 30),
+    dueDate: toNullableString(snapshot.dueDate, 30),
+    reference: toNullableString(snapshot.reference, 200),
+    publicComments: toNullableString(snapshot.publicComments, 4000),
+    internalNotes: toNullableString(snapshot.internalNotes, 4000),
+    currency: toNullableString(snapshot.currency, 10) ?? "ZAR",
+    status: toNullableString(snapshot.status, 50) ?? "draft",
+    vatRate: toDecimalNumber(snapshot.vatRate, 0),
+    subtotal: toDecimalNumber(snapshot.subtotal, 0),
+    vat: toDecimalNumber(snapshot.vat, 0),
+    total: toDecimalNumber(snapshot.total, 0),
+    data: isPlainObject(snapshot.data) ? (snapshot.data as Prisma.InputJsonObject) : undefined,
+    deletedAt: parseDateValue(snapshot.deletedAt),
+  };
+}
+
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const body = await req.json().catch(() => ({}));
+    const companyId = String(body?.companyId ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const { id, revisionId } = await ctx.params;
+
+    const revision = await findRecordRevision("quote", auth.userId, companyId, id, revisionId);
+    if (!revision || !isPlainObject(revision.snapshot)) {
+      return jsonError("Revision not found.", 404);
+    }
+
+    const data = restoredQuoteData(revision.snapshot);
+
+    // Versions written before line items existed restore as header-only documents.
+    const parsedLines = parseLineItems(revision.snapshot.lineItems ?? []);
+    const lineItems = "items" in parsedLines ? parsedLines.items : [];
+
+    // The customer may have been purged since this version was written.
+    if (data.customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: data.customerId, userId: auth.userId, companyId },
+        select: { id: true },
+      });
+      if (!customer) data.customerId = null;
+    }
+
+    // Numbers stay unique per company, so a version can't bring back a number
+    // another quote has taken since.
+    const taken = await prisma.quote.findFirst({
+      where: { companyId, number: data.number, NOT: { id } },
+      select: { id: true },
+    });
+    if (taken) return duplicateNumberResponse(data.number);
+
+    const author = { userId: auth.userId, companyId, sessionId: auth.sessionId };
+
+    // A restore is a new write: it gets a fresh revision so every device pulls it,
+    // and the version it replaces stays in the history.
+    const restored = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const existing = await tx.quote.findFirst({
+        where: { id, userId: auth.userId, companyId },
+        select: { id: true },
+      });
+
+      const row = existing
+        ? await tx.quote.update({
+            where: { id },
+            data: { ...data, syncRevision, lineItems: { deleteMany: {}, create: lineItems } },
+            select: quoteSelect,
+          })
+        : await tx.quote.create({
+            data: {
+              ...data,
+              id,
+              userId: auth.userId,
+              companyId,
+              syncRevision,
+              lineItems: { create: lineItems },
+            },
+            select: quoteSelect,
+          });
+
+      await saveRecordSnapshot(tx, "quote", author, "restore", mapQuoteForResponse(row));
+      return row;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        quote: mapQuoteForResponse(restored),
+        restoredFrom: {
+          revisionId: revision.id,
+          syncRevision: revision.syncRevision,
+        },
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    console.error("[api/quotes/:id/revisions/:revisionId/restore][POST] failed:", err);
+    return jsonError("Failed to restore quote.", 500);
+  }
+}
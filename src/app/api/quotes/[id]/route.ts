@@ -2,6 +2,25 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  recordDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  lineItemSelect,
+  mapLineItemForResponse,
+  resolveDocumentTotals,
+  type LineItemRow,
+} from "@/lib/lineItems";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+} from "@/lib/sync/revision";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 export const dynamic = "force-dynamic";
 
@@ -16,6 +35,13 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
 }
 
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("quote", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
 function parseDateParam(value: string | null): Date | null {
   if (!value) return null;
   const d = new Date(value);
@@ -38,10 +64,6 @@ function toDecimalNumber(value: unknown, fallback = 0): number {
   return fallback;
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
-
 function toBooleanOverride(value: unknown): boolean | null {
   if (typeof value === "boolean") return value;
   if (typeof value === "string") {
@@ -70,53 +92,12 @@ async function requireAuthedUser(req: NextRequest) {
 
   try {
     const session = await verifySession(token);
-    return { userId: session.userId };
+    return { userId: session.userId, sessionId: session.sessionId };
   } catch {
     return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
   }
 }
 
-async function requireCloudSyncEnabled(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  if (!entitlement) {
-    return {
-      ok: false as const,
-      response: jsonError("No entitlement found.", 403),
-    };
-  }
-
-  const tier = String(entitlement.tier ?? "free").toLowerCase().trim();
-  const status = String(entitlement.status ?? "active").toLowerCase().trim();
-
-  const features = isPlainObject(entitlement.features) ? entitlement.features : {};
-  const override = toBooleanOverride(features["cloudSync"]);
-  const computed = tier === "growth" || tier === "pro";
-
-  const cloudSync =
-    status === "blocked" || status === "none"
-      ? false
-      : override ?? computed;
-
-  if (!cloudSync) {
-    return {
-      ok: false as const,
-      response: jsonError("Cloud sync is not available on your plan.", 403),
-    };
-  }
-
-  return {
-    ok: true as const,
-  };
-}
-
 async function requireOwnedCompany(userId: string, companyId: string) {
   return prisma.company.findFirst({
     where: {
@@ -148,6 +129,8 @@ function mapQuoteForResponse(row: {
   vat: any;
   total: any;
   data: any;
+  lineItems: LineItemRow[];
+  syncRevision: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -171,6 +154,8 @@ function mapQuoteForResponse(row: {
     vat: Number(row.vat),
     total: Number(row.total),
     data: row.data,
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+    syncRevision: row.syncRevision,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     deletedAt: row.deletedAt,
@@ -199,6 +184,8 @@ async function loadCurrentQuoteForConflict(id: string) {
       vat: true,
       total: true,
       data: true,
+      lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+      syncRevision: true,
       createdAt: true,
       updatedAt: true,
       deletedAt: true,
@@ -216,7 +203,7 @@ export async function GET(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
     if (!syncGate.ok) return syncGate.response;
 
     const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
@@ -256,6 +243,14 @@ export async function GET(
         vat: true,
         total: true,
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        invoices: {
+          where: { deletedAt: null },
+          select: { id: true, number: true },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
@@ -269,7 +264,7 @@ export async function GET(
     return NextResponse.json(
       {
         success: true,
-        quote: mapQuoteForResponse(row),
+        quote: { ...mapQuoteForResponse(row), convertedInvoice: row.invoices[0] ?? null },
       },
       { status: 200, headers: noStoreHeaders() }
     );
@@ -287,7 +282,7 @@ export async function PUT(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const body = await req.json().catch(() => ({}));
@@ -312,7 +307,9 @@ export async function PUT(
       },
       select: {
         id: true,
+        syncRevision: true,
         updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
       },
     });
 
@@ -325,26 +322,34 @@ export async function PUT(
       parseOptionalDate(body?.baseRemoteUpdatedAt) ??
       parseOptionalDate(body?.lastKnownRemoteUpdatedAt);
 
-    if (!forceConflictResolution && baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt) {
-      const serverRecord = await loadCurrentQuoteForConflict(existing.id);
+    let payload = body;
+    let mergedFields: string[] = [];
 
-      return NextResponse.json(
-        {
-          success: false,
-          conflict: true,
-          entityType: "quote",
-          entityId: existing.id,
-          serverRecord,
-          serverUpdatedAt: existing.updatedAt,
-          message: "This quote was changed in the cloud after this device last synced.",
-        },
-        { status: 409, headers: noStoreHeaders() }
-      );
-    }
-
-    const incomingUpdatedAt = parseDateParam(body?.updatedAt ?? null);
-
-    if (!forceConflictResolution && !baseRemoteUpdatedAt && incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt) {
+    if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
+      const serverRecord = await loadCurrentQuoteForConflict(existing.id);
+      const merge = await mergeWithCloud("quote", companyId, serverRecord, body, { partial: true });
+
+      if (merge.kind === "conflict") {
+        return NextResponse.json(
+          {
+            success: false,
+            conflict: true,
+            entityType: "quote",
+            entityId: existing.id,
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            baseRecord: merge.baseRecord,
+            message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          },
+          { status: 409, headers: noStoreHeaders() }
+        );
+      }
+
+      payload = merge.payload;
+      mergedFields = merge.mergedFields;
+    } else if (!forceConflictResolution && !baseRemoteUpdatedAt && isIncomingOlderThanCloud(existing, body)) {
       const current = await loadCurrentQuoteForConflict(existing.id);
 
       return NextResponse.json(
@@ -358,73 +363,117 @@ export async function PUT(
       );
     }
 
-    const updated = await prisma.quote.update({
-      where: { id },
-      data: {
-        number: toNullableString(body?.number, 100) ?? undefined,
-        customerId: body?.customerId === undefined ? undefined : toNullableString(body?.customerId, 191),
-        customerName:
-          body?.customerName === undefined
-            ? undefined
-            : toNullableString(body?.customerName, 200) ?? "Unknown customer",
-        customerAddress:
-          body?.customerAddress === undefined ? undefined : toNullableString(body?.customerAddress, 500),
-        issueDate:
-          body?.issueDate === undefined ? undefined : toNullableString(body?.issueDate, 30) ?? undefined,
-        expiryDate: body?.expiryDate === undefined ? undefined : toNullableString(body?.expiryDate, 30),
-        dueDate: body?.dueDate === undefined ? undefined : toNullableString(body?.dueDate, 30),
-        reference: body?.reference === undefined ? undefined : toNullableString(body?.reference, 200),
-        publicComments:
-          body?.publicComments === undefined ? undefined : toNullableString(body?.publicComments, 4000),
-        internalNotes:
-          body?.internalNotes === undefined ? undefined : toNullableString(body?.internalNotes, 4000),
-        currency: body?.currency === undefined ? undefined : toNullableString(body?.currency, 10) ?? "ZAR",
-        status: body?.status === undefined ? undefined : toNullableString(body?.status, 50) ?? "draft",
-        vatRate: body?.vatRate === undefined ? undefined : toDecimalNumber(body?.vatRate, 0),
-        subtotal: body?.subtotal === undefined ? undefined : toDecimalNumber(body?.subtotal, 0),
-        vat: body?.vat === undefined ? undefined : toDecimalNumber(body?.vat, 0),
-        total: body?.total === undefined ? undefined : toDecimalNumber(body?.total, 0),
-        data: body ?? undefined,
-        deletedAt:
-          body?.deletedAt === undefined
-            ? undefined
-            : body?.deletedAt
-            ? new Date(body.deletedAt)
-            : null,
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        expiryDate: true,
-        dueDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+    const resolved = resolveDocumentTotals(payload, existing.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
+
+    const number = toNullableString(payload?.number, 100);
+    if (number) {
+      const taken = await prisma.quote.findFirst({
+        where: { companyId, number, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(number);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      if (number) {
+        await recordDocumentNumber(tx, companyId, "quote", number);
+      }
+      const row = await tx.quote.update({
+        where: { id },
+        data: {
+          syncRevision,
+          number: number ?? undefined,
+          customerId: payload?.customerId === undefined ? undefined : toNullableString(payload?.customerId, 191),
+          customerName:
+            payload?.customerName === undefined
+              ? undefined
+              : toNullableString(payload?.customerName, 200) ?? "Unknown customer",
+          customerAddress:
+            payload?.customerAddress === undefined ? undefined : toNullableString(payload?.customerAddress, 500),
+          issueDate:
+            payload?.issueDate === undefined ? undefined : toNullableString(payload?.issueDate, 30) ?? undefined,
+          expiryDate: payload?.expiryDate === undefined ? undefined : toNullableString(payload?.expiryDate, 30),
+          dueDate: payload?.dueDate === undefined ? undefined : toNullableString(payload?.dueDate, 30),
+          reference: payload?.reference === undefined ? undefined : toNullableString(payload?.reference, 200),
+          publicComments:
+            payload?.publicComments === undefined ? undefined : toNullableString(payload?.publicComments, 4000),
+          internalNotes:
+            payload?.internalNotes === undefined ? undefined : toNullableString(payload?.internalNotes, 4000),
+          currency: payload?.currency === undefined ? undefined : toNullableString(payload?.currency, 10) ?? "ZAR",
+          status: payload?.status === undefined ? undefined : toNullableString(payload?.status, 50) ?? "draft",
+          vatRate: payload?.vatRate === undefined ? undefined : toDecimalNumber(payload?.vatRate, 0),
+          subtotal: payload?.subtotal === undefined ? undefined : toDecimalNumber(payload?.subtotal, 0),
+          vat: payload?.vat === undefined ? undefined : toDecimalNumber(payload?.vat, 0),
+          total: payload?.total === undefined ? undefined : toDecimalNumber(payload?.total, 0),
+          data: payload ?? undefined,
+          deletedAt:
+            payload?.deletedAt === undefined
+              ? undefined
+              : payload?.deletedAt
+              ? new Date(payload.deletedAt)
+              : null,
+          lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+        },
+        select: {
+          id: true,
+          number: true,
+          customerId: true,
+          customerName: true,
+          customerAddress: true,
+          issueDate: true,
+          expiryDate: true,
+          dueDate: true,
+          reference: true,
+          publicComments: true,
+          internalNotes: true,
+          currency: true,
+          status: true,
+          vatRate: true,
+          subtotal: true,
+          vat: true,
+          total: true,
+          data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
+          createdAt: true,
+          updatedAt: true,
+          deletedAt: true,
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "quote",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "update",
+        mapQuoteForResponse(row)
+      );
+      return row;
     });
 
     return NextResponse.json(
       {
         success: true,
         quote: mapQuoteForResponse(updated),
+        ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
       },
       { status: 200, headers: noStoreHeaders() }
     );
   } catch (err) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
     console.error("[api/quotes/:id][PUT] failed:", err);
     return jsonError("Failed to update quote.", 500);
   }
@@ -438,7 +487,7 @@ export async function DELETE(
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const companyId = String(req.nextUrl.searchParams.get("companyId") ?? "").trim();
@@ -479,6 +528,8 @@ export async function DELETE(
         vat: true,
         total: true,
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
@@ -504,34 +555,48 @@ export async function DELETE(
       );
     }
 
-    const deleted = await prisma.quote.update({
-      where: { id },
-      data: {
-        deletedAt: new Date(),
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        expiryDate: true,
-        dueDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+    const deleted = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.quote.update({
+        where: { id },
+        data: {
+          syncRevision,
+          deletedAt: new Date(),
+        },
+        select: {
+          id: true,
+          number: true,
+          customerId: true,
+          customerName: true,
+          customerAddress: true,
+          issueDate: true,
+          expiryDate: true,
+          dueDate: true,
+          reference: true,
+          publicComments: true,
+          internalNotes: true,
+          currency: true,
+          status: true,
+          vatRate: true,
+          subtotal: true,
+          vat: true,
+          total: true,
+          data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
+          createdAt: true,
+          updatedAt: true,
+          deletedAt: true,
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "quote",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "delete",
+        mapQuoteForResponse(row)
+      );
+      return row;
     });
 
     return NextResponse.json(
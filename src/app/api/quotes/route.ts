@@ -2,6 +2,31 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { prisma } from "@/lib/db";
 import { getSessionCookieName, verifySession } from "@/lib/auth";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  takeDocumentNumber,
+} from "@/lib/documentNumbers";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  lineItemSelect,
+  mapLineItemForResponse,
+  resolveDocumentTotals,
+  type LineItemRow,
+} from "@/lib/lineItems";
+import {
+  isDocumentQuotaExceededError,
+  requireDocumentQuota,
+  type DocumentQuotaExceededError,
+} from "@/lib/quotas";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
 
 export const dynamic = "force-dynamic";
 
@@ -16,53 +41,55 @@ function jsonError(message: string, status = 400) {
   return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
 }
 
+function quotaExceededResponse(err: DocumentQuotaExceededError) {
+  return NextResponse.json(
+    { success: false, code: "DOCUMENT_QUOTA_EXCEEDED", error: err.message, quota: err.quota },
+    { status: 403, headers: noStoreHeaders() }
+  );
+}
+
+function duplicateNumberResponse(number?: string | null) {
+  return NextResponse.json(
+    { success: false, code: "DUPLICATE_NUMBER", error: duplicateDocumentNumberMessage("quote", number) },
+    { status: 409, headers: noStoreHeaders() }
+  );
+}
+
 function parseDateParam(value: string | null): Date | null {
   if (!value) return null;
   const d = new Date(value);
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function parseDateValue(value: unknown): Date | null {
-  if (value == null) return null;
-
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? null : value;
-  }
-
-  if (typeof value === "number" && Number.isFinite(value)) {
-    const d = new Date(value);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  if (typeof value === "string") {
-    const raw = value.trim();
-    if (!raw) return null;
-
-    const numeric = Number(raw);
-    const d = Number.isFinite(numeric) && /^\d+$/.test(raw) ? new Date(numeric) : new Date(raw);
-    return Number.isNaN(d.getTime()) ? null : d;
-  }
-
-  return null;
-}
-
 function toBooleanFlag(value: unknown): boolean {
   if (value === true) return true;
   if (typeof value === "string") return value.trim().toLowerCase() === "true";
   return false;
 }
 
-function encodeCursor(updatedAt: Date, id: string): string {
-  return Buffer.from(JSON.stringify({ updatedAt: updatedAt.toISOString(), id }), "utf8").toString("base64url");
+function encodeCursor(syncRevision: number): string {
+  return Buffer.from(JSON.stringify({ rev: syncRevision }), "utf8").toString("base64url");
 }
 
-function decodeCursor(value: string | null): { updatedAt: Date; id: string } | null {
+/**
+ * Cursors carry the server sync revision. Cursors issued before revisions
+ * existed ({ updatedAt, id }) are still accepted so older desktop builds can
+ * finish their current pull.
+ */
+function decodeCursor(
+  value: string | null
+): { syncRevision: number } | { updatedAt: Date; id: string } | null {
   if (!value) return null;
   try {
     const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as {
+      rev?: unknown;
       updatedAt?: string;
       id?: string;
     };
+
+    const syncRevision = parseSyncRevision(raw?.rev);
+    if (syncRevision != null) return { syncRevision };
+
     const updatedAt = parseDateParam(raw?.updatedAt ?? null);
     const id = String(raw?.id ?? "").trim();
     if (!updatedAt || !id) return null;
@@ -72,6 +99,28 @@ function decodeCursor(value: string | null): { updatedAt: Date; id: string } | n
   }
 }
 
+const BROWSE_SORT_FIELDS = ["issueDate", "expiryDate", "number", "customerName", "status", "total", "updatedAt"] as const;
+
+type BrowseSort = { field: (typeof BROWSE_SORT_FIELDS)[number]; direction: "asc" | "desc" };
+
+/**
+ * The portal browses with `sort`/`order`/`offset` instead of the sync cursor.
+ * Sync clients never send `sort`, so their revision ordering is unchanged.
+ */
+function parseBrowseSort(sort: string | null, order: string | null): BrowseSort | null {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return { field, direction: String(order ?? "").toLowerCase() === "asc" ? "asc" : "desc" };
+}
+
+function parseStatusFilter(value: string | null): string[] {
+  return String(value ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
 function toNullableString(value: unknown, max = 1000): string | null {
   if (value == null) return null;
   const s = String(value).trim();
@@ -104,58 +153,12 @@ async function requireAuthedUser(req: NextRequest) {
 
   try {
     const session = await verifySession(token);
-    return { userId: session.userId };
+    return { userId: session.userId, sessionId: session.sessionId };
   } catch {
     return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
   }
 }
 
-async function requireCloudSyncEnabled(userId: string) {
-  const entitlement = await prisma.entitlement.findUnique({
-    where: { userId },
-    select: {
-      tier: true,
-      status: true,
-      features: true,
-    },
-  });
-
-  if (!entitlement) {
-    return {
-      ok: false as const,
-      response: jsonError("No entitlement found.", 403),
-    };
-  }
-
-  const tier = String(entitlement.tier ?? "free").toLowerCase().trim();
-  const status = String(entitlement.status ?? "active").toLowerCase().trim();
-
-  const features =
-    entitlement.features && typeof entitlement.features === "object"
-      ? (entitlement.features as Record<string, unknown>)
-      : {};
-
-  // ✅ Same logic as entitlement route
-  const override = features["cloudSync"];
-  const computed = tier === "growth" || tier === "pro";
-
-  const cloudSync =
-    status === "blocked"
-      ? false
-      : typeof override === "boolean"
-      ? override
-      : computed;
-
-  if (!cloudSync) {
-    return {
-      ok: false as const,
-      response: jsonError("Cloud sync is not available on your plan.", 403),
-    };
-  }
-
-  return { ok: true as const };
-}
-
 async function requireOwnedCompany(userId: string, companyId: string) {
   return prisma.company.findFirst({
     where: {
@@ -187,6 +190,8 @@ function mapQuoteForResponse(row: {
   vat: any;
   total: any;
   data: any;
+  lineItems: LineItemRow[];
+  syncRevision: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -210,6 +215,8 @@ function mapQuoteForResponse(row: {
     vat: Number(row.vat),
     total: Number(row.total),
     data: row.data,
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+    syncRevision: row.syncRevision,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     deletedAt: row.deletedAt,
@@ -221,7 +228,7 @@ export async function GET(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
     if (!syncGate.ok) return syncGate.response;
 
     const url = new URL(req.url);
@@ -237,22 +244,39 @@ export async function GET(req: NextRequest) {
     }
 
     const since = parseDateParam(url.searchParams.get("since"));
+    const sinceRevision = parseSyncRevision(url.searchParams.get("sinceRevision"));
     const cursor = decodeCursor(url.searchParams.get("cursor"));
     const includeDeleted = url.searchParams.get("includeDeleted") === "1";
     const limitRaw = Number(url.searchParams.get("limit") || "500");
     const limit = Math.max(1, Math.min(limitRaw, 1000));
+    const browseSort = parseBrowseSort(url.searchParams.get("sort"), url.searchParams.get("order"));
+    const offset = Math.max(0, Math.floor(Number(url.searchParams.get("offset") || "0")) || 0);
+    const search = String(url.searchParams.get("q") ?? "").trim().slice(0, 100);
+    const statuses = parseStatusFilter(url.searchParams.get("status"));
+    const customerId = String(url.searchParams.get("customerId") ?? "").trim();
 
     const andFilters: any[] = [{ userId: auth.userId }, { companyId }];
 
-    if (since && cursor) {
+    if (search) {
       andFilters.push({
         OR: [
-          { updatedAt: { gt: cursor.updatedAt } },
-          { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
+          { number: { contains: search, mode: "insensitive" } },
+          { customerName: { contains: search, mode: "insensitive" } },
+          { reference: { contains: search, mode: "insensitive" } },
         ],
       });
-    } else if (since) {
-      andFilters.push({ updatedAt: { gt: since } });
+    }
+
+    if (statuses.length > 0) {
+      andFilters.push({ status: { in: statuses } });
+    }
+
+    if (customerId) {
+      andFilters.push({ customerId });
+    }
+
+    if (cursor && "syncRevision" in cursor) {
+      andFilters.push({ syncRevision: { gt: cursor.syncRevision } });
     } else if (cursor) {
       andFilters.push({
         OR: [
@@ -260,6 +284,10 @@ export async function GET(req: NextRequest) {
           { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
         ],
       });
+    } else if (sinceRevision != null) {
+      andFilters.push({ syncRevision: { gt: sinceRevision } });
+    } else if (since) {
+      andFilters.push({ updatedAt: { gt: since } });
     }
 
     if (!includeDeleted) {
@@ -268,7 +296,10 @@ export async function GET(req: NextRequest) {
 
     const rows = await prisma.quote.findMany({
       where: { AND: andFilters },
-      orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+      orderBy: browseSort
+        ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+        : [{ syncRevision: "asc" }, { id: "asc" }],
+      ...(browseSort ? { skip: offset } : {}),
       take: limit,
       select: {
         id: true,
@@ -289,21 +320,25 @@ export async function GET(req: NextRequest) {
         vat: true,
         total: true,
         data: true,
+        lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+        syncRevision: true,
         createdAt: true,
         updatedAt: true,
         deletedAt: true,
       },
     });
 
-    const nextCursor = rows.length === limit
-      ? encodeCursor(rows[rows.length - 1]!.updatedAt, rows[rows.length - 1]!.id)
-      : null;
+    const hasMore = rows.length === limit;
+    const nextCursor =
+      hasMore && !browseSort ? encodeCursor(rows[rows.length - 1]!.syncRevision) : null;
+    const nextOffset = hasMore && browseSort ? offset + rows.length : null;
 
     return NextResponse.json(
       {
         success: true,
         quotes: rows.map(mapQuoteForResponse),
         nextCursor,
+        nextOffset,
       },
       { status: 200, headers: noStoreHeaders() }
     );
@@ -318,7 +353,7 @@ export async function POST(req: NextRequest) {
     const auth = await requireAuthedUser(req);
     if ("error" in auth) return auth.error;
 
-    const syncGate = await requireCloudSyncEnabled(auth.userId);
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
     if (!syncGate.ok) return syncGate.response;
 
     const body = await req.json().catch(() => ({}));
@@ -331,12 +366,6 @@ export async function POST(req: NextRequest) {
     }
 
     const id = toRequiredString(body?.id, "Quote id", 191);
-    const number = toRequiredString(body?.number, "Quote number", 100);
-    const customerName = toRequiredString(body?.customerName, "Customer name", 200);
-    const issueDate = toRequiredString(body?.issueDate, "Issue date", 30);
-
-    const incomingUpdatedAt = parseDateValue(body?.updatedAt);
-    const baseRemoteUpdatedAt = parseDateValue(body?.baseRemoteUpdatedAt ?? body?.lastKnownRemoteUpdatedAt);
     const forceConflictResolution = toBooleanFlag(body?.forceConflictResolution);
 
     const existing = await prisma.quote.findFirst({
@@ -347,12 +376,17 @@ export async function POST(req: NextRequest) {
       },
       select: {
         id: true,
+        syncRevision: true,
         updatedAt: true,
+        lineItems: { select: { lineSubtotal: true, lineVat: true } },
       },
     });
 
+    let payload = body;
+    let mergedFields: string[] = [];
+
     if (existing) {
-      if (!forceConflictResolution && baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt) {
+      if (!forceConflictResolution && hasCloudChangedSinceBase(existing, body)) {
         const current = await prisma.quote.findUniqueOrThrow({
           where: { id },
           select: {
@@ -374,27 +408,38 @@ export async function POST(req: NextRequest) {
             vat: true,
             total: true,
             data: true,
+            lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+            syncRevision: true,
             createdAt: true,
             updatedAt: true,
             deletedAt: true,
           },
         });
 
-        return NextResponse.json(
-          {
-            success: false,
-            conflict: true,
-            entityType: "quote",
-            entityId: id,
-            serverRecord: mapQuoteForResponse(current),
-            serverUpdatedAt: current.updatedAt,
-            message: "This quote was changed in the cloud after this device last synced.",
-          },
-          { status: 409, headers: noStoreHeaders() }
-        );
-      }
-
-      if (!forceConflictResolution && incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt) {
+        const serverRecord = mapQuoteForResponse(current);
+        const merge = await mergeWithCloud("quote", companyId, serverRecord, body);
+
+        if (merge.kind === "conflict") {
+          return NextResponse.json(
+            {
+              success: false,
+              conflict: true,
+              entityType: "quote",
+              entityId: id,
+              conflictFields: merge.conflictFields,
+              serverRecord,
+              serverUpdatedAt: current.updatedAt,
+              serverRevision: current.syncRevision,
+              baseRecord: merge.baseRecord,
+              message: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+            },
+            { status: 409, headers: noStoreHeaders() }
+          );
+        }
+
+        payload = merge.payload;
+        mergedFields = merge.mergedFields;
+      } else if (!forceConflictResolution && isIncomingOlderThanCloud(existing, body)) {
         const current = await prisma.quote.findUniqueOrThrow({
           where: { id },
           select: {
@@ -416,6 +461,8 @@ export async function POST(req: NextRequest) {
             vat: true,
             total: true,
             data: true,
+            lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+            syncRevision: true,
             createdAt: true,
             updatedAt: true,
             deletedAt: true,
@@ -432,28 +479,140 @@ export async function POST(req: NextRequest) {
           { status: 200, headers: noStoreHeaders() }
         );
       }
+    }
+
+    // A new quote may leave its number to the server, which takes the next one
+    // from the company's counter inside the write transaction.
+    const requestedNumber = existing
+      ? toRequiredString(payload?.number, "Quote number", 100)
+      : toNullableString(payload?.number, 100);
+
+    if (requestedNumber) {
+      const taken = await prisma.quote.findFirst({
+        where: { companyId, number: requestedNumber, NOT: { id } },
+        select: { id: true },
+      });
+      if (taken) return duplicateNumberResponse(requestedNumber);
+    }
+    const customerName = toRequiredString(payload?.customerName, "Customer name", 200);
+    const issueDate = toRequiredString(payload?.issueDate, "Issue date", 30);
+
+    const resolved = resolveDocumentTotals(payload, existing?.lineItems);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { success: false, error: resolved.error, expectedTotals: resolved.expected },
+        { status: 400, headers: noStoreHeaders() }
+      );
+    }
+
+    const lineItems = resolved.lineItems;
+    if (resolved.totals) {
+      payload = { ...payload, ...resolved.totals };
+    }
 
-      const updated = await prisma.quote.update({
-        where: { id },
+    if (existing) {
+      const updated = await prisma.$transaction(async (tx) => {
+        const syncRevision = await allocateSyncRevision(tx, companyId);
+        const number = await takeDocumentNumber(tx, companyId, "quote", requestedNumber);
+        const row = await tx.quote.update({
+          where: { id },
+          data: {
+            syncRevision,
+            number,
+            customerId: toNullableString(payload?.customerId, 191),
+            customerName,
+            customerAddress: toNullableString(payload?.customerAddress, 500),
+            issueDate,
+            expiryDate: toNullableString(payload?.expiryDate, 30),
+            dueDate: toNullableString(payload?.dueDate, 30),
+            reference: toNullableString(payload?.reference, 200),
+            publicComments: toNullableString(payload?.publicComments, 4000),
+            internalNotes: toNullableString(payload?.internalNotes, 4000),
+            currency: toNullableString(payload?.currency, 10) ?? "ZAR",
+            status: toNullableString(payload?.status, 50) ?? "draft",
+            vatRate: toDecimalNumber(payload?.vatRate, 0),
+            subtotal: toDecimalNumber(payload?.subtotal, 0),
+            vat: toDecimalNumber(payload?.vat, 0),
+            total: toDecimalNumber(payload?.total, 0),
+            data: { ...payload, number },
+            deletedAt: payload?.deletedAt ? new Date(payload.deletedAt) : null,
+            lineItems: lineItems ? { deleteMany: {}, create: lineItems } : undefined,
+          },
+          select: {
+            id: true,
+            number: true,
+            customerId: true,
+            customerName: true,
+            customerAddress: true,
+            issueDate: true,
+            expiryDate: true,
+            dueDate: true,
+            reference: true,
+            publicComments: true,
+            internalNotes: true,
+            currency: true,
+            status: true,
+            vatRate: true,
+            subtotal: true,
+            vat: true,
+            total: true,
+            data: true,
+            lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+            syncRevision: true,
+            createdAt: true,
+            updatedAt: true,
+            deletedAt: true,
+          },
+        });
+        await saveRecordSnapshot(
+          tx,
+          "quote",
+          { userId: auth.userId, companyId, sessionId: auth.sessionId },
+          "update",
+          mapQuoteForResponse(row)
+        );
+        return row;
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          quote: mapQuoteForResponse(updated),
+          ...(mergedFields.length > 0 ? { merged: true, mergedFields } : {}),
+        },
+        { status: 200, headers: noStoreHeaders() }
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      await requireDocumentQuota(tx, auth.userId, companyId, "quote");
+      const number = await takeDocumentNumber(tx, companyId, "quote", requestedNumber);
+      const row = await tx.quote.create({
         data: {
+          syncRevision,
+          id,
+          userId: auth.userId,
+          companyId,
           number,
-          customerId: toNullableString(body?.customerId, 191),
+          customerId: toNullableString(payload?.customerId, 191),
           customerName,
-          customerAddress: toNullableString(body?.customerAddress, 500),
+          customerAddress: toNullableString(payload?.customerAddress, 500),
           issueDate,
-          expiryDate: toNullableString(body?.expiryDate, 30),
-          dueDate: toNullableString(body?.dueDate, 30),
-          reference: toNullableString(body?.reference, 200),
-          publicComments: toNullableString(body?.publicComments, 4000),
-          internalNotes: toNullableString(body?.internalNotes, 4000),
-          currency: toNullableString(body?.currency, 10) ?? "ZAR",
-          status: toNullableString(body?.status, 50) ?? "draft",
-          vatRate: toDecimalNumber(body?.vatRate, 0),
-          subtotal: toDecimalNumber(body?.subtotal, 0),
-          vat: toDecimalNumber(body?.vat, 0),
-          total: toDecimalNumber(body?.total, 0),
-          data: body ?? null,
-          deletedAt: body?.deletedAt ? new Date(body.deletedAt) : null,
+          expiryDate: toNullableString(payload?.expiryDate, 30),
+          dueDate: toNullableString(payload?.dueDate, 30),
+          reference: toNullableString(payload?.reference, 200),
+          publicComments: toNullableString(payload?.publicComments, 4000),
+          internalNotes: toNullableString(payload?.internalNotes, 4000),
+          currency: toNullableString(payload?.currency, 10) ?? "ZAR",
+          status: toNullableString(payload?.status, 50) ?? "draft",
+          vatRate: toDecimalNumber(payload?.vatRate, 0),
+          subtotal: toDecimalNumber(payload?.subtotal, 0),
+          vat: toDecimalNumber(payload?.vat, 0),
+          total: toDecimalNumber(payload?.total, 0),
+          data: { ...payload, number },
+          deletedAt: payload?.deletedAt ? new Date(payload.deletedAt) : null,
+          lineItems: lineItems ? { create: lineItems } : undefined,
         },
         select: {
           id: true,
@@ -474,68 +633,21 @@ export async function POST(req: NextRequest) {
           vat: true,
           total: true,
           data: true,
+          lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+          syncRevision: true,
           createdAt: true,
           updatedAt: true,
           deletedAt: true,
         },
       });
-
-      return NextResponse.json(
-        {
-          success: true,
-          quote: mapQuoteForResponse(updated),
-        },
-        { status: 200, headers: noStoreHeaders() }
+      await saveRecordSnapshot(
+        tx,
+        "quote",
+        { userId: auth.userId, companyId, sessionId: auth.sessionId },
+        "create",
+        mapQuoteForResponse(row)
       );
-    }
-
-    const created = await prisma.quote.create({
-      data: {
-        id,
-        userId: auth.userId,
-        companyId,
-        number,
-        customerId: toNullableString(body?.customerId, 191),
-        customerName,
-        customerAddress: toNullableString(body?.customerAddress, 500),
-        issueDate,
-        expiryDate: toNullableString(body?.expiryDate, 30),
-        dueDate: toNullableString(body?.dueDate, 30),
-        reference: toNullableString(body?.reference, 200),
-        publicComments: toNullableString(body?.publicComments, 4000),
-        internalNotes: toNullableString(body?.internalNotes, 4000),
-        currency: toNullableString(body?.currency, 10) ?? "ZAR",
-        status: toNullableString(body?.status, 50) ?? "draft",
-        vatRate: toDecimalNumber(body?.vatRate, 0),
-        subtotal: toDecimalNumber(body?.subtotal, 0),
-        vat: toDecimalNumber(body?.vat, 0),
-        total: toDecimalNumber(body?.total, 0),
-        data: body ?? null,
-        deletedAt: body?.deletedAt ? new Date(body.deletedAt) : null,
-      },
-      select: {
-        id: true,
-        number: true,
-        customerId: true,
-        customerName: true,
-        customerAddress: true,
-        issueDate: true,
-        expiryDate: true,
-        dueDate: true,
-        reference: true,
-        publicComments: true,
-        internalNotes: true,
-        currency: true,
-        status: true,
-        vatRate: true,
-        subtotal: true,
-        vat: true,
-        total: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-        deletedAt: true,
-      },
+      return row;
     });
 
     return NextResponse.json(
@@ -546,6 +658,12 @@ export async function POST(req: NextRequest) {
       { status: 201, headers: noStoreHeaders() }
     );
   } catch (err: any) {
+    if (isDuplicateDocumentNumberError(err)) {
+      return duplicateNumberResponse();
+    }
+    if (isDocumentQuotaExceededError(err)) {
+      return quotaExceededResponse(err);
+    }
     console.error("[api/quotes][POST] failed:", err);
     return jsonError(err?.message || "Failed to save quote.", 500);
   }
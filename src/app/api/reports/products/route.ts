@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { UNISSUED_INVOICE_STATUSES } from "@/lib/creditNotes";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function parseIsoDay(value: string | null): string | null {
+  const s = String(value ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || Number.isNaN(new Date(s).getTime())) return null;
+  return s;
+}
+
+/** The YYYY-MM-DD day after `day`, so a range can end before it exclusively. */
+function dayAfter(day: string): string {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+type LineTotals = { lines: number; quantity: number; subtotal: number; vat: number; total: number };
+
+type LineGroup = {
+  productId: string | null;
+  _count: { _all: number };
+  _sum: {
+    quantity: Prisma.Decimal | null;
+    lineSubtotal: Prisma.Decimal | null;
+    lineVat: Prisma.Decimal | null;
+    lineTotal: Prisma.Decimal | null;
+  };
+};
+
+function emptyTotals(): LineTotals {
+  return { lines: 0, quantity: 0, subtotal: 0, vat: 0, total: 0 };
+}
+
+function addLineTotals(totals: LineTotals, row: LineGroup) {
+  totals.lines += row._count._all;
+  totals.quantity += Number(row._sum.quantity ?? 0);
+  totals.subtotal = roundMoney(totals.subtotal + Number(row._sum.lineSubtotal ?? 0));
+  totals.vat = roundMoney(totals.vat + Number(row._sum.lineVat ?? 0));
+  totals.total = roundMoney(totals.total + Number(row._sum.lineTotal ?? 0));
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+/**
+ * Sales per catalogue product for a period, per currency: line items of issued
+ * invoices dated in the period, less the lines of credit notes dated in it.
+ * Lines that were not priced from this company's catalogue are grouped under
+ * a null `productId`. The same documents count here as in the VAT report.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const from = parseIsoDay(url.searchParams.get("from"));
+    const to = parseIsoDay(url.searchParams.get("to"));
+    if (!from || !to) {
+      return jsonError("from and to must be YYYY-MM-DD dates.", 400);
+    }
+    if (from > to) {
+      return jsonError("from must not be after to.", 400);
+    }
+
+    // Issue dates may be stored with a time, so the range ends before the day
+    // after `to` rather than at `to` itself.
+    const issueDate = { gte: from, lt: dayAfter(to) };
+    const invoiceWhere: Prisma.InvoiceWhereInput = {
+      userId: auth.userId,
+      companyId,
+      deletedAt: null,
+      issueDate,
+      status: { notIn: [...UNISSUED_INVOICE_STATUSES], mode: "insensitive" },
+    };
+    const creditNoteWhere: Prisma.CreditNoteWhereInput = {
+      userId: auth.userId,
+      companyId,
+      deletedAt: null,
+      issueDate,
+      status: { not: "void" },
+    };
+
+    // Line items carry no currency of their own, so lines are summed one
+    // document currency at a time.
+    const [invoiceCurrencies, creditNoteCurrencies] = await Promise.all([
+      prisma.invoice.groupBy({ by: ["currency"], where: invoiceWhere }),
+      prisma.creditNote.groupBy({ by: ["currency"], where: creditNoteWhere }),
+    ]);
+    const currencyCodes = [
+      ...new Set([...invoiceCurrencies, ...creditNoteCurrencies].map((row) => row.currency)),
+    ].sort((a, b) => a.localeCompare(b));
+
+    const lineSums = {
+      _count: { _all: true },
+      _sum: { quantity: true, lineSubtotal: true, lineVat: true, lineTotal: true },
+    } as const;
+
+    const grouped = [];
+    for (const currency of currencyCodes) {
+      const [invoiced, credited] = await Promise.all([
+        prisma.invoiceLineItem.groupBy({
+          by: ["productId"],
+          where: { invoice: { ...invoiceWhere, currency } },
+          ...lineSums,
+        }),
+        prisma.creditNoteLineItem.groupBy({
+          by: ["productId"],
+          where: { creditNote: { ...creditNoteWhere, currency } },
+          ...lineSums,
+        }),
+      ]);
+      grouped.push({ currency, invoiced, credited });
+    }
+
+    const productIds = [
+      ...new Set(
+        grouped.flatMap(({ invoiced, credited }) =>
+          [...invoiced, ...credited].map((row) => row.productId).filter((id): id is string => !!id)
+        )
+      ),
+    ];
+    // Deleted products are still named, since their sales stay on record.
+    // A line's productId is whatever the device sent, so only ids found among
+    // this company's own products are reported as products.
+    const products = await prisma.product.findMany({
+      where: { companyId, id: { in: productIds } },
+      select: { id: true, sku: true, name: true, kind: true, deletedAt: true },
+    });
+    const productById = new Map(products.map((product) => [product.id, product]));
+
+    const currencies = grouped.map(({ currency, invoiced, credited }) => {
+      const byProduct = new Map<string | null, { invoiced: LineTotals; credited: LineTotals }>();
+      const entry = (productId: string | null) => {
+        let found = byProduct.get(productId);
+        if (!found) {
+          found = { invoiced: emptyTotals(), credited: emptyTotals() };
+          byProduct.set(productId, found);
+        }
+        return found;
+      };
+
+      const ownProductId = (productId: string | null) =>
+        productId && productById.has(productId) ? productId : null;
+
+      for (const row of invoiced) addLineTotals(entry(ownProductId(row.productId)).invoiced, row);
+      for (const row of credited) addLineTotals(entry(ownProductId(row.productId)).credited, row);
+
+      const rows = [...byProduct.entries()].map(([productId, totals]) => {
+        const product = productId ? productById.get(productId) : undefined;
+        return {
+          productId,
+          sku: product?.sku ?? null,
+          name: product?.name ?? null,
+          kind: product?.kind ?? null,
+          deleted: product ? product.deletedAt != null : false,
+          invoiced: totals.invoiced,
+          credited: totals.credited,
+          net: {
+            quantity: totals.invoiced.quantity - totals.credited.quantity,
+            subtotal: roundMoney(totals.invoiced.subtotal - totals.credited.subtotal),
+            vat: roundMoney(totals.invoiced.vat - totals.credited.vat),
+            total: roundMoney(totals.invoiced.total - totals.credited.total),
+          },
+        };
+      });
+
+      rows.sort((a, b) => b.net.subtotal - a.net.subtotal);
+      return { currency, products: rows };
+    });
+
+    return NextResponse.json(
+      { success: true, companyId, from, to, currencies },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/reports/products][GET] failed:", err);
+    return jsonError("Failed to build product sales report.", 500);
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { UNISSUED_INVOICE_STATUSES } from "@/lib/creditNotes";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function parseIsoDay(value: string | null): string | null {
+  const s = String(value ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || Number.isNaN(new Date(s).getTime())) return null;
+  return s;
+}
+
+/** The YYYY-MM-DD day after `day`, so a range can end before it exclusively. */
+function dayAfter(day: string): string {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+type VatTotals = { count: number; subtotal: number; vat: number; total: number };
+
+function emptyTotals(): VatTotals {
+  return { count: 0, subtotal: 0, vat: 0, total: 0 };
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+
+/**
+ * Output VAT for a period, per currency: issued invoices dated in the period,
+ * less the credit notes dated in it. Drafts, cancelled invoices, voided credit
+ * notes and anything deleted are left out. Dates are the documents' own issue
+ * dates (YYYY-MM-DD), both ends inclusive.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const from = parseIsoDay(url.searchParams.get("from"));
+    const to = parseIsoDay(url.searchParams.get("to"));
+    if (!from || !to) {
+      return jsonError("from and to must be YYYY-MM-DD dates.", 400);
+    }
+    if (from > to) {
+      return jsonError("from must not be after to.", 400);
+    }
+
+    // Issue dates may be stored with a time, so the range ends before the day
+    // after `to` rather than at `to` itself.
+    const issueDate = { gte: from, lt: dayAfter(to) };
+
+    const [invoices, creditNotes] = await Promise.all([
+      prisma.invoice.groupBy({
+        by: ["currency"],
+        where: {
+          userId: auth.userId,
+          companyId,
+          deletedAt: null,
+          issueDate,
+          status: { notIn: [...UNISSUED_INVOICE_STATUSES], mode: "insensitive" },
+        },
+        _count: { _all: true },
+        _sum: { subtotal: true, vat: true, total: true },
+      }),
+      prisma.creditNote.groupBy({
+        by: ["currency"],
+        where: {
+          userId: auth.userId,
+          companyId,
+          deletedAt: null,
+          issueDate,
+          status: { not: "void" },
+        },
+        _count: { _all: true },
+        _sum: { subtotal: true, vat: true, total: true },
+      }),
+    ]);
+
+    const byCurrency = new Map<string, { invoices: VatTotals; creditNotes: VatTotals }>();
+    const entry = (currency: string) => {
+      let found = byCurrency.get(currency);
+      if (!found) {
+        found = { invoices: emptyTotals(), creditNotes: emptyTotals() };
+        byCurrency.set(currency, found);
+      }
+      return found;
+    };
+
+    for (const row of invoices) {
+      entry(row.currency).invoices = {
+        count: row._count._all,
+        subtotal: Number(row._sum.subtotal ?? 0),
+        vat: Number(row._sum.vat ?? 0),
+        total: Number(row._sum.total ?? 0),
+      };
+    }
+    for (const row of creditNotes) {
+      entry(row.currency).creditNotes = {
+        count: row._count._all,
+        subtotal: Number(row._sum.subtotal ?? 0),
+        vat: Number(row._sum.vat ?? 0),
+        total: Number(row._sum.total ?? 0),
+      };
+    }
+
+    const currencies = [...byCurrency.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, totals]) => ({
+        currency,
+        invoices: totals.invoices,
+        creditNotes: totals.creditNotes,
+        net: {
+          subtotal: roundMoney(totals.invoices.subtotal - totals.creditNotes.subtotal),
+          vat: roundMoney(totals.invoices.vat - totals.creditNotes.vat),
+          total: roundMoney(totals.invoices.total - totals.creditNotes.total),
+        },
+      }));
+
+    return NextResponse.json(
+      { success: true, companyId, from, to, currencies },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/reports/vat][GET] failed:", err);
+    return jsonError("Failed to build VAT report.", 500);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+/**
+ * DELETE: signs out one of the signed-in user's other devices. The current
+ * session is refused; signing out here goes through `/api/auth/logout`.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) return jsonError("Not authenticated", 401);
+
+  let auth: { userId: string; sessionId: string };
+  try {
+    auth = await verifySession(token);
+  } catch {
+    return jsonError("Not authenticated", 401);
+  }
+
+  const { id } = await params;
+
+  if (id === auth.sessionId) {
+    return jsonError("This is the device you are using. Use Log out to sign out here.", 400);
+  }
+
+  try {
+    const session = await prisma.session.findFirst({
+      where: { id, userId: auth.userId },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!session) {
+      return jsonError("Session not found", 404);
+    }
+
+    if (!session.revokedAt) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, alreadyRevoked: Boolean(session.revokedAt) },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/sessions/:id][DELETE] failed:", err);
+    return jsonError("Failed to sign out this device.", 500);
+  }
+}
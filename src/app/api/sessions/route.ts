@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { loadEntitlement } from "@/lib/entitlements";
+
+export const dynamic = "force-dynamic";
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+async function getCurrentSession(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) return null;
+
+  try {
+    return await verifySession(token);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET: the signed-in user's active sessions, newest activity first, with the
+ * one making this request marked `current` and how many of the plan's
+ * `maxActiveSessions` slots are still free.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await getCurrentSession(req);
+  if (!auth) return jsonError("Not authenticated", 401);
+
+  try {
+    const [sessions, { features }] = await Promise.all([
+      prisma.session.findMany({
+        where: { userId: auth.userId, revokedAt: null },
+        orderBy: [{ lastSeenAt: "desc" }, { createdAt: "desc" }],
+        select: {
+          id: true,
+          userAgent: true,
+          ip: true,
+          createdAt: true,
+          lastSeenAt: true,
+        },
+      }),
+      loadEntitlement(auth.userId),
+    ]);
+
+    const maxActiveSessions = Math.max(1, features.maxActiveSessions);
+
+    return NextResponse.json(
+      {
+        success: true,
+        maxActiveSessions,
+        activeCount: sessions.length,
+        slotsLeft: Math.max(0, maxActiveSessions - sessions.length),
+        sessions: sessions.map((s) => ({ ...s, current: s.id === auth.sessionId })),
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/sessions][GET] failed:", err);
+    return jsonError("Failed to load sessions.", 500);
+  }
+}
+
+/**
+ * DELETE: signs out every other device. The session making the request stays
+ * signed in.
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await getCurrentSession(req);
+  if (!auth) return jsonError("Not authenticated", 401);
+
+  try {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId: auth.userId,
+        revokedAt: null,
+        id: { not: auth.sessionId },
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json(
+      { success: true, revokedCount: result.count },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/sessions][DELETE] failed:", err);
+    return jsonError("Failed to sign out other devices.", 500);
+  }
+}
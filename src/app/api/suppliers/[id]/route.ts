@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Supplier } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { parseSupplierInput } from "@/lib/suppliers";
+import { allocateSyncRevision, hasCloudChangedSinceBase } from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+async function requireUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value?.trim();
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return await verifySession(token);
+  } catch {
+    return null;
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+function supplierConflictResponse(supplier: Supplier) {
+  return NextResponse.json(
+    {
+      success: false,
+      conflict: true,
+      entityType: "supplier",
+      entityId: supplier.id,
+      serverRecord: supplier,
+      serverUpdatedAt: supplier.updatedAt,
+      serverRevision: supplier.syncRevision,
+      message:
+        "This supplier was changed in the cloud after this device last synced.",
+    },
+    { status: 409 }
+  );
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const resolvedParams = await Promise.resolve(params);
+
+  const id = String(resolvedParams?.id ?? "").trim();
+  const companyId = String(
+    req.nextUrl.searchParams.get("companyId") ?? ""
+  ).trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const supplier = await prisma.supplier.findFirst({
+    where: {
+      id,
+      userId: session.userId,
+      companyId,
+    },
+  });
+
+  if (!supplier) {
+    return NextResponse.json(
+      { success: false, error: "Supplier not found." },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, supplier });
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
+  const body = await req.json();
+  const resolvedParams = await Promise.resolve(params);
+
+  const companyId = String(body?.companyId ?? "").trim();
+  const id = String(resolvedParams?.id ?? "").trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "Supplier id is required." },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseSupplierInput(body ?? {});
+
+  if ("error" in parsed) {
+    return NextResponse.json(
+      { success: false, error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  const existing = await prisma.supplier.findFirst({
+    where: {
+      id,
+      userId: session.userId,
+      companyId,
+    },
+  });
+
+  if (!existing) {
+    return NextResponse.json(
+      { success: false, error: "Not found" },
+      { status: 404 }
+    );
+  }
+
+  const forceConflictResolution = body?.forceConflictResolution === true;
+
+  if (
+    !forceConflictResolution &&
+    hasCloudChangedSinceBase(existing, body)
+  ) {
+    return supplierConflictResponse(existing);
+  }
+
+  const supplier = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = await tx.supplier.update({
+      where: { id },
+      data: {
+        ...parsed.supplier,
+        syncRevision,
+        updatedAt: new Date(),
+      },
+    });
+    await saveRecordSnapshot(
+      tx,
+      "supplier",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "update",
+      row
+    );
+    return row;
+  });
+
+  return NextResponse.json({ success: true, supplier });
+}
+
+/**
+ * Soft delete: the row stays as a tombstone so other devices pull the
+ * deletion, and purchase orders keep pointing at it.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
+  const resolvedParams = await Promise.resolve(params);
+
+  const id = String(resolvedParams?.id ?? "").trim();
+  const companyId = String(
+    req.nextUrl.searchParams.get("companyId") ?? ""
+  ).trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const existing = await prisma.supplier.findFirst({
+    where: {
+      id,
+      userId: session.userId,
+      companyId,
+    },
+  });
+
+  if (!existing) {
+    return NextResponse.json(
+      { success: false, error: "Supplier not found." },
+      { status: 404 }
+    );
+  }
+
+  if (existing.deletedAt) {
+    return NextResponse.json({ success: true, supplier: existing });
+  }
+
+  const supplier = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = await tx.supplier.update({
+      where: { id },
+      data: {
+        syncRevision,
+        updatedAt: new Date(),
+        deletedAt: new Date(),
+      },
+    });
+    await saveRecordSnapshot(
+      tx,
+      "supplier",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "delete",
+      row
+    );
+    return row;
+  });
+
+  return NextResponse.json({ success: true, supplier });
+}
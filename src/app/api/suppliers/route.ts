@@ -0,0 +1,284 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma, Supplier } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import { parseSupplierInput } from "@/lib/suppliers";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  parseSyncRevision,
+} from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+async function requireUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value?.trim();
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return await verifySession(token);
+  } catch {
+    return null;
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+const BROWSE_SORT_FIELDS = ["name", "city", "status", "createdAt", "updatedAt"] as const;
+
+/**
+ * The portal browses with `sort`/`order`/`offset`; sync clients never send
+ * `sort`, so they keep getting every row, tombstones included, in sync order.
+ */
+function parseBrowseSort(sort: string | null, order: string | null) {
+  const field = BROWSE_SORT_FIELDS.find((f) => f === String(sort ?? "").trim());
+  if (!field) return null;
+  return {
+    field,
+    direction: String(order ?? "").toLowerCase() === "asc" ? ("asc" as const) : ("desc" as const),
+  };
+}
+
+function supplierConflictResponse(supplier: Supplier) {
+  return NextResponse.json(
+    {
+      success: false,
+      conflict: true,
+      entityType: "supplier",
+      entityId: supplier.id,
+      serverRecord: supplier,
+      serverUpdatedAt: supplier.updatedAt,
+      serverRevision: supplier.syncRevision,
+      message: "This supplier was changed in the cloud after this device last synced.",
+    },
+    { status: 409 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const companyId = String(
+    req.nextUrl.searchParams.get("companyId") ?? ""
+  ).trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  const since = req.nextUrl.searchParams.get("since");
+  const sinceRevision = parseSyncRevision(
+    req.nextUrl.searchParams.get("sinceRevision")
+  );
+  const limitRaw = Number(req.nextUrl.searchParams.get("limit") || 50);
+  const limit = Math.max(1, Math.min(limitRaw || 50, 250));
+  const browseSort = parseBrowseSort(
+    req.nextUrl.searchParams.get("sort"),
+    req.nextUrl.searchParams.get("order")
+  );
+  const offset = Math.max(0, Math.floor(Number(req.nextUrl.searchParams.get("offset") || 0)) || 0);
+  const search = String(req.nextUrl.searchParams.get("q") ?? "").trim().slice(0, 100);
+  const status = String(req.nextUrl.searchParams.get("status") ?? "").trim().toLowerCase();
+
+  const where: Prisma.SupplierWhereInput = {
+    userId: session.userId,
+    companyId,
+  };
+
+  if (browseSort) {
+    where.deletedAt = null;
+  }
+
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: "insensitive" } },
+      { contactName: { contains: search, mode: "insensitive" } },
+      { email: { contains: search, mode: "insensitive" } },
+      { phone: { contains: search } },
+      { city: { contains: search, mode: "insensitive" } },
+      { vatNumber: { contains: search } },
+    ];
+  }
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (sinceRevision != null) {
+    where.syncRevision = {
+      gt: sinceRevision,
+    };
+  } else if (since) {
+    const sinceDate = new Date(since);
+    if (!Number.isNaN(sinceDate.getTime())) {
+      where.updatedAt = {
+        gt: sinceDate,
+      };
+    }
+  }
+
+  const suppliers = await prisma.supplier.findMany({
+    where,
+    orderBy: browseSort
+      ? [{ [browseSort.field]: browseSort.direction }, { id: browseSort.direction }]
+      : sinceRevision != null
+        ? [{ syncRevision: "asc" }, { id: "asc" }]
+        : { updatedAt: "asc" },
+    ...(browseSort ? { skip: offset } : {}),
+    take: limit,
+  });
+
+  const nextOffset =
+    browseSort && suppliers.length === limit ? offset + suppliers.length : null;
+
+  return NextResponse.json({ success: true, suppliers, nextOffset });
+}
+
+export async function POST(req: NextRequest) {
+  const session = await requireUser(req);
+
+  if (!session?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const writeGate = await requireEntitlement(session.userId, { writable: true });
+  if (!writeGate.ok) return writeGate.response;
+
+  const body = await req.json();
+
+  const companyId = String(body?.companyId ?? "").trim();
+  const id = String(body?.id ?? "").trim();
+
+  if (!companyId) {
+    return NextResponse.json(
+      { success: false, error: "companyId is required." },
+      { status: 400 }
+    );
+  }
+
+  const company = await requireOwnedCompany(session.userId, companyId);
+
+  if (!company) {
+    return NextResponse.json(
+      { success: false, error: "Company not found or access denied." },
+      { status: 403 }
+    );
+  }
+
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "Supplier id is required." },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseSupplierInput(body ?? {});
+
+  if ("error" in parsed) {
+    return NextResponse.json(
+      { success: false, error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  const forceConflictResolution = body?.forceConflictResolution === true;
+
+  const existing = await prisma.supplier.findFirst({
+    where: {
+      id,
+      userId: session.userId,
+      companyId,
+    },
+  });
+
+  if (existing) {
+    if (
+      !forceConflictResolution &&
+      hasCloudChangedSinceBase(existing, body)
+    ) {
+      return supplierConflictResponse(existing);
+    }
+
+    const supplier = await prisma.$transaction(async (tx) => {
+      const syncRevision = await allocateSyncRevision(tx, companyId);
+      const row = await tx.supplier.update({
+        where: { id },
+        data: {
+          ...parsed.supplier,
+          syncRevision,
+          // Server clock only: a skewed device clock must not decide sync order.
+          updatedAt: new Date(),
+        },
+      });
+      await saveRecordSnapshot(
+        tx,
+        "supplier",
+        { userId: session.userId, companyId, sessionId: session.sessionId },
+        "update",
+        row
+      );
+      return row;
+    });
+
+    return NextResponse.json({ success: true, supplier });
+  }
+
+  const supplier = await prisma.$transaction(async (tx) => {
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = await tx.supplier.create({
+      data: {
+        ...parsed.supplier,
+        syncRevision,
+        id,
+        userId: session.userId,
+        companyId,
+        updatedAt: new Date(),
+      },
+    });
+    await saveRecordSnapshot(
+      tx,
+      "supplier",
+      { userId: session.userId, companyId, sessionId: session.sessionId },
+      "create",
+      row
+    );
+    return row;
+  });
+
+  return NextResponse.json({ success: true, supplier });
+}
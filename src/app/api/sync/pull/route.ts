@@ -0,0 +1,362 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import {
+  companySelect,
+  companySettingsSelect,
+  creditNoteSelect,
+  customerPaymentSelect,
+  invoiceSelect,
+  mapCompanySettingsForResponse,
+  mapCreditNoteForResponse,
+  mapCustomerPaymentForResponse,
+  mapInvoiceForResponse,
+  mapProductForResponse,
+  mapPurchaseOrderForResponse,
+  mapQuoteForResponse,
+  productSelect,
+  purchaseOrderSelect,
+  quoteSelect,
+} from "@/lib/sync/records";
+import { parseSyncRevision } from "@/lib/sync/revision";
+
+export const dynamic = "force-dynamic";
+
+type PullEntityType =
+  | "company"
+  | "company-settings"
+  | "customer"
+  | "supplier"
+  | "product"
+  | "quote"
+  | "invoice"
+  | "customer-payment"
+  | "credit-note"
+  | "purchase-order";
+
+/**
+ * Revision-ordered entities share the company's sync counter, so one number
+ * orders them all. The Company row itself is not revisioned; it is tracked by
+ * its own updatedAt watermark inside the same cursor.
+ */
+type PullCursor = {
+  syncRevision: number;
+  companyUpdatedAt: Date | null;
+};
+
+type PullChange = {
+  entityType: PullEntityType;
+  id: string;
+  syncRevision: number | null;
+  updatedAt: Date;
+  deletedAt: Date | null;
+  record: unknown;
+};
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function encodeCursor(cursor: PullCursor): string {
+  return Buffer.from(
+    JSON.stringify({
+      rev: cursor.syncRevision,
+      companyUpdatedAt: cursor.companyUpdatedAt?.toISOString() ?? null,
+    }),
+    "utf8"
+  ).toString("base64url");
+}
+
+function decodeCursor(value: string | null): PullCursor | null {
+  if (!value) return null;
+  try {
+    const raw = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as {
+      rev?: unknown;
+      companyUpdatedAt?: string | null;
+    };
+    const syncRevision = parseSyncRevision(raw?.rev);
+    if (syncRevision == null) return null;
+    return {
+      syncRevision,
+      companyUpdatedAt: parseDateParam(raw?.companyUpdatedAt ?? null),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+/**
+ * Deleted companies stay pullable so devices receive the Company tombstone
+ * (its `deletedAt` is in the feed); deactivated ones do not.
+ */
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      OR: [{ deletedAt: null, isActive: true }, { deletedAt: { not: null } }],
+    },
+    select: { id: true },
+  });
+}
+
+async function loadChanges(
+  userId: string,
+  companyId: string,
+  cursor: PullCursor | null,
+  take: number
+) {
+  const afterRevision = { syncRevision: { gt: cursor?.syncRevision ?? 0 } };
+  const orderBy = [{ syncRevision: "asc" as const }, { id: "asc" as const }];
+
+  const [
+    company,
+    settings,
+    customers,
+    suppliers,
+    products,
+    quotes,
+    invoices,
+    payments,
+    creditNotes,
+    purchaseOrders,
+  ] = await Promise.all([
+    prisma.company.findFirst({
+      where: {
+        userId,
+        id: companyId,
+        ...(cursor?.companyUpdatedAt ? { updatedAt: { gt: cursor.companyUpdatedAt } } : {}),
+      },
+      select: companySelect,
+    }),
+    prisma.companySettings.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: companySettingsSelect,
+    }),
+    prisma.customer.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+    }),
+    prisma.supplier.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+    }),
+    prisma.product.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: productSelect,
+    }),
+    prisma.quote.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: quoteSelect,
+    }),
+    prisma.invoice.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: invoiceSelect,
+    }),
+    prisma.customerPayment.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: customerPaymentSelect,
+    }),
+    prisma.creditNote.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: creditNoteSelect,
+    }),
+    prisma.purchaseOrder.findMany({
+      where: { userId, companyId, ...afterRevision },
+      orderBy,
+      take,
+      select: purchaseOrderSelect,
+    }),
+  ]);
+
+  const changes: PullChange[] = [
+    ...settings.map((row) => ({
+      entityType: "company-settings" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: null,
+      record: mapCompanySettingsForResponse(row),
+    })),
+    ...customers.map((row) => ({
+      entityType: "customer" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: row,
+    })),
+    ...suppliers.map((row) => ({
+      entityType: "supplier" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: row,
+    })),
+    ...products.map((row) => ({
+      entityType: "product" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapProductForResponse(row),
+    })),
+    ...quotes.map((row) => ({
+      entityType: "quote" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapQuoteForResponse(row),
+    })),
+    ...invoices.map((row) => ({
+      entityType: "invoice" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapInvoiceForResponse(row),
+    })),
+    ...payments.map((row) => ({
+      entityType: "customer-payment" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapCustomerPaymentForResponse(row),
+    })),
+    ...creditNotes.map((row) => ({
+      entityType: "credit-note" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapCreditNoteForResponse(row),
+    })),
+    ...purchaseOrders.map((row) => ({
+      entityType: "purchase-order" as const,
+      id: row.id,
+      syncRevision: row.syncRevision,
+      updatedAt: row.updatedAt,
+      deletedAt: row.deletedAt,
+      record: mapPurchaseOrderForResponse(row),
+    })),
+  ].sort((a, b) => a.syncRevision - b.syncRevision);
+
+  return { company, changes };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const url = new URL(req.url);
+    const companyId = String(url.searchParams.get("companyId") ?? "").trim();
+
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const rawCursor = url.searchParams.get("cursor");
+    const cursor = decodeCursor(rawCursor);
+    if (rawCursor && !cursor) {
+      return jsonError("Invalid cursor.", 400);
+    }
+
+    const limitRaw = Number(url.searchParams.get("limit") || "500");
+    const limit = Math.max(1, Math.min(limitRaw || 500, 1000));
+
+    // Each entity is read up to limit + 1 rows, so after the merge we know
+    // whether anything is left beyond this page.
+    const loaded = await loadChanges(auth.userId, companyId, cursor, limit + 1);
+    const page = loaded.changes.slice(0, limit);
+    const hasMore = loaded.changes.length > limit;
+
+    const changes: PullChange[] = loaded.company
+      ? [
+          {
+            entityType: "company",
+            id: loaded.company.id,
+            syncRevision: null,
+            updatedAt: loaded.company.updatedAt,
+            deletedAt: loaded.company.deletedAt,
+            record: loaded.company,
+          },
+          ...page,
+        ]
+      : page;
+
+    const last = page[page.length - 1];
+    const nextCursor = encodeCursor({
+      syncRevision: last?.syncRevision ?? cursor?.syncRevision ?? 0,
+      companyUpdatedAt: loaded.company?.updatedAt ?? cursor?.companyUpdatedAt ?? null,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        companyId,
+        changes,
+        nextCursor,
+        hasMore,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    console.error("[api/sync/pull][GET] failed:", err);
+    return jsonError("Failed to load changes.", 500);
+  }
+}
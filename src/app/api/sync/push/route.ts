@@ -0,0 +1,1452 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { getSessionCookieName, verifySession } from "@/lib/auth";
+import { requireEntitlement } from "@/lib/entitlementGuard";
+import type { ResolvedEntitlementFeatures } from "@/lib/entitlements";
+import {
+  checkCreditNoteAgainstInvoice,
+  creditedInvoiceSelect,
+  parseCreditNoteInput,
+} from "@/lib/creditNotes";
+import {
+  duplicateDocumentNumberMessage,
+  isDuplicateDocumentNumberError,
+  recordDocumentNumber,
+  type NumberedDocumentType,
+} from "@/lib/documentNumbers";
+import { resolveDocumentTotals } from "@/lib/lineItems";
+import { settleFromLedger } from "@/lib/payments";
+import { checkProductSku, parseProductInput } from "@/lib/products";
+import {
+  claimDocumentQuota,
+  documentQuotaMessage,
+  type DocumentQuota,
+  type QuotaDocumentType,
+} from "@/lib/quotas";
+import { parseSupplierInput } from "@/lib/suppliers";
+import {
+  creditNoteSelect,
+  invoiceSelect,
+  mapCreditNoteForResponse,
+  mapInvoiceForResponse,
+  mapProductForResponse,
+  mapPurchaseOrderForResponse,
+  mapQuoteForResponse,
+  productSelect,
+  purchaseOrderSelect,
+  quoteSelect,
+} from "@/lib/sync/records";
+import {
+  allocateSyncRevision,
+  hasCloudChangedSinceBase,
+  isIncomingOlderThanCloud,
+} from "@/lib/sync/revision";
+import { mergeWithCloud } from "@/lib/sync/merge";
+import { writeInvoiceSettlement } from "@/lib/sync/settlement";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+export const dynamic = "force-dynamic";
+
+const MAX_RECORDS_PER_PUSH = 2000;
+
+// Customers, suppliers and products are applied first so documents in the same
+// batch can reference them, and credit notes after invoices so they can credit
+// invoices pushed alongside them.
+const APPLY_ORDER = [
+  "customer",
+  "supplier",
+  "product",
+  "quote",
+  "invoice",
+  "credit-note",
+  "purchase-order",
+] as const;
+
+type SyncEntityType = (typeof APPLY_ORDER)[number];
+
+type PushRecord = {
+  index: number;
+  entityType: SyncEntityType;
+  id: string;
+  body: Record<string, unknown>;
+};
+
+type PushResult = {
+  index: number;
+  entityType: string;
+  entityId: string | null;
+  status: "created" | "updated" | "ignored" | "conflict" | "invalid";
+  record?: unknown;
+  serverRecord?: unknown;
+  serverUpdatedAt?: Date;
+  serverRevision?: number;
+  baseRecord?: unknown;
+  conflictFields?: string[];
+  mergedFields?: string[];
+  reason?: string;
+  error?: string;
+  code?: string;
+  quota?: DocumentQuota;
+};
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ success: false, error: message }, { status, headers: noStoreHeaders() });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseDateValue(value: unknown): Date | null {
+  if (value == null) return null;
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+
+  if (typeof value === "string") {
+    const raw = value.trim();
+    if (!raw) return null;
+
+    const numeric = Number(raw);
+    const d = Number.isFinite(numeric) && /^\d+$/.test(raw) ? new Date(numeric) : new Date(raw);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+
+  return null;
+}
+
+function toBooleanFlag(value: unknown): boolean {
+  if (value === true) return true;
+  if (typeof value === "string") return value.trim().toLowerCase() === "true";
+  return false;
+}
+
+function toNullableString(value: unknown, max = 1000): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return s.slice(0, max);
+}
+
+function toRequiredString(value: unknown, field: string, max = 1000): string {
+  const s = String(value ?? "").trim();
+  if (!s) {
+    throw new Error(`${field} is required.`);
+  }
+  return s.slice(0, max);
+}
+
+function toDecimalNumber(value: unknown, fallback = 0): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const n = Number(value.trim());
+    if (Number.isFinite(n)) return n;
+  }
+  return fallback;
+}
+
+function normalizeEntityType(value: unknown): SyncEntityType | null {
+  const s = String(value ?? "").toLowerCase().trim();
+  if (s === "invoice" || s === "invoices") return "invoice";
+  if (s === "quote" || s === "quotes") return "quote";
+  if (s === "customer" || s === "customers") return "customer";
+  if (s === "supplier" || s === "suppliers") return "supplier";
+  if (s === "product" || s === "products") return "product";
+  if (s === "credit-note" || s === "credit-notes" || s === "creditnote" || s === "creditnotes") return "credit-note";
+  if (s === "purchase-order" || s === "purchase-orders" || s === "purchaseorder" || s === "purchaseorders") {
+    return "purchase-order";
+  }
+  return null;
+}
+
+async function requireAuthedUser(req: NextRequest) {
+  const token = req.cookies.get(getSessionCookieName())?.value;
+  if (!token) {
+    return { error: jsonError("Unauthenticated.", 401) as NextResponse };
+  }
+
+  try {
+    const session = await verifySession(token);
+    return { userId: session.userId, sessionId: session.sessionId };
+  } catch {
+    return { error: jsonError("Session expired. Please log in again.", 401) as NextResponse };
+  }
+}
+
+async function requireOwnedCompany(userId: string, companyId: string) {
+  return prisma.company.findFirst({
+    where: {
+      id: companyId,
+      userId,
+      deletedAt: null,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+function buildInvoiceData(body: Record<string, unknown>) {
+  return {
+    number: toRequiredString(body.number, "Invoice number", 100),
+    customerId: toNullableString(body.customerId, 191),
+    customerName: toRequiredString(body.customerName, "Customer name", 200),
+    customerAddress: toNullableString(body.customerAddress, 500),
+    issueDate: toRequiredString(body.issueDate, "Issue date", 30),
+    dueDate: toNullableString(body.dueDate, 30),
+    paidDate: toNullableString(body.paidDate, 30),
+    reference: toNullableString(body.reference, 200),
+    publicComments: toNullableString(body.publicComments, 4000),
+    internalNotes: toNullableString(body.internalNotes, 4000),
+    currency: toNullableString(body.currency, 10) ?? "ZAR",
+    status: toNullableString(body.status, 50) ?? "draft",
+    vatRate: toDecimalNumber(body.vatRate, 0),
+    subtotal: toDecimalNumber(body.subtotal, 0),
+    vat: toDecimalNumber(body.vat, 0),
+    total: toDecimalNumber(body.total, 0),
+    balance:
+      body.balance === undefined || body.balance === null || body.balance === ""
+        ? null
+        : toDecimalNumber(body.balance, 0),
+    data: body as Prisma.InputJsonObject,
+    deletedAt: parseDateValue(body.deletedAt),
+  };
+}
+
+function buildQuoteData(body: Record<string, unknown>) {
+  return {
+    number: toRequiredString(body.number, "Quote number", 100),
+    customerId: toNullableString(body.customerId, 191),
+    customerName: toRequiredString(body.customerName, "Customer name", 200),
+    customerAddress: toNullableString(body.customerAddress, 500),
+    issueDate: toRequiredString(body.issueDate, "Issue date", 30),
+    expiryDate: toNullableString(body.expiryDate, 30),
+    dueDate: toNullableString(body.dueDate, 30),
+    reference: toNullableString(body.reference, 200),
+    publicComments: toNullableString(body.publicComments, 4000),
+    internalNotes: toNullableString(body.internalNotes, 4000),
+    currency: toNullableString(body.currency, 10) ?? "ZAR",
+    status: toNullableString(body.status, 50) ?? "draft",
+    vatRate: toDecimalNumber(body.vatRate, 0),
+    subtotal: toDecimalNumber(body.subtotal, 0),
+    vat: toDecimalNumber(body.vat, 0),
+    total: toDecimalNumber(body.total, 0),
+    data: body as Prisma.InputJsonObject,
+    deletedAt: parseDateValue(body.deletedAt),
+  };
+}
+
+function buildPurchaseOrderData(body: Record<string, unknown>) {
+  return {
+    number: toRequiredString(body.number, "Purchase order number", 100),
+    supplierId: toNullableString(body.supplierId, 191),
+    supplierName: toRequiredString(body.supplierName, "Supplier name", 200),
+    supplierAddress: toNullableString(body.supplierAddress, 500),
+    issueDate: toRequiredString(body.issueDate, "Issue date", 30),
+    expectedDeliveryDate: toNullableString(body.expectedDeliveryDate, 30),
+    reference: toNullableString(body.reference, 200),
+    publicComments: toNullableString(body.publicComments, 4000),
+    internalNotes: toNullableString(body.internalNotes, 4000),
+    currency: toNullableString(body.currency, 10) ?? "ZAR",
+    status: toNullableString(body.status, 50) ?? "draft",
+    vatRate: toDecimalNumber(body.vatRate, 0),
+    subtotal: toDecimalNumber(body.subtotal, 0),
+    vat: toDecimalNumber(body.vat, 0),
+    total: toDecimalNumber(body.total, 0),
+    data: body as Prisma.InputJsonObject,
+    deletedAt: parseDateValue(body.deletedAt),
+  };
+}
+
+function buildCustomerData(body: Record<string, unknown>) {
+  return {
+    name: toRequiredString(body.name, "Customer name", 200),
+    email: toNullableString(body.email, 200),
+    phone: toNullableString(body.phone, 100),
+    address: toNullableString(body.address, 500),
+    city: toNullableString(body.city, 150),
+    companyRegNo: toNullableString(body.companyRegNo, 100),
+    vatNumber: toNullableString(body.vatNumber, 100),
+    status: toNullableString(body.status, 50) ?? "active",
+    updatedAt: new Date(),
+    deletedAt: parseDateValue(body.deletedAt),
+  };
+}
+
+function buildSupplierData(body: Record<string, unknown>) {
+  const parsed = parseSupplierInput(body);
+  if ("error" in parsed) {
+    throw new Error(parsed.error);
+  }
+  return { ...parsed.supplier, updatedAt: new Date() };
+}
+
+function buildProductData(body: Record<string, unknown>) {
+  const parsed = parseProductInput(body);
+  if ("error" in parsed) {
+    throw new Error(parsed.error);
+  }
+  return parsed.product;
+}
+
+/**
+ * Decide what to do with an incoming record given the cloud copy, using the
+ * same rules as the single-record routes:
+ * - cloud changed after the device's base revision => conflict
+ * - incoming copy older than cloud (legacy clients) => ignored
+ */
+function resolveWriteDecision(
+  existing: { syncRevision: number; updatedAt: Date },
+  body: Record<string, unknown>
+): "write" | "conflict" | "ignored" {
+  if (toBooleanFlag(body.forceConflictResolution)) return "write";
+  if (hasCloudChangedSinceBase(existing, body)) return "conflict";
+  if (isIncomingOlderThanCloud(existing, body)) return "ignored";
+  return "write";
+}
+
+/**
+ * Line items drive invoice, quote and credit note totals. Returns the body to build the row from
+ * (with server-computed totals), or null after reporting the record invalid.
+ */
+function prepareDocumentWrite(
+  record: PushRecord,
+  payload: Record<string, unknown>,
+  storedItems: { lineSubtotal: Prisma.Decimal; lineVat: Prisma.Decimal }[] | undefined,
+  results: PushResult[]
+) {
+  const resolved = resolveDocumentTotals(payload, storedItems);
+  if (!resolved.ok) {
+    results.push({
+      index: record.index,
+      entityType: record.entityType,
+      entityId: record.id,
+      status: "invalid",
+      error: resolved.error,
+    });
+    return null;
+  }
+
+  return {
+    body: resolved.totals ? { ...payload, ...resolved.totals } : payload,
+    lineItems: resolved.lineItems,
+  };
+}
+
+/**
+ * Numbers are unique per company. A number another document already holds is
+ * reported invalid for that record alone rather than failing the whole batch
+ * on the unique index; a number that is free moves the company's counter past it.
+ */
+async function claimDocumentNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  record: PushRecord,
+  number: string,
+  results: PushResult[]
+) {
+  // Customers, suppliers and products carry no number and never get here.
+  const documentType = record.entityType as NumberedDocumentType;
+  const where = { companyId, number, NOT: { id: record.id } };
+  const taken =
+    documentType === "invoice"
+      ? await tx.invoice.findFirst({ where, select: { id: true } })
+      : documentType === "quote"
+        ? await tx.quote.findFirst({ where, select: { id: true } })
+        : documentType === "credit-note"
+          ? await tx.creditNote.findFirst({ where, select: { id: true } })
+          : await tx.purchaseOrder.findFirst({ where, select: { id: true } });
+
+  if (taken) {
+    results.push({
+      index: record.index,
+      entityType: record.entityType,
+      entityId: record.id,
+      status: "invalid",
+      error: duplicateDocumentNumberMessage(documentType, number),
+    });
+    return false;
+  }
+
+  await recordDocumentNumber(tx, companyId, documentType, number);
+  return true;
+}
+
+/**
+ * A new document the plan's monthly quota has no room for is reported invalid
+ * for that record alone, the same way as a taken number.
+ */
+async function claimCreateQuota(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  record: PushRecord,
+  features: ResolvedEntitlementFeatures,
+  results: PushResult[]
+) {
+  // Only invoices, quotes and purchase orders are created through here.
+  const exceeded = await claimDocumentQuota(tx, companyId, record.entityType as QuotaDocumentType, features);
+  if (!exceeded) return true;
+
+  results.push({
+    index: record.index,
+    entityType: record.entityType,
+    entityId: record.id,
+    status: "invalid",
+    code: "DOCUMENT_QUOTA_EXCEEDED",
+    error: documentQuotaMessage(exceeded),
+    quota: exceeded,
+  });
+  return false;
+}
+
+/**
+ * Ids are global primary keys. A record whose id already belongs to another
+ * user or company is reported invalid for that record alone instead of taking
+ * the create path and failing the batch on the primary key.
+ */
+async function rejectForeignIds(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  entityType: SyncEntityType,
+  records: PushRecord[],
+  results: PushResult[]
+) {
+  if (records.length === 0) return records;
+
+  const where = { id: { in: records.map((r) => r.id) }, NOT: { userId, companyId } };
+  const select = { id: true } as const;
+  const foreignRows =
+    entityType === "invoice"
+      ? await tx.invoice.findMany({ where, select })
+      : entityType === "quote"
+        ? await tx.quote.findMany({ where, select })
+        : entityType === "credit-note"
+          ? await tx.creditNote.findMany({ where, select })
+          : entityType === "purchase-order"
+            ? await tx.purchaseOrder.findMany({ where, select })
+            : entityType === "customer"
+              ? await tx.customer.findMany({ where, select })
+              : entityType === "supplier"
+                ? await tx.supplier.findMany({ where, select })
+                : await tx.product.findMany({ where, select });
+
+  if (foreignRows.length === 0) return records;
+
+  const foreignIds = new Set(foreignRows.map((row) => row.id));
+  for (const record of records) {
+    if (!foreignIds.has(record.id)) continue;
+    results.push({
+      index: record.index,
+      entityType: record.entityType,
+      entityId: record.id,
+      status: "invalid",
+      error: "This record id is already in use.",
+    });
+  }
+  return records.filter((record) => !foreignIds.has(record.id));
+}
+
+/**
+ * Merged payloads were not validated up front, so a build error on one is
+ * reported invalid for that record alone rather than aborting the batch.
+ */
+function buildOrReport<T>(record: PushRecord, results: PushResult[], build: () => T): T | null {
+  try {
+    return build();
+  } catch (err) {
+    results.push({
+      index: record.index,
+      entityType: record.entityType,
+      entityId: record.id,
+      status: "invalid",
+      error: err instanceof Error ? err.message : "Invalid record.",
+    });
+    return null;
+  }
+}
+
+async function applyInvoices(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[],
+  features: ResolvedEntitlementFeatures
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.invoice.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+    select: invoiceSelect,
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    let payload = record.body;
+    let mergedFields: string[] = [];
+
+    if (existing) {
+      const decision = resolveWriteDecision(existing, record.body);
+
+      if (decision === "conflict") {
+        const serverRecord = mapInvoiceForResponse(existing);
+        const merge = await mergeWithCloud("invoice", companyId, serverRecord, record.body, { client: tx });
+
+        if (merge.kind === "merged") {
+          payload = merge.payload;
+          mergedFields = merge.mergedFields;
+        } else {
+          results.push({
+            index: record.index,
+            entityType: "invoice",
+            entityId: record.id,
+            status: "conflict",
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            baseRecord: merge.baseRecord,
+            reason: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          });
+          continue;
+        }
+      }
+
+      if (decision === "ignored") {
+        results.push({
+          index: record.index,
+          entityType: "invoice",
+          entityId: record.id,
+          status: "ignored",
+          record: mapInvoiceForResponse(existing),
+          reason: "Incoming invoice is older than cloud copy.",
+        });
+        continue;
+      }
+
+      const prepared = prepareDocumentWrite(record, payload, existing.lineItems, results);
+      if (!prepared) continue;
+
+      const data = buildOrReport(record, results, () => buildInvoiceData(prepared.body));
+      if (!data) continue;
+      if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+
+      // Once payments are on record, the ledger decides balance, status and paidDate.
+      const settlement = await settleFromLedger(tx, record.id, data);
+
+      const updated = await tx.invoice.update({
+        where: { id: record.id },
+        data: {
+          ...data,
+          ...settlement,
+          data: settlement ? { ...data.data, ...settlement } : data.data,
+          syncRevision: await allocateSyncRevision(tx, companyId),
+          lineItems: prepared.lineItems ? { deleteMany: {}, create: prepared.lineItems } : undefined,
+        },
+        select: invoiceSelect,
+      });
+
+      await saveRecordSnapshot(
+        tx,
+        "invoice",
+        { userId, companyId, sessionId },
+        "update",
+        mapInvoiceForResponse(updated)
+      );
+      existingById.set(record.id, updated);
+      results.push({
+        index: record.index,
+        entityType: "invoice",
+        entityId: record.id,
+        status: "updated",
+        record: mapInvoiceForResponse(updated),
+        ...(mergedFields.length > 0 ? { mergedFields } : {}),
+      });
+      continue;
+    }
+
+    const prepared = prepareDocumentWrite(record, payload, undefined, results);
+    if (!prepared) continue;
+
+    const data = buildOrReport(record, results, () => buildInvoiceData(prepared.body));
+    if (!data) continue;
+    // The revision is taken first: it locks the company, so concurrent pushes
+    // cannot both take the quota's last slot. The quota is claimed last, once
+    // nothing else can turn the record away, so a rejected record uses no slot.
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+    if (!(await claimCreateQuota(tx, companyId, record, features, results))) continue;
+
+    const created = await tx.invoice.create({
+      data: {
+        id: record.id,
+        userId,
+        companyId,
+        ...data,
+        syncRevision,
+        lineItems: prepared.lineItems ? { create: prepared.lineItems } : undefined,
+      },
+      select: invoiceSelect,
+    });
+
+    await saveRecordSnapshot(
+      tx,
+      "invoice",
+      { userId, companyId, sessionId },
+      "create",
+      mapInvoiceForResponse(created)
+    );
+    existingById.set(record.id, created);
+    results.push({
+      index: record.index,
+      entityType: "invoice",
+      entityId: record.id,
+      status: "created",
+      record: mapInvoiceForResponse(created),
+    });
+  }
+}
+
+async function applyQuotes(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[],
+  features: ResolvedEntitlementFeatures
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.quote.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+    select: quoteSelect,
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    let payload = record.body;
+    let mergedFields: string[] = [];
+
+    if (existing) {
+      const decision = resolveWriteDecision(existing, record.body);
+
+      if (decision === "conflict") {
+        const serverRecord = mapQuoteForResponse(existing);
+        const merge = await mergeWithCloud("quote", companyId, serverRecord, record.body, { client: tx });
+
+        if (merge.kind === "merged") {
+          payload = merge.payload;
+          mergedFields = merge.mergedFields;
+        } else {
+          results.push({
+            index: record.index,
+            entityType: "quote",
+            entityId: record.id,
+            status: "conflict",
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            baseRecord: merge.baseRecord,
+            reason: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          });
+          continue;
+        }
+      }
+
+      if (decision === "ignored") {
+        results.push({
+          index: record.index,
+          entityType: "quote",
+          entityId: record.id,
+          status: "ignored",
+          record: mapQuoteForResponse(existing),
+          reason: "Incoming quote is older than cloud copy.",
+        });
+        continue;
+      }
+
+      const prepared = prepareDocumentWrite(record, payload, existing.lineItems, results);
+      if (!prepared) continue;
+
+      const data = buildOrReport(record, results, () => buildQuoteData(prepared.body));
+      if (!data) continue;
+      if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+
+      const updated = await tx.quote.update({
+        where: { id: record.id },
+        data: {
+          ...data,
+          syncRevision: await allocateSyncRevision(tx, companyId),
+          lineItems: prepared.lineItems ? { deleteMany: {}, create: prepared.lineItems } : undefined,
+        },
+        select: quoteSelect,
+      });
+
+      await saveRecordSnapshot(
+        tx,
+        "quote",
+        { userId, companyId, sessionId },
+        "update",
+        mapQuoteForResponse(updated)
+      );
+      existingById.set(record.id, updated);
+      results.push({
+        index: record.index,
+        entityType: "quote",
+        entityId: record.id,
+        status: "updated",
+        record: mapQuoteForResponse(updated),
+        ...(mergedFields.length > 0 ? { mergedFields } : {}),
+      });
+      continue;
+    }
+
+    const prepared = prepareDocumentWrite(record, payload, undefined, results);
+    if (!prepared) continue;
+
+    const data = buildOrReport(record, results, () => buildQuoteData(prepared.body));
+    if (!data) continue;
+    // The revision is taken first: it locks the company, so concurrent pushes
+    // cannot both take the quota's last slot. The quota is claimed last, once
+    // nothing else can turn the record away, so a rejected record uses no slot.
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+    if (!(await claimCreateQuota(tx, companyId, record, features, results))) continue;
+
+    const created = await tx.quote.create({
+      data: {
+        id: record.id,
+        userId,
+        companyId,
+        ...data,
+        syncRevision,
+        lineItems: prepared.lineItems ? { create: prepared.lineItems } : undefined,
+      },
+      select: quoteSelect,
+    });
+
+    await saveRecordSnapshot(
+      tx,
+      "quote",
+      { userId, companyId, sessionId },
+      "create",
+      mapQuoteForResponse(created)
+    );
+    existingById.set(record.id, created);
+    results.push({
+      index: record.index,
+      entityType: "quote",
+      entityId: record.id,
+      status: "created",
+      record: mapQuoteForResponse(created),
+    });
+  }
+}
+
+async function applyPurchaseOrders(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[],
+  features: ResolvedEntitlementFeatures
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.purchaseOrder.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+    select: purchaseOrderSelect,
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    let payload = record.body;
+    let mergedFields: string[] = [];
+
+    if (existing) {
+      const decision = resolveWriteDecision(existing, record.body);
+
+      if (decision === "conflict") {
+        const serverRecord = mapPurchaseOrderForResponse(existing);
+        const merge = await mergeWithCloud("purchase-order", companyId, serverRecord, record.body, { client: tx });
+
+        if (merge.kind === "merged") {
+          payload = merge.payload;
+          mergedFields = merge.mergedFields;
+        } else {
+          results.push({
+            index: record.index,
+            entityType: "purchase-order",
+            entityId: record.id,
+            status: "conflict",
+            conflictFields: merge.conflictFields,
+            serverRecord,
+            serverUpdatedAt: existing.updatedAt,
+            serverRevision: existing.syncRevision,
+            baseRecord: merge.baseRecord,
+            reason: `Both this device and the cloud changed: ${merge.conflictFields.join(", ")}.`,
+          });
+          continue;
+        }
+      }
+
+      if (decision === "ignored") {
+        results.push({
+          index: record.index,
+          entityType: "purchase-order",
+          entityId: record.id,
+          status: "ignored",
+          record: mapPurchaseOrderForResponse(existing),
+          reason: "Incoming purchase order is older than cloud copy.",
+        });
+        continue;
+      }
+
+      const prepared = prepareDocumentWrite(record, payload, existing.lineItems, results);
+      if (!prepared) continue;
+
+      const data = buildOrReport(record, results, () => buildPurchaseOrderData(prepared.body));
+      if (!data) continue;
+      if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+
+      const updated = await tx.purchaseOrder.update({
+        where: { id: record.id },
+        data: {
+          ...data,
+          syncRevision: await allocateSyncRevision(tx, companyId),
+          lineItems: prepared.lineItems ? { deleteMany: {}, create: prepared.lineItems } : undefined,
+        },
+        select: purchaseOrderSelect,
+      });
+
+      await saveRecordSnapshot(
+        tx,
+        "purchase-order",
+        { userId, companyId, sessionId },
+        "update",
+        mapPurchaseOrderForResponse(updated)
+      );
+      existingById.set(record.id, updated);
+      results.push({
+        index: record.index,
+        entityType: "purchase-order",
+        entityId: record.id,
+        status: "updated",
+        record: mapPurchaseOrderForResponse(updated),
+        ...(mergedFields.length > 0 ? { mergedFields } : {}),
+      });
+      continue;
+    }
+
+    const prepared = prepareDocumentWrite(record, payload, undefined, results);
+    if (!prepared) continue;
+
+    const data = buildOrReport(record, results, () => buildPurchaseOrderData(prepared.body));
+    if (!data) continue;
+    // The revision is taken first: it locks the company, so concurrent pushes
+    // cannot both take the quota's last slot. The quota is claimed last, once
+    // nothing else can turn the record away, so a rejected record uses no slot.
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    if (!(await claimDocumentNumber(tx, companyId, record, data.number, results))) continue;
+    if (!(await claimCreateQuota(tx, companyId, record, features, results))) continue;
+
+    const created = await tx.purchaseOrder.create({
+      data: {
+        id: record.id,
+        userId,
+        companyId,
+        ...data,
+        syncRevision,
+        lineItems: prepared.lineItems ? { create: prepared.lineItems } : undefined,
+      },
+      select: purchaseOrderSelect,
+    });
+
+    await saveRecordSnapshot(
+      tx,
+      "purchase-order",
+      { userId, companyId, sessionId },
+      "create",
+      mapPurchaseOrderForResponse(created)
+    );
+    existingById.set(record.id, created);
+    results.push({
+      index: record.index,
+      entityType: "purchase-order",
+      entityId: record.id,
+      status: "created",
+      record: mapPurchaseOrderForResponse(created),
+    });
+  }
+}
+
+async function applyCustomers(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[]
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.customer.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    const data = buildCustomerData(record.body);
+
+    if (existing) {
+      // Customers only ever reported conflicts (never "older than cloud"), keep that contract.
+      const decision = resolveWriteDecision(existing, {
+        ...record.body,
+        updatedAt: undefined,
+      });
+
+      if (decision === "conflict") {
+        results.push({
+          index: record.index,
+          entityType: "customer",
+          entityId: record.id,
+          status: "conflict",
+          serverRecord: existing,
+          serverUpdatedAt: existing.updatedAt,
+          serverRevision: existing.syncRevision,
+          reason: "This customer was changed in the cloud after this device last synced.",
+        });
+        continue;
+      }
+
+      const updated = await tx.customer.update({
+        where: { id: record.id },
+        data: { ...data, syncRevision: await allocateSyncRevision(tx, companyId) },
+      });
+
+      await saveRecordSnapshot(tx, "customer", { userId, companyId, sessionId }, "update", updated);
+      existingById.set(record.id, updated);
+      results.push({
+        index: record.index,
+        entityType: "customer",
+        entityId: record.id,
+        status: "updated",
+        record: updated,
+      });
+      continue;
+    }
+
+    const created = await tx.customer.create({
+      data: {
+        id: record.id,
+        userId,
+        companyId,
+        ...data,
+        syncRevision: await allocateSyncRevision(tx, companyId),
+      },
+    });
+
+    await saveRecordSnapshot(tx, "customer", { userId, companyId, sessionId }, "create", created);
+    existingById.set(record.id, created);
+    results.push({
+      index: record.index,
+      entityType: "customer",
+      entityId: record.id,
+      status: "created",
+      record: created,
+    });
+  }
+}
+
+async function applySuppliers(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[]
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.supplier.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    const data = buildSupplierData(record.body);
+
+    if (existing) {
+      // Like customers, suppliers only report conflicts, never "older than cloud".
+      const decision = resolveWriteDecision(existing, {
+        ...record.body,
+        updatedAt: undefined,
+      });
+
+      if (decision === "conflict") {
+        results.push({
+          index: record.index,
+          entityType: "supplier",
+          entityId: record.id,
+          status: "conflict",
+          serverRecord: existing,
+          serverUpdatedAt: existing.updatedAt,
+          serverRevision: existing.syncRevision,
+          reason: "This supplier was changed in the cloud after this device last synced.",
+        });
+        continue;
+      }
+
+      const updated = await tx.supplier.update({
+        where: { id: record.id },
+        data: { ...data, syncRevision: await allocateSyncRevision(tx, companyId) },
+      });
+
+      await saveRecordSnapshot(tx, "supplier", { userId, companyId, sessionId }, "update", updated);
+      existingById.set(record.id, updated);
+      results.push({
+        index: record.index,
+        entityType: "supplier",
+        entityId: record.id,
+        status: "updated",
+        record: updated,
+      });
+      continue;
+    }
+
+    const created = await tx.supplier.create({
+      data: {
+        id: record.id,
+        userId,
+        companyId,
+        ...data,
+        syncRevision: await allocateSyncRevision(tx, companyId),
+      },
+    });
+
+    await saveRecordSnapshot(tx, "supplier", { userId, companyId, sessionId }, "create", created);
+    existingById.set(record.id, created);
+    results.push({
+      index: record.index,
+      entityType: "supplier",
+      entityId: record.id,
+      status: "created",
+      record: created,
+    });
+  }
+}
+
+/**
+ * Products only report conflicts and "older than cloud", like the single
+ * record route. A SKU another live product already holds makes that record
+ * invalid rather than failing the batch.
+ */
+async function applyProducts(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[]
+) {
+  if (records.length === 0) return;
+
+  const existingRows = await tx.product.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+    select: productSelect,
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    const data = buildProductData(record.body);
+
+    if (existing) {
+      const decision = resolveWriteDecision(existing, record.body);
+
+      if (decision === "conflict") {
+        results.push({
+          index: record.index,
+          entityType: "product",
+          entityId: record.id,
+          status: "conflict",
+          serverRecord: mapProductForResponse(existing),
+          serverUpdatedAt: existing.updatedAt,
+          serverRevision: existing.syncRevision,
+          reason: "This product was changed in the cloud after this device last synced.",
+        });
+        continue;
+      }
+
+      if (decision === "ignored") {
+        results.push({
+          index: record.index,
+          entityType: "product",
+          entityId: record.id,
+          status: "ignored",
+          record: mapProductForResponse(existing),
+          reason: "Incoming product is older than cloud copy.",
+        });
+        continue;
+      }
+    }
+
+    const clash = await checkProductSku(tx, companyId, record.id, data);
+    if (clash) {
+      results.push({
+        index: record.index,
+        entityType: "product",
+        entityId: record.id,
+        status: "invalid",
+        error: clash,
+      });
+      continue;
+    }
+
+    const syncRevision = await allocateSyncRevision(tx, companyId);
+    const row = existing
+      ? await tx.product.update({
+          where: { id: record.id },
+          data: { ...data, syncRevision },
+          select: productSelect,
+        })
+      : await tx.product.create({
+          data: { id: record.id, userId, companyId, ...data, syncRevision },
+          select: productSelect,
+        });
+
+    await saveRecordSnapshot(
+      tx,
+      "product",
+      { userId, companyId, sessionId },
+      existing ? "update" : "create",
+      mapProductForResponse(row)
+    );
+    existingById.set(record.id, row);
+    results.push({
+      index: record.index,
+      entityType: "product",
+      entityId: record.id,
+      status: existing ? "updated" : "created",
+      record: mapProductForResponse(row),
+    });
+  }
+}
+
+/**
+ * Credit notes are never merged field by field: a note the cloud changed since
+ * the device's base revision comes back as a conflict. Every write settles the
+ * credited invoice again, so its balance reflects the batch.
+ */
+async function applyCreditNotes(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  sessionId: string,
+  records: PushRecord[],
+  results: PushResult[]
+) {
+  if (records.length === 0) return;
+
+  const author = { userId, companyId, sessionId };
+  const existingRows = await tx.creditNote.findMany({
+    where: { userId, companyId, id: { in: records.map((r) => r.id) } },
+    select: creditNoteSelect,
+  });
+  const existingById = new Map(existingRows.map((row) => [row.id, row]));
+
+  for (const record of records) {
+    const existing = existingById.get(record.id);
+    const invalid = (error: string) =>
+      results.push({
+        index: record.index,
+        entityType: "credit-note",
+        entityId: record.id,
+        status: "invalid",
+        error,
+      });
+
+    if (existing) {
+      const decision = resolveWriteDecision(existing, record.body);
+
+      if (decision === "conflict") {
+        results.push({
+          index: record.index,
+          entityType: "credit-note",
+          entityId: record.id,
+          status: "conflict",
+          serverRecord: mapCreditNoteForResponse(existing),
+          serverUpdatedAt: existing.updatedAt,
+          serverRevision: existing.syncRevision,
+          reason: "This credit note was changed in the cloud after this device last synced.",
+        });
+        continue;
+      }
+
+      if (decision === "ignored") {
+        results.push({
+          index: record.index,
+          entityType: "credit-note",
+          entityId: record.id,
+          status: "ignored",
+          record: mapCreditNoteForResponse(existing),
+          reason: "Incoming credit note is older than cloud copy.",
+        });
+        continue;
+      }
+    }
+
+    const invoiceId = toRequiredString(record.body.invoiceId, "invoiceId", 191);
+    if (existing && existing.invoiceId !== invoiceId) {
+      invalid("A credit note cannot be moved to another invoice.");
+      continue;
+    }
+
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, userId, companyId },
+      select: creditedInvoiceSelect,
+    });
+    if (!invoice) {
+      invalid("Invoice not found.");
+      continue;
+    }
+
+    const prepared = prepareDocumentWrite(record, record.body, existing?.lineItems, results);
+    if (!prepared) continue;
+
+    const parsed = parseCreditNoteInput(prepared.body, invoice);
+    if ("error" in parsed) {
+      invalid(parsed.error);
+      continue;
+    }
+
+    const rejection = await checkCreditNoteAgainstInvoice(tx, invoice, record.id, parsed.creditNote);
+    if (rejection) {
+      invalid(rejection);
+      continue;
+    }
+
+    const number = toRequiredString(prepared.body.number, "Credit note number", 100);
+    if (!(await claimDocumentNumber(tx, companyId, record, number, results))) continue;
+
+    const fields = {
+      ...parsed.creditNote,
+      number,
+      data: prepared.body as Prisma.InputJsonObject,
+      syncRevision: await allocateSyncRevision(tx, companyId),
+    };
+
+    const row = existing
+      ? await tx.creditNote.update({
+          where: { id: record.id },
+          data: {
+            ...fields,
+            lineItems: prepared.lineItems ? { deleteMany: {}, create: prepared.lineItems } : undefined,
+          },
+          select: creditNoteSelect,
+        })
+      : await tx.creditNote.create({
+          data: {
+            id: record.id,
+            userId,
+            companyId,
+            invoiceId,
+            ...fields,
+            lineItems: prepared.lineItems ? { create: prepared.lineItems } : undefined,
+          },
+          select: creditNoteSelect,
+        });
+
+    await saveRecordSnapshot(
+      tx,
+      "credit-note",
+      author,
+      existing ? "update" : "create",
+      mapCreditNoteForResponse(row)
+    );
+    await writeInvoiceSettlement(tx, invoiceId, author);
+
+    existingById.set(record.id, row);
+    results.push({
+      index: record.index,
+      entityType: "credit-note",
+      entityId: record.id,
+      status: existing ? "updated" : "created",
+      record: mapCreditNoteForResponse(row),
+    });
+  }
+}
+
+/**
+ * Validate every record up front so a single malformed record is reported
+ * back as "invalid" instead of rolling back the whole batch.
+ */
+function partitionRecords(rawRecords: unknown[]) {
+  const valid: Record<SyncEntityType, PushRecord[]> = {
+    customer: [],
+    supplier: [],
+    product: [],
+    quote: [],
+    invoice: [],
+    "credit-note": [],
+    "purchase-order": [],
+  };
+  const invalid: PushResult[] = [];
+  const seen = new Set<string>();
+
+  rawRecords.forEach((raw, index) => {
+    const body = isPlainObject(raw) ? raw : {};
+    const entityType = normalizeEntityType(body.entityType ?? body.type);
+    const id = toNullableString(body.id, 191);
+
+    const fail = (error: string) =>
+      invalid.push({
+        index,
+        entityType: String(body.entityType ?? body.type ?? ""),
+        entityId: id,
+        status: "invalid",
+        error,
+      });
+
+    if (!entityType) {
+      return fail("entityType must be one of invoice, quote, credit-note, purchase-order, customer, supplier or product.");
+    }
+    if (!id) return fail("Record id is required.");
+
+    const key = `${entityType}:${id}`;
+    if (seen.has(key)) return fail("Duplicate record in this batch.");
+
+    try {
+      if (entityType === "invoice") buildInvoiceData(body);
+      if (entityType === "quote") buildQuoteData(body);
+      if (entityType === "purchase-order") buildPurchaseOrderData(body);
+      if (entityType === "credit-note") {
+        toRequiredString(body.number, "Credit note number", 100);
+        toRequiredString(body.invoiceId, "invoiceId", 191);
+      }
+      if (entityType !== "customer" && entityType !== "supplier" && entityType !== "product") {
+        const resolved = resolveDocumentTotals(body, null);
+        if (!resolved.ok) return fail(resolved.error);
+      }
+      if (entityType === "customer") buildCustomerData(body);
+      if (entityType === "supplier") buildSupplierData(body);
+      if (entityType === "product") buildProductData(body);
+    } catch (err) {
+      return fail(err instanceof Error ? err.message : "Invalid record.");
+    }
+
+    seen.add(key);
+    valid[entityType].push({ index, entityType, id, body });
+  });
+
+  return { valid, invalid };
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthedUser(req);
+    if ("error" in auth) return auth.error;
+
+    const syncGate = await requireEntitlement(auth.userId, { cloudSync: true, writable: true });
+    if (!syncGate.ok) return syncGate.response;
+
+    const body = await req.json().catch(() => ({}));
+
+    const companyId = String(body?.companyId ?? "").trim();
+    if (!companyId) {
+      return jsonError("companyId is required.", 400);
+    }
+
+    const company = await requireOwnedCompany(auth.userId, companyId);
+    if (!company) {
+      return jsonError("Company not found or access denied.", 403);
+    }
+
+    const rawRecords: unknown = body?.records ?? body?.changes;
+    if (!Array.isArray(rawRecords)) {
+      return jsonError("records must be an array.", 400);
+    }
+
+    if (rawRecords.length > MAX_RECORDS_PER_PUSH) {
+      return jsonError(`A single push can contain at most ${MAX_RECORDS_PER_PUSH} records.`, 413);
+    }
+
+    const { valid, invalid } = partitionRecords(rawRecords);
+    const { features } = syncGate.entitlement;
+    const applied: PushResult[] = [];
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const entityType of APPLY_ORDER) {
+          const records = await rejectForeignIds(tx, auth.userId, companyId, entityType, valid[entityType], applied);
+          if (entityType === "customer") await applyCustomers(tx, auth.userId, companyId, auth.sessionId, records, applied);
+          if (entityType === "supplier") await applySuppliers(tx, auth.userId, companyId, auth.sessionId, records, applied);
+          if (entityType === "product") await applyProducts(tx, auth.userId, companyId, auth.sessionId, records, applied);
+          if (entityType === "quote") {
+            await applyQuotes(tx, auth.userId, companyId, auth.sessionId, records, applied, features);
+          }
+          if (entityType === "invoice") {
+            await applyInvoices(tx, auth.userId, companyId, auth.sessionId, records, applied, features);
+          }
+          if (entityType === "credit-note") await applyCreditNotes(tx, auth.userId, companyId, auth.sessionId, records, applied);
+          if (entityType === "purchase-order") {
+            await applyPurchaseOrders(tx, auth.userId, companyId, auth.sessionId, records, applied, features);
+          }
+        }
+      },
+      { maxWait: 10_000, timeout: 120_000 }
+    );
+
+    const results = [...applied, ...invalid].sort((a, b) => a.index - b.index);
+
+    const summary = {
+      created: 0,
+      updated: 0,
+      ignored: 0,
+      conflict: 0,
+      invalid: 0,
+    };
+    for (const r of results) summary[r.status] += 1;
+
+    return NextResponse.json(
+      {
+        success: true,
+        companyId,
+        results,
+        summary,
+      },
+      { status: 200, headers: noStoreHeaders() }
+    );
+  } catch (err) {
+    // Another device took the same number between our check and the write.
+    if (isDuplicateDocumentNumberError(err)) {
+      return jsonError("A document number in this batch was just used by another device. Please sync again.", 409);
+    }
+    console.error("[api/sync/push][POST] failed:", err);
+    return jsonError("Failed to apply sync batch.", 500);
+  }
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  PremiumCard,
+  PortalButton,
+  PortalEmptyState,
+  PortalInput,
+  PortalSkeleton,
+  cx,
+} from "./ui";
+import {
+  CompanySwitcher,
+  ReadOnlyNotice,
+  RecordsFetchError,
+  RecordsUnavailable,
+  SortHeader,
+  StatusChip,
+  errorMessage,
+  fetchRecords,
+  formatDay,
+  formatMoney,
+  useActiveCompany,
+  useDebouncedValue,
+  usePortalFeatures,
+  type SortState,
+} from "./records";
+
+export type DocumentKind = "invoice" | "quote";
+
+type DocumentSortField = "issueDate" | "dueDate" | "expiryDate" | "number" | "customerName" | "status" | "total";
+
+export type DocumentSummary = {
+  id: string;
+  number: string;
+  customerName: string;
+  issueDate: string;
+  dueDate: string | null;
+  expiryDate?: string | null;
+  currency: string;
+  status: string;
+  total: number;
+  balance?: number | null;
+};
+
+const PAGE_SIZE = 50;
+
+const KIND_META: Record<
+  DocumentKind,
+  {
+    label: string;
+    plural: string;
+    path: string;
+    listKey: "invoices" | "quotes";
+    dateField: "dueDate" | "expiryDate";
+    dateLabel: string;
+    statuses: string[];
+  }
+> = {
+  invoice: {
+    label: "invoice",
+    plural: "Invoices",
+    path: "/invoices",
+    listKey: "invoices",
+    dateField: "dueDate",
+    dateLabel: "Due",
+    statuses: ["draft", "sent", "unpaid", "partial", "paid", "credited", "overdue", "cancelled"],
+  },
+  quote: {
+    label: "quote",
+    plural: "Quotes",
+    path: "/quotes",
+    listKey: "quotes",
+    dateField: "expiryDate",
+    dateLabel: "Expires",
+    statuses: ["draft", "sent", "accepted", "declined", "expired", "converted"],
+  },
+};
+
+export function DocumentBrowser({ kind }: { kind: DocumentKind }) {
+  const meta = KIND_META[kind];
+  const router = useRouter();
+  const { companies, companyId, setCompanyId, loading: companiesLoading, error: companiesError } =
+    useActiveCompany();
+  const { readOnly, loading: featuresLoading } = usePortalFeatures();
+
+  const [search, setSearch] = useState("");
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [sort, setSort] = useState<SortState<DocumentSortField>>({ field: "issueDate", order: "desc" });
+
+  const [rows, setRows] = useState<DocumentSummary[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<{ message: string; status?: number } | null>(null);
+
+  const q = useDebouncedValue(search.trim());
+
+  const buildUrl = useCallback(
+    (offset: number) => {
+      const params = new URLSearchParams({
+        companyId: companyId ?? "",
+        sort: sort.field,
+        order: sort.order,
+        offset: String(offset),
+        limit: String(PAGE_SIZE),
+      });
+      if (q) params.set("q", q);
+      if (statuses.length > 0) params.set("status", statuses.join(","));
+      return `/api/${meta.listKey}?${params.toString()}`;
+    },
+    [companyId, sort, q, statuses, meta.listKey]
+  );
+
+  const load = useCallback(
+    async (offset: number) => {
+      if (!companyId) return;
+      const append = offset > 0;
+      if (append) setLoadingMore(true);
+      else setLoading(true);
+      setError(null);
+
+      try {
+        const data = await fetchRecords<Record<string, unknown> & { nextOffset?: number | null }>(
+          buildUrl(offset)
+        );
+        const page = (data[meta.listKey] as DocumentSummary[] | undefined) ?? [];
+        setRows((prev) => (append ? [...prev, ...page] : page));
+        setNextOffset(data.nextOffset ?? null);
+      } catch (e) {
+        setError({
+          message: errorMessage(e, `Failed to load ${meta.plural.toLowerCase()}.`),
+          status: e instanceof RecordsFetchError ? e.status : undefined,
+        });
+        if (!append) setRows([]);
+      } finally {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    },
+    [companyId, buildUrl, meta.listKey, meta.plural]
+  );
+
+  useEffect(() => {
+    void load(0);
+  }, [load]);
+
+  function toggleStatus(status: string) {
+    setStatuses((prev) => (prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]));
+  }
+
+  function openDocument(id: string) {
+    router.push(`${meta.path}/${encodeURIComponent(id)}?companyId=${encodeURIComponent(companyId ?? "")}`);
+  }
+
+  if (companiesLoading) {
+    return <PortalSkeleton className="h-64 w-full" />;
+  }
+
+  if (companiesError) {
+    return <RecordsUnavailable error={companiesError} />;
+  }
+
+  if (companies.length === 0) {
+    return (
+      <PortalEmptyState
+        title="No companies yet"
+        description="Create a company in the desktop app and sync it to browse its documents here."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!featuresLoading && readOnly ? <ReadOnlyNotice /> : null}
+
+      <PremiumCard>
+        <div className="grid gap-3 md:grid-cols-[220px_1fr_auto] md:items-end">
+          <CompanySwitcher companies={companies} value={companyId} onChange={setCompanyId} />
+          <PortalInput
+            label="Search"
+            placeholder="Number, customer or reference"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          {!featuresLoading && !readOnly ? (
+            <PortalButton
+              type="button"
+              className="md:mb-0.5"
+              onClick={() => router.push(`${meta.path}/new?companyId=${encodeURIComponent(companyId ?? "")}`)}
+            >
+              New {meta.label}
+            </PortalButton>
+          ) : null}
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-1.5">
+          <span className="mr-1 text-xs font-semibold text-[color:var(--muted)]">Status</span>
+          {meta.statuses.map((status) => {
+            const active = statuses.includes(status);
+            return (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                aria-pressed={active}
+                className={cx(
+                  "rounded-full px-2.5 py-1 text-xs font-semibold ring-1 transition",
+                  active
+                    ? "bg-[color:var(--primary)] text-white ring-transparent"
+                    : "bg-white text-[color:var(--muted)] ring-[color:var(--border-soft)] hover:text-[color:var(--foreground)]"
+                )}
+              >
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </button>
+            );
+          })}
+          {statuses.length > 0 ? (
+            <PortalButton type="button" variant="ghost" size="sm" onClick={() => setStatuses([])}>
+              Clear
+            </PortalButton>
+          ) : null}
+        </div>
+      </PremiumCard>
+
+      {error ? (
+        <RecordsUnavailable error={error.message} status={error.status} />
+      ) : (
+        <PremiumCard>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <PortalSkeleton key={i} className="h-9 w-full" />
+              ))}
+            </div>
+          ) : rows.length === 0 ? (
+            <PortalEmptyState
+              title={`No ${meta.plural.toLowerCase()} found`}
+              description={
+                q || statuses.length > 0
+                  ? "Try a different search or clear the status filter."
+                  : `${meta.plural} synced from the desktop app will show up here.`
+              }
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[720px] text-sm">
+                <thead className="border-b border-[color:var(--border-soft)]">
+                  <tr>
+                    <SortHeader label="Number" field="number" sort={sort} onSort={setSort} />
+                    <SortHeader label="Customer" field="customerName" sort={sort} onSort={setSort} />
+                    <SortHeader label="Date" field="issueDate" sort={sort} onSort={setSort} />
+                    <SortHeader label={meta.dateLabel} field={meta.dateField} sort={sort} onSort={setSort} />
+                    <SortHeader label="Status" field="status" sort={sort} onSort={setSort} />
+                    <SortHeader label="Total" field="total" sort={sort} onSort={setSort} align="right" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.id}
+                      onClick={() => openDocument(row.id)}
+                      className="cursor-pointer border-b border-[color:var(--border-soft)] last:border-0 hover:bg-slate-50"
+                    >
+                      <td className="px-3 py-2 font-semibold text-[color:var(--foreground)]">{row.number}</td>
+                      <td className="px-3 py-2">{row.customerName}</td>
+                      <td className="px-3 py-2 text-[color:var(--muted)]">{formatDay(row.issueDate)}</td>
+                      <td className="px-3 py-2 text-[color:var(--muted)]">{formatDay(row[meta.dateField])}</td>
+                      <td className="px-3 py-2">
+                        <StatusChip status={row.status} />
+                      </td>
+                      <td className="px-3 py-2 text-right font-semibold">{formatMoney(row.total, row.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {nextOffset != null && !loading ? (
+            <div className="mt-3 flex justify-center">
+              <PortalButton
+                type="button"
+                variant="secondary"
+                size="sm"
+                isLoading={loadingMore}
+                onClick={() => void load(nextOffset)}
+              >
+                Load more
+              </PortalButton>
+            </div>
+          ) : null}
+        </PremiumCard>
+      )}
+    </div>
+  );
+}
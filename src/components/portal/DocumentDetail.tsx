@@ -0,0 +1,404 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  DetailTile,
+  PremiumCard,
+  PortalAlert,
+  PortalButton,
+  PortalSectionHeader,
+  PortalSkeleton,
+} from "./ui";
+import {
+  ReadOnlyNotice,
+  RecordsFetchError,
+  RecordsUnavailable,
+  StatusChip,
+  errorMessage,
+  fetchRecords,
+  formatDay,
+  formatMoney,
+  usePortalFeatures,
+} from "./records";
+import type { DocumentKind } from "./DocumentBrowser";
+import { InvoiceCreditNotes, type CreditNoteSummary } from "./InvoiceCreditNotes";
+import { InvoicePayments } from "./InvoicePayments";
+
+type DocumentLineItem = {
+  id: string;
+  position: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  vatRate: number;
+  lineSubtotal: number;
+  lineTotal: number;
+};
+
+type DocumentLink = {
+  id: string;
+  number: string;
+};
+
+type DocumentRecord = {
+  id: string;
+  number: string;
+  customerId: string | null;
+  customerName: string;
+  customerAddress: string | null;
+  issueDate: string;
+  dueDate: string | null;
+  expiryDate?: string | null;
+  paidDate?: string | null;
+  reference: string | null;
+  publicComments: string | null;
+  internalNotes: string | null;
+  currency: string;
+  status: string;
+  vatRate: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  balance?: number | null;
+  lineItems: DocumentLineItem[];
+  sourceQuote?: DocumentLink | null;
+  convertedInvoice?: DocumentLink | null;
+  creditNotes?: CreditNoteSummary[];
+  updatedAt: string;
+  deletedAt: string | null;
+};
+
+const KIND_META: Record<DocumentKind, { label: string; path: string; apiBase: string; responseKey: string }> = {
+  invoice: { label: "Invoice", path: "/invoices", apiBase: "/api/invoices", responseKey: "invoice" },
+  quote: { label: "Quote", path: "/quotes", apiBase: "/api/quotes", responseKey: "quote" },
+};
+
+export function DocumentDetail({
+  kind,
+  id,
+  companyId,
+}: {
+  kind: DocumentKind;
+  id: string;
+  companyId: string | null;
+}) {
+  const meta = KIND_META[kind];
+  const router = useRouter();
+  const { readOnly, loading: featuresLoading } = usePortalFeatures();
+
+  const [doc, setDoc] = useState<DocumentRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<{ message: string; status?: number } | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const query = `companyId=${encodeURIComponent(companyId ?? "")}`;
+  const apiUrl = `${meta.apiBase}/${encodeURIComponent(id)}`;
+  const listHref = `${meta.path}?${query}`;
+
+  const load = useCallback(async ({ quiet = false }: { quiet?: boolean } = {}) => {
+    if (!companyId) {
+      setError({ message: "companyId is required." });
+      setLoading(false);
+      return;
+    }
+
+    if (!quiet) setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchRecords<Record<string, unknown>>(`${apiUrl}?${query}`);
+      setDoc((data[meta.responseKey] as DocumentRecord | undefined) ?? null);
+    } catch (e) {
+      setError({
+        message: errorMessage(e, `Failed to load ${meta.label.toLowerCase()}.`),
+        status: e instanceof RecordsFetchError ? e.status : undefined,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [apiUrl, query, companyId, meta.label, meta.responseKey]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onDelete() {
+    if (!doc || readOnly || deleting) return;
+    if (!window.confirm(`Delete ${meta.label.toLowerCase()} ${doc.number}? It can be restored from its history.`)) {
+      return;
+    }
+
+    setDeleting(true);
+    setActionError(null);
+    try {
+      await fetchRecords(`${apiUrl}?${query}`, { method: "DELETE" });
+      router.push(listHref);
+    } catch (e) {
+      setActionError(errorMessage(e, `Failed to delete ${meta.label.toLowerCase()}.`));
+      setDeleting(false);
+    }
+  }
+
+  async function onConvert() {
+    if (!doc || readOnly || converting) return;
+    if (!window.confirm(`Create an invoice from quote ${doc.number}?`)) return;
+
+    setConverting(true);
+    setActionError(null);
+    try {
+      const data = await fetchRecords<{ invoice: { id: string } }>(`${apiUrl}/convert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId }),
+      });
+      router.push(`/invoices/${encodeURIComponent(data.invoice.id)}?${query}`);
+    } catch (e) {
+      setActionError(errorMessage(e, "Failed to convert quote."));
+      setConverting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <PortalSkeleton className="h-24 w-full" />
+        <PortalSkeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !doc) {
+    return (
+      <div className="space-y-3">
+        <RecordsUnavailable error={error?.message || `${meta.label} not found.`} status={error?.status} />
+        <PortalButton type="button" variant="secondary" size="sm" onClick={() => router.push(listHref)}>
+          Back to {meta.path.slice(1)}
+        </PortalButton>
+      </div>
+    );
+  }
+
+  const pdfUrl = `${apiUrl}/pdf?${query}`;
+  const canConvert = kind === "quote" && !doc.convertedInvoice && doc.status.toLowerCase() !== "converted";
+  const link = doc.sourceQuote
+    ? { label: `Created from quote ${doc.sourceQuote.number}`, href: `/quotes/${encodeURIComponent(doc.sourceQuote.id)}` }
+    : doc.convertedInvoice
+      ? {
+          label: `Converted to invoice ${doc.convertedInvoice.number}`,
+          href: `/invoices/${encodeURIComponent(doc.convertedInvoice.id)}`,
+        }
+      : null;
+  const secondDate =
+    kind === "invoice"
+      ? { label: "Due", value: formatDay(doc.dueDate) }
+      : { label: "Valid until", value: formatDay(doc.expiryDate) };
+
+  return (
+    <div className="space-y-3">
+      {!featuresLoading && readOnly ? <ReadOnlyNotice /> : null}
+      {doc.deletedAt ? (
+        <PortalAlert tone="warning" title="Deleted">
+          This {meta.label.toLowerCase()} was deleted on {formatDay(doc.deletedAt)}.
+        </PortalAlert>
+      ) : null}
+      {actionError ? <PortalAlert tone="danger">{actionError}</PortalAlert> : null}
+
+      <PremiumCard tone="brand">
+        <PortalSectionHeader
+          eyebrow={meta.label}
+          title={`${doc.number} · ${doc.customerName}`}
+          description={doc.reference ? `Reference ${doc.reference}` : undefined}
+          action={
+            <div className="flex flex-wrap gap-2">
+              <PortalButton type="button" variant="secondary" size="sm" onClick={() => router.push(listHref)}>
+                Back
+              </PortalButton>
+              {!doc.deletedAt ? (
+                <>
+                  <PortalButton type="button" variant="secondary" size="sm" onClick={() => window.open(pdfUrl, "_blank")}>
+                    View PDF
+                  </PortalButton>
+                  <PortalButton
+                    type="button"
+                    size="sm"
+                    onClick={() => {
+                      window.location.href = `${pdfUrl}&download=1`;
+                    }}
+                  >
+                    Download PDF
+                  </PortalButton>
+                  {!readOnly ? (
+                    <>
+                      <PortalButton
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => router.push(`${meta.path}/${encodeURIComponent(doc.id)}/edit?${query}`)}
+                      >
+                        Edit
+                      </PortalButton>
+                      {canConvert ? (
+                        <PortalButton type="button" variant="secondary" size="sm" isLoading={converting} onClick={onConvert}>
+                          Convert to invoice
+                        </PortalButton>
+                      ) : null}
+                      <PortalButton type="button" variant="danger" size="sm" isLoading={deleting} onClick={onDelete}>
+                        Delete
+                      </PortalButton>
+                    </>
+                  ) : null}
+                </>
+              ) : null}
+            </div>
+          }
+        />
+
+        <div className="mt-3 grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+          <DetailTile label="Date" value={formatDay(doc.issueDate)} />
+          <DetailTile label={secondDate.label} value={secondDate.value} />
+          <DetailTile label="Total" value={formatMoney(doc.total, doc.currency)} />
+          {kind === "invoice" ? (
+            <DetailTile label="Balance" value={formatMoney(doc.balance ?? doc.total, doc.currency)} />
+          ) : (
+            <DetailTile label="Currency" value={doc.currency} />
+          )}
+        </div>
+        <div className="mt-2 flex items-center gap-2 text-xs text-[color:var(--muted)]">
+          <StatusChip status={doc.status} />
+          <span>Last changed {new Date(doc.updatedAt).toLocaleString()}</span>
+          {link ? (
+            <button
+              type="button"
+              onClick={() => router.push(`${link.href}?${query}`)}
+              className="font-semibold text-[color:var(--primary)] hover:underline"
+            >
+              {link.label}
+            </button>
+          ) : null}
+        </div>
+      </PremiumCard>
+
+      <div className="grid gap-3 lg:grid-cols-[1fr_320px]">
+        <PremiumCard>
+          <PortalSectionHeader title="Line items" />
+          {doc.lineItems.length === 0 ? (
+            <p className="mt-2 text-sm text-[color:var(--muted)]">
+              This {meta.label.toLowerCase()} has no itemised lines; only its totals were synced.
+            </p>
+          ) : (
+            <div className="mt-2 overflow-x-auto">
+              <table className="w-full min-w-[560px] text-sm">
+                <thead className="border-b border-[color:var(--border-soft)] text-[11px] uppercase tracking-wide text-[color:var(--muted)]">
+                  <tr>
+                    <th className="px-2 py-2 text-left font-semibold">Description</th>
+                    <th className="px-2 py-2 text-right font-semibold">Qty</th>
+                    <th className="px-2 py-2 text-right font-semibold">Unit price</th>
+                    <th className="px-2 py-2 text-right font-semibold">Discount</th>
+                    <th className="px-2 py-2 text-right font-semibold">VAT %</th>
+                    <th className="px-2 py-2 text-right font-semibold">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {doc.lineItems.map((line) => (
+                    <tr key={line.id} className="border-b border-[color:var(--border-soft)] last:border-0 align-top">
+                      <td className="whitespace-pre-line px-2 py-2">{line.description}</td>
+                      <td className="px-2 py-2 text-right">{line.quantity}</td>
+                      <td className="px-2 py-2 text-right">{formatMoney(line.unitPrice, doc.currency)}</td>
+                      <td className="px-2 py-2 text-right">
+                        {line.discount ? formatMoney(line.discount, doc.currency) : "—"}
+                      </td>
+                      <td className="px-2 py-2 text-right">{line.vatRate}%</td>
+                      <td className="px-2 py-2 text-right font-semibold">
+                        {formatMoney(line.lineSubtotal, doc.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="ml-auto mt-3 max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-[color:var(--muted)]">Subtotal</span>
+              <span>{formatMoney(doc.subtotal, doc.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[color:var(--muted)]">VAT</span>
+              <span>{formatMoney(doc.vat, doc.currency)}</span>
+            </div>
+            <div className="flex justify-between border-t border-[color:var(--border-soft)] pt-1 font-semibold">
+              <span>Total</span>
+              <span>{formatMoney(doc.total, doc.currency)}</span>
+            </div>
+          </div>
+        </PremiumCard>
+
+        <div className="space-y-3">
+          {kind === "invoice" && companyId && !doc.deletedAt ? (
+            <InvoicePayments
+              invoiceId={doc.id}
+              companyId={companyId}
+              currency={doc.currency}
+              balance={doc.balance ?? doc.total}
+              canEdit={!featuresLoading && !readOnly}
+              onChanged={() => void load({ quiet: true })}
+            />
+          ) : null}
+
+          {kind === "invoice" && companyId && !doc.deletedAt ? (
+            <InvoiceCreditNotes
+              invoiceId={doc.id}
+              companyId={companyId}
+              currency={doc.currency}
+              invoiceStatus={doc.status}
+              invoiceTotal={doc.total}
+              vatRate={doc.vatRate}
+              creditNotes={doc.creditNotes ?? []}
+              canEdit={!featuresLoading && !readOnly}
+              onChanged={() => void load({ quiet: true })}
+            />
+          ) : null}
+
+          <PremiumCard>
+            <PortalSectionHeader title="Customer" />
+            <div className="mt-2 text-sm font-semibold text-[color:var(--foreground)]">{doc.customerName}</div>
+            {doc.customerAddress ? (
+              <div className="mt-1 whitespace-pre-line text-sm text-[color:var(--muted)]">{doc.customerAddress}</div>
+            ) : null}
+            {doc.customerId ? (
+              <PortalButton
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="mt-2 px-0"
+                onClick={() => router.push(`/customers/${encodeURIComponent(doc.customerId!)}?${query}`)}
+              >
+                View customer
+              </PortalButton>
+            ) : null}
+          </PremiumCard>
+
+          {doc.publicComments || doc.internalNotes ? (
+            <PremiumCard>
+              <PortalSectionHeader title="Notes" />
+              {doc.publicComments ? (
+                <p className="mt-2 whitespace-pre-line text-sm">{doc.publicComments}</p>
+              ) : null}
+              {doc.internalNotes ? (
+                <p className="mt-2 whitespace-pre-line text-sm text-[color:var(--muted)]">
+                  <span className="font-semibold">Internal: </span>
+                  {doc.internalNotes}
+                </p>
+              ) : null}
+            </PremiumCard>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,795 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { parseLineItems, sumLineItems, type DocumentTotals } from "@/lib/lineItems";
+import {
+  PremiumCard,
+  PortalAlert,
+  PortalButton,
+  PortalInput,
+  PortalSectionHeader,
+  PortalSkeleton,
+} from "./ui";
+import {
+  ReadOnlyNotice,
+  RecordsFetchError,
+  RecordsUnavailable,
+  errorMessage,
+  fetchRecords,
+  formatMoney,
+  useDebouncedValue,
+  usePortalFeatures,
+} from "./records";
+import type { DocumentKind } from "./DocumentBrowser";
+
+/**
+ * Web editor for invoices and quotes.
+ *
+ * Saves use the same `POST /api/{invoices,quotes}` upsert the desktop app
+ * syncs through, with the cloud copy it started from as the base
+ * (`baseRemoteUpdatedAt` / `baseRemoteRevision`). If the desktop pushed in the
+ * meantime the server merges untouched fields or reports a conflict, and the
+ * desktop picks up the saved version on its next pull.
+ */
+
+type EditorLine = {
+  key: string;
+  productId: string | null;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  discount: string;
+  vatRate: string;
+};
+
+type EditorForm = {
+  number: string;
+  customerId: string | null;
+  customerName: string;
+  customerAddress: string;
+  issueDate: string;
+  dueDate: string;
+  expiryDate: string;
+  reference: string;
+  publicComments: string;
+  internalNotes: string;
+  currency: string;
+  status: string;
+  vatRate: string;
+};
+
+type StoredDocument = Record<string, unknown> & {
+  id: string;
+  number: string;
+  customerId: string | null;
+  customerName: string;
+  customerAddress: string | null;
+  issueDate: string;
+  dueDate: string | null;
+  expiryDate?: string | null;
+  reference: string | null;
+  publicComments: string | null;
+  internalNotes: string | null;
+  currency: string;
+  status: string;
+  vatRate: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  balance?: number | null;
+  data: Record<string, unknown> | null;
+  lineItems: {
+    productId: string | null;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+    vatRate: number;
+  }[];
+  syncRevision: number;
+  updatedAt: string;
+};
+
+type CompanyDefaults = {
+  vatRate: number;
+  currency: string;
+};
+
+type CustomerOption = {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+};
+
+type SaveConflict = {
+  conflictFields: string[];
+  message: string;
+};
+
+const KIND_META: Record<
+  DocumentKind,
+  { label: string; path: string; apiBase: string; responseKey: "invoice" | "quote" }
+> = {
+  invoice: { label: "Invoice", path: "/invoices", apiBase: "/api/invoices", responseKey: "invoice" },
+  quote: { label: "Quote", path: "/quotes", apiBase: "/api/quotes", responseKey: "quote" },
+};
+
+const STATUSES: Record<DocumentKind, string[]> = {
+  invoice: ["draft", "sent", "unpaid", "partial", "paid", "credited", "overdue", "cancelled"],
+  quote: ["draft", "sent", "accepted", "declined", "expired", "converted"],
+};
+
+// Response fields and sync bookkeeping a stored record must not echo back on save.
+const NOT_RESENT_KEYS = new Set([
+  "data",
+  "lineItems",
+  "syncRevision",
+  "createdAt",
+  "updatedAt",
+  "userId",
+  "forceConflictResolution",
+  "baseRemoteRevision",
+  "baseRevision",
+  "baseRemoteUpdatedAt",
+  "lastKnownRemoteUpdatedAt",
+  "sourceQuoteId",
+  "sourceQuote",
+  "convertedInvoice",
+  "creditNotes",
+]);
+
+const SELECT_CLASS =
+  "w-full rounded-lg border border-[color:var(--border-soft)] bg-white px-3 py-2 text-sm text-[color:var(--foreground)] shadow-sm outline-none transition focus:border-[color:var(--primary)] focus:ring-4 focus:ring-[color:var(--primary)]/15";
+
+function toDateInput(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return toDateInput(d);
+}
+
+let lineKeySeed = 0;
+
+function newLine(vatRate: string, partial: Partial<EditorLine> = {}): EditorLine {
+  lineKeySeed += 1;
+  return {
+    key: `line-${lineKeySeed}`,
+    productId: null,
+    description: "",
+    quantity: "1",
+    unitPrice: "",
+    discount: "",
+    vatRate,
+    ...partial,
+  };
+}
+
+function blankForm(kind: DocumentKind, defaults: CompanyDefaults): EditorForm {
+  return {
+    number: "",
+    customerId: null,
+    customerName: "",
+    customerAddress: "",
+    issueDate: toDateInput(new Date()),
+    dueDate: kind === "invoice" ? addDays(30) : "",
+    expiryDate: kind === "quote" ? addDays(30) : "",
+    reference: "",
+    publicComments: "",
+    internalNotes: "",
+    currency: defaults.currency,
+    status: "draft",
+    vatRate: String(defaults.vatRate),
+  };
+}
+
+function formFromDocument(doc: StoredDocument): EditorForm {
+  return {
+    number: doc.number,
+    customerId: doc.customerId,
+    customerName: doc.customerName,
+    customerAddress: doc.customerAddress ?? "",
+    issueDate: doc.issueDate,
+    dueDate: doc.dueDate ?? "",
+    expiryDate: doc.expiryDate ?? "",
+    reference: doc.reference ?? "",
+    publicComments: doc.publicComments ?? "",
+    internalNotes: doc.internalNotes ?? "",
+    currency: doc.currency,
+    status: doc.status,
+    vatRate: String(doc.vatRate),
+  };
+}
+
+function linesFromDocument(doc: StoredDocument): EditorLine[] {
+  return doc.lineItems.map((line) =>
+    newLine(String(line.vatRate), {
+      productId: line.productId,
+      description: line.description,
+      quantity: String(line.quantity),
+      unitPrice: String(line.unitPrice),
+      discount: line.discount ? String(line.discount) : "",
+    })
+  );
+}
+
+function toLinePayload(lines: EditorLine[]) {
+  return lines
+    .filter((line) => line.description.trim() || line.unitPrice.trim())
+    .map((line) => ({
+      productId: line.productId,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      discount: line.discount || 0,
+      vatRate: line.vatRate || 0,
+    }));
+}
+
+function CustomerLookup({
+  companyId,
+  value,
+  disabled,
+  onPick,
+  onChangeName,
+}: {
+  companyId: string;
+  value: string;
+  disabled?: boolean;
+  onPick: (customer: CustomerOption) => void;
+  onChangeName: (name: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<CustomerOption[]>([]);
+  const q = useDebouncedValue(value.trim(), 250);
+
+  useEffect(() => {
+    if (!open || !q) return;
+    let cancelled = false;
+
+    const params = new URLSearchParams({ companyId, q, sort: "name", order: "asc", limit: "8" });
+    fetchRecords<{ customers?: CustomerOption[] }>(`/api/customers?${params.toString()}`)
+      .then((data) => {
+        if (!cancelled) setOptions(data.customers ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setOptions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, q, open]);
+
+  return (
+    <div className="relative">
+      <PortalInput
+        label="Customer"
+        placeholder="Start typing to search customers"
+        value={value}
+        disabled={disabled}
+        autoComplete="off"
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onChange={(e) => onChangeName(e.target.value)}
+      />
+      {open && q && options.length > 0 ? (
+        <ul className="absolute z-20 mt-1 max-h-64 w-full overflow-y-auto rounded-lg border border-[color:var(--border-soft)] bg-white py-1 text-sm shadow-lg">
+          {options.map((c) => (
+            <li key={c.id}>
+              <button
+                type="button"
+                className="w-full px-3 py-2 text-left hover:bg-slate-50"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onPick(c);
+                  setOpen(false);
+                }}
+              >
+                <span className="font-semibold">{c.name}</span>
+                {c.city ? <span className="ml-2 text-[color:var(--muted)]">{c.city}</span> : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+export function DocumentEditor({
+  kind,
+  id,
+  companyId,
+}: {
+  kind: DocumentKind;
+  id: string | null;
+  companyId: string | null;
+}) {
+  const meta = KIND_META[kind];
+  const router = useRouter();
+  const { readOnly, loading: featuresLoading } = usePortalFeatures();
+
+  const [stored, setStored] = useState<StoredDocument | null>(null);
+  const [form, setForm] = useState<EditorForm | null>(null);
+  const [lines, setLines] = useState<EditorLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<{ message: string; status?: number } | null>(null);
+
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [nextNumber, setNextNumber] = useState<string | null>(null);
+
+  const query = `companyId=${encodeURIComponent(companyId ?? "")}`;
+
+  const load = useCallback(async () => {
+    if (!companyId) {
+      setLoadError({ message: "companyId is required." });
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setLoadError(null);
+    setConflict(null);
+
+    try {
+      const settingsData = await fetchRecords<{ settings?: Record<string, unknown> | null }>(
+        `/api/company-settings?${query}`
+      );
+      const settings = settingsData.settings ?? {};
+      const defaults: CompanyDefaults = {
+        vatRate: Number(settings.vatRateDefault ?? 15),
+        currency: String(settings.currency || "ZAR"),
+      };
+
+      if (id) {
+        const data = await fetchRecords<Record<string, unknown>>(`${meta.apiBase}/${encodeURIComponent(id)}?${query}`);
+        const doc = data[meta.responseKey] as StoredDocument;
+        setStored(doc);
+        setForm(formFromDocument(doc));
+        setLines(linesFromDocument(doc));
+        return;
+      }
+
+      // New documents are numbered by the server when saved; this is only a preview.
+      const numbering = await fetchRecords<{ nextNumber?: string | null }>(
+        `/api/document-numbers?${query}&documentType=${kind}`
+      ).catch(() => null);
+      setNextNumber(numbering?.nextNumber ?? null);
+
+      setStored(null);
+      setForm(blankForm(kind, defaults));
+      setLines([newLine(String(defaults.vatRate))]);
+    } catch (e) {
+      setLoadError({
+        message: errorMessage(e, `Failed to load ${meta.label.toLowerCase()}.`),
+        status: e instanceof RecordsFetchError ? e.status : undefined,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, id, kind, query, meta]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Documents synced without itemised lines keep their header totals until lines are added.
+  const headerOnly = !!stored && stored.lineItems.length === 0 && toLinePayload(lines).length === 0;
+
+  const computed = useMemo<{ totals: DocumentTotals | null; error: string | null }>(() => {
+    if (headerOnly && stored) {
+      return { totals: { subtotal: stored.subtotal, vat: stored.vat, total: stored.total }, error: null };
+    }
+    const parsed = parseLineItems(toLinePayload(lines));
+    if ("error" in parsed) return { totals: null, error: parsed.error };
+    return { totals: sumLineItems(parsed.items), error: null };
+  }, [lines, headerOnly, stored]);
+
+  function setField<K extends keyof EditorForm>(key: K, value: EditorForm[K]) {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  }
+
+  function updateLine(key: string, patch: Partial<EditorLine>) {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  }
+
+  function buildPayload(force: boolean) {
+    if (!form || !companyId || !computed.totals) return null;
+
+    const lineItems = toLinePayload(lines);
+    const totals = computed.totals;
+    const base: Record<string, unknown> = {};
+
+    // Start from what the cloud holds so keys this editor does not know about
+    // (desktop-only extras in `data`, paidDate, ...) survive the save.
+    if (stored) {
+      for (const [key, value] of [...Object.entries(stored.data ?? {}), ...Object.entries(stored)]) {
+        if (!NOT_RESENT_KEYS.has(key)) base[key] = value;
+      }
+    }
+
+    const payload: Record<string, unknown> = {
+      ...base,
+      id: stored?.id ?? crypto.randomUUID(),
+      companyId,
+      // Left blank on a new document, the server assigns the next number.
+      number: form.number.trim() || undefined,
+      customerId: form.customerId,
+      customerName: form.customerName.trim(),
+      customerAddress: form.customerAddress.trim() || null,
+      issueDate: form.issueDate,
+      dueDate: form.dueDate || null,
+      reference: form.reference.trim() || null,
+      publicComments: form.publicComments.trim() || null,
+      internalNotes: form.internalNotes.trim() || null,
+      currency: form.currency.trim() || "ZAR",
+      status: form.status,
+      vatRate: Number(form.vatRate) || 0,
+      ...(headerOnly ? {} : { lineItems }),
+      ...totals,
+    };
+
+    if (kind === "quote") {
+      payload.expiryDate = form.expiryDate || null;
+    } else {
+      // Keep what has already been paid: only the outstanding part follows the new total.
+      const paid = stored ? Math.max(0, Number(stored.total) - Number(stored.balance ?? stored.total)) : 0;
+      payload.balance = Math.max(0, Math.round((totals.total - paid) * 100) / 100);
+    }
+
+    if (stored) {
+      payload.baseRemoteUpdatedAt = stored.updatedAt;
+      payload.baseRemoteRevision = stored.syncRevision;
+    }
+    if (force) payload.forceConflictResolution = true;
+
+    return payload;
+  }
+
+  async function onSave(force = false) {
+    if (readOnly || saving || !form) return;
+
+    if ((stored && !form.number.trim()) || !form.customerName.trim() || !form.issueDate) {
+      setSaveError(stored ? "Number, customer and date are required." : "Customer and date are required.");
+      return;
+    }
+    if (computed.error) {
+      setSaveError(computed.error);
+      return;
+    }
+
+    const payload = buildPayload(force);
+    if (!payload) return;
+
+    setSaving(true);
+    setSaveError(null);
+    setConflict(null);
+
+    try {
+      const res = await fetch(meta.apiBase, {
+        method: "POST",
+        credentials: "include",
+        cache: "no-store",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (res.status === 409 && data?.conflict) {
+        setConflict({
+          conflictFields: Array.isArray(data.conflictFields) ? data.conflictFields : [],
+          message: data.message || "This document was changed somewhere else.",
+        });
+        return;
+      }
+
+      if (!res.ok || !data?.success) {
+        throw new Error(data?.error || data?.message || `Save failed (${res.status}).`);
+      }
+
+      router.push(`${meta.path}/${encodeURIComponent(String(payload.id))}?${query}`);
+    } catch (e) {
+      setSaveError(errorMessage(e, `Failed to save ${meta.label.toLowerCase()}.`));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        <PortalSkeleton className="h-40 w-full" />
+        <PortalSkeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (loadError || !form) {
+    return (
+      <RecordsUnavailable
+        error={loadError?.message || `${meta.label} not found.`}
+        status={loadError?.status}
+      />
+    );
+  }
+
+  const disabled = readOnly || saving;
+  const cancelHref = stored
+    ? `${meta.path}/${encodeURIComponent(stored.id)}?${query}`
+    : `${meta.path}?${query}`;
+
+  return (
+    <div className="space-y-3">
+      {!featuresLoading && readOnly ? <ReadOnlyNotice /> : null}
+
+      {conflict ? (
+        <PortalAlert tone="warning" title="Changed on another device">
+          <p>{conflict.message}</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <PortalButton type="button" size="sm" variant="secondary" onClick={() => void load()}>
+              Discard my edits and reload
+            </PortalButton>
+            <PortalButton type="button" size="sm" variant="danger" onClick={() => void onSave(true)}>
+              Overwrite with my version
+            </PortalButton>
+          </div>
+        </PortalAlert>
+      ) : null}
+      {saveError ? <PortalAlert tone="danger">{saveError}</PortalAlert> : null}
+
+      <PremiumCard tone="brand">
+        <PortalSectionHeader
+          eyebrow={stored ? `Edit ${meta.label.toLowerCase()}` : `New ${meta.label.toLowerCase()}`}
+          title={form.number || meta.label}
+          action={
+            <div className="flex gap-2">
+              <PortalButton type="button" variant="secondary" size="sm" onClick={() => router.push(cancelHref)}>
+                Cancel
+              </PortalButton>
+              <PortalButton type="button" size="sm" isLoading={saving} disabled={disabled} onClick={() => void onSave()}>
+                Save
+              </PortalButton>
+            </div>
+          }
+        />
+
+        <div className="mt-3 grid gap-3 md:grid-cols-2 lg:grid-cols-4">
+          <PortalInput
+            label="Number"
+            value={form.number}
+            placeholder={stored ? undefined : nextNumber ?? "Assigned on save"}
+            hint={stored ? undefined : "Leave blank to use the next number in sequence."}
+            disabled={disabled}
+            onChange={(e) => setField("number", e.target.value)}
+          />
+          <PortalInput
+            label="Date"
+            type="date"
+            value={form.issueDate}
+            disabled={disabled}
+            onChange={(e) => setField("issueDate", e.target.value)}
+          />
+          {kind === "invoice" ? (
+            <PortalInput
+              label="Due date"
+              type="date"
+              value={form.dueDate}
+              disabled={disabled}
+              onChange={(e) => setField("dueDate", e.target.value)}
+            />
+          ) : (
+            <PortalInput
+              label="Valid until"
+              type="date"
+              value={form.expiryDate}
+              disabled={disabled}
+              onChange={(e) => setField("expiryDate", e.target.value)}
+            />
+          )}
+          <label className="block">
+            <span className="mb-1.5 block text-sm font-semibold text-[color:var(--foreground)]">Status</span>
+            <select
+              className={SELECT_CLASS}
+              value={form.status}
+              disabled={disabled}
+              onChange={(e) => setField("status", e.target.value)}
+            >
+              {Array.from(new Set([...STATUSES[kind], form.status])).map((s) => (
+                <option key={s} value={s}>
+                  {s.charAt(0).toUpperCase() + s.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mt-3 grid gap-3 md:grid-cols-2">
+          <CustomerLookup
+            companyId={companyId ?? ""}
+            value={form.customerName}
+            disabled={disabled}
+            onChangeName={(name) => setForm((prev) => (prev ? { ...prev, customerName: name, customerId: null } : prev))}
+            onPick={(c) =>
+              setForm((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      customerId: c.id,
+                      customerName: c.name,
+                      customerAddress: [c.address, c.city].filter(Boolean).join("\n"),
+                    }
+                  : prev
+              )
+            }
+          />
+          <PortalInput
+            label="Reference"
+            value={form.reference}
+            disabled={disabled}
+            onChange={(e) => setField("reference", e.target.value)}
+          />
+        </div>
+
+        <label className="mt-3 block">
+          <span className="mb-1.5 block text-sm font-semibold text-[color:var(--foreground)]">Customer address</span>
+          <textarea
+            className={SELECT_CLASS}
+            rows={3}
+            value={form.customerAddress}
+            disabled={disabled}
+            onChange={(e) => setField("customerAddress", e.target.value)}
+          />
+        </label>
+      </PremiumCard>
+
+      <PremiumCard>
+        <PortalSectionHeader
+          title="Line items"
+          action={
+            <PortalButton
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={disabled}
+              onClick={() => setLines((prev) => [...prev, newLine(form.vatRate)])}
+            >
+              Add line
+            </PortalButton>
+          }
+        />
+
+        <div className="mt-2 overflow-x-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead className="text-[11px] uppercase tracking-wide text-[color:var(--muted)]">
+              <tr>
+                <th className="px-1 py-2 text-left font-semibold">Description</th>
+                <th className="w-20 px-1 py-2 text-right font-semibold">Qty</th>
+                <th className="w-28 px-1 py-2 text-right font-semibold">Unit price</th>
+                <th className="w-24 px-1 py-2 text-right font-semibold">Discount</th>
+                <th className="w-20 px-1 py-2 text-right font-semibold">VAT %</th>
+                <th className="w-10 px-1 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => (
+                <tr key={line.key} className="align-top">
+                  <td className="px-1 py-1">
+                    <textarea
+                      className={SELECT_CLASS}
+                      rows={1}
+                      value={line.description}
+                      disabled={disabled}
+                      onChange={(e) => updateLine(line.key, { description: e.target.value })}
+                    />
+                  </td>
+                  {(["quantity", "unitPrice", "discount", "vatRate"] as const).map((field) => (
+                    <td key={field} className="px-1 py-1">
+                      <input
+                        className={`${SELECT_CLASS} text-right`}
+                        inputMode="decimal"
+                        value={line[field]}
+                        disabled={disabled}
+                        onChange={(e) => updateLine(line.key, { [field]: e.target.value })}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-1 py-1 text-right">
+                    <PortalButton
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label="Remove line"
+                      disabled={disabled}
+                      onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                    >
+                      ✕
+                    </PortalButton>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {headerOnly ? (
+          <p className="mt-2 text-xs text-[color:var(--muted)]">
+            This {meta.label.toLowerCase()} was synced without itemised lines, so its totals are kept as they are
+            until you add lines.
+          </p>
+        ) : null}
+        {computed.error ? <p className="mt-2 text-xs font-medium text-rose-600">{computed.error}</p> : null}
+
+        <div className="mt-3 grid gap-3 md:grid-cols-[1fr_280px]">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <PortalInput
+              label="Default VAT % for new lines"
+              inputMode="decimal"
+              value={form.vatRate}
+              disabled={disabled}
+              onChange={(e) => setField("vatRate", e.target.value)}
+            />
+            <PortalInput
+              label="Currency"
+              value={form.currency}
+              disabled={disabled}
+              onChange={(e) => setField("currency", e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="space-y-1 self-end text-sm">
+            <div className="flex justify-between">
+              <span className="text-[color:var(--muted)]">Subtotal</span>
+              <span>{formatMoney(computed.totals?.subtotal ?? null, form.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[color:var(--muted)]">VAT</span>
+              <span>{formatMoney(computed.totals?.vat ?? null, form.currency)}</span>
+            </div>
+            <div className="flex justify-between border-t border-[color:var(--border-soft)] pt-1 font-semibold">
+              <span>Total</span>
+              <span>{formatMoney(computed.totals?.total ?? null, form.currency)}</span>
+            </div>
+          </div>
+        </div>
+      </PremiumCard>
+
+      <PremiumCard>
+        <PortalSectionHeader title="Notes" />
+        <div className="mt-2 grid gap-3 md:grid-cols-2">
+          <label className="block">
+            <span className="mb-1.5 block text-sm font-semibold text-[color:var(--foreground)]">
+              Comments (printed on the document)
+            </span>
+            <textarea
+              className={SELECT_CLASS}
+              rows={4}
+              value={form.publicComments}
+              disabled={disabled}
+              onChange={(e) => setField("publicComments", e.target.value)}
+            />
+          </label>
+          <label className="block">
+            <span className="mb-1.5 block text-sm font-semibold text-[color:var(--foreground)]">Internal notes</span>
+            <textarea
+              className={SELECT_CLASS}
+              rows={4}
+              value={form.internalNotes}
+              disabled={disabled}
+              onChange={(e) => setField("internalNotes", e.target.value)}
+            />
+          </label>
+        </div>
+      </PremiumCard>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+
+import { PremiumCard, PortalAlert, PortalButton, PortalInput, PortalSectionHeader } from "./ui";
+import { errorMessage, fetchRecords, formatDay, formatMoney, StatusChip } from "./records";
+import { todayIsoDate } from "@/lib/payments";
+
+export type CreditNoteSummary = {
+  id: string;
+  number: string;
+  issueDate: string;
+  status: string;
+  total: number;
+  reason: string | null;
+};
+
+type CreditNoteForm = {
+  reason: string;
+  description: string;
+  amount: string;
+  vatRate: string;
+};
+
+// Invoices that were never sent or were cancelled are owed nothing to credit.
+const NOT_CREDITABLE = new Set(["draft", "cancelled"]);
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** Credit notes issued against an invoice, with issuing and deleting when the plan allows changes. */
+export function InvoiceCreditNotes({
+  invoiceId,
+  companyId,
+  currency,
+  invoiceStatus,
+  invoiceTotal,
+  vatRate,
+  creditNotes,
+  canEdit,
+  onChanged,
+}: {
+  invoiceId: string;
+  companyId: string;
+  currency: string;
+  invoiceStatus: string;
+  invoiceTotal: number;
+  vatRate: number;
+  creditNotes: CreditNoteSummary[];
+  canEdit: boolean;
+  onChanged: () => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<CreditNoteForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const live = creditNotes.filter((note) => note.status !== "void");
+  const credited = roundMoney(live.reduce((sum, note) => sum + note.total, 0));
+  const remaining = Math.max(0, roundMoney(invoiceTotal - credited));
+  const canIssue = canEdit && !form && remaining > 0 && !NOT_CREDITABLE.has(invoiceStatus.toLowerCase());
+
+  const amount = Number(form?.amount ?? 0);
+  const rate = Number(form?.vatRate ?? 0);
+  const preview =
+    Number.isFinite(amount) && Number.isFinite(rate) ? roundMoney(amount + roundMoney((amount * rate) / 100)) : 0;
+
+  async function onIssue() {
+    if (!form || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await fetchRecords("/api/credit-notes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          companyId,
+          id: crypto.randomUUID(),
+          invoiceId,
+          issueDate: todayIsoDate(),
+          reason: form.reason.trim() || null,
+          vatRate: Number(form.vatRate),
+          lineItems: [
+            {
+              description: form.description.trim(),
+              quantity: 1,
+              unitPrice: Number(form.amount),
+              vatRate: Number(form.vatRate),
+            },
+          ],
+        }),
+      });
+      setForm(null);
+      onChanged();
+    } catch (e) {
+      setError(errorMessage(e, "Failed to issue credit note."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onRemove(note: CreditNoteSummary) {
+    if (removingId) return;
+    if (!window.confirm(`Delete credit note ${note.number} for ${formatMoney(note.total, currency)}?`)) {
+      return;
+    }
+    setRemovingId(note.id);
+    setError(null);
+    try {
+      await fetchRecords(
+        `/api/credit-notes/${encodeURIComponent(note.id)}?companyId=${encodeURIComponent(companyId)}`,
+        { method: "DELETE" }
+      );
+      onChanged();
+    } catch (e) {
+      setError(errorMessage(e, "Failed to delete credit note."));
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  return (
+    <PremiumCard>
+      <PortalSectionHeader
+        title="Credit notes"
+        action={
+          canIssue ? (
+            <PortalButton
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => setForm({ reason: "", description: "", amount: "", vatRate: String(vatRate) })}
+            >
+              Issue credit note
+            </PortalButton>
+          ) : undefined
+        }
+      />
+      {error ? (
+        <PortalAlert tone="danger" className="mt-2">
+          {error}
+        </PortalAlert>
+      ) : null}
+
+      {creditNotes.length === 0 ? (
+        <p className="mt-2 text-sm text-[color:var(--muted)]">No credit notes issued.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-[color:var(--border-soft)] text-sm">
+          {creditNotes.map((note) => (
+            <li key={note.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="min-w-0">
+                <span className="font-semibold">{note.number}</span>
+                <span className="ml-2">{formatMoney(note.total, currency)}</span>
+                <span className="ml-2 text-[color:var(--muted)]">
+                  {formatDay(note.issueDate)}
+                  {note.reason ? ` · ${note.reason}` : ""}
+                </span>
+                {note.status === "void" ? (
+                  <span className="ml-2">
+                    <StatusChip status={note.status} />
+                  </span>
+                ) : null}
+              </span>
+              {canEdit ? (
+                <PortalButton
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  isLoading={removingId === note.id}
+                  onClick={() => void onRemove(note)}
+                >
+                  Delete
+                </PortalButton>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {credited > 0 ? (
+        <div className="mt-2 flex justify-between border-t border-[color:var(--border-soft)] pt-2 text-sm font-semibold">
+          <span>Credited</span>
+          <span>{formatMoney(credited, currency)}</span>
+        </div>
+      ) : null}
+
+      {form ? (
+        <div className="mt-3 space-y-2 border-t border-[color:var(--border-soft)] pt-3">
+          <PortalInput
+            label="Reason"
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+          />
+          <PortalInput
+            label="Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+          <div className="grid gap-2 sm:grid-cols-2">
+            <PortalInput
+              label="Amount excl. VAT"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            />
+            <PortalInput
+              label="VAT %"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={form.vatRate}
+              onChange={(e) => setForm({ ...form, vatRate: e.target.value })}
+            />
+          </div>
+          <p className="text-xs text-[color:var(--muted)]">
+            Credit total {formatMoney(preview, currency)} of {formatMoney(remaining, currency)} left to credit.
+          </p>
+          <div className="flex justify-end gap-2">
+            <PortalButton type="button" variant="secondary" size="sm" onClick={() => setForm(null)}>
+              Cancel
+            </PortalButton>
+            <PortalButton type="button" size="sm" isLoading={saving} onClick={() => void onIssue()}>
+              Issue credit note
+            </PortalButton>
+          </div>
+        </div>
+      ) : null}
+    </PremiumCard>
+  );
+}
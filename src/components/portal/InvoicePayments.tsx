@@ -0,0 +1,226 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { PremiumCard, PortalAlert, PortalButton, PortalInput, PortalSectionHeader, PortalSkeleton } from "./ui";
+import { errorMessage, fetchRecords, formatDay, formatMoney } from "./records";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, todayIsoDate, type PaymentMethod } from "@/lib/payments";
+
+type PaymentRow = {
+  id: string;
+  paidOn: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  notes: string | null;
+};
+
+type PaymentForm = {
+  paidOn: string;
+  amount: string;
+  method: PaymentMethod;
+  reference: string;
+};
+
+const SELECT_CLASS =
+  "w-full rounded-lg border border-[color:var(--border-soft)] bg-white px-3 py-2 text-sm text-[color:var(--foreground)] shadow-sm outline-none transition focus:border-[color:var(--primary)] focus:ring-4 focus:ring-[color:var(--primary)]/15";
+
+function blankForm(balance: number): PaymentForm {
+  return { paidOn: todayIsoDate(), amount: balance > 0 ? balance.toFixed(2) : "", method: "eft", reference: "" };
+}
+
+/** Payments received against an invoice, with recording and reversal when the plan allows changes. */
+export function InvoicePayments({
+  invoiceId,
+  companyId,
+  currency,
+  balance,
+  canEdit,
+  onChanged,
+}: {
+  invoiceId: string;
+  companyId: string;
+  currency: string;
+  balance: number;
+  canEdit: boolean;
+  onChanged: () => void;
+}) {
+  const apiUrl = `/api/invoices/${encodeURIComponent(invoiceId)}/payments`;
+  const query = `companyId=${encodeURIComponent(companyId)}`;
+
+  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<PaymentForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await fetchRecords<{ payments?: PaymentRow[] }>(`${apiUrl}?${query}`);
+      setPayments(data.payments ?? []);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to load payments."));
+    } finally {
+      setLoading(false);
+    }
+  }, [apiUrl, query]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onRecord() {
+    if (!form || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await fetchRecords(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          companyId,
+          id: crypto.randomUUID(),
+          paidOn: form.paidOn,
+          amount: Number(form.amount),
+          method: form.method,
+          reference: form.reference.trim() || null,
+        }),
+      });
+      setForm(null);
+      await load();
+      onChanged();
+    } catch (e) {
+      setError(errorMessage(e, "Failed to record payment."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onRemove(payment: PaymentRow) {
+    if (removingId) return;
+    if (!window.confirm(`Remove the ${formatMoney(payment.amount, currency)} payment of ${formatDay(payment.paidOn)}?`)) {
+      return;
+    }
+    setRemovingId(payment.id);
+    setError(null);
+    try {
+      await fetchRecords(`${apiUrl}/${encodeURIComponent(payment.id)}?${query}`, { method: "DELETE" });
+      await load();
+      onChanged();
+    } catch (e) {
+      setError(errorMessage(e, "Failed to remove payment."));
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  const received = payments.reduce((sum, p) => sum + p.amount, 0);
+
+  return (
+    <PremiumCard>
+      <PortalSectionHeader
+        title="Payments"
+        action={
+          canEdit && !form && balance > 0 ? (
+            <PortalButton type="button" variant="secondary" size="sm" onClick={() => setForm(blankForm(balance))}>
+              Record payment
+            </PortalButton>
+          ) : undefined
+        }
+      />
+      {error ? (
+        <PortalAlert tone="danger" className="mt-2">
+          {error}
+        </PortalAlert>
+      ) : null}
+
+      {loading ? (
+        <PortalSkeleton className="mt-2 h-16 w-full" />
+      ) : payments.length === 0 ? (
+        <p className="mt-2 text-sm text-[color:var(--muted)]">No payments recorded.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-[color:var(--border-soft)] text-sm">
+          {payments.map((payment) => (
+            <li key={payment.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="min-w-0">
+                <span className="font-semibold">{formatMoney(payment.amount, currency)}</span>
+                <span className="ml-2 text-[color:var(--muted)]">
+                  {formatDay(payment.paidOn)} · {PAYMENT_METHOD_LABELS[payment.method] ?? payment.method}
+                  {payment.reference ? ` · ${payment.reference}` : ""}
+                </span>
+              </span>
+              {canEdit ? (
+                <PortalButton
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  isLoading={removingId === payment.id}
+                  onClick={() => void onRemove(payment)}
+                >
+                  Remove
+                </PortalButton>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {payments.length > 0 ? (
+        <div className="mt-2 flex justify-between border-t border-[color:var(--border-soft)] pt-2 text-sm font-semibold">
+          <span>Received</span>
+          <span>{formatMoney(received, currency)}</span>
+        </div>
+      ) : null}
+
+      {form ? (
+        <div className="mt-3 space-y-2 border-t border-[color:var(--border-soft)] pt-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <PortalInput
+              label="Date"
+              type="date"
+              value={form.paidOn}
+              onChange={(e) => setForm({ ...form, paidOn: e.target.value })}
+            />
+            <PortalInput
+              label="Amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            />
+            <label className="block">
+              <span className="mb-1.5 block text-sm font-semibold text-[color:var(--foreground)]">Method</span>
+              <select
+                className={SELECT_CLASS}
+                value={form.method}
+                onChange={(e) => setForm({ ...form, method: e.target.value as PaymentMethod })}
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <PortalInput
+              label="Reference"
+              value={form.reference}
+              onChange={(e) => setForm({ ...form, reference: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <PortalButton type="button" variant="secondary" size="sm" onClick={() => setForm(null)}>
+              Cancel
+            </PortalButton>
+            <PortalButton type="button" size="sm" isLoading={saving} onClick={() => void onRecord()}>
+              Save payment
+            </PortalButton>
+          </div>
+        </div>
+      ) : null}
+    </PremiumCard>
+  );
+}
@@ -24,6 +24,21 @@ const PAGE_META: Record<string, PageMeta> = {
     title: "Account Command Centre",
     subtitle: "Manage your eKasiBooks account, subscription, downloads, and portal settings.",
   },
+  "/invoices": {
+    badge: "Invoices",
+    title: "Invoices",
+    subtitle: "Browse the invoices your desktop app has synced to the cloud.",
+  },
+  "/quotes": {
+    badge: "Quotes",
+    title: "Quotes",
+    subtitle: "Browse the quotes your desktop app has synced to the cloud.",
+  },
+  "/customers": {
+    badge: "Customers",
+    title: "Customers",
+    subtitle: "Look up customers and their recent invoices and quotes.",
+  },
   "/billing": {
     badge: "Billing",
     title: "Subscription & Billing",
@@ -68,6 +83,9 @@ function getPageMeta(pathname: string | null): PageMeta {
   if (path.startsWith("/admin/users/")) return PAGE_META["/admin/users/detail"];
   if (path.startsWith("/admin/users")) return PAGE_META["/admin/users"];
   if (path.startsWith("/admin")) return PAGE_META["/admin"];
+  if (path.startsWith("/invoices")) return PAGE_META["/invoices"];
+  if (path.startsWith("/quotes")) return PAGE_META["/quotes"];
+  if (path.startsWith("/customers")) return PAGE_META["/customers"];
   if (path.startsWith("/billing")) return PAGE_META["/billing"];
   if (path.startsWith("/downloads")) return PAGE_META["/downloads"];
   if (path.startsWith("/settings")) return PAGE_META["/settings"];
@@ -15,6 +15,9 @@ export type NavItem = {
 
 const DEFAULT_NAV: NavItem[] = [
   { label: "Overview", href: "/dashboard", icon: "⌂" },
+  { label: "Invoices", href: "/invoices", icon: "▤" },
+  { label: "Quotes", href: "/quotes", icon: "❝" },
+  { label: "Customers", href: "/customers", icon: "☺" },
   { label: "Billing", href: "/billing", icon: "⟠" },
   { label: "Downloads", href: "/downloads", icon: "⇩" },
   { label: "Settings", href: "/settings", icon: "⚙" },
@@ -102,7 +105,16 @@ async function bestEffortLogout() {
 
 /* ---------------- Icons ---------------- */
 
-type IconName = "home" | "billing" | "downloads" | "settings" | "logout" | "admin";
+type IconName =
+  | "home"
+  | "invoices"
+  | "quotes"
+  | "customers"
+  | "billing"
+  | "downloads"
+  | "settings"
+  | "logout"
+  | "admin";
 
 function Icon({ name, className }: { name: IconName; className?: string }) {
   const base = "stroke-current fill-none stroke-[2] vector-effect-non-scaling-stroke";
@@ -115,6 +127,32 @@ function Icon({ name, className }: { name: IconName; className?: string }) {
           <path d="M9 21v-7h6v7" />
         </svg>
       );
+    case "invoices":
+      return (
+        <svg viewBox="0 0 24 24" className={cx(base, className)}>
+          <path d="M7 3h7l5 5v13H7a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2Z" />
+          <path d="M14 3v5h5" />
+          <path d="M9 13h6" />
+          <path d="M9 17h6" />
+        </svg>
+      );
+    case "quotes":
+      return (
+        <svg viewBox="0 0 24 24" className={cx(base, className)}>
+          <path d="M4 5h16v11H9l-5 4V5Z" />
+          <path d="M8 9h8" />
+          <path d="M8 12h5" />
+        </svg>
+      );
+    case "customers":
+      return (
+        <svg viewBox="0 0 24 24" className={cx(base, className)}>
+          <path d="M9 11a4 4 0 1 0 0-8 4 4 0 0 0 0 8Z" />
+          <path d="M2 21v-1a6 6 0 0 1 6-6h2a6 6 0 0 1 6 6v1" />
+          <path d="M16 3.5a4 4 0 0 1 0 7" />
+          <path d="M22 21v-1a6 6 0 0 0-4-5.6" />
+        </svg>
+      );
     case "billing":
       return (
         <svg viewBox="0 0 24 24" className={cx(base, className)}>
@@ -163,6 +201,9 @@ function inferIcon(item: NavItem): IconName {
   const href = item.href;
   const label = (item.label || "").toLowerCase();
   if (href.startsWith("/dashboard") || label.includes("overview") || label.includes("dashboard")) return "home";
+  if (href.startsWith("/invoices") || label.includes("invoice")) return "invoices";
+  if (href.startsWith("/quotes") || label.includes("quote")) return "quotes";
+  if (href.startsWith("/customers") || label.includes("customer")) return "customers";
   if (href.startsWith("/billing") || label.includes("billing") || label.includes("subscription")) return "billing";
   if (href.startsWith("/downloads") || label.includes("download")) return "downloads";
   if (href.startsWith("/admin") || label.includes("admin")) return "admin";
@@ -0,0 +1,292 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import type { ResolvedEntitlementFeatures } from "@/lib/entitlements";
+import { Chip, PortalAlert, PortalEmptyState, cx } from "./ui";
+import { useSession } from "./session";
+
+/**
+ * Shared plumbing for the invoices / quotes / customers pages: the active
+ * company (kept in `?companyId=` so links are shareable), the plan features
+ * that decide whether anything may be changed, and small display helpers.
+ */
+
+export type PortalCompany = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
+export type PortalFeatures = Pick<ResolvedEntitlementFeatures, "readOnly" | "cloudSync">;
+
+const COMPANY_STORAGE_KEY = "ekasi.portal.companyId";
+
+export class RecordsFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RecordsFetchError";
+    this.status = status;
+  }
+}
+
+export function errorMessage(e: unknown, fallback: string) {
+  return e instanceof Error && e.message ? e.message : fallback;
+}
+
+export async function fetchRecords<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    credentials: "include",
+    cache: "no-store",
+    ...init,
+  });
+
+  const data = await res.json().catch(() => null);
+
+  if (!res.ok || data?.success === false) {
+    throw new RecordsFetchError(
+      data?.error || data?.message || `Request failed (${res.status}).`,
+      res.status
+    );
+  }
+
+  return data as T;
+}
+
+export function usePortalFeatures() {
+  const { state } = useSession();
+  const [features, setFeatures] = useState<PortalFeatures | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (state !== "ready") return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const data = await fetchRecords<{ features?: Partial<PortalFeatures> }>(
+          `/api/entitlement?ts=${Date.now()}`
+        );
+        if (cancelled) return;
+        setFeatures({
+          readOnly: !!data?.features?.readOnly,
+          cloudSync: !!data?.features?.cloudSync,
+        });
+      } catch {
+        // Fail closed: without an entitlement nothing is editable.
+        if (!cancelled) setFeatures({ readOnly: true, cloudSync: false });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [state]);
+
+  return { features, loading, readOnly: features?.readOnly ?? true };
+}
+
+export function useActiveCompany() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const sp = useSearchParams();
+  const { state } = useSession();
+
+  const [companies, setCompanies] = useState<PortalCompany[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const requested = sp.get("companyId");
+
+  useEffect(() => {
+    if (state !== "ready") return;
+    let cancelled = false;
+
+    async function load() {
+      setError(null);
+      try {
+        const data = await fetchRecords<{ companies?: PortalCompany[] }>(
+          `/api/companies?ts=${Date.now()}`
+        );
+        if (!cancelled) setCompanies(Array.isArray(data?.companies) ? data.companies : []);
+      } catch (e) {
+        if (!cancelled) setError(errorMessage(e, "Failed to load companies."));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [state]);
+
+  const companyId = useMemo(() => {
+    if (companies.length === 0) return null;
+    const has = (id: string | null) => !!id && companies.some((c) => c.id === id);
+
+    if (has(requested)) return requested;
+
+    const stored = typeof window !== "undefined" ? window.localStorage.getItem(COMPANY_STORAGE_KEY) : null;
+    if (has(stored)) return stored;
+
+    return (companies.find((c) => c.isDefault) ?? companies[0]).id;
+  }, [companies, requested]);
+
+  useEffect(() => {
+    if (companyId && typeof window !== "undefined") {
+      window.localStorage.setItem(COMPANY_STORAGE_KEY, companyId);
+    }
+  }, [companyId]);
+
+  const setCompanyId = useCallback(
+    (id: string) => {
+      const params = new URLSearchParams(sp.toString());
+      params.set("companyId", id);
+      router.replace(`${pathname}?${params.toString()}`);
+    },
+    [router, pathname, sp]
+  );
+
+  const company = companies.find((c) => c.id === companyId) ?? null;
+
+  return { companies, company, companyId, setCompanyId, loading, error };
+}
+
+export function CompanySwitcher({
+  companies,
+  value,
+  onChange,
+  className = "",
+}: {
+  companies: PortalCompany[];
+  value: string | null;
+  onChange: (id: string) => void;
+  className?: string;
+}) {
+  return (
+    <label className={cx("block", className)}>
+      <span className="mb-1.5 block text-xs font-semibold text-[color:var(--muted)]">Company</span>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={companies.length <= 1}
+        className="w-full rounded-lg border border-[color:var(--border-soft)] bg-white px-3 py-2 text-sm font-semibold text-[color:var(--foreground)] shadow-sm outline-none transition focus:border-[color:var(--primary)] focus:ring-4 focus:ring-[color:var(--primary)]/15 disabled:cursor-default"
+      >
+        {companies.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function ReadOnlyNotice() {
+  return (
+    <PortalAlert tone="warning" title="Read-only access">
+      Your plan is read-only, so records can be viewed and exported but not changed. Renew or upgrade on the
+      Billing page to make changes again.
+    </PortalAlert>
+  );
+}
+
+/** What to show when a records API refuses the request or there is no company yet. */
+export function RecordsUnavailable({ error, status }: { error: string; status?: number }) {
+  if (status === 403 && /plan/i.test(error)) {
+    return (
+      <PortalEmptyState
+        icon="☁"
+        title="Cloud sync is not on your plan"
+        description="Invoices, quotes and customers appear here once your desktop app syncs on a Growth or Pro plan."
+      />
+    );
+  }
+
+  return <PortalAlert tone="danger">{error}</PortalAlert>;
+}
+
+export type SortState<F extends string> = { field: F; order: "asc" | "desc" };
+
+export function SortHeader<F extends string>({
+  label,
+  field,
+  sort,
+  onSort,
+  align = "left",
+}: {
+  label: string;
+  field: F;
+  sort: SortState<F>;
+  onSort: (next: SortState<F>) => void;
+  align?: "left" | "right";
+}) {
+  const active = sort.field === field;
+  return (
+    <th
+      className={cx("px-3 py-2 font-semibold", align === "right" ? "text-right" : "text-left")}
+      aria-sort={active ? (sort.order === "asc" ? "ascending" : "descending") : undefined}
+    >
+      <button
+        type="button"
+        onClick={() =>
+          onSort({ field, order: active && sort.order === "desc" ? "asc" : "desc" })
+        }
+        className={cx(
+          "inline-flex items-center gap-1 text-[11px] uppercase tracking-wide",
+          active ? "text-[color:var(--foreground)]" : "text-[color:var(--muted)] hover:text-[color:var(--foreground)]"
+        )}
+      >
+        {label}
+        <span aria-hidden="true">{active ? (sort.order === "asc" ? "▲" : "▼") : ""}</span>
+      </button>
+    </th>
+  );
+}
+
+export function StatusChip({ status }: { status?: string | null }) {
+  const s = String(status ?? "").trim().toLowerCase() || "draft";
+  const tone =
+    s === "paid" || s === "credited" || s === "accepted" || s === "converted" || s === "active"
+      ? "success"
+      : s === "sent"
+        ? "brand"
+        : "neutral";
+  return <Chip tone={tone}>{s.charAt(0).toUpperCase() + s.slice(1)}</Chip>;
+}
+
+export function formatMoney(value: number | null | undefined, currency = "ZAR") {
+  if (value == null || !Number.isFinite(Number(value))) return "—";
+  try {
+    return new Intl.NumberFormat("en-ZA", { style: "currency", currency: currency || "ZAR" }).format(
+      Number(value)
+    );
+  } catch {
+    return `${currency} ${Number(value).toFixed(2)}`;
+  }
+}
+
+export function formatDay(value?: string | null) {
+  if (!value) return "—";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString("en-ZA", { day: "numeric", month: "short", year: "numeric" });
+}
+
+/** Delays `value` until it has stopped changing for `ms`; used for search boxes. */
+export function useDebouncedValue<T>(value: T, ms = 300) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), ms);
+    return () => clearTimeout(t);
+  }, [value, ms]);
+  return debounced;
+}
@@ -5,6 +5,7 @@ import { notFound, redirect } from "next/navigation";
 
 import { getSessionCookieName, verifySession } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { roleRequiresTwoFactor } from "@/lib/twoFactor";
 
 export type AdminUser = {
   id: string;
@@ -14,7 +15,13 @@ export type AdminUser = {
   isActive: boolean;
 };
 
-export async function getAdminUser(): Promise<AdminUser | null> {
+type AdminAccount = {
+  user: AdminUser;
+  // The admin role requires 2FA (RolePolicy) and this account has not turned it on
+  twoFactorMissing: boolean;
+};
+
+async function loadAdminAccount(): Promise<AdminAccount | null> {
   const jar = await cookies();
   const token = jar.get(getSessionCookieName())?.value;
 
@@ -31,6 +38,7 @@ export async function getAdminUser(): Promise<AdminUser | null> {
         fullName: true,
         role: true,
         isActive: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -38,12 +46,22 @@ export async function getAdminUser(): Promise<AdminUser | null> {
     if (!user.isActive) return null;
     if (String(user.role || "user").toLowerCase() !== "admin") return null;
 
-    return user;
+    const { totpEnabledAt, ...admin } = user;
+    const twoFactorMissing = !totpEnabledAt && (await roleRequiresTwoFactor(admin.role));
+
+    return { user: admin, twoFactorMissing };
   } catch {
     return null;
   }
 }
 
+/** The signed-in admin, or null. Admins who still owe a required 2FA setup get null too. */
+export async function getAdminUser(): Promise<AdminUser | null> {
+  const account = await loadAdminAccount();
+  if (!account || account.twoFactorMissing) return null;
+  return account.user;
+}
+
 export async function requireAdmin(): Promise<AdminUser> {
   const jar = await cookies();
   const token = jar.get(getSessionCookieName())?.value;
@@ -52,11 +70,15 @@ export async function requireAdmin(): Promise<AdminUser> {
     redirect("/login?next=/admin");
   }
 
-  const admin = await getAdminUser();
+  const account = await loadAdminAccount();
 
-  if (!admin) {
+  if (!account) {
     notFound();
   }
 
-  return admin;
+  if (account.twoFactorMissing) {
+    redirect("/settings?twoFactor=required");
+  }
+
+  return account.user;
 }
@@ -120,6 +120,111 @@ export async function verifySession(token: string) {
   return { userId: decoded.userId, sessionId: decoded.sessionId };
 }
 
+// Pending 2FA sign-in: long enough to open the authenticator app, short enough to be useless if leaked
+const TWO_FACTOR_CHALLENGE_COOKIE = "ekasi_2fa_challenge";
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export function getTwoFactorChallengeCookieName() {
+  return TWO_FACTOR_CHALLENGE_COOKIE;
+}
+
+export function buildTwoFactorChallengeCookie(token: string) {
+  return {
+    name: TWO_FACTOR_CHALLENGE_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  };
+}
+
+/**
+ * Issued after the first factor (password or email OTP) when the account has
+ * 2FA on. It carries no session: `/api/auth/login` exchanges it, together
+ * with a TOTP or recovery code, for one. `cookieMaxAge` keeps the lifetime the
+ * first step asked for (OTP "remember me").
+ */
+export async function signTwoFactorChallenge(userId: string, cookieMaxAge?: number) {
+  const secret = getJwtSecret();
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new SignJWT({ userId, purpose: "2fa", ...(cookieMaxAge ? { cookieMaxAge } : {}) })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + TWO_FACTOR_CHALLENGE_TTL_SECONDS)
+    .sign(secret);
+}
+
+export async function verifyTwoFactorChallenge(token: string) {
+  const secret = getJwtSecret();
+  const { payload } = await jwtVerify(token, secret);
+
+  const userId = typeof payload.userId === "string" ? payload.userId.trim() : "";
+  if (!userId || payload.purpose !== "2fa") {
+    throw new Error("Invalid 2FA challenge payload");
+  }
+
+  const cookieMaxAge = Number(payload.cookieMaxAge ?? 0) || null;
+  return { userId, cookieMaxAge };
+}
+
+// Pending passkey ceremony: the WebAuthn challenge the browser must sign
+const PASSKEY_CHALLENGE_COOKIE = "ekasi_passkey_challenge";
+export const PASSKEY_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export type PasskeyCeremony = "register" | "login";
+
+export function getPasskeyChallengeCookieName() {
+  return PASSKEY_CHALLENGE_COOKIE;
+}
+
+export function buildPasskeyChallengeCookie(token: string) {
+  return {
+    name: PASSKEY_CHALLENGE_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: "strict" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: PASSKEY_CHALLENGE_TTL_SECONDS,
+  };
+}
+
+/**
+ * Binds a WebAuthn challenge to the ceremony that issued it (and, when
+ * registering, to the signed-in user) so a login challenge cannot be used to
+ * add a passkey and vice versa.
+ */
+export async function signPasskeyChallenge(
+  challenge: string,
+  ceremony: PasskeyCeremony,
+  userId?: string
+) {
+  const secret = getJwtSecret();
+  const now = Math.floor(Date.now() / 1000);
+
+  return await new SignJWT({ challenge, purpose: `passkey:${ceremony}`, ...(userId ? { userId } : {}) })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + PASSKEY_CHALLENGE_TTL_SECONDS)
+    .sign(secret);
+}
+
+export async function verifyPasskeyChallenge(token: string, ceremony: PasskeyCeremony) {
+  const secret = getJwtSecret();
+  const { payload } = await jwtVerify(token, secret);
+
+  const challenge = typeof payload.challenge === "string" ? payload.challenge : "";
+  if (!challenge || payload.purpose !== `passkey:${ceremony}`) {
+    throw new Error("Invalid passkey challenge payload");
+  }
+
+  const userId = typeof payload.userId === "string" ? payload.userId : null;
+  return { challenge, userId };
+}
+
 /**
  * For logout: we want to extract sessionId even if DB check fails
  * (e.g. session already revoked/deleted).
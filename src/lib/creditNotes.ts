@@ -0,0 +1,161 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Credit notes issued against invoices.
+ *
+ * A credit note reduces what the customer owes on one invoice: its total is
+ * part of that invoice's ledger (see `@/lib/payments`), and its VAT comes off
+ * the output VAT of the period it was issued in. A note is either "issued" or
+ * "void"; a voided note stays on record but no longer counts anywhere.
+ */
+
+export const CREDIT_NOTE_STATUSES = ["issued", "void"] as const;
+
+export type CreditNoteStatus = (typeof CREDIT_NOTE_STATUSES)[number];
+
+/**
+ * Invoices in these states were never issued (drafts) or were withdrawn, so
+ * they cannot be credited and carry no output VAT.
+ */
+export const UNISSUED_INVOICE_STATUSES = ["draft", "cancelled"] as const;
+
+export const creditedInvoiceSelect = {
+  id: true,
+  number: true,
+  customerId: true,
+  customerName: true,
+  customerAddress: true,
+  currency: true,
+  status: true,
+  total: true,
+  deletedAt: true,
+} as const;
+
+export type CreditedInvoice = Prisma.InvoiceGetPayload<{ select: typeof creditedInvoiceSelect }>;
+
+export type CreditNoteInput = {
+  customerId: string | null;
+  customerName: string;
+  customerAddress: string | null;
+  issueDate: string;
+  reason: string | null;
+  publicComments: string | null;
+  internalNotes: string | null;
+  currency: string;
+  status: CreditNoteStatus;
+  vatRate: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  deletedAt: Date | null;
+};
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function toOptionalText(value: unknown, max: number) {
+  const s = value == null ? "" : String(value).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function toAmount(value: unknown): number {
+  const n = typeof value === "string" ? Number(value.trim()) : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const d = new Date(value as string);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export function parseCreditNoteStatus(value: unknown): CreditNoteStatus | null {
+  const s = String(value ?? "").trim().toLowerCase();
+  if (!s) return "issued";
+  return (CREDIT_NOTE_STATUSES as readonly string[]).includes(s) ? (s as CreditNoteStatus) : null;
+}
+
+/** True while the note counts against its invoice's balance and the VAT return. */
+export function isLiveCreditNote(note: { status: string; deletedAt: Date | null }) {
+  return note.deletedAt == null && note.status !== "void";
+}
+
+/**
+ * Header fields for a credit note. Totals must already be resolved from the
+ * line items; customer details default to the invoice's, and the currency
+ * always is the invoice's.
+ */
+export function parseCreditNoteInput(
+  body: Record<string, unknown>,
+  invoice: CreditedInvoice
+): { creditNote: CreditNoteInput } | { error: string } {
+  const issueDate = toOptionalText(body.issueDate, 30);
+  if (!issueDate) return { error: "Issue date is required." };
+
+  const status = parseCreditNoteStatus(body.status);
+  if (!status) return { error: `Credit note status must be one of ${CREDIT_NOTE_STATUSES.join(", ")}.` };
+
+  const currency = toOptionalText(body.currency, 10);
+  if (currency && currency !== invoice.currency) {
+    return { error: `A credit note must be in the invoice's currency (${invoice.currency}).` };
+  }
+
+  const total = roundMoney(toAmount(body.total));
+  if (total <= 0) return { error: "Credit note total must be more than zero." };
+
+  return {
+    creditNote: {
+      customerId: toOptionalText(body.customerId, 191) ?? invoice.customerId,
+      customerName: toOptionalText(body.customerName, 200) ?? invoice.customerName,
+      customerAddress: toOptionalText(body.customerAddress, 500) ?? invoice.customerAddress,
+      issueDate,
+      reason: toOptionalText(body.reason, 500),
+      publicComments: toOptionalText(body.publicComments, 4000),
+      internalNotes: toOptionalText(body.internalNotes, 4000),
+      currency: invoice.currency,
+      status,
+      vatRate: toAmount(body.vatRate),
+      subtotal: roundMoney(toAmount(body.subtotal)),
+      vat: roundMoney(toAmount(body.vat)),
+      total,
+      deletedAt: toOptionalDate(body.deletedAt),
+    },
+  };
+}
+
+/**
+ * Why a live credit note cannot stand against the invoice, or null when it
+ * can. Notes that are voided or deleted are always accepted, so a device can
+ * still record their removal after the invoice changed.
+ *
+ * Run it inside the write transaction, after the company's sync revision was
+ * taken, so two notes written at once are checked against each other.
+ */
+export async function checkCreditNoteAgainstInvoice(
+  tx: Prisma.TransactionClient,
+  invoice: CreditedInvoice,
+  creditNoteId: string,
+  note: { status: string; total: number; deletedAt: Date | null }
+): Promise<string | null> {
+  if (!isLiveCreditNote(note)) return null;
+
+  if (invoice.deletedAt) return "The invoice has been deleted.";
+  const invoiceStatus = invoice.status.trim().toLowerCase();
+  if ((UNISSUED_INVOICE_STATUSES as readonly string[]).includes(invoiceStatus)) {
+    return `A ${invoiceStatus} invoice cannot be credited.`;
+  }
+
+  const others = await tx.creditNote.findMany({
+    where: { invoiceId: invoice.id, deletedAt: null, status: { not: "void" }, NOT: { id: creditNoteId } },
+    select: { total: true },
+  });
+  const credited = roundMoney(others.reduce((sum, row) => sum + Number(row.total), 0));
+  const remaining = Math.max(0, roundMoney(Number(invoice.total) - credited));
+
+  if (note.total > remaining) {
+    return `Credit notes cannot total more than the invoice: ${remaining.toFixed(2)} is left to credit on ${invoice.number}.`;
+  }
+
+  return null;
+}
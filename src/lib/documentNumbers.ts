@@ -0,0 +1,188 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Server-owned invoice, quote, credit note and purchase order numbers.
+ *
+ * Each company keeps one counter per document type and prefix. The counter row
+ * is locked by the allocating transaction until it commits, so two devices can
+ * never be handed the same number. Numbers allocated while the document itself
+ * is being saved are gap-free; blocks reserved for offline use leave a gap for
+ * every number the device never uses.
+ */
+
+export type NumberedDocumentType = "invoice" | "quote" | "credit-note" | "purchase-order";
+
+export const DEFAULT_DOCUMENT_PREFIXES: Record<NumberedDocumentType, string> = {
+  invoice: "INV-",
+  quote: "QUO-",
+  "credit-note": "CN-",
+  "purchase-order": "PO-",
+};
+
+export const MAX_NUMBER_RESERVATION = 100;
+
+const SEQUENCE_WIDTH = 4;
+
+const DOCUMENT_LABELS: Record<NumberedDocumentType, string> = {
+  invoice: "An invoice",
+  quote: "A quote",
+  "credit-note": "A credit note",
+  "purchase-order": "A purchase order",
+};
+
+export function isNumberedDocumentType(value: unknown): value is NumberedDocumentType {
+  return value === "invoice" || value === "quote" || value === "credit-note" || value === "purchase-order";
+}
+
+export function formatDocumentNumber(prefix: string, sequence: number) {
+  return `${prefix}${String(sequence).padStart(SEQUENCE_WIDTH, "0")}`;
+}
+
+/** The sequence part of `number` when it is `prefix` followed only by digits. */
+export function parseDocumentSequence(prefix: string, number: string): number | null {
+  if (!number.startsWith(prefix)) return null;
+  const rest = number.slice(prefix.length);
+  if (!/^\d{1,9}$/.test(rest)) return null;
+  return Number(rest);
+}
+
+export async function resolveDocumentPrefix(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType
+) {
+  const settings = await tx.companySettings.findUnique({
+    where: { companyId },
+    select: { invoicePrefix: true, quotePrefix: true, creditNotePrefix: true, purchaseOrderPrefix: true },
+  });
+
+  const configured = {
+    invoice: settings?.invoicePrefix,
+    quote: settings?.quotePrefix,
+    "credit-note": settings?.creditNotePrefix,
+    "purchase-order": settings?.purchaseOrderPrefix,
+  }[documentType];
+  return configured?.trim().slice(0, 20) || DEFAULT_DOCUMENT_PREFIXES[documentType];
+}
+
+async function highestUsedSequence(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType,
+  prefix: string
+) {
+  const where = { companyId, number: { startsWith: prefix } };
+  const select = { number: true } as const;
+  const rows =
+    documentType === "invoice"
+      ? await tx.invoice.findMany({ where, select })
+      : documentType === "quote"
+        ? await tx.quote.findMany({ where, select })
+        : documentType === "credit-note"
+          ? await tx.creditNote.findMany({ where, select })
+          : await tx.purchaseOrder.findMany({ where, select });
+
+  return rows.reduce((max, row) => Math.max(max, parseDocumentSequence(prefix, row.number) ?? 0), 0);
+}
+
+/**
+ * Makes sure the counter exists. A new counter starts after the highest number
+ * already stored under the prefix, so companies that numbered on their devices
+ * before the server took over carry on from where they were.
+ */
+async function ensureCounter(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType,
+  prefix: string
+) {
+  const key = { companyId_documentType_prefix: { companyId, documentType, prefix } };
+  const existing = await tx.documentNumberCounter.findUnique({ where: key, select: { lastNumber: true } });
+  if (existing) return key;
+
+  const seed = await highestUsedSequence(tx, companyId, documentType, prefix);
+  await tx.documentNumberCounter.upsert({
+    where: key,
+    create: { companyId, documentType, prefix, lastNumber: seed },
+    update: {},
+  });
+  return key;
+}
+
+/** Takes the next `count` numbers for the company, in order. */
+export async function allocateDocumentNumbers(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType,
+  count = 1
+) {
+  const prefix = await resolveDocumentPrefix(tx, companyId, documentType);
+  const key = await ensureCounter(tx, companyId, documentType, prefix);
+
+  const counter = await tx.documentNumberCounter.update({
+    where: key,
+    data: { lastNumber: { increment: count } },
+    select: { lastNumber: true },
+  });
+
+  const first = counter.lastNumber - count + 1;
+  const numbers = Array.from({ length: count }, (_, i) => formatDocumentNumber(prefix, first + i));
+
+  return { prefix, first, last: counter.lastNumber, numbers };
+}
+
+/**
+ * The number a document is saved under: the device's own choice when it sent
+ * one, otherwise the next number from the counter.
+ */
+export async function takeDocumentNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType,
+  requested: string | null
+) {
+  if (!requested) {
+    const { numbers } = await allocateDocumentNumbers(tx, companyId, documentType);
+    return numbers[0]!;
+  }
+
+  await recordDocumentNumber(tx, companyId, documentType, requested);
+  return requested;
+}
+
+/**
+ * Moves the counter past a number a device chose itself (older desktop builds,
+ * or a reserved block), so later allocations never hand it out again.
+ */
+export async function recordDocumentNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: NumberedDocumentType,
+  number: string
+) {
+  const prefix = await resolveDocumentPrefix(tx, companyId, documentType);
+  const sequence = parseDocumentSequence(prefix, number);
+  if (sequence == null) return;
+
+  const key = await ensureCounter(tx, companyId, documentType, prefix);
+  await tx.documentNumberCounter.updateMany({
+    where: { ...key.companyId_documentType_prefix, lastNumber: { lt: sequence } },
+    data: { lastNumber: sequence },
+  });
+}
+
+/** True when a write failed because another document in the company already has the number. */
+export function isDuplicateDocumentNumberError(err: unknown) {
+  if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== "P2002") {
+    return false;
+  }
+  const target = err.meta?.target;
+  return Array.isArray(target) ? target.includes("number") : String(target ?? "").includes("number");
+}
+
+export function duplicateDocumentNumberMessage(documentType: NumberedDocumentType, number?: string | null) {
+  const label = DOCUMENT_LABELS[documentType];
+  return number
+    ? `${label} numbered ${number} already exists for this company.`
+    : `${label} with that number already exists for this company.`;
+}
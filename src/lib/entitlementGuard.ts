@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+
+import { loadEntitlement, type LoadedEntitlement } from "@/lib/entitlements";
+
+/** What a route needs from the user's plan before it does anything. */
+export type EntitlementRequirement = {
+  cloudSync?: boolean;
+  storesync?: boolean;
+  /**
+   * Refuse read-only entitlements (blocked, lapsed or explicitly read-only)
+   * with `READ_ONLY_ERROR_CODE`. Every mutating company-scoped route asks for
+   * this; reads never do, so a read-only account can still see and export
+   * its data.
+   */
+  writable?: boolean;
+};
+
+/** `code` of the 403 returned for writes while the account is read-only. */
+export const READ_ONLY_ERROR_CODE = "READ_ONLY";
+
+export type EntitlementLimit = keyof LoadedEntitlement["features"]["limits"];
+
+export type EntitlementGate =
+  | { ok: true; entitlement: LoadedEntitlement }
+  | { ok: false; response: NextResponse };
+
+const LIMIT_LABELS: Record<EntitlementLimit, string> = {
+  companies: "Company",
+  invoice: "Invoice",
+  quote: "Quote",
+  purchase_order: "Purchase order",
+};
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function forbidden(message: string, code?: string) {
+  return NextResponse.json(
+    { success: false, ...(code ? { code } : {}), error: message },
+    { status: 403, headers: noStoreHeaders() }
+  );
+}
+
+/**
+ * Loads the user's entitlement and checks it against what the route needs.
+ *
+ *   const gate = await requireEntitlement(auth.userId, { cloudSync: true });
+ *   if (!gate.ok) return gate.response;
+ */
+export async function requireEntitlement(
+  userId: string,
+  requirement: EntitlementRequirement = {}
+): Promise<EntitlementGate> {
+  const entitlement = await loadEntitlement(userId);
+  const { features } = entitlement;
+
+  // Checked first so every refused write carries the same code, whatever
+  // else the plan lacks.
+  if (requirement.writable && features.readOnly) {
+    return {
+      ok: false,
+      response: forbidden(
+        "Your account is read-only. Renew or upgrade your plan to make changes.",
+        READ_ONLY_ERROR_CODE
+      ),
+    };
+  }
+
+  if (!entitlement.exists && (requirement.cloudSync || requirement.storesync)) {
+    return { ok: false, response: forbidden("No entitlement found.") };
+  }
+
+  if (requirement.cloudSync && !features.cloudSync) {
+    return { ok: false, response: forbidden("Cloud sync is not available on your plan.") };
+  }
+
+  if (requirement.storesync && !features.storesync) {
+    return { ok: false, response: forbidden("Store sync is not available on your plan.") };
+  }
+
+  return { ok: true, entitlement };
+}
+
+/** Refuses adding one more when `used` has already reached the plan's limit. */
+export function requireWithinLimit(
+  entitlement: LoadedEntitlement,
+  limit: EntitlementLimit,
+  used: number
+): { ok: true } | { ok: false; response: NextResponse } {
+  const max = entitlement.features.limits[limit];
+  if (used < max) return { ok: true };
+
+  return {
+    ok: false,
+    response: forbidden(
+      `${LIMIT_LABELS[limit]} limit reached for your plan. Maximum allowed: ${max}.`
+    ),
+  };
+}
@@ -1,14 +1,21 @@
 // src/lib/entitlements.ts
-import type { EntitlementStatus, EntitlementTier } from "@prisma/client";
+import type { EntitlementStatus, EntitlementTier, Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
 
 type RawFeatures = Record<string, any> | null | undefined;
 
 export type ResolvedEntitlementFeatures = {
   readOnly: boolean;
   cloudSync: boolean;
+  storesync: boolean;
   maxActiveSessions: number;
   limits: {
     companies: number;
+    /** Documents each company may create per calendar month (UTC). */
+    invoice: number;
+    quote: number;
+    purchase_order: number;
   };
 };
 
@@ -25,7 +32,13 @@ function asObject(value: unknown): Record<string, any> {
 }
 
 function asBoolean(value: unknown, fallback: boolean): boolean {
-  return typeof value === "boolean" ? value : fallback;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string") {
+    const s = value.toLowerCase().trim();
+    if (s === "true") return true;
+    if (s === "false") return false;
+  }
+  return fallback;
 }
 
 function asPositiveInt(value: unknown, fallback: number): number {
@@ -41,12 +54,35 @@ function asPositiveInt(value: unknown, fallback: number): number {
   return fallback;
 }
 
+/** Feature keys that override tier capabilities; see `resolveEntitlementSnapshot`. */
+const CAPABILITY_KEYS = ["readOnly", "cloudSync", "storesync", "maxActiveSessions", "maxCompanies", "limits"];
+
+/**
+ * The features blob with earlier plans' capability overrides dropped, so the
+ * new tier's own capabilities apply. Billing and audit metadata is kept.
+ */
+export function withoutCapabilityOverrides(features: unknown): Prisma.InputJsonObject {
+  const base = { ...asObject(features) };
+  for (const key of CAPABILITY_KEYS) delete base[key];
+  return base as Prisma.InputJsonObject;
+}
+
+/** Whether a trial ending at `trialEndsAt` still grants its tier at `now`. */
+export function isTrialLive(trialEndsAt: Date | null | undefined, now = new Date()) {
+  return !!trialEndsAt && trialEndsAt.getTime() > now.getTime();
+}
+
 export function resolveEntitlementSnapshot(input: {
   tier?: EntitlementTier | null;
   status?: EntitlementStatus | null;
   features?: RawFeatures;
+  /** Only read for the trial tier: a trial past its end resolves as free. */
+  trialEndsAt?: Date | null;
 }): ResolvedEntitlementSnapshot {
-  const tier = input.tier ?? "none";
+  const tier =
+    input.tier === "trial" && !isTrialLive(input.trialEndsAt)
+      ? "free"
+      : input.tier ?? "none";
   const status = input.status ?? "none";
 
   const featureOverrides = asObject(input.features);
@@ -59,32 +95,45 @@ export function resolveEntitlementSnapshot(input: {
     none: {
       readOnly: true,
       cloudSync: false,
-      maxActiveSessions: 0,
-      limits: { companies: 0 },
+      storesync: false,
+      maxActiveSessions: 1,
+      limits: { companies: 0, invoice: 0, quote: 0, purchase_order: 0 },
     },
     free: {
       readOnly: false,
       cloudSync: false,
+      storesync: false,
       maxActiveSessions: 1,
-      limits: { companies: 1 },
+      limits: { companies: 1, invoice: 5, quote: 5, purchase_order: 5 },
     },
     starter: {
       readOnly: false,
       cloudSync: false,
+      storesync: false,
       maxActiveSessions: 1,
-      limits: { companies: 1 },
+      limits: { companies: 1, invoice: 999999, quote: 999999, purchase_order: 999999 },
     },
     growth: {
       readOnly: false,
       cloudSync: true,
+      storesync: true,
       maxActiveSessions: 2,
-      limits: { companies: 3 },
+      limits: { companies: 3, invoice: 999999, quote: 999999, purchase_order: 999999 },
     },
     pro: {
       readOnly: false,
       cloudSync: true,
+      storesync: true,
       maxActiveSessions: 4,
-      limits: { companies: 5 },
+      limits: { companies: 5, invoice: 999999, quote: 999999, purchase_order: 999999 },
+    },
+    // a trial is Growth for a limited time
+    trial: {
+      readOnly: false,
+      cloudSync: true,
+      storesync: true,
+      maxActiveSessions: 2,
+      limits: { companies: 3, invoice: 999999, quote: 999999, purchase_order: 999999 },
     },
   };
 
@@ -96,24 +145,65 @@ export function resolveEntitlementSnapshot(input: {
     features: {
       readOnly: asBoolean(featureOverrides.readOnly, base.readOnly),
       cloudSync: asBoolean(featureOverrides.cloudSync, base.cloudSync),
-      maxActiveSessions: asPositiveInt(
-        featureOverrides.maxActiveSessions,
-        base.maxActiveSessions
+      storesync: asBoolean(featureOverrides.storesync, base.storesync),
+      maxActiveSessions: Math.max(
+        1,
+        asPositiveInt(featureOverrides.maxActiveSessions, base.maxActiveSessions)
       ),
       limits: {
+        // `maxCompanies` is the older top-level spelling of this override.
         companies: asPositiveInt(
           limitsOverrides.companies,
-          base.limits.companies
+          asPositiveInt(featureOverrides.maxCompanies, base.limits.companies)
+        ),
+        invoice: asPositiveInt(limitsOverrides.invoice, base.limits.invoice),
+        quote: asPositiveInt(limitsOverrides.quote, base.limits.quote),
+        purchase_order: asPositiveInt(
+          limitsOverrides.purchase_order,
+          base.limits.purchase_order
         ),
       },
     },
   };
 
-  // safety net: blocked users should effectively be read-only and not sync
+  // safety net: blocked users should effectively be read-only and not sync,
+  // but keep one session so they can still sign in and settle their billing
   if (status === "blocked" || status === "none") {
     resolved.features.readOnly = true;
     resolved.features.cloudSync = false;
+    resolved.features.storesync = false;
+    resolved.features.maxActiveSessions = 1;
   }
 
   return resolved;
+}
+
+export type LoadedEntitlement = ResolvedEntitlementSnapshot & {
+  /** False when the user has no entitlement row yet and got the "none" defaults. */
+  exists: boolean;
+};
+
+/**
+ * The user's entitlement as every route should see it. Plan capabilities live
+ * in `resolveEntitlementSnapshot` only; routes read them from here (or through
+ * `requireEntitlement` in `@/lib/entitlementGuard`) instead of re-deriving them.
+ */
+export async function loadEntitlement(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<LoadedEntitlement> {
+  const entitlement = await client.entitlement.findUnique({
+    where: { userId },
+    select: { tier: true, status: true, features: true, trialEndsAt: true },
+  });
+
+  return {
+    ...resolveEntitlementSnapshot({
+      tier: entitlement?.tier,
+      status: entitlement?.status,
+      features: entitlement?.features as RawFeatures,
+      trialEndsAt: entitlement?.trialEndsAt,
+    }),
+    exists: !!entitlement,
+  };
 }
\ No newline at end of file
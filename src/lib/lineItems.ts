@@ -0,0 +1,207 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Structured invoice/quote line items.
+ *
+ * Line amounts and document totals are always computed here, on the server.
+ * A client may send its own `subtotal`/`vat`/`total`, but only as a check:
+ * a payload whose totals disagree with its lines is rejected rather than stored.
+ */
+
+export const MAX_LINE_ITEMS = 500;
+
+// Lines are rounded to the cent one by one, so a client that rounds VAT once on
+// the subtotal can drift up to a cent per line; the check allows exactly that.
+const TOTALS_TOLERANCE_PER_LINE = 0.01;
+
+export const lineItemSelect = {
+  id: true,
+  position: true,
+  productId: true,
+  description: true,
+  quantity: true,
+  unitPrice: true,
+  discount: true,
+  vatRate: true,
+  lineSubtotal: true,
+  lineVat: true,
+  lineTotal: true,
+} as const;
+
+export type LineItemRow = Prisma.InvoiceLineItemGetPayload<{ select: typeof lineItemSelect }>;
+
+export type LineItemInput = {
+  position: number;
+  productId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  vatRate: number;
+  lineSubtotal: number;
+  lineVat: number;
+  lineTotal: number;
+};
+
+export type DocumentTotals = {
+  subtotal: number;
+  vat: number;
+  total: number;
+};
+
+type AmountLike = number | Prisma.Decimal;
+
+export function mapLineItemForResponse(row: LineItemRow) {
+  return {
+    id: row.id,
+    position: row.position,
+    productId: row.productId,
+    description: row.description,
+    quantity: Number(row.quantity),
+    unitPrice: Number(row.unitPrice),
+    discount: Number(row.discount),
+    vatRate: Number(row.vatRate),
+    lineSubtotal: Number(row.lineSubtotal),
+    lineVat: Number(row.lineVat),
+    lineTotal: Number(row.lineTotal),
+  };
+}
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value.trim());
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function parseLineItem(raw: unknown, position: number): LineItemInput | string {
+  const label = `Line ${position + 1}`;
+  if (!isPlainObject(raw)) return `${label} must be an object.`;
+
+  const description = String(raw.description ?? raw.name ?? "").trim();
+  if (!description) return `${label}: description is required.`;
+
+  const quantity = toNumber(raw.quantity ?? raw.qty);
+  if (quantity == null || quantity < 0) return `${label}: quantity must be zero or more.`;
+
+  const unitPrice = toNumber(raw.unitPrice ?? raw.price);
+  if (unitPrice == null || unitPrice < 0) return `${label}: unit price must be zero or more.`;
+
+  const discount = raw.discount == null || raw.discount === "" ? 0 : toNumber(raw.discount);
+  if (discount == null || discount < 0) return `${label}: discount must be zero or more.`;
+
+  const vatRate = raw.vatRate == null || raw.vatRate === "" ? 0 : toNumber(raw.vatRate);
+  if (vatRate == null || vatRate < 0 || vatRate > 100) {
+    return `${label}: VAT rate must be between 0 and 100.`;
+  }
+
+  const gross = roundMoney(quantity * unitPrice);
+  if (discount > gross) return `${label}: discount cannot exceed the line amount.`;
+
+  const lineSubtotal = roundMoney(gross - discount);
+  const lineVat = roundMoney((lineSubtotal * vatRate) / 100);
+  const productId = raw.productId == null ? "" : String(raw.productId).trim();
+
+  return {
+    position,
+    productId: productId ? productId.slice(0, 191) : null,
+    description: description.slice(0, 2000),
+    quantity,
+    unitPrice,
+    discount,
+    vatRate,
+    lineSubtotal,
+    lineVat,
+    lineTotal: roundMoney(lineSubtotal + lineVat),
+  };
+}
+
+export function parseLineItems(value: unknown): { items: LineItemInput[] } | { error: string } {
+  if (!Array.isArray(value)) return { error: "lineItems must be an array." };
+  if (value.length > MAX_LINE_ITEMS) {
+    return { error: `A document can have at most ${MAX_LINE_ITEMS} line items.` };
+  }
+
+  const items: LineItemInput[] = [];
+  for (const [index, raw] of value.entries()) {
+    const parsed = parseLineItem(raw, index);
+    if (typeof parsed === "string") return { error: parsed };
+    items.push(parsed);
+  }
+
+  return { items };
+}
+
+export function sumLineItems(
+  items: { lineSubtotal: AmountLike; lineVat: AmountLike }[]
+): DocumentTotals {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + Number(item.lineSubtotal), 0));
+  const vat = roundMoney(items.reduce((sum, item) => sum + Number(item.lineVat), 0));
+  return { subtotal, vat, total: roundMoney(subtotal + vat) };
+}
+
+/** Header total fields the client sent that disagree with the totals computed from `lineCount` lines. */
+export function findTotalsMismatch(body: Record<string, unknown>, totals: DocumentTotals, lineCount: number) {
+  const tolerance = TOTALS_TOLERANCE_PER_LINE * Math.max(lineCount, 1);
+  return (["subtotal", "vat", "total"] as const).filter((field) => {
+    const sent = body[field];
+    if (sent === undefined || sent === null || sent === "") return false;
+    const n = toNumber(sent);
+    return n == null || Math.abs(n - totals[field]) > tolerance;
+  });
+}
+
+export type ResolvedTotals =
+  | { ok: true; lineItems: LineItemInput[] | undefined; totals: DocumentTotals | null }
+  | { ok: false; error: string; expected?: DocumentTotals };
+
+/**
+ * Works out the totals a write must store.
+ *
+ * - `lineItems` sent: they are validated, replace the stored lines, and drive the totals.
+ * - no `lineItems`, but the document already has lines: the stored lines drive
+ *   the totals (older desktop builds only ever send header fields).
+ * - neither: a header-only document; the client's totals are kept as before.
+ */
+export function resolveDocumentTotals(
+  body: Record<string, unknown>,
+  storedItems: { lineSubtotal: AmountLike; lineVat: AmountLike }[] | null | undefined
+): ResolvedTotals {
+  let lineItems: LineItemInput[] | undefined;
+  let totals: DocumentTotals | null = null;
+  let lineCount = 0;
+
+  if (body.lineItems !== undefined && body.lineItems !== null) {
+    const parsed = parseLineItems(body.lineItems);
+    if ("error" in parsed) return { ok: false, error: parsed.error };
+    lineItems = parsed.items;
+    totals = sumLineItems(parsed.items);
+    lineCount = parsed.items.length;
+  } else if (storedItems && storedItems.length > 0) {
+    totals = sumLineItems(storedItems);
+    lineCount = storedItems.length;
+  }
+
+  if (!totals) return { ok: true, lineItems, totals };
+
+  const mismatched = findTotalsMismatch(body, totals, lineCount);
+  if (mismatched.length > 0) {
+    return {
+      ok: false,
+      error: `Totals do not match the line items (${mismatched.join(", ")}).`,
+      expected: totals,
+    };
+  }
+
+  return { ok: true, lineItems, totals };
+}
@@ -0,0 +1,117 @@
+import type { NextRequest } from "next/server";
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from "@simplewebauthn/server";
+
+import { PASSKEY_CHALLENGE_TTL_SECONDS } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+
+/**
+ * Passkey (WebAuthn) sign-in.
+ *
+ * Passkeys are registered as discoverable credentials with user verification
+ * (fingerprint, face or device PIN) required, so the browser offers the right
+ * account without an email being typed, and a passkey login counts as two
+ * factors: it skips the authenticator-app step. Only the credential public key
+ * is stored. Each ceremony's challenge travels in a short-lived signed cookie
+ * (`signPasskeyChallenge`). A sign-in challenge is also kept server-side as a
+ * single-use nonce (`PasskeyChallenge`) and deleted when it is verified, so a
+ * captured assertion cannot be replayed while its cookie is still valid.
+ *
+ * The relying party is the portal's public origin. Set WEBAUTHN_ORIGIN and
+ * WEBAUTHN_RP_ID when the app is served from a different host than APP_URL.
+ */
+
+export const PASSKEY_RP_NAME = process.env.WEBAUTHN_RP_NAME || "eKasiBooks";
+export const MAX_PASSKEYS_PER_USER = 10;
+
+const PASSKEY_NAME_MAX_LENGTH = 60;
+
+const KNOWN_TRANSPORTS = new Set<string>([
+  "ble",
+  "cable",
+  "hybrid",
+  "internal",
+  "nfc",
+  "smart-card",
+  "usb",
+]);
+
+export function getRelyingParty(req: NextRequest) {
+  const configured = (
+    process.env.WEBAUTHN_ORIGIN ||
+    process.env.APP_URL ||
+    process.env.NEXT_PUBLIC_APP_URL ||
+    ""
+  ).trim();
+  const origin = configured ? configured.replace(/\/$/, "") : req.nextUrl.origin;
+  const rpID = (process.env.WEBAUTHN_RP_ID || "").trim() || new URL(origin).hostname;
+
+  return { rpID, rpName: PASSKEY_RP_NAME, origin };
+}
+
+/** Records a sign-in challenge so `consumeLoginChallenge` can accept it exactly once. */
+export async function storeLoginChallenge(challenge: string) {
+  const now = new Date();
+
+  // Expired challenges are never consumed; clear them as new ones are issued.
+  await prisma.passkeyChallenge.deleteMany({ where: { expiresAt: { lte: now } } });
+  await prisma.passkeyChallenge.create({
+    data: {
+      challenge,
+      expiresAt: new Date(now.getTime() + PASSKEY_CHALLENGE_TTL_SECONDS * 1000),
+    },
+  });
+}
+
+/**
+ * Deletes a sign-in challenge, returning whether it was still live. Only the
+ * first verification of a challenge gets true, whatever its outcome.
+ */
+export async function consumeLoginChallenge(challenge: string) {
+  const { count } = await prisma.passkeyChallenge.deleteMany({
+    where: { challenge, expiresAt: { gt: new Date() } },
+  });
+  return count > 0;
+}
+
+export function toTransports(values: unknown): AuthenticatorTransportFuture[] {
+  if (!Array.isArray(values)) return [];
+  return values.filter(
+    (v): v is AuthenticatorTransportFuture => typeof v === "string" && KNOWN_TRANSPORTS.has(v)
+  );
+}
+
+/** Shape a stored row the way `verifyAuthenticationResponse` expects it. */
+export function toWebAuthnCredential(passkey: {
+  credentialId: string;
+  publicKey: Uint8Array;
+  counter: number;
+  transports: string[];
+}): WebAuthnCredential {
+  return {
+    id: passkey.credentialId,
+    publicKey: new Uint8Array(passkey.publicKey),
+    counter: passkey.counter,
+    transports: toTransports(passkey.transports),
+  };
+}
+
+export function cleanPasskeyName(value: unknown) {
+  return String(value ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, PASSKEY_NAME_MAX_LENGTH);
+}
+
+/** A starting name users can recognise in the list, e.g. "Windows PC". */
+export function defaultPasskeyName(userAgent: string) {
+  const ua = userAgent.toLowerCase();
+
+  if (ua.includes("iphone")) return "iPhone";
+  if (ua.includes("ipad")) return "iPad";
+  if (ua.includes("android")) return "Android device";
+  if (ua.includes("windows")) return "Windows PC";
+  if (ua.includes("mac os")) return "Mac";
+  if (ua.includes("cros")) return "Chromebook";
+  if (ua.includes("linux")) return "Linux PC";
+  return "Passkey";
+}
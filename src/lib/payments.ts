@@ -0,0 +1,206 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Customer payments and credit notes recorded against invoices.
+ *
+ * Once an invoice has payments or credits in the ledger, its `balance`,
+ * `status` and `paidDate` follow the ledger: every invoice write recomputes
+ * them here, so a device that still sends its own balance cannot drift from
+ * what was received or credited. Only the type import from Prisma is used, so
+ * the portal can share the method list and parsing.
+ */
+
+export const PAYMENT_METHODS = ["eft", "cash", "card", "cheque", "other"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  eft: "EFT",
+  cash: "Cash",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+};
+
+export type PaymentInput = {
+  paidOn: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  notes: string | null;
+};
+
+export type InvoiceSettlement = {
+  balance: number;
+  status: string;
+  paidDate: string | null;
+};
+
+type LedgerEntry = {
+  amount: number;
+  paidOn: string;
+};
+
+export type InvoiceLedger = {
+  payments: LedgerEntry[];
+  /** Total of the credit notes issued against the invoice. */
+  credited: number;
+};
+
+function roundMoney(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function toOptionalText(value: unknown, max: number) {
+  const s = value == null ? "" : String(value).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export function todayIsoDate() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function isPaymentMethod(value: string): value is PaymentMethod {
+  return (PAYMENT_METHODS as readonly string[]).includes(value);
+}
+
+export function parsePaymentInput(body: Record<string, unknown>): { payment: PaymentInput } | { error: string } {
+  const paidOn = String(body.paidOn ?? body.date ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(paidOn) || Number.isNaN(new Date(paidOn).getTime())) {
+    return { error: "Payment date must be a YYYY-MM-DD date." };
+  }
+
+  const amount = typeof body.amount === "string" ? Number(body.amount.trim()) : Number(body.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: "Payment amount must be more than zero." };
+  }
+
+  const method = String(body.method ?? "").trim().toLowerCase();
+  if (!isPaymentMethod(method)) {
+    return { error: `Payment method must be one of ${PAYMENT_METHODS.join(", ")}.` };
+  }
+
+  return {
+    payment: {
+      paidOn,
+      amount: roundMoney(amount),
+      method,
+      reference: toOptionalText(body.reference, 200),
+      notes: toOptionalText(body.notes, 2000),
+    },
+  };
+}
+
+/**
+ * Balance and status from the ledger. Cancelled invoices keep their status;
+ * a draft with nothing received stays a draft. An invoice settled by credit
+ * notes alone is "credited"; once any payment helped settle it, it is "paid".
+ */
+export function settleInvoice(
+  invoice: { total: number; status: string; dueDate: string | null },
+  ledger: InvoiceLedger,
+  today = todayIsoDate()
+): InvoiceSettlement {
+  const { payments } = ledger;
+  const total = roundMoney(invoice.total);
+  const paid = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+  const credited = roundMoney(ledger.credited);
+  const balance = Math.max(0, roundMoney(total - paid - credited));
+  const current = invoice.status.trim().toLowerCase();
+
+  if (current === "cancelled") {
+    return { balance, status: current, paidDate: null };
+  }
+
+  if (paid > 0 && balance === 0) {
+    const paidDate = payments.reduce((latest, p) => (p.paidOn > latest ? p.paidOn : latest), "");
+    return { balance, status: "paid", paidDate };
+  }
+
+  if (credited > 0 && balance === 0) {
+    return { balance, status: "credited", paidDate: null };
+  }
+
+  const dueDate = invoice.dueDate?.slice(0, 10) ?? "";
+  if (dueDate && dueDate < today && (paid > 0 || credited > 0 || current !== "draft")) {
+    return { balance, status: "overdue", paidDate: null };
+  }
+
+  if (paid > 0 || credited > 0) return { balance, status: "partial", paidDate: null };
+  return { balance, status: current === "draft" ? "draft" : "unpaid", paidDate: null };
+}
+
+// Statuses that never turn overdue: nothing is owed yet, or nothing is owed any more.
+const NEVER_OVERDUE_STATUSES = ["draft", "paid", "credited", "cancelled", "overdue"];
+
+/**
+ * The status an invoice reads with on `today`. "overdue" depends on the date,
+ * so a stored status is only as current as the invoice's last write; an open
+ * invoice whose due date has passed since then reads as overdue without one.
+ */
+export function invoiceStatusAsOf(
+  invoice: { status: string; dueDate: string | null; balance: unknown },
+  today = todayIsoDate()
+) {
+  if (NEVER_OVERDUE_STATUSES.includes(invoice.status.trim().toLowerCase())) return invoice.status;
+
+  const dueDate = invoice.dueDate?.slice(0, 10) ?? "";
+  const balance = invoice.balance == null ? null : Number(invoice.balance);
+  if (dueDate && dueDate < today && (balance == null || balance > 0)) return "overdue";
+  return invoice.status;
+}
+
+/** Where clause for the invoices `invoiceStatusAsOf` turns overdue on `today`. */
+export function overdueOnReadWhere(today = todayIsoDate()): Prisma.InvoiceWhereInput {
+  return {
+    status: { notIn: NEVER_OVERDUE_STATUSES, mode: "insensitive" },
+    dueDate: { gt: "", lt: today },
+    OR: [{ balance: null }, { balance: { gt: 0 } }],
+  };
+}
+
+/**
+ * Where clause for a status filter that matches the statuses invoices read
+ * with, not only the stored ones.
+ */
+export function invoiceStatusWhere(statuses: string[], today = todayIsoDate()): Prisma.InvoiceWhereInput {
+  const overdueOnRead = overdueOnReadWhere(today);
+  return {
+    OR: [
+      { status: { in: statuses }, NOT: overdueOnRead },
+      ...(statuses.includes("overdue") ? [overdueOnRead] : []),
+    ],
+  };
+}
+
+/** Live payments and credit notes against the invoice; voided credit notes do not count. */
+export async function loadInvoiceLedger(tx: Prisma.TransactionClient, invoiceId: string): Promise<InvoiceLedger> {
+  const [payments, credits] = await Promise.all([
+    tx.customerPayment.findMany({
+      where: { invoiceId, deletedAt: null },
+      select: { amount: true, paidOn: true },
+    }),
+    tx.creditNote.findMany({
+      where: { invoiceId, deletedAt: null, status: { not: "void" } },
+      select: { total: true },
+    }),
+  ]);
+
+  return {
+    payments: payments.map((row) => ({ amount: Number(row.amount), paidOn: row.paidOn })),
+    credited: roundMoney(credits.reduce((sum, row) => sum + Number(row.total), 0)),
+  };
+}
+
+/**
+ * The settlement to write with an invoice update, or null while the invoice
+ * has no payments or credits on record and the device's own balance still stands.
+ */
+export async function settleFromLedger(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  invoice: { total: number; status: string; dueDate: string | null }
+) {
+  const ledger = await loadInvoiceLedger(tx, invoiceId);
+  return ledger.payments.length > 0 || ledger.credited > 0 ? settleInvoice(invoice, ledger) : null;
+}
@@ -7,7 +7,6 @@ type Tier = "starter" | "growth" | "pro";
 
 type PlanMeta = {
   tier: Tier;
-  companies: number;
 };
 
 const PLAN_MAP: Record<string, PlanMeta> = {
@@ -15,49 +14,43 @@ const PLAN_MAP: Record<string, PlanMeta> = {
     process.env.PAYSTACK_PLAN_CODE_STARTER_MONTHLY ||
       process.env.PAYSTACK_STARTER_MONTHLY_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "starter", companies: 1 },
+  ).trim()]: { tier: "starter" },
 
   [String(
     process.env.PAYSTACK_PLAN_CODE_STARTER_ANNUAL ||
       process.env.PAYSTACK_STARTER_ANNUAL_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "starter", companies: 1 },
+  ).trim()]: { tier: "starter" },
 
   [String(
     process.env.PAYSTACK_PLAN_CODE_GROWTH_MONTHLY ||
       process.env.PAYSTACK_GROWTH_MONTHLY_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "growth", companies: 3 },
+  ).trim()]: { tier: "growth" },
 
   [String(
     process.env.PAYSTACK_PLAN_CODE_GROWTH_ANNUAL ||
       process.env.PAYSTACK_GROWTH_ANNUAL_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "growth", companies: 3 },
+  ).trim()]: { tier: "growth" },
 
   [String(
     process.env.PAYSTACK_PLAN_CODE_PRO_MONTHLY ||
       process.env.PAYSTACK_PRO_MONTHLY_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "pro", companies: 5 },
+  ).trim()]: { tier: "pro" },
 
   [String(
     process.env.PAYSTACK_PLAN_CODE_PRO_ANNUAL ||
       process.env.PAYSTACK_PRO_ANNUAL_PLAN_CODE ||
       ""
-  ).trim()]: { tier: "pro", companies: 5 },
+  ).trim()]: { tier: "pro" },
 };
 
 for (const k of Object.keys(PLAN_MAP)) {
   if (!k) delete PLAN_MAP[k];
 }
 
-const PAID_LIMITS_UNLIMITED = {
-  invoice: 999999,
-  quote: 999999,
-  purchase_order: 999999,
-};
-
 async function fetchJSON(url: string) {
   if (!PAYSTACK_SECRET) throw new Error("Missing PAYSTACK_SECRET_KEY env var.");
 
@@ -145,16 +138,10 @@ function pickSubscription(list: any[], preferredCode?: string | null) {
   return list[0] ?? null;
 }
 
-function buildPaidFeatures(tier: Tier, companies: number) {
+// Capabilities and limits come from the tier in `resolveEntitlementSnapshot`;
+// only restore metadata is stored, so no earlier plan's overrides survive.
+function buildPaidFeatures(tier: Tier) {
   return {
-    readOnly: false,
-    cloudSync: tier === "growth" || tier === "pro",
-    storeSync: tier === "pro",
-    maxActiveSessions: tier === "pro" ? 4 : tier === "growth" ? 2 : 1,
-    limits: {
-      ...PAID_LIMITS_UNLIMITED,
-      companies,
-    },
     tier,
     restoredAt: new Date().toISOString(),
     restoreReason: "paystack_active_subscription",
@@ -311,12 +298,12 @@ export async function syncSubscriptionFromPaystack(userId: string) {
         userId,
         tier: planMeta.tier as any,
         status: "active" as any,
-        features: buildPaidFeatures(planMeta.tier, planMeta.companies) as any,
+        features: buildPaidFeatures(planMeta.tier) as any,
       },
       update: {
         tier: planMeta.tier as any,
         status: "active" as any,
-        features: buildPaidFeatures(planMeta.tier, planMeta.companies) as any,
+        features: buildPaidFeatures(planMeta.tier) as any,
       },
     });
 
@@ -0,0 +1,534 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+  type RGB,
+} from "pdf-lib";
+
+/**
+ * Server-side invoice/quote PDF rendering.
+ *
+ * Everything is drawn with the PDF standard fonts and the company's own logo,
+ * read from a data: URL or from /public. Nothing is fetched over the network,
+ * so a document renders the same way on any deployment.
+ *
+ * Invoices follow the SARS tax invoice layout (section 20 of the VAT Act):
+ * the words "Tax Invoice", supplier and recipient VAT numbers, a serial number,
+ * issue date, line descriptions with quantities, and the value, VAT and total.
+ * A company without a VAT number gets a plain "Invoice" instead.
+ */
+
+export type PdfDocumentKind = "invoice" | "quote";
+
+export type PdfLineItem = {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  vatRate: number;
+  lineSubtotal: number;
+};
+
+export type PdfDocumentInput = {
+  kind: PdfDocumentKind;
+  number: string;
+  issueDate: string;
+  dueDate: string | null;
+  expiryDate: string | null;
+  reference: string | null;
+  publicComments: string | null;
+  currency: string;
+  customerName: string;
+  customerAddress: string | null;
+  customerVatNumber: string | null;
+  vatRate: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  balance: number | null;
+  lineItems: PdfLineItem[];
+};
+
+export type PdfBranding = {
+  companyName?: string | null;
+  tradingName?: string | null;
+  registrationNo?: string | null;
+  vatNumber?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  suburb?: string | null;
+  city?: string | null;
+  province?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+  quoteTerms?: string | null;
+  invoiceTerms?: string | null;
+  bankName?: string | null;
+  bankAccountName?: string | null;
+  bankAccountNo?: string | null;
+  bankBranchCode?: string | null;
+  bankAccountType?: string | null;
+  logoUrl?: string | null;
+  accentColor?: string | null;
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 42;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT = rgb(0.13, 0.13, 0.15);
+const MUTED = rgb(0.42, 0.43, 0.47);
+const RULE = rgb(0.85, 0.86, 0.88);
+const WHITE = rgb(1, 1, 1);
+const DEFAULT_ACCENT = rgb(0.09, 0.33, 0.6);
+
+const COLUMNS = [
+  { key: "description", label: "Description", width: 0.4, align: "left" },
+  { key: "quantity", label: "Qty", width: 0.09, align: "right" },
+  { key: "unitPrice", label: "Unit price", width: 0.15, align: "right" },
+  { key: "discount", label: "Discount", width: 0.12, align: "right" },
+  { key: "vatRate", label: "VAT %", width: 0.08, align: "right" },
+  { key: "lineSubtotal", label: "Amount (excl.)", width: 0.16, align: "right" },
+] as const;
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+function parseAccent(value: string | null | undefined): RGB {
+  const hex = String(value ?? "").trim().replace(/^#/, "");
+  const full = /^[0-9a-f]{3}$/i.test(hex)
+    ? hex
+        .split("")
+        .map((c) => c + c)
+        .join("")
+    : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return DEFAULT_ACCENT;
+
+  const n = parseInt(full, 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+/** Standard fonts only cover WinAnsi; anything else would make drawText throw. */
+function safeText(value: unknown): string {
+  return String(value ?? "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u00A0\u2007\u202F\t]/g, " ")
+    .replace(/[^\n\x20-\x7E\xA1-\xFF]/g, "?");
+}
+
+function formatMoney(value: number, currency: string) {
+  try {
+    return safeText(
+      new Intl.NumberFormat("en-ZA", { style: "currency", currency: currency || "ZAR" }).format(value)
+    );
+  } catch {
+    return `${safeText(currency)} ${value.toFixed(2)}`;
+  }
+}
+
+function formatNumber(value: number, maxDigits = 4) {
+  return safeText(new Intl.NumberFormat("en-ZA", { maximumFractionDigits: maxDigits }).format(value));
+}
+
+function formatDocDate(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return safeText(value);
+  return d.toLocaleDateString("en-ZA", { day: "numeric", month: "long", year: "numeric" });
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of safeText(text).split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      // A single word wider than the column is broken by characters.
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+async function loadLogoBytes(logoUrl: string | null | undefined): Promise<Uint8Array | null> {
+  const value = String(logoUrl ?? "").trim();
+  if (!value) return null;
+
+  const dataUrl = /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(value);
+  if (dataUrl) return Buffer.from(dataUrl[2], "base64");
+
+  // Only files shipped with the portal; remote URLs are never fetched.
+  if (value.startsWith("/") && !value.includes("..")) {
+    try {
+      return await readFile(path.join(process.cwd(), "public", value));
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+async function embedLogo(pdf: PDFDocument, logoUrl: string | null | undefined): Promise<PDFImage | null> {
+  const bytes = await loadLogoBytes(logoUrl);
+  if (!bytes) return null;
+
+  try {
+    const isPng = bytes[0] === 0x89 && bytes[1] === 0x50;
+    return isPng ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function joinParts(parts: (string | null | undefined)[], separator: string) {
+  return parts.map((p) => String(p ?? "").trim()).filter(Boolean).join(separator);
+}
+
+function supplierLines(branding: PdfBranding) {
+  return [
+    joinParts([branding.addressLine1], ""),
+    joinParts([branding.addressLine2], ""),
+    joinParts([branding.suburb, branding.city], ", "),
+    joinParts([branding.province, branding.postalCode], " "),
+    joinParts([branding.country], ""),
+    branding.vatNumber ? `VAT No: ${branding.vatNumber}` : "",
+    branding.registrationNo ? `Reg No: ${branding.registrationNo}` : "",
+    joinParts([branding.phone, branding.email], "  |  "),
+    joinParts([branding.website], ""),
+  ].filter(Boolean);
+}
+
+function documentTitle(doc: PdfDocumentInput, branding: PdfBranding) {
+  if (doc.kind === "quote") return "QUOTATION";
+  return branding.vatNumber ? "TAX INVOICE" : "INVOICE";
+}
+
+class PageWriter {
+  page: PDFPage;
+  y: number;
+  pages: PDFPage[] = [];
+
+  constructor(
+    private pdf: PDFDocument,
+    private fonts: Fonts
+  ) {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private addPage() {
+    const page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.pages.push(page);
+    return page;
+  }
+
+  newPage() {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Starts a new page when fewer than `height` points are left above the footer. */
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 24) {
+      this.newPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(
+    value: string,
+    x: number,
+    y: number,
+    options: { size?: number; bold?: boolean; color?: RGB; align?: "left" | "right"; width?: number } = {}
+  ) {
+    const size = options.size ?? 9;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    const text = safeText(value);
+    const drawX =
+      options.align === "right" && options.width != null
+        ? x + options.width - font.widthOfTextAtSize(text, size)
+        : x;
+    this.page.drawText(text, { x: drawX, y, size, font, color: options.color ?? TEXT });
+  }
+}
+
+function drawTableHeader(writer: PageWriter, accent: RGB) {
+  const height = 20;
+  writer.page.drawRectangle({
+    x: MARGIN,
+    y: writer.y - height,
+    width: CONTENT_WIDTH,
+    height,
+    color: accent,
+  });
+
+  let x = MARGIN;
+  for (const column of COLUMNS) {
+    const width = column.width * CONTENT_WIDTH;
+    writer.text(column.label, x + 5, writer.y - 13.5, {
+      size: 8.5,
+      bold: true,
+      color: WHITE,
+      align: column.align,
+      width: width - 10,
+    });
+    x += width;
+  }
+
+  writer.y -= height;
+}
+
+function lineCells(item: PdfLineItem, currency: string) {
+  return {
+    description: item.description,
+    quantity: formatNumber(item.quantity),
+    unitPrice: formatMoney(item.unitPrice, currency),
+    discount: item.discount ? formatMoney(item.discount, currency) : "-",
+    vatRate: `${formatNumber(item.vatRate, 2)}%`,
+    lineSubtotal: formatMoney(item.lineSubtotal, currency),
+  };
+}
+
+export async function renderDocumentPdf(doc: PdfDocumentInput, branding: PdfBranding) {
+  const pdf = await PDFDocument.create();
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const accent = parseAccent(branding.accentColor);
+  const logo = await embedLogo(pdf, branding.logoUrl);
+  const title = documentTitle(doc, branding);
+  const supplierName = branding.tradingName || branding.companyName || "";
+
+  pdf.setTitle(`${title === "QUOTATION" ? "Quotation" : "Invoice"} ${doc.number}`);
+  pdf.setAuthor(safeText(supplierName));
+  pdf.setCreator("eKasiBooks Portal");
+
+  const writer = new PageWriter(pdf, fonts);
+
+  writer.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 8, width: PAGE_WIDTH, height: 8, color: accent });
+
+  // Header: logo/supplier on the left, title and document facts on the right.
+  let leftY = writer.y;
+  if (logo) {
+    const scaled = logo.scaleToFit(150, 60);
+    writer.page.drawImage(logo, { x: MARGIN, y: leftY - scaled.height, ...scaled });
+    leftY -= scaled.height + 10;
+  }
+
+  writer.text(supplierName, MARGIN, leftY - 12, { size: 13, bold: true });
+  leftY -= 28;
+  if (branding.tradingName && branding.companyName && branding.tradingName !== branding.companyName) {
+    writer.text(branding.companyName, MARGIN, leftY, { size: 8.5, color: MUTED });
+    leftY -= 12;
+  }
+  for (const line of supplierLines(branding)) {
+    writer.text(line, MARGIN, leftY, { size: 8.5, color: MUTED });
+    leftY -= 12;
+  }
+
+  const rightX = MARGIN + CONTENT_WIDTH / 2;
+  const rightWidth = CONTENT_WIDTH / 2;
+  let rightY = writer.y;
+  writer.text(title, rightX, rightY - 20, { size: 20, bold: true, color: accent, align: "right", width: rightWidth });
+  rightY -= 38;
+
+  const facts: [string, string][] = [
+    [doc.kind === "quote" ? "Quote no." : "Invoice no.", doc.number],
+    ["Date", formatDocDate(doc.issueDate)],
+  ];
+  if (doc.kind === "invoice" && doc.dueDate) facts.push(["Due date", formatDocDate(doc.dueDate)]);
+  if (doc.kind === "quote" && doc.expiryDate) facts.push(["Valid until", formatDocDate(doc.expiryDate)]);
+  if (doc.reference) facts.push(["Reference", doc.reference]);
+
+  for (const [label, value] of facts) {
+    writer.text(label, rightX + rightWidth - 210, rightY, { size: 9, color: MUTED });
+    writer.text(value, rightX, rightY, { size: 9, bold: true, align: "right", width: rightWidth });
+    rightY -= 13;
+  }
+
+  writer.y = Math.min(leftY, rightY) - 14;
+
+  // Recipient.
+  writer.text(doc.kind === "quote" ? "PREPARED FOR" : "BILL TO", MARGIN, writer.y, {
+    size: 8,
+    bold: true,
+    color: accent,
+  });
+  writer.y -= 14;
+  writer.text(doc.customerName, MARGIN, writer.y, { size: 10.5, bold: true });
+  writer.y -= 13;
+  for (const line of wrapText(doc.customerAddress ?? "", fonts.regular, 9, CONTENT_WIDTH / 2)) {
+    if (!line) continue;
+    writer.text(line, MARGIN, writer.y, { size: 9, color: MUTED });
+    writer.y -= 12;
+  }
+  if (doc.customerVatNumber) {
+    writer.text(`VAT No: ${doc.customerVatNumber}`, MARGIN, writer.y, { size: 9, color: MUTED });
+    writer.y -= 12;
+  }
+  writer.y -= 14;
+
+  // Line items.
+  drawTableHeader(writer, accent);
+  const rowSize = 9;
+
+  if (doc.lineItems.length === 0) {
+    writer.y -= 16;
+    writer.text("No line items.", MARGIN + 5, writer.y, { size: rowSize, color: MUTED });
+    writer.y -= 8;
+  }
+
+  for (const item of doc.lineItems) {
+    const cells = lineCells(item, doc.currency);
+    const descriptionWidth = COLUMNS[0].width * CONTENT_WIDTH - 10;
+    const descriptionLines = wrapText(cells.description, fonts.regular, rowSize, descriptionWidth);
+    const rowHeight = descriptionLines.length * 11 + 8;
+
+    if (writer.ensureSpace(rowHeight)) {
+      drawTableHeader(writer, accent);
+    }
+
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      const width = column.width * CONTENT_WIDTH;
+      if (column.key === "description") {
+        descriptionLines.forEach((line, i) => {
+          writer.text(line, x + 5, writer.y - 13 - i * 11, { size: rowSize });
+        });
+      } else {
+        writer.text(cells[column.key], x + 5, writer.y - 13, {
+          size: rowSize,
+          align: "right",
+          width: width - 10,
+        });
+      }
+      x += width;
+    }
+
+    writer.y -= rowHeight;
+    writer.page.drawLine({
+      start: { x: MARGIN, y: writer.y },
+      end: { x: MARGIN + CONTENT_WIDTH, y: writer.y },
+      thickness: 0.5,
+      color: RULE,
+    });
+  }
+
+  // Totals.
+  const totals: [string, string, boolean][] = [
+    ["Subtotal (excl. VAT)", formatMoney(doc.subtotal, doc.currency), false],
+    [`VAT${doc.vatRate ? ` (${formatNumber(doc.vatRate, 2)}%)` : ""}`, formatMoney(doc.vat, doc.currency), false],
+    ["Total (incl. VAT)", formatMoney(doc.total, doc.currency), true],
+  ];
+  if (doc.kind === "invoice" && doc.balance != null && doc.balance !== doc.total) {
+    totals.push(["Balance due", formatMoney(doc.balance, doc.currency), true]);
+  }
+
+  writer.ensureSpace(totals.length * 18 + 20);
+  writer.y -= 10;
+  const totalsX = MARGIN + CONTENT_WIDTH * 0.55;
+  const totalsWidth = CONTENT_WIDTH * 0.45;
+  for (const [label, value, strong] of totals) {
+    if (strong) {
+      writer.page.drawRectangle({
+        x: totalsX,
+        y: writer.y - 18,
+        width: totalsWidth,
+        height: 18,
+        color: rgb(0.95, 0.96, 0.97),
+      });
+    }
+    writer.text(label, totalsX + 6, writer.y - 12.5, { size: 9.5, bold: strong, color: strong ? TEXT : MUTED });
+    writer.text(value, totalsX, writer.y - 12.5, {
+      size: 9.5,
+      bold: strong,
+      align: "right",
+      width: totalsWidth - 6,
+    });
+    writer.y -= 18;
+  }
+  writer.y -= 16;
+
+  // Comments, terms and banking details.
+  const sections: [string, string][] = [];
+  if (doc.publicComments) sections.push(["Notes", doc.publicComments]);
+
+  const terms = doc.kind === "quote" ? branding.quoteTerms : branding.invoiceTerms;
+  if (terms) sections.push(["Terms", terms]);
+
+  if (doc.kind === "invoice" && (branding.bankName || branding.bankAccountNo)) {
+    sections.push([
+      "Banking details",
+      [
+        branding.bankName ? `Bank: ${branding.bankName}` : "",
+        branding.bankAccountName ? `Account name: ${branding.bankAccountName}` : "",
+        branding.bankAccountNo ? `Account no: ${branding.bankAccountNo}` : "",
+        branding.bankBranchCode ? `Branch code: ${branding.bankBranchCode}` : "",
+        branding.bankAccountType ? `Account type: ${branding.bankAccountType}` : "",
+        `Reference: ${doc.number}`,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    ]);
+  }
+
+  for (const [heading, body] of sections) {
+    const lines = wrapText(body, fonts.regular, 9, CONTENT_WIDTH);
+    writer.ensureSpace(Math.min(lines.length, 4) * 12 + 16);
+    writer.text(heading.toUpperCase(), MARGIN, writer.y, { size: 8, bold: true, color: accent });
+    writer.y -= 13;
+    for (const line of lines) {
+      writer.ensureSpace(12);
+      writer.text(line, MARGIN, writer.y, { size: 9, color: MUTED });
+      writer.y -= 12;
+    }
+    writer.y -= 10;
+  }
+
+  // Footer on every page.
+  writer.pages.forEach((page, index) => {
+    const footer = `${safeText(supplierName)}  |  ${title === "QUOTATION" ? "Quotation" : "Invoice"} ${safeText(
+      doc.number
+    )}  |  Page ${index + 1} of ${writer.pages.length}`;
+    const size = 7.5;
+    page.drawText(footer, {
+      x: (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(footer, size)) / 2,
+      y: MARGIN / 2,
+      size,
+      font: fonts.regular,
+      color: MUTED,
+    });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,112 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * The company's catalogue of products and services.
+ *
+ * Line items reference a product through their plain `productId` column, with
+ * no foreign key: a device may push documents before the products they were
+ * priced from, and a line keeps its own description and price either way. The
+ * reference is there for reporting (see `/api/reports/products`).
+ */
+
+export const PRODUCT_KINDS = ["product", "service"] as const;
+
+export type ProductKind = (typeof PRODUCT_KINDS)[number];
+
+export type ProductInput = {
+  kind: ProductKind;
+  sku: string | null;
+  name: string;
+  description: string | null;
+  unitPrice: number;
+  vatRate: number;
+  unit: string | null;
+  isActive: boolean;
+  deletedAt: Date | null;
+};
+
+function toOptionalText(value: unknown, max: number) {
+  const s = value == null ? "" : String(value).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value.trim());
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const d = new Date(value as string);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function parseProductKind(value: unknown): ProductKind | null {
+  const s = String(value ?? "").trim().toLowerCase();
+  if (!s) return "product";
+  return (PRODUCT_KINDS as readonly string[]).includes(s) ? (s as ProductKind) : null;
+}
+
+function parseActiveFlag(value: unknown): boolean {
+  if (value === false) return false;
+  if (typeof value === "string") return value.trim().toLowerCase() !== "false";
+  return true;
+}
+
+/** Catalogue fields from a route or push body. Products are active unless sent `isActive: false`. */
+export function parseProductInput(body: Record<string, unknown>): { product: ProductInput } | { error: string } {
+  const name = toOptionalText(body.name, 200);
+  if (!name) return { error: "Product name is required." };
+
+  const kind = parseProductKind(body.kind);
+  if (!kind) return { error: `Product kind must be one of ${PRODUCT_KINDS.join(", ")}.` };
+
+  const unitPrice = toNumber(body.unitPrice ?? body.price);
+  if (unitPrice == null || unitPrice < 0) return { error: "Unit price must be zero or more." };
+
+  const vatRate = body.vatRate == null || body.vatRate === "" ? 0 : toNumber(body.vatRate);
+  if (vatRate == null || vatRate < 0 || vatRate > 100) {
+    return { error: "VAT rate must be between 0 and 100." };
+  }
+
+  return {
+    product: {
+      kind,
+      sku: toOptionalText(body.sku, 100),
+      name,
+      description: toOptionalText(body.description, 2000),
+      unitPrice,
+      vatRate,
+      unit: toOptionalText(body.unit, 50),
+      isActive: parseActiveFlag(body.isActive),
+      deletedAt: toOptionalDate(body.deletedAt),
+    },
+  };
+}
+
+/**
+ * Why the SKU cannot be used, or null when it can. SKUs are unique among the
+ * company's live products only, so a deleted product's SKU can be reused.
+ *
+ * Run it inside the write transaction, after the company's sync revision was
+ * taken, so two products written at once are checked against each other.
+ */
+export async function checkProductSku(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  productId: string,
+  product: { sku: string | null; deletedAt: Date | null }
+): Promise<string | null> {
+  if (!product.sku || product.deletedAt) return null;
+
+  const clash = await tx.product.findFirst({
+    where: { companyId, sku: product.sku, deletedAt: null, NOT: { id: productId } },
+    select: { name: true },
+  });
+
+  return clash ? `SKU ${product.sku} is already used by ${clash.name}.` : null;
+}
@@ -0,0 +1,152 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { loadEntitlement, type ResolvedEntitlementFeatures } from "@/lib/entitlements";
+
+/**
+ * Monthly document quotas.
+ *
+ * Each company counts the invoices, quotes and purchase orders created in it
+ * per calendar month (UTC), and a create is refused once the count reaches the
+ * plan's `limits` entry. Only creates count: updates, deletes and restores of
+ * an existing document never touch the counter, and deleting a document does
+ * not give its slot back.
+ */
+
+export type QuotaDocumentType = "invoice" | "quote" | "purchase-order";
+
+const LIMIT_KEYS: Record<QuotaDocumentType, "invoice" | "quote" | "purchase_order"> = {
+  invoice: "invoice",
+  quote: "quote",
+  "purchase-order": "purchase_order",
+};
+
+const QUOTA_LABELS: Record<QuotaDocumentType, string> = {
+  invoice: "invoices",
+  quote: "quotes",
+  "purchase-order": "purchase orders",
+};
+
+export type DocumentQuota = {
+  documentType: QuotaDocumentType;
+  period: string;
+  limit: number;
+  used: number;
+  resetsAt: string;
+};
+
+/** Thrown inside a write transaction to roll back a create the quota refused. */
+export class DocumentQuotaExceededError extends Error {
+  readonly quota: DocumentQuota;
+
+  constructor(quota: DocumentQuota) {
+    super(documentQuotaMessage(quota));
+    this.name = "DocumentQuotaExceededError";
+    this.quota = quota;
+  }
+}
+
+export function isDocumentQuotaExceededError(err: unknown): err is DocumentQuotaExceededError {
+  return err instanceof DocumentQuotaExceededError;
+}
+
+export function documentQuotaMessage(quota: DocumentQuota) {
+  return `Your plan allows ${quota.limit} ${QUOTA_LABELS[quota.documentType]} per company each month, and this company has used them all for ${quota.period}. Upgrade your plan to create more.`;
+}
+
+/** "YYYY-MM" of the UTC month `at` falls in. */
+export function usagePeriod(at = new Date()) {
+  return at.toISOString().slice(0, 7);
+}
+
+/** Start of the month after `period`, when its quota starts over. */
+export function periodResetsAt(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year!, month!, 1)).toISOString();
+}
+
+/**
+ * Counts one new document against the company's quota for this month, or
+ * returns the exhausted quota without counting it.
+ *
+ * Run it inside the create transaction, after the company's sync revision was
+ * taken: that locks the company, so two creates cannot both take the last slot.
+ */
+export async function claimDocumentQuota(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  documentType: QuotaDocumentType,
+  features: ResolvedEntitlementFeatures
+): Promise<DocumentQuota | null> {
+  const period = usagePeriod();
+  const limit = features.limits[LIMIT_KEYS[documentType]];
+  const key = { companyId, documentType, period };
+
+  const counter = await tx.documentUsageCounter.findUnique({
+    where: { companyId_documentType_period: key },
+    select: { count: true },
+  });
+  const used = counter?.count ?? 0;
+
+  if (used >= limit) {
+    return { documentType, period, limit, used, resetsAt: periodResetsAt(period) };
+  }
+
+  await tx.documentUsageCounter.upsert({
+    where: { companyId_documentType_period: key },
+    create: { ...key, count: 1 },
+    update: { count: { increment: 1 } },
+  });
+  return null;
+}
+
+/** Like `claimDocumentQuota`, but throws `DocumentQuotaExceededError` so the create rolls back. */
+export async function requireDocumentQuota(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  companyId: string,
+  documentType: QuotaDocumentType
+) {
+  const { features } = await loadEntitlement(userId, tx);
+  const exceeded = await claimDocumentQuota(tx, companyId, documentType, features);
+  if (exceeded) throw new DocumentQuotaExceededError(exceeded);
+}
+
+/** This month's usage for each of the user's companies, against the limits enforced on create. */
+export async function loadDocumentUsage(userId: string) {
+  const period = usagePeriod();
+
+  const [{ features }, companies] = await Promise.all([
+    loadEntitlement(userId),
+    prisma.company.findMany({
+      where: { userId, deletedAt: null },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        name: true,
+        usageCounters: { where: { period }, select: { documentType: true, count: true } },
+      },
+    }),
+  ]);
+
+  return {
+    period,
+    resetsAt: periodResetsAt(period),
+    companies: companies.map((company) => {
+      const used = new Map(company.usageCounters.map((row) => [row.documentType, row.count]));
+      const usage = (documentType: QuotaDocumentType) => {
+        const limit = features.limits[LIMIT_KEYS[documentType]];
+        const count = used.get(documentType) ?? 0;
+        return { used: count, limit, remaining: Math.max(0, limit - count) };
+      };
+
+      return {
+        companyId: company.id,
+        name: company.name,
+        invoice: usage("invoice"),
+        quote: usage("quote"),
+        purchase_order: usage("purchase-order"),
+      };
+    }),
+  };
+}
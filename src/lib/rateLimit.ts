@@ -0,0 +1,271 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { prisma } from "@/lib/db";
+
+/**
+ * Rate limits and lockouts for the auth endpoints.
+ *
+ * Counters live in `AuthThrottle`, one row per scope (route), subject type and
+ * subject (client IP or email), so limits hold across server instances and
+ * restarts. A row counts hits inside a window that restarts once it has
+ * passed. Past the policy's free allowance each further hit blocks the
+ * subject for a delay that doubles up to a cap.
+ *
+ * Request-limited scopes (`request-otp`, `register`, `forgot`) count every
+ * call. Attempt-limited scopes count only failures. Failed passwords, OTPs and
+ * authenticator codes also count against the `account` row for the email,
+ * which locks the account for `AUTH_LOCKOUT_MINUTES` once it reaches
+ * `AUTH_LOCKOUT_THRESHOLD`. A successful sign-in clears it. Admins can list
+ * and clear blocks from `/admin/lockouts`.
+ */
+
+export const THROTTLE_SCOPES = [
+  "login",
+  "verify-otp",
+  "two-factor",
+  "account",
+  "request-otp",
+  "register",
+  "forgot",
+] as const;
+
+export type ThrottleScope = (typeof THROTTLE_SCOPES)[number];
+export type ThrottleSubjectType = "ip" | "email";
+
+export type ThrottleKey = {
+  scope: ThrottleScope;
+  subjectType: ThrottleSubjectType;
+  subject: string;
+};
+
+export type ThrottleGate =
+  | { ok: true }
+  | { ok: false; response: NextResponse; retryAfterSeconds: number };
+
+type ThrottlePolicy = {
+  windowSeconds: number;
+  /** Hits allowed in a window before any delay. */
+  free: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  /** Hit count at which the subject is locked for `lockSeconds` instead. */
+  lockAfter?: number;
+  lockSeconds?: number;
+};
+
+/** `code` of a 429 for too many requests or attempts. */
+export const RATE_LIMITED_ERROR_CODE = "RATE_LIMITED";
+/** `code` of a 429 while the account is locked after failed sign-ins. */
+export const ACCOUNT_LOCKED_ERROR_CODE = "ACCOUNT_LOCKED";
+
+const LOCKOUT_THRESHOLD = Math.max(3, Number(process.env.AUTH_LOCKOUT_THRESHOLD) || 10);
+const LOCKOUT_MINUTES = Math.max(1, Number(process.env.AUTH_LOCKOUT_MINUTES) || 15);
+
+// Generous per IP: offices share one public address
+const FAILED_ATTEMPTS_PER_IP: ThrottlePolicy = {
+  windowSeconds: 15 * 60,
+  free: 30,
+  baseDelaySeconds: 30,
+  maxDelaySeconds: 15 * 60,
+};
+
+const POLICIES: Record<ThrottleScope, Partial<Record<ThrottleSubjectType, ThrottlePolicy>>> = {
+  login: { ip: FAILED_ATTEMPTS_PER_IP },
+  "verify-otp": { ip: FAILED_ATTEMPTS_PER_IP },
+  "two-factor": { ip: FAILED_ATTEMPTS_PER_IP },
+  account: {
+    email: {
+      windowSeconds: LOCKOUT_MINUTES * 60,
+      free: 3,
+      baseDelaySeconds: 2,
+      maxDelaySeconds: 60,
+      lockAfter: LOCKOUT_THRESHOLD,
+      lockSeconds: LOCKOUT_MINUTES * 60,
+    },
+  },
+  "request-otp": {
+    ip: { windowSeconds: 15 * 60, free: 20, baseDelaySeconds: 60, maxDelaySeconds: 30 * 60 },
+    email: { windowSeconds: 15 * 60, free: 5, baseDelaySeconds: 60, maxDelaySeconds: 30 * 60 },
+  },
+  register: {
+    ip: { windowSeconds: 60 * 60, free: 10, baseDelaySeconds: 60, maxDelaySeconds: 60 * 60 },
+  },
+  forgot: {
+    ip: { windowSeconds: 15 * 60, free: 10, baseDelaySeconds: 60, maxDelaySeconds: 30 * 60 },
+    email: { windowSeconds: 15 * 60, free: 3, baseDelaySeconds: 5 * 60, maxDelaySeconds: 60 * 60 },
+  },
+};
+
+function noStoreHeaders() {
+  return {
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+  };
+}
+
+function describeWait(seconds: number) {
+  if (seconds < 90) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+export function getClientIp(req: NextRequest) {
+  const xff = req.headers.get("x-forwarded-for") || "";
+  return (
+    (xff.split(",")[0] || "").trim() ||
+    (req.headers.get("x-real-ip") || "").trim() ||
+    ""
+  );
+}
+
+/**
+ * The keys a request counts against for `scope`: its client IP and, when the
+ * scope limits per email, the email. Subjects that are missing are skipped,
+ * so a proxy that hides client IPs never puts every user in one bucket.
+ */
+export function throttleKeys(
+  scope: ThrottleScope,
+  subjects: { req?: NextRequest; email?: string | null }
+): ThrottleKey[] {
+  const keys: ThrottleKey[] = [];
+  const ip = subjects.req ? getClientIp(subjects.req).slice(0, 190) : "";
+  const email = String(subjects.email ?? "").trim().toLowerCase();
+
+  if (POLICIES[scope].ip && ip) keys.push({ scope, subjectType: "ip", subject: ip });
+  if (POLICIES[scope].email && email) keys.push({ scope, subjectType: "email", subject: email });
+  return keys;
+}
+
+/** The lockout key shared by every way of proving who owns `email`. */
+export function accountKey(email: string | null | undefined): ThrottleKey[] {
+  return throttleKeys("account", { email });
+}
+
+function blockSeconds(policy: ThrottlePolicy, count: number) {
+  if (policy.lockAfter && count >= policy.lockAfter) {
+    return policy.lockSeconds ?? policy.maxDelaySeconds;
+  }
+  if (count <= policy.free) return 0;
+  return Math.min(policy.maxDelaySeconds, policy.baseDelaySeconds * 2 ** (count - policy.free - 1));
+}
+
+function isLockout(key: ThrottleKey, count: number) {
+  const lockAfter = POLICIES[key.scope][key.subjectType]?.lockAfter;
+  return Boolean(lockAfter && count >= lockAfter);
+}
+
+/** The consistent 429 every throttled auth route returns. */
+export function rateLimitedResponse(
+  retryAfterSeconds: number,
+  options: { locked?: boolean; message?: string } = {}
+) {
+  const { locked = false } = options;
+  const seconds = Math.max(1, Math.ceil(retryAfterSeconds));
+  const error =
+    options.message ||
+    (locked
+      ? `Too many failed sign-in attempts. This account is locked for ${describeWait(seconds)}. Try again later or contact support.`
+      : `Too many attempts. Please wait ${describeWait(seconds)} and try again.`);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      code: locked ? ACCOUNT_LOCKED_ERROR_CODE : RATE_LIMITED_ERROR_CODE,
+      retryAfterSeconds: seconds,
+    },
+    { status: 429, headers: { ...noStoreHeaders(), "Retry-After": String(seconds) } }
+  );
+}
+
+function refuse(blockedUntil: Date, locked: boolean, now: Date): ThrottleGate {
+  const retryAfterSeconds = Math.ceil((blockedUntil.getTime() - now.getTime()) / 1000);
+  return { ok: false, response: rateLimitedResponse(retryAfterSeconds, { locked }), retryAfterSeconds };
+}
+
+/**
+ * Refuses the request while any of `keys` is blocked. Does not count it.
+ *
+ *   const gate = await checkThrottle([...throttleKeys("login", { req }), ...accountKey(email)]);
+ *   if (!gate.ok) return gate.response;
+ */
+export async function checkThrottle(keys: ThrottleKey[]): Promise<ThrottleGate> {
+  if (keys.length === 0) return { ok: true };
+
+  const now = new Date();
+  const blocked = await prisma.authThrottle.findMany({
+    where: { OR: keys, blockedUntil: { gt: now } },
+    orderBy: { blockedUntil: "desc" },
+    select: { scope: true, subjectType: true, subject: true, count: true, blockedUntil: true },
+  });
+
+  const row = blocked[0];
+  if (!row?.blockedUntil) return { ok: true };
+
+  const locked = blocked.some((b) => isLockout(b as ThrottleKey, b.count));
+  return refuse(row.blockedUntil, locked, now);
+}
+
+async function hitOne(key: ThrottleKey, policy: ThrottlePolicy, now: Date) {
+  const where = { scope_subjectType_subject: key };
+  const row = await prisma.authThrottle.findUnique({
+    where,
+    select: { windowStart: true, blockedUntil: true },
+  });
+
+  const blocked = Boolean(row?.blockedUntil && row.blockedUntil > now);
+  const windowOver =
+    !row || (!blocked && now.getTime() - row.windowStart.getTime() >= policy.windowSeconds * 1000);
+
+  const { count } = await prisma.authThrottle.upsert({
+    where,
+    create: { ...key, count: 1, windowStart: now },
+    update: windowOver
+      ? { count: 1, windowStart: now, blockedUntil: null }
+      : { count: { increment: 1 } },
+    select: { count: true },
+  });
+
+  const delay = blockSeconds(policy, count);
+  if (delay === 0) return null;
+
+  const blockedUntil = new Date(now.getTime() + delay * 1000);
+  await prisma.authThrottle.update({ where, data: { blockedUntil } });
+  return { blockedUntil, locked: isLockout(key, count) };
+}
+
+/**
+ * Counts one hit (a request, or a failed attempt) against each key. Returns a
+ * refusal when this hit pushed a key over its limit, so the route can answer
+ * with the 429 straight away.
+ */
+export async function recordThrottleHit(keys: ThrottleKey[]): Promise<ThrottleGate> {
+  const now = new Date();
+  const blocks: Array<{ blockedUntil: Date; locked: boolean }> = [];
+
+  for (const key of keys) {
+    const policy = POLICIES[key.scope][key.subjectType];
+    if (!policy) continue;
+
+    const result = await hitOne(key, policy, now);
+    if (result) blocks.push(result);
+  }
+
+  if (blocks.length === 0) return { ok: true };
+
+  const until = blocks.reduce((max, b) => (b.blockedUntil > max ? b.blockedUntil : max), blocks[0]!.blockedUntil);
+  return refuse(until, blocks.some((b) => b.locked), now);
+}
+
+/** For request-limited routes: refuse while blocked, otherwise count this request. */
+export async function consumeThrottle(keys: ThrottleKey[]): Promise<ThrottleGate> {
+  const gate = await checkThrottle(keys);
+  if (!gate.ok) return gate;
+  return await recordThrottleHit(keys);
+}
+
+/** Forget the counters for `keys`, e.g. the account's after a successful sign-in. */
+export async function clearThrottle(keys: ThrottleKey[]) {
+  if (keys.length === 0) return;
+  await prisma.authThrottle.deleteMany({ where: { OR: keys } });
+}
@@ -0,0 +1,70 @@
+import type { NextRequest } from "next/server";
+
+import { prisma } from "@/lib/db";
+
+/** The user agent and client IP recorded on a new session. */
+export function getClientMeta(req: NextRequest) {
+  const userAgent = req.headers.get("user-agent") || "";
+
+  // If x-forwarded-for contains a list, take the first IP
+  const xff = req.headers.get("x-forwarded-for") || "";
+  const ip =
+    (xff.split(",")[0] || "").trim() ||
+    (req.headers.get("x-real-ip") || "").trim() ||
+    "";
+
+  return { userAgent, ip };
+}
+
+/**
+ * Enforce per-account active session limit:
+ * create a new session, keep the newest N active sessions, revoke the rest.
+ */
+export async function createLimitedActiveSession(
+  userId: string,
+  meta: { userAgent: string; ip: string },
+  maxActiveSessions: number
+) {
+  const now = new Date();
+  const keepCount = Math.max(1, maxActiveSessions);
+
+  return await prisma.$transaction(async (tx) => {
+    // Create the new session first
+    const session = await tx.session.create({
+      data: {
+        userId,
+        userAgent: meta.userAgent,
+        ip: String(meta.ip || "").slice(0, 190),
+        createdAt: now,
+        lastSeenAt: now,
+        revokedAt: null,
+      },
+      select: { id: true },
+    });
+
+    // Fetch all active sessions for this user, newest first
+    const activeSessions = await tx.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: { id: true },
+    });
+
+    // Keep the newest N sessions, revoke anything older
+    const sessionsToRevoke = activeSessions.slice(keepCount).map((s) => s.id);
+
+    if (sessionsToRevoke.length > 0) {
+      await tx.session.updateMany({
+        where: {
+          id: { in: sessionsToRevoke },
+          revokedAt: null,
+        },
+        data: { revokedAt: now },
+      });
+    }
+
+    return session;
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Suppliers the company buys from: the counterpart of customers for purchase
+ * orders and expenses. Bank details are what the company pays into, and
+ * `paymentTermsDays` is the default credit the supplier gives (null when the
+ * supplier is paid on order).
+ */
+
+export const MAX_PAYMENT_TERMS_DAYS = 365;
+
+export type SupplierInput = {
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  companyRegNo: string | null;
+  vatNumber: string | null;
+  bankName: string | null;
+  bankAccountName: string | null;
+  bankAccountNo: string | null;
+  bankBranchCode: string | null;
+  bankAccountType: string | null;
+  paymentTermsDays: number | null;
+  notes: string | null;
+  status: string;
+  deletedAt: Date | null;
+};
+
+function toOptionalText(value: unknown, max: number) {
+  const s = value == null ? "" : String(value).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const d = new Date(value as string);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function parsePaymentTermsDays(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "string" ? Number(value.trim()) : Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_PAYMENT_TERMS_DAYS) return undefined;
+  return n;
+}
+
+/** Supplier fields from a route or push body; the name is the only required one. */
+export function parseSupplierInput(body: Record<string, unknown>): { supplier: SupplierInput } | { error: string } {
+  const name = toOptionalText(body.name, 200);
+  if (!name) return { error: "Supplier name is required." };
+
+  const paymentTermsDays = parsePaymentTermsDays(body.paymentTermsDays);
+  if (paymentTermsDays === undefined) {
+    return { error: `Payment terms must be a whole number of days between 0 and ${MAX_PAYMENT_TERMS_DAYS}.` };
+  }
+
+  return {
+    supplier: {
+      name,
+      contactName: toOptionalText(body.contactName, 200),
+      email: toOptionalText(body.email, 200),
+      phone: toOptionalText(body.phone, 100),
+      address: toOptionalText(body.address, 500),
+      city: toOptionalText(body.city, 150),
+      companyRegNo: toOptionalText(body.companyRegNo, 100),
+      vatNumber: toOptionalText(body.vatNumber, 100),
+      bankName: toOptionalText(body.bankName, 150),
+      bankAccountName: toOptionalText(body.bankAccountName, 200),
+      bankAccountNo: toOptionalText(body.bankAccountNo, 100),
+      bankBranchCode: toOptionalText(body.bankBranchCode, 50),
+      bankAccountType: toOptionalText(body.bankAccountType, 50),
+      paymentTermsDays,
+      notes: toOptionalText(body.notes, 4000),
+      status: toOptionalText(body.status, 50) ?? "active",
+      deletedAt: toOptionalDate(body.deletedAt),
+    },
+  };
+}
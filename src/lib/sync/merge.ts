@@ -0,0 +1,258 @@
+import type { Prisma } from "@prisma/client";
+
+import { findRecordSnapshot, type SnapshotEntityType } from "@/lib/sync/snapshots";
+import { parseBaseRevision, parseBaseUpdatedAt } from "@/lib/sync/revision";
+
+/**
+ * Field-level three-way merge for invoice/quote/purchase order sync conflicts.
+ *
+ * When the cloud copy moved on after the device's base revision, each field is
+ * compared against that base: a field only one side changed takes that side's
+ * value, and only fields both sides changed (to different values) conflict.
+ * Anything in the `data` blob that is not a column is merged key by key too.
+ */
+
+type MergeEntityType = Extract<SnapshotEntityType, "invoice" | "quote" | "purchase-order">;
+
+type FieldSpec =
+  | { kind: "string"; fallback?: string }
+  | { kind: "decimal"; fallback?: number }
+  | { kind: "date" };
+
+const INVOICE_FIELDS: Record<string, FieldSpec> = {
+  number: { kind: "string" },
+  customerId: { kind: "string" },
+  customerName: { kind: "string" },
+  customerAddress: { kind: "string" },
+  issueDate: { kind: "string" },
+  dueDate: { kind: "string" },
+  paidDate: { kind: "string" },
+  reference: { kind: "string" },
+  publicComments: { kind: "string" },
+  internalNotes: { kind: "string" },
+  currency: { kind: "string", fallback: "ZAR" },
+  status: { kind: "string", fallback: "draft" },
+  vatRate: { kind: "decimal", fallback: 0 },
+  subtotal: { kind: "decimal", fallback: 0 },
+  vat: { kind: "decimal", fallback: 0 },
+  total: { kind: "decimal", fallback: 0 },
+  balance: { kind: "decimal" },
+  deletedAt: { kind: "date" },
+};
+
+const QUOTE_FIELDS: Record<string, FieldSpec> = {
+  number: { kind: "string" },
+  customerId: { kind: "string" },
+  customerName: { kind: "string" },
+  customerAddress: { kind: "string" },
+  issueDate: { kind: "string" },
+  expiryDate: { kind: "string" },
+  dueDate: { kind: "string" },
+  reference: { kind: "string" },
+  publicComments: { kind: "string" },
+  internalNotes: { kind: "string" },
+  currency: { kind: "string", fallback: "ZAR" },
+  status: { kind: "string", fallback: "draft" },
+  vatRate: { kind: "decimal", fallback: 0 },
+  subtotal: { kind: "decimal", fallback: 0 },
+  vat: { kind: "decimal", fallback: 0 },
+  total: { kind: "decimal", fallback: 0 },
+  deletedAt: { kind: "date" },
+};
+
+const PURCHASE_ORDER_FIELDS: Record<string, FieldSpec> = {
+  number: { kind: "string" },
+  supplierId: { kind: "string" },
+  supplierName: { kind: "string" },
+  supplierAddress: { kind: "string" },
+  issueDate: { kind: "string" },
+  expectedDeliveryDate: { kind: "string" },
+  reference: { kind: "string" },
+  publicComments: { kind: "string" },
+  internalNotes: { kind: "string" },
+  currency: { kind: "string", fallback: "ZAR" },
+  status: { kind: "string", fallback: "draft" },
+  vatRate: { kind: "decimal", fallback: 0 },
+  subtotal: { kind: "decimal", fallback: 0 },
+  vat: { kind: "decimal", fallback: 0 },
+  total: { kind: "decimal", fallback: 0 },
+  deletedAt: { kind: "date" },
+};
+
+const FIELDS_BY_ENTITY: Record<MergeEntityType, Record<string, FieldSpec>> = {
+  invoice: INVOICE_FIELDS,
+  quote: QUOTE_FIELDS,
+  "purchase-order": PURCHASE_ORDER_FIELDS,
+};
+
+// Keys that describe the sync exchange itself rather than the document.
+const SYNC_META_KEYS = new Set([
+  "id",
+  "userId",
+  "companyId",
+  "entityType",
+  "type",
+  "syncRevision",
+  "createdAt",
+  "updatedAt",
+  "forceConflictResolution",
+  "baseRemoteRevision",
+  "baseRevision",
+  "baseRemoteUpdatedAt",
+  "lastKnownRemoteUpdatedAt",
+]);
+
+export type MergeOutcome =
+  | { kind: "merged"; payload: Record<string, unknown>; mergedFields: string[] }
+  | { kind: "conflict"; conflictFields: string[]; baseRecord: Record<string, unknown> | null };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function normalizeField(spec: FieldSpec, value: unknown): unknown {
+  if (spec.kind === "date") {
+    if (value == null || value === "") return null;
+    const d = value instanceof Date ? value : new Date(value as string | number);
+    return Number.isNaN(d.getTime()) ? null : d.toISOString();
+  }
+
+  if (spec.kind === "decimal") {
+    const n = value == null || value === "" ? NaN : Number(value);
+    return Number.isFinite(n) ? n : spec.fallback ?? null;
+  }
+
+  const s = value == null ? "" : String(value).trim();
+  return s || (spec.fallback ?? null);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function collectExtras(
+  fields: Record<string, FieldSpec>,
+  source: unknown,
+  into: Record<string, unknown>
+) {
+  if (!isPlainObject(source)) return;
+  for (const [key, value] of Object.entries(source)) {
+    if (key in fields || SYNC_META_KEYS.has(key)) continue;
+    into[key] = value;
+  }
+}
+
+/**
+ * Flattens a record into mergeable fields: the columns, plus the keys of
+ * `extras` that are not columns. Stored rows keep those keys in their `data`
+ * blob; incoming payloads send them side by side with the columns.
+ */
+function toDocument(
+  fields: Record<string, FieldSpec>,
+  values: Record<string, unknown>,
+  extras: unknown
+) {
+  const doc: Record<string, unknown> = {};
+  collectExtras(fields, extras, doc);
+  for (const [key, spec] of Object.entries(fields)) {
+    doc[key] = normalizeField(spec, values[key]);
+  }
+  return doc;
+}
+
+function orderFields(fields: Record<string, FieldSpec>, keys: Iterable<string>) {
+  const columns = Object.keys(fields);
+  const set = new Set(keys);
+  return [
+    ...columns.filter((key) => set.has(key)),
+    ...[...set].filter((key) => !(key in fields)).sort(),
+  ];
+}
+
+/**
+ * Merges an incoming write into the cloud copy using the snapshot at the
+ * device's base revision.
+ *
+ * `partial` is for PUT-style payloads where an omitted column means "unchanged";
+ * pass `client` when already inside a transaction.
+ * Without a base snapshot (rows written before snapshots existed) there is
+ * nothing to merge against, so every field that differs is reported.
+ */
+export async function mergeWithCloud(
+  entityType: MergeEntityType,
+  companyId: string,
+  serverRecord: Record<string, unknown> & { id: string },
+  body: Record<string, unknown>,
+  options: { partial?: boolean; client?: Prisma.TransactionClient } = {}
+): Promise<MergeOutcome> {
+  const fields = FIELDS_BY_ENTITY[entityType];
+
+  const baseRecord = await findRecordSnapshot(
+    entityType,
+    companyId,
+    serverRecord.id,
+    { syncRevision: parseBaseRevision(body), updatedAt: parseBaseUpdatedAt(body) },
+    options.client
+  );
+
+  const serverDoc = toDocument(fields, serverRecord, serverRecord.data);
+  const baseDoc = baseRecord ? toDocument(fields, baseRecord, baseRecord.data) : null;
+  const localDoc = toDocument(fields, body, body);
+
+  if (options.partial) {
+    for (const key of Object.keys(fields)) {
+      if (body[key] === undefined) localDoc[key] = (baseDoc ?? serverDoc)[key];
+    }
+  }
+
+  const keys = orderFields(fields, [
+    ...Object.keys(serverDoc),
+    ...Object.keys(localDoc),
+    ...Object.keys(baseDoc ?? {}),
+  ]);
+
+  if (!baseDoc) {
+    const conflictFields = keys.filter((key) => !sameValue(localDoc[key], serverDoc[key]));
+    return conflictFields.length > 0
+      ? { kind: "conflict", conflictFields, baseRecord: null }
+      : { kind: "merged", payload: body, mergedFields: [] };
+  }
+
+  const conflictFields: string[] = [];
+  const mergedFields: string[] = [];
+
+  for (const key of keys) {
+    const localChanged = !sameValue(localDoc[key], baseDoc[key]);
+    const cloudChanged = !sameValue(serverDoc[key], baseDoc[key]);
+
+    if (localChanged && cloudChanged && !sameValue(localDoc[key], serverDoc[key])) {
+      conflictFields.push(key);
+    } else if (cloudChanged && !localChanged) {
+      mergedFields.push(key);
+    }
+  }
+
+  if (conflictFields.length > 0) {
+    return { kind: "conflict", conflictFields, baseRecord };
+  }
+
+  const payload: Record<string, unknown> = { ...body };
+  for (const key of mergedFields) {
+    payload[key] = serverDoc[key] ?? null;
+  }
+
+  return { kind: "merged", payload, mergedFields };
+}
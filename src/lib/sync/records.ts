@@ -0,0 +1,270 @@
+import type { Prisma } from "@prisma/client";
+
+import { lineItemSelect, mapLineItemForResponse } from "@/lib/lineItems";
+import { invoiceStatusAsOf } from "@/lib/payments";
+
+/**
+ * Shared select shapes + response mappers for the sync routes, so the batch
+ * push/pull endpoints return exactly what the per-entity routes return.
+ */
+
+export const invoiceSelect = {
+  id: true,
+  number: true,
+  customerId: true,
+  customerName: true,
+  customerAddress: true,
+  issueDate: true,
+  dueDate: true,
+  paidDate: true,
+  reference: true,
+  publicComments: true,
+  internalNotes: true,
+  currency: true,
+  status: true,
+  vatRate: true,
+  subtotal: true,
+  vat: true,
+  total: true,
+  balance: true,
+  sourceQuoteId: true,
+  data: true,
+  lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const quoteSelect = {
+  id: true,
+  number: true,
+  customerId: true,
+  customerName: true,
+  customerAddress: true,
+  issueDate: true,
+  expiryDate: true,
+  dueDate: true,
+  reference: true,
+  publicComments: true,
+  internalNotes: true,
+  currency: true,
+  status: true,
+  vatRate: true,
+  subtotal: true,
+  vat: true,
+  total: true,
+  data: true,
+  lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const purchaseOrderSelect = {
+  id: true,
+  number: true,
+  supplierId: true,
+  supplierName: true,
+  supplierAddress: true,
+  issueDate: true,
+  expectedDeliveryDate: true,
+  reference: true,
+  publicComments: true,
+  internalNotes: true,
+  currency: true,
+  status: true,
+  vatRate: true,
+  subtotal: true,
+  vat: true,
+  total: true,
+  data: true,
+  lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const creditNoteSelect = {
+  id: true,
+  invoiceId: true,
+  number: true,
+  customerId: true,
+  customerName: true,
+  customerAddress: true,
+  issueDate: true,
+  reason: true,
+  publicComments: true,
+  internalNotes: true,
+  currency: true,
+  status: true,
+  vatRate: true,
+  subtotal: true,
+  vat: true,
+  total: true,
+  data: true,
+  lineItems: { select: lineItemSelect, orderBy: { position: "asc" } },
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const customerPaymentSelect = {
+  id: true,
+  invoiceId: true,
+  paidOn: true,
+  amount: true,
+  method: true,
+  reference: true,
+  notes: true,
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const productSelect = {
+  id: true,
+  kind: true,
+  sku: true,
+  name: true,
+  description: true,
+  unitPrice: true,
+  vatRate: true,
+  unit: true,
+  isActive: true,
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const companySelect = {
+  id: true,
+  name: true,
+  isActive: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const companySettingsSelect = {
+  id: true,
+  userId: true,
+  companyId: true,
+  companyName: true,
+  tradingName: true,
+  registrationNo: true,
+  vatNumber: true,
+  email: true,
+  phone: true,
+  website: true,
+  addressLine1: true,
+  addressLine2: true,
+  suburb: true,
+  city: true,
+  province: true,
+  postalCode: true,
+  country: true,
+  currency: true,
+  vatRateDefault: true,
+  quotePrefix: true,
+  invoicePrefix: true,
+  creditNotePrefix: true,
+  purchaseOrderPrefix: true,
+  quoteTerms: true,
+  invoiceTerms: true,
+  bankName: true,
+  bankAccountName: true,
+  bankAccountNo: true,
+  bankBranchCode: true,
+  bankAccountType: true,
+  logoUrl: true,
+  accentColor: true,
+  raw: true,
+  syncRevision: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export type InvoiceRow = Prisma.InvoiceGetPayload<{ select: typeof invoiceSelect }>;
+export type QuoteRow = Prisma.QuoteGetPayload<{ select: typeof quoteSelect }>;
+export type PurchaseOrderRow = Prisma.PurchaseOrderGetPayload<{ select: typeof purchaseOrderSelect }>;
+export type CreditNoteRow = Prisma.CreditNoteGetPayload<{ select: typeof creditNoteSelect }>;
+export type CustomerPaymentRow = Prisma.CustomerPaymentGetPayload<{ select: typeof customerPaymentSelect }>;
+export type ProductRow = Prisma.ProductGetPayload<{ select: typeof productSelect }>;
+export type CompanySettingsRow = Prisma.CompanySettingsGetPayload<{
+  select: typeof companySettingsSelect;
+}>;
+
+export function mapInvoiceForResponse(row: InvoiceRow) {
+  return {
+    ...row,
+    status: invoiceStatusAsOf(row),
+    vatRate: Number(row.vatRate),
+    subtotal: Number(row.subtotal),
+    vat: Number(row.vat),
+    total: Number(row.total),
+    balance: row.balance == null ? null : Number(row.balance),
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+  };
+}
+
+export function mapQuoteForResponse(row: QuoteRow) {
+  return {
+    ...row,
+    vatRate: Number(row.vatRate),
+    subtotal: Number(row.subtotal),
+    vat: Number(row.vat),
+    total: Number(row.total),
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+  };
+}
+
+export function mapPurchaseOrderForResponse(row: PurchaseOrderRow) {
+  return {
+    ...row,
+    vatRate: Number(row.vatRate),
+    subtotal: Number(row.subtotal),
+    vat: Number(row.vat),
+    total: Number(row.total),
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+  };
+}
+
+export function mapCreditNoteForResponse(row: CreditNoteRow) {
+  return {
+    ...row,
+    vatRate: Number(row.vatRate),
+    subtotal: Number(row.subtotal),
+    vat: Number(row.vat),
+    total: Number(row.total),
+    lineItems: row.lineItems.map(mapLineItemForResponse),
+  };
+}
+
+export function mapCustomerPaymentForResponse(row: CustomerPaymentRow) {
+  return {
+    ...row,
+    amount: Number(row.amount),
+  };
+}
+
+export function mapProductForResponse(row: ProductRow) {
+  return {
+    ...row,
+    unitPrice: Number(row.unitPrice),
+    vatRate: Number(row.vatRate),
+  };
+}
+
+export function mapCompanySettingsForResponse(row: CompanySettingsRow) {
+  return {
+    ...row,
+    vatRateDefault: row.vatRateDefault == null ? null : Number(row.vatRateDefault),
+  };
+}
@@ -0,0 +1,86 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Server-assigned sync revisions.
+ *
+ * Every write to a synced row (Customer, Quote, Invoice, CompanySettings) takes
+ * the next number from its company's counter inside the same transaction. The
+ * counter row stays locked until commit, so revisions become visible to pulling
+ * clients in strictly increasing order and never depend on a device's clock.
+ */
+export async function allocateSyncRevision(
+  tx: Prisma.TransactionClient,
+  companyId: string
+): Promise<number> {
+  const counter = await tx.companySyncCounter.upsert({
+    where: { companyId },
+    create: { companyId, lastRevision: 1 },
+    update: { lastRevision: { increment: 1 } },
+    select: { lastRevision: true },
+  });
+
+  return counter.lastRevision;
+}
+
+export function parseSyncRevision(value: unknown): number | null {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) {
+    const n = Number(value.trim());
+    return Number.isSafeInteger(n) ? n : null;
+  }
+
+  return null;
+}
+
+function parseDateValue(value: unknown): Date | null {
+  if (value == null || value === "") return null;
+  const d = value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** The cloud revision the device last pulled, if it reported one. */
+export function parseBaseRevision(body: Record<string, unknown> | null | undefined) {
+  return parseSyncRevision(body?.baseRemoteRevision ?? body?.baseRevision);
+}
+
+/** The cloud updatedAt the device last pulled; only older desktop builds rely on this. */
+export function parseBaseUpdatedAt(body: Record<string, unknown> | null | undefined) {
+  return parseDateValue(body?.baseRemoteUpdatedAt ?? body?.lastKnownRemoteUpdatedAt);
+}
+
+type SyncedRow = {
+  syncRevision: number;
+  updatedAt: Date;
+};
+
+/**
+ * True when the cloud copy changed after the revision the device last pulled.
+ *
+ * Older desktop builds only send `baseRemoteUpdatedAt`; for those we still fall
+ * back to the timestamp comparison until they report `baseRemoteRevision`.
+ */
+export function hasCloudChangedSinceBase(existing: SyncedRow, body: Record<string, unknown> | null | undefined) {
+  const baseRevision = parseBaseRevision(body);
+  if (baseRevision != null) {
+    return existing.syncRevision > baseRevision;
+  }
+
+  const baseRemoteUpdatedAt = parseBaseUpdatedAt(body);
+  return !!baseRemoteUpdatedAt && existing.updatedAt > baseRemoteUpdatedAt;
+}
+
+/**
+ * Legacy "incoming copy is older than the cloud" check. Only applies to
+ * clients that have not sent a base revision, since it trusts the device clock.
+ */
+export function isIncomingOlderThanCloud(existing: SyncedRow, body: Record<string, unknown> | null | undefined) {
+  if (parseBaseRevision(body) != null) {
+    return false;
+  }
+
+  const incomingUpdatedAt = parseDateValue(body?.updatedAt);
+  return !!incomingUpdatedAt && existing.updatedAt > incomingUpdatedAt;
+}
@@ -0,0 +1,52 @@
+import type { Prisma } from "@prisma/client";
+
+import { loadInvoiceLedger, settleInvoice } from "@/lib/payments";
+import { invoiceSelect, mapInvoiceForResponse } from "@/lib/sync/records";
+import { allocateSyncRevision } from "@/lib/sync/revision";
+import { saveRecordSnapshot } from "@/lib/sync/snapshots";
+
+type SettlementAuthor = {
+  userId: string;
+  companyId: string;
+  sessionId?: string | null;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Writes the ledger's balance/status/paidDate onto the invoice as a new
+ * revision, so devices pull the settled invoice along with the payment or
+ * credit note that changed it.
+ */
+export async function writeInvoiceSettlement(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  author: SettlementAuthor
+) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    select: { total: true, status: true, dueDate: true, data: true },
+  });
+
+  const ledger = await loadInvoiceLedger(tx, invoiceId);
+  const settlement = settleInvoice(
+    { total: Number(invoice.total), status: invoice.status, dueDate: invoice.dueDate },
+    ledger
+  );
+
+  const updated = await tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      ...settlement,
+      data: isPlainObject(invoice.data)
+        ? ({ ...invoice.data, ...settlement } as Prisma.InputJsonObject)
+        : undefined,
+      syncRevision: await allocateSyncRevision(tx, author.companyId),
+    },
+    select: invoiceSelect,
+  });
+  await saveRecordSnapshot(tx, "invoice", author, "update", mapInvoiceForResponse(updated));
+  return updated;
+}
@@ -0,0 +1,154 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+
+export type SnapshotEntityType =
+  | "invoice"
+  | "quote"
+  | "customer"
+  | "supplier"
+  | "product"
+  | "credit-note"
+  | "purchase-order";
+
+export type RevisionAction = "create" | "update" | "delete" | "restore";
+
+type RevisionAuthor = {
+  userId: string;
+  companyId: string;
+  sessionId?: string | null;
+};
+
+type SnapshotRecord = {
+  id: string;
+  syncRevision: number;
+  updatedAt: Date;
+};
+
+/**
+ * Appends the record as written at its sync revision, along with the session
+ * that wrote it. The history is append-only: it is the "base" a device edited
+ * from (so later writes can be merged field by field) and the version list a
+ * user can restore from after a conflict overwrote something.
+ *
+ * `record` should be the mapped response shape, so a snapshot reads back
+ * exactly like the row the device pulled.
+ */
+export async function saveRecordSnapshot(
+  tx: Prisma.TransactionClient,
+  entityType: SnapshotEntityType,
+  author: RevisionAuthor,
+  action: RevisionAction,
+  record: SnapshotRecord
+) {
+  await tx.recordRevision.create({
+    data: {
+      userId: author.userId,
+      companyId: author.companyId,
+      sessionId: author.sessionId ?? null,
+      entityType,
+      entityId: record.id,
+      syncRevision: record.syncRevision,
+      action,
+      recordUpdatedAt: record.updatedAt,
+      snapshot: JSON.parse(JSON.stringify(record)) as Prisma.InputJsonObject,
+    },
+  });
+}
+
+/**
+ * Finds the snapshot a device based its edit on, by revision when the device
+ * reported one, otherwise by the cloud updatedAt older builds remember.
+ */
+export async function findRecordSnapshot(
+  entityType: SnapshotEntityType,
+  companyId: string,
+  entityId: string,
+  base: { syncRevision: number | null; updatedAt: Date | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<Record<string, unknown> | null> {
+  if (base.syncRevision == null && !base.updatedAt) return null;
+
+  const row = await client.recordRevision.findFirst({
+    where: {
+      companyId,
+      entityType,
+      entityId,
+      ...(base.syncRevision != null
+        ? { syncRevision: base.syncRevision }
+        : { recordUpdatedAt: base.updatedAt! }),
+    },
+    orderBy: { syncRevision: "desc" },
+    select: { snapshot: true },
+  });
+
+  const snapshot = row?.snapshot;
+  return snapshot && typeof snapshot === "object" && !Array.isArray(snapshot)
+    ? (snapshot as Record<string, unknown>)
+    : null;
+}
+
+const revisionSelect = {
+  id: true,
+  entityType: true,
+  entityId: true,
+  syncRevision: true,
+  action: true,
+  recordUpdatedAt: true,
+  snapshot: true,
+  createdAt: true,
+  session: {
+    select: {
+      id: true,
+      userAgent: true,
+      ip: true,
+      createdAt: true,
+      revokedAt: true,
+    },
+  },
+} as const;
+
+type RevisionRow = Prisma.RecordRevisionGetPayload<{ select: typeof revisionSelect }>;
+
+export function mapRevisionForResponse(row: RevisionRow) {
+  return {
+    id: row.id,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    syncRevision: row.syncRevision,
+    action: row.action,
+    recordUpdatedAt: row.recordUpdatedAt,
+    createdAt: row.createdAt,
+    session: row.session,
+    record: row.snapshot,
+  };
+}
+
+/** Newest first; kept even after the record itself is purged, so it can be restored. */
+export async function listRecordRevisions(
+  entityType: SnapshotEntityType,
+  userId: string,
+  companyId: string,
+  entityId: string,
+  take: number
+) {
+  return prisma.recordRevision.findMany({
+    where: { userId, companyId, entityType, entityId },
+    orderBy: { syncRevision: "desc" },
+    take,
+    select: revisionSelect,
+  });
+}
+
+export async function findRecordRevision(
+  entityType: SnapshotEntityType,
+  userId: string,
+  companyId: string,
+  entityId: string,
+  revisionId: string
+) {
+  return prisma.recordRevision.findFirst({
+    where: { id: revisionId, userId, companyId, entityType, entityId },
+    select: revisionSelect,
+  });
+}
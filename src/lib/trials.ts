@@ -0,0 +1,84 @@
+import type { Entitlement, TrialSource } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { withoutCapabilityOverrides } from "@/lib/entitlements";
+
+/**
+ * Time-boxed trials.
+ *
+ * A trial is the `trial` entitlement tier plus `trialStartedAt`/`trialEndsAt`
+ * and where it came from (`trialSource`). Capabilities come from the trial
+ * tier in `resolveEntitlementSnapshot`, which already treats a trial past its
+ * end as free; `/api/entitlement` then writes the downgrade to free alongside
+ * its grace-period handling. The trial columns are kept after expiry or an
+ * upgrade, so an account only ever gets one signup trial.
+ */
+
+export const TRIAL_DAYS = Math.max(1, Number(process.env.TRIAL_DAYS || "14") || 14);
+
+const MS_DAY = 24 * 60 * 60 * 1000;
+
+/** Whole days left before `trialEndsAt`, counting a partial day as one. */
+export function trialDaysRemaining(trialEndsAt: Date, now = new Date()) {
+  return Math.max(0, Math.ceil((trialEndsAt.getTime() - now.getTime()) / MS_DAY));
+}
+
+/** What `/api/entitlement` reports for a trial, or null when the account is not on one. */
+export function describeTrial(
+  ent: Pick<Entitlement, "tier" | "trialSource" | "trialStartedAt" | "trialEndsAt"> | null,
+  now = new Date()
+) {
+  if (!ent || ent.tier !== "trial" || !ent.trialEndsAt) return null;
+
+  return {
+    source: ent.trialSource,
+    startedAt: ent.trialStartedAt ? ent.trialStartedAt.toISOString() : null,
+    endsAt: ent.trialEndsAt.toISOString(),
+    daysRemaining: trialDaysRemaining(ent.trialEndsAt, now),
+  };
+}
+
+/**
+ * Puts the user on a trial for `days`, unless they already pay or are blocked.
+ *
+ * A signup trial is only granted once per account; admin and promo trials may
+ * be granted again (or extended) whenever the account is not on a paid plan.
+ * Returns the trial's end, or null when none was granted.
+ */
+export async function startTrial(
+  userId: string,
+  source: TrialSource,
+  days = TRIAL_DAYS
+): Promise<Date | null> {
+  const existing = await prisma.entitlement.findUnique({
+    where: { userId },
+    select: { tier: true, status: true, features: true, trialStartedAt: true },
+  });
+
+  if (existing) {
+    if (existing.status === "blocked") return null;
+    if (existing.tier !== "none" && existing.tier !== "free" && existing.tier !== "trial") {
+      return null;
+    }
+    if (source === "signup" && existing.trialStartedAt) return null;
+  }
+
+  const now = new Date();
+  const trialEndsAt = new Date(now.getTime() + Math.max(1, Math.floor(days)) * MS_DAY);
+  const trial = {
+    tier: "trial" as const,
+    status: "active" as const,
+    features: withoutCapabilityOverrides(existing?.features ?? null),
+    trialSource: source,
+    trialStartedAt: now,
+    trialEndsAt,
+  };
+
+  await prisma.entitlement.upsert({
+    where: { userId },
+    create: { userId, ...trial },
+    update: trial,
+  });
+
+  return trialEndsAt;
+}
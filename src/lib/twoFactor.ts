@@ -0,0 +1,208 @@
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { sha256 } from "@/lib/token";
+
+/**
+ * Authenticator-app (TOTP) two-factor authentication.
+ *
+ * Codes follow RFC 6238 with the defaults every authenticator app expects:
+ * HMAC-SHA1, 6 digits, 30-second steps. Setup stores `totpSecret` with
+ * `totpEnabledAt` unset; 2FA is only on once a code from the app confirms the
+ * secret. The last accepted step is kept in `totpLastUsedStep`, so a code
+ * cannot be used twice. Recovery codes are single-use and stored hashed.
+ */
+
+export const TOTP_ISSUER = process.env.TOTP_ISSUER || "eKasiBooks";
+export const RECOVERY_CODE_COUNT = 10;
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// One step either side of now, for phones whose clock is slightly off.
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+export type SecondFactorInput = {
+  code?: unknown;
+  recoveryCode?: unknown;
+};
+
+/** Columns to write when 2FA is switched off or reset by an admin. */
+export const TWO_FACTOR_CLEARED = {
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedStep: null,
+} as const;
+
+function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const ch of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(ch);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function totpAt(key: Buffer, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return String(binary).padStart(TOTP_DIGITS, "0");
+}
+
+/** A new random secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** The `otpauth://` URI the QR code encodes. */
+export function totpUri(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const qs = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${qs.toString()}`;
+}
+
+/**
+ * The time step `code` was generated for, or null when it does not match.
+ * Steps at or before `lastUsedStep` are refused, so a code is only good once.
+ */
+export function matchTotpStep(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  now = Date.now()
+): number | null {
+  const clean = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(clean)) return null;
+
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = current + offset;
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(totpAt(key, step)), Buffer.from(clean))) return step;
+  }
+
+  return null;
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+// Salted with the user id, so equal codes on two accounts never clash on the unique hash.
+function recoveryCodeHash(userId: string, code: string) {
+  return sha256(`${userId}:${normalizeRecoveryCode(code)}`);
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set and returns them in
+ * plain text. They are shown once and cannot be read back afterwards.
+ */
+export async function replaceRecoveryCodes(tx: Prisma.TransactionClient, userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await tx.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: recoveryCodeHash(userId, code) })),
+  });
+
+  return codes;
+}
+
+/**
+ * Checks a TOTP code (or, failing that, a recovery code) for a user with 2FA
+ * on, and uses it up. Returns how the user proved it, or null.
+ */
+export async function consumeSecondFactor(
+  userId: string,
+  input: SecondFactorInput
+): Promise<SecondFactorMethod | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) return null;
+
+  const code = String(input.code ?? "").trim();
+  if (code) {
+    const step = matchTotpStep(user.totpSecret, code, user.totpLastUsedStep);
+    if (step == null) return null;
+
+    // Conditional on the stored step, so two requests racing with one code cannot both pass.
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return claimed.count === 1 ? "totp" : null;
+  }
+
+  const recoveryCode = String(input.recoveryCode ?? "").trim();
+  if (recoveryCode) {
+    const used = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: recoveryCodeHash(userId, recoveryCode), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return used.count === 1 ? "recovery_code" : null;
+  }
+
+  return null;
+}
+
+/** Whether accounts with `role` must have 2FA on (see `RolePolicy`). */
+export async function roleRequiresTwoFactor(role: string | null | undefined) {
+  const policy = await prisma.rolePolicy.findUnique({
+    where: { role: String(role || "user").trim().toLowerCase() },
+    select: { requireTwoFactor: true },
+  });
+  return policy?.requireTwoFactor ?? false;
+}